@@ -0,0 +1,28 @@
+#!/usr/bin/env tsx
+
+/**
+ * Background work for personal data: builds pending exports, deletes expired
+ * export archives and anonymizes accounts whose deletion grace period is over.
+ * Run it regularly, e.g. every 10 minutes from cron.
+ *
+ * Usage: npm run jobs:account-data
+ */
+
+import prisma from '../src/lib/prisma';
+import { DataExportService } from '../src/services/data-export.service';
+import { AccountDeletionService } from '../src/services/account-deletion.service';
+
+async function main() {
+  const exportsBuilt = await DataExportService.processPendingExports();
+  const exportsExpired = await DataExportService.deleteExpiredExports();
+  const accountsDeleted = await AccountDeletionService.processDueDeletions();
+
+  console.log(`Exports built: ${exportsBuilt}, expired archives removed: ${exportsExpired}, accounts deleted: ${accountsDeleted}`);
+}
+
+main()
+  .catch(error => {
+    console.error('Account data jobs failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
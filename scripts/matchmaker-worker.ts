@@ -0,0 +1,29 @@
+#!/usr/bin/env tsx
+
+/**
+ * Background matchmaker: pairs waiting users every MATCHMAKER_INTERVAL_MS
+ * (5s by default) and notifies both through the queue sockets. Several
+ * workers can run side by side; per-user locks keep them from claiming the
+ * same user.
+ *
+ * Usage: npm run worker:matchmaker
+ */
+
+import prisma from '../src/lib/prisma';
+import redis from '../src/lib/redis';
+import { MATCHMAKER_CONFIG } from '../src/lib/matchmaker';
+import { MatchmakerService } from '../src/services/matchmaker.service';
+
+async function shutdown() {
+  // Let a run in progress finish before its connections go away
+  await MatchmakerService.stop();
+  await prisma.$disconnect();
+  await redis.quit();
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+MatchmakerService.start();
+console.log(`Matchmaker running every ${MATCHMAKER_CONFIG.INTERVAL_MS}ms`);
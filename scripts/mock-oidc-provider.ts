@@ -0,0 +1,38 @@
+#!/usr/bin/env tsx
+
+/**
+ * Local OpenID Connect provider for trying provider sign-in without a real
+ * identity provider. Prints the OIDC_PROVIDERS value to put in .env.local.
+ *
+ * Usage: npm run oidc:mock [-- --port 9400]
+ */
+
+import { startMockOidcProvider } from '../src/lib/oidc-mock-provider';
+
+async function main() {
+  const portFlag = process.argv.indexOf('--port');
+  const port = portFlag !== -1 ? Number(process.argv[portFlag + 1]) : 9400;
+
+  const provider = await startMockOidcProvider({ port });
+
+  console.log(`Mock OIDC provider listening at ${provider.issuer}`);
+  console.log('Add this to .env.local and restart the dev server:');
+  console.log(`OIDC_PROVIDERS='${JSON.stringify([{
+    id: 'mock',
+    name: 'Mock Provider',
+    issuer: provider.issuer,
+    clientId: provider.clientId,
+  }])}'`);
+
+  const shutdown = async () => {
+    await provider.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start mock OIDC provider:', error);
+  process.exit(1);
+});
@@ -8,6 +8,10 @@ import {
   verifyRefreshToken,
   generatePasswordResetToken,
   verifyPasswordResetToken,
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
   extractTokenFromHeader,
   validatePasswordStrength,
 } from '@/lib/auth';
@@ -30,6 +34,7 @@ describe('Authentication Library', () => {
     username: 'testuser',
     isVerified: true,
     timezone: 'UTC',
+    roles: ['member', 'moderator'],
   };
 
   describe('Password Hashing', () => {
@@ -108,6 +113,14 @@ describe('Authentication Library', () => {
       expect(decoded?.userId).toBe(mockUser.id);
       expect(decoded?.email).toBe(mockUser.email);
       expect(decoded?.username).toBe(mockUser.username);
+      expect(decoded?.roles).toEqual(['member', 'moderator']);
+    });
+
+    it('should treat tokens issued before roles existed as members', () => {
+      const legacyUser = { ...mockUser, roles: undefined } as unknown as AuthUser;
+      const decoded = verifyAccessToken(generateAccessToken(legacyUser));
+
+      expect(decoded?.roles).toEqual(['member']);
     });
 
     it('should reject invalid access tokens', () => {
@@ -154,6 +167,33 @@ describe('Authentication Library', () => {
 
       expect(decoded).toBeNull();
     });
+
+    it('should verify valid email verification tokens', () => {
+      const token = generateEmailVerificationToken(mockUser.id, mockUser.email);
+      const decoded = verifyEmailVerificationToken(token);
+
+      expect(decoded).toEqual({ userId: mockUser.id, email: mockUser.email });
+    });
+
+    it('should not accept password reset tokens for email verification', () => {
+      const resetToken = generatePasswordResetToken(mockUser.id, mockUser.email);
+
+      expect(verifyEmailVerificationToken(resetToken)).toBeNull();
+      expect(verifyPasswordResetToken(generateEmailVerificationToken(mockUser.id, mockUser.email))).toBeNull();
+    });
+
+    it('should verify two-factor challenge tokens', () => {
+      const token = generateTwoFactorChallengeToken(mockUser.id);
+
+      expect(verifyTwoFactorChallengeToken(token)).toEqual({ userId: mockUser.id });
+      expect(verifyTwoFactorChallengeToken(generateAccessToken(mockUser))).toBeNull();
+    });
+
+    it('should not accept purpose-specific tokens as access tokens', () => {
+      expect(verifyAccessToken(generateTwoFactorChallengeToken(mockUser.id))).toBeNull();
+      expect(verifyAccessToken(generatePasswordResetToken(mockUser.id, mockUser.email))).toBeNull();
+      expect(verifyAccessToken(generateEmailVerificationToken(mockUser.id, mockUser.email))).toBeNull();
+    });
   });
 
   describe('Token Header Extraction', () => {
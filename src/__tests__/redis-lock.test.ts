@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { withRedisLocks } from '@/lib/redis-lock';
+import redis from '@/lib/redis';
+
+vi.mock('@/lib/redis', () => ({
+  default: {
+    set: vi.fn(),
+    eval: vi.fn(),
+  },
+}));
+
+const options = { ttlMs: 5000, onBusy: () => new Error('busy') };
+
+describe('withRedisLocks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (redis.set as any).mockResolvedValue('OK');
+  });
+
+  it('should take every key in a stable order and release each with its token', async () => {
+    const result = await withRedisLocks(['lock:b', 'lock:a', 'lock:b'], options, async () => 'done');
+
+    expect(result).toBe('done');
+    expect((redis.set as any).mock.calls.map((call: any[]) => call[0])).toEqual(['lock:a', 'lock:b']);
+    expect(redis.set).toHaveBeenCalledWith('lock:a', expect.any(String), 'PX', 5000, 'NX');
+
+    const token = (redis.set as any).mock.calls[0][1];
+    expect(redis.eval).toHaveBeenCalledTimes(2);
+    expect(redis.eval).toHaveBeenCalledWith(expect.stringContaining('redis.call("del"'), 1, 'lock:a', token);
+    expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 1, 'lock:b', token);
+  });
+
+  it('should release the locks when the callback throws', async () => {
+    await expect(withRedisLocks(['lock:a'], options, async () => {
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+
+    expect(redis.eval).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the busy error and release only what it took', async () => {
+    (redis.set as any).mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+    const callback = vi.fn();
+
+    await expect(withRedisLocks(['lock:a', 'lock:b'], options, callback)).rejects.toThrow('busy');
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(redis.eval).toHaveBeenCalledTimes(1);
+    expect(redis.eval).toHaveBeenCalledWith(expect.any(String), 1, 'lock:a', expect.any(String));
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * In-memory stand-in for an S3-compatible object store, for tests. Supports
+ * path-style PUT, GET and DELETE of objects and checks the SigV4 signature of
+ * every request.
+ */
+
+import { createServer, IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import { signS3Request } from '@/lib/storage';
+
+export interface MockS3Options {
+  port?: number; // 0 or omitted picks a free port
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export interface MockS3Server {
+  endpoint: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  objects: Map<string, { body: Buffer; contentType: string }>; // keyed by "bucket/key"
+  stop(): Promise<void>;
+}
+
+async function readBody(request: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseAmzDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  return match ? new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`) : null;
+}
+
+export async function startMockS3Server(options: MockS3Options = {}): Promise<MockS3Server> {
+  const region = options.region || 'us-east-1';
+  const accessKeyId = options.accessKeyId || 'mock-access-key';
+  const secretAccessKey = options.secretAccessKey || 'mock-secret-key';
+  const objects = new Map<string, { body: Buffer; contentType: string }>();
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url || '/', `http://${request.headers.host}`);
+    const body = await readBody(request);
+
+    const sendError = (status: number, code: string) => {
+      response.writeHead(status, { 'Content-Type': 'application/xml' });
+      response.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code></Error>`);
+    };
+
+    // Recompute the signature over the headers the client said it signed
+    const authorization = String(request.headers.authorization || '');
+    const signedHeaderNames = /SignedHeaders=([^,]+)/.exec(authorization)?.[1]?.split(';') ?? [];
+    const date = parseAmzDate(String(request.headers['x-amz-date'] || ''));
+    const payloadHash = String(request.headers['x-amz-content-sha256'] || '');
+
+    if (!date || payloadHash !== createHash('sha256').update(body).digest('hex')) {
+      return sendError(403, 'SignatureDoesNotMatch');
+    }
+
+    const extraHeaders = Object.fromEntries(signedHeaderNames
+      .filter(name => !['host', 'x-amz-date', 'x-amz-content-sha256'].includes(name))
+      .map(name => [name, String(request.headers[name] ?? '')]));
+    const expected = signS3Request({
+      method: request.method || 'GET',
+      url,
+      headers: extraHeaders,
+      payloadHash,
+      region,
+      accessKeyId,
+      secretAccessKey,
+      date,
+    });
+    if (expected.authorization !== authorization) {
+      return sendError(403, 'SignatureDoesNotMatch');
+    }
+
+    const objectKey = decodeURIComponent(url.pathname.slice(1));
+    if (!objectKey.includes('/')) {
+      return sendError(400, 'InvalidRequest');
+    }
+
+    switch (request.method) {
+      case 'PUT':
+        objects.set(objectKey, {
+          body,
+          contentType: String(request.headers['content-type'] || 'application/octet-stream'),
+        });
+        response.writeHead(200);
+        return response.end();
+      case 'GET': {
+        const object = objects.get(objectKey);
+        if (!object) {
+          return sendError(404, 'NoSuchKey');
+        }
+        response.writeHead(200, { 'Content-Type': object.contentType, 'Content-Length': object.body.length });
+        return response.end(object.body);
+      }
+      case 'DELETE':
+        objects.delete(objectKey);
+        response.writeHead(204);
+        return response.end();
+      default:
+        return sendError(405, 'MethodNotAllowed');
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+
+  return {
+    endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    region,
+    accessKeyId,
+    secretAccessKey,
+    objects,
+    stop: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
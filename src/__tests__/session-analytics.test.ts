@@ -13,11 +13,40 @@ vi.mock('@/lib/prisma', () => ({
       findUnique: vi.fn(),
       create: vi.fn(),
       update: vi.fn()
+    },
+    user: {
+      findUnique: vi.fn()
+    },
+    sessionFeedback: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn()
     }
   }
 }));
 
+vi.mock('@/services/skill-progress.service', () => ({
+  SkillProgressService: {
+    recordSessionSkills: vi.fn(),
+    getSkillProgression: vi.fn(() => Promise.resolve([]))
+  }
+}));
+
+vi.mock('@/services/skill-verification.service', () => ({
+  SkillVerificationService: {
+    evaluateSessionSkills: vi.fn()
+  }
+}));
+
+vi.mock('@/services/achievement.service', () => ({
+  AchievementService: {
+    getUserAchievements: vi.fn(() => Promise.resolve({ earned: [], inProgress: [] }))
+  }
+}));
+
 import { SessionAnalyticsService } from '@/services/session-analytics.service';
+import { SkillProgressService } from '@/services/skill-progress.service';
+import { AchievementService } from '@/services/achievement.service';
 import prisma from '@/lib/prisma';
 
 // Get the mocked prisma for type safety
@@ -276,6 +305,10 @@ describe('SessionAnalyticsService', () => {
 
       mockPrisma.session.findUnique.mockResolvedValue(mockSession);
       mockPrisma.session.update.mockResolvedValue(updatedSession);
+      mockPrisma.sessionFeedback.findUnique.mockResolvedValue(null);
+      mockPrisma.sessionFeedback.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 'feedback1', ...data, submittedAt: new Date() })
+      );
 
       const result = await SessionAnalyticsService.submitDetailedFeedback(
         mockSessionId,
@@ -289,6 +322,16 @@ describe('SessionAnalyticsService', () => {
       expect(result.detailedFeedback.skillsLearned).toContain('React hooks');
       expect(result.detailedFeedback.sharedResources).toHaveLength(1);
 
+      expect(mockPrisma.sessionFeedback.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          sessionId: mockSessionId,
+          userId: mockUserId,
+          difficultyLevel: 3,
+          paceRating: 4,
+          wouldRecommendPartner: true,
+          improvementSuggestions: 'More examples would be helpful'
+        })
+      });
       expect(mockPrisma.session.update).toHaveBeenCalledWith({
         where: { id: mockSessionId },
         data: {
@@ -296,6 +339,12 @@ describe('SessionAnalyticsService', () => {
           feedbackInitiator: 'Great session!'
         }
       });
+      expect(SkillProgressService.recordSessionSkills).toHaveBeenCalledWith(
+        mockSessionId,
+        mockUserId,
+        ['React hooks', 'State management'],
+        []
+      );
     });
 
     it('should handle partner feedback submission', async () => {
@@ -332,6 +381,8 @@ describe('SessionAnalyticsService', () => {
         ratingPartner: 4,
         feedbackPartner: 'Good teaching session'
       });
+      mockPrisma.sessionFeedback.findUnique.mockResolvedValue(null);
+      mockPrisma.sessionFeedback.create.mockResolvedValue({ id: 'feedback2' });
 
       await SessionAnalyticsService.submitDetailedFeedback(
         mockSessionId,
@@ -368,6 +419,114 @@ describe('SessionAnalyticsService', () => {
         )
       ).rejects.toThrow('Session not found');
     });
+
+    it('should reject a second submission from the same user', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue({
+        id: mockSessionId,
+        initiatorId: mockUserId,
+        partnerId: mockPartnerId,
+        startTime: new Date(),
+        endTime: new Date(),
+        status: 'completed'
+      });
+      mockPrisma.sessionFeedback.findUnique.mockResolvedValue({ id: 'feedback1' });
+
+      await expect(
+        SessionAnalyticsService.submitDetailedFeedback(mockSessionId, mockUserId, {
+          rating: 4,
+          skillsLearned: [],
+          skillsTaught: [],
+          learningOutcomes: [],
+          technicalIssues: [],
+          sharedResources: []
+        })
+      ).rejects.toMatchObject({ statusCode: 409 });
+
+      expect(mockPrisma.sessionFeedback.create).not.toHaveBeenCalled();
+      expect(mockPrisma.session.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject feedback for a session that has not been completed', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue({
+        id: mockSessionId,
+        initiatorId: mockUserId,
+        partnerId: mockPartnerId,
+        startTime: new Date(),
+        endTime: null,
+        status: 'scheduled'
+      });
+
+      await expect(
+        SessionAnalyticsService.submitDetailedFeedback(mockSessionId, mockUserId, {
+          rating: 4,
+          skillsLearned: [],
+          skillsTaught: [],
+          learningOutcomes: [],
+          technicalIssues: [],
+          sharedResources: []
+        })
+      ).rejects.toThrow('completed sessions');
+    });
+  });
+
+  describe('updateDetailedFeedback', () => {
+    const completedSession = {
+      id: mockSessionId,
+      initiatorId: mockUserId,
+      partnerId: mockPartnerId,
+      startTime: new Date(),
+      endTime: new Date(),
+      status: 'completed'
+    };
+
+    const editedFeedback = {
+      rating: 3,
+      feedback: 'Changed my mind',
+      skillsLearned: ['Testing'],
+      skillsTaught: [],
+      learningOutcomes: [],
+      technicalIssues: [],
+      sharedResources: []
+    };
+
+    it('should update feedback within the edit window', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue(completedSession);
+      mockPrisma.sessionFeedback.findUnique.mockResolvedValue({
+        id: 'feedback1',
+        submittedAt: new Date(Date.now() - 60 * 60 * 1000)
+      });
+      mockPrisma.sessionFeedback.update.mockResolvedValue({ id: 'feedback1', rating: 3 });
+
+      const result = await SessionAnalyticsService.updateDetailedFeedback(
+        mockSessionId,
+        mockUserId,
+        editedFeedback
+      );
+
+      expect(result.detailedFeedback.rating).toBe(3);
+      expect(mockPrisma.sessionFeedback.update).toHaveBeenCalledWith({
+        where: { id: 'feedback1' },
+        data: expect.objectContaining({
+          rating: 3,
+          skillsLearned: ['Testing'],
+          editCount: { increment: 1 }
+        })
+      });
+    });
+
+    it('should reject edits after the edit window closed', async () => {
+      mockPrisma.session.findUnique.mockResolvedValue(completedSession);
+      mockPrisma.sessionFeedback.findUnique.mockResolvedValue({
+        id: 'feedback1',
+        submittedAt: new Date(Date.now() - 48 * 60 * 60 * 1000)
+      });
+
+      await expect(
+        SessionAnalyticsService.updateDetailedFeedback(mockSessionId, mockUserId, editedFeedback)
+      ).rejects.toMatchObject({ statusCode: 403 });
+
+      expect(mockPrisma.sessionFeedback.update).not.toHaveBeenCalled();
+    });
   });
 
   describe('getSessionFeedback', () => {
@@ -409,6 +568,52 @@ describe('SessionAnalyticsService', () => {
       expect(result.partnerFeedback.feedback).toBe('Very helpful');
     });
 
+    it('should return detailed feedback for both participants', async () => {
+      const submittedAt = new Date();
+
+      mockPrisma.session.findUnique.mockResolvedValue({
+        id: mockSessionId,
+        initiatorId: mockUserId,
+        partnerId: mockPartnerId,
+        ratingInitiator: 5,
+        ratingPartner: 4,
+        feedbackInitiator: 'Great session!',
+        feedbackPartner: 'Very helpful',
+        status: 'completed',
+        feedback: [
+          {
+            userId: mockUserId,
+            rating: 5,
+            feedback: 'Great session!',
+            skillsLearned: ['React hooks'],
+            paceRating: 4,
+            sharedResources: [],
+            submittedAt
+          },
+          {
+            userId: mockPartnerId,
+            rating: 4,
+            feedback: 'Very helpful',
+            skillsTaught: ['React hooks'],
+            wouldRecommendPartner: true,
+            sharedResources: [{ type: 'link', title: 'Docs', content: 'React docs', url: 'https://react.dev' }],
+            submittedAt
+          }
+        ]
+      });
+
+      const result = await SessionAnalyticsService.getSessionFeedback(mockSessionId, mockUserId);
+
+      expect(result.session.feedback).toBeUndefined();
+      expect(result.userFeedback.submitted).toBe(true);
+      expect(result.userFeedback.skillsLearned).toEqual(['React hooks']);
+      expect(result.userFeedback.canEdit).toBe(true);
+      expect(result.partnerFeedback.submitted).toBe(true);
+      expect(result.partnerFeedback.wouldRecommendPartner).toBe(true);
+      expect(result.partnerFeedback.sharedResources).toHaveLength(1);
+      expect(result.partnerFeedback.canEdit).toBeUndefined();
+    });
+
     it('should throw error for unauthorized access', async () => {
       const mockSession = {
         id: mockSessionId,
@@ -455,6 +660,7 @@ describe('SessionAnalyticsService', () => {
       };
 
       mockPrisma.userStats.findUnique.mockResolvedValue(mockUserStats);
+      mockPrisma.session.findMany.mockResolvedValue([]);
 
       const insights = await SessionAnalyticsService.generatePersonalizedInsights(mockUserId, 'all');
 
@@ -477,6 +683,7 @@ describe('SessionAnalyticsService', () => {
 
     it('should handle users with no stats', async () => {
       mockPrisma.userStats.findUnique.mockResolvedValue(null);
+      mockPrisma.session.findMany.mockResolvedValue([]);
 
       const insights = await SessionAnalyticsService.generatePersonalizedInsights(mockUserId, 'all');
 
@@ -485,6 +692,66 @@ describe('SessionAnalyticsService', () => {
       expect(insights.recommendations).toHaveLength(0);
       expect(insights.achievements).toHaveLength(0);
     });
+
+    it('should detect patterns in the user timezone and recommend schedule changes', async () => {
+      // 23:00 UTC is evening in New York, 14:00 UTC is morning
+      const history = [
+        ...['2024-01-08', '2024-01-09', '2024-01-10', '2024-01-11'].map(day => ({ day, hour: 23, rating: 3 })),
+        ...['2024-01-12', '2024-01-13'].map(day => ({ day, hour: 14, rating: 5 }))
+      ].map(({ day, hour, rating }, index) => ({
+        id: `session-${index}`,
+        initiatorId: mockUserId,
+        partnerId: mockPartnerId,
+        startTime: new Date(`${day}T${hour}:00:00Z`),
+        durationMinutes: 60,
+        sessionType: 'learning',
+        topics: ['react'],
+        ratingInitiator: rating,
+        ratingPartner: 5,
+        initiator: { id: mockUserId, username: 'testuser' },
+        partner: { id: mockPartnerId, username: 'partner' }
+      }));
+
+      mockPrisma.user.findUnique.mockResolvedValue({ timezone: 'America/New_York' });
+      mockPrisma.userStats.findUnique.mockResolvedValue(null);
+      mockPrisma.session.findMany.mockResolvedValue(history);
+
+      const insights = await SessionAnalyticsService.generatePersonalizedInsights(mockUserId, 'all');
+
+      const timePattern = insights.patterns.find(pattern => pattern.data.kind === 'time_of_day');
+      expect(timePattern?.data.period).toBe('evening');
+      expect(timePattern?.data.bestRatedPeriod).toBe('morning');
+      expect(timePattern?.confidence).toBeGreaterThan(0);
+
+      const focusPattern = insights.patterns.find(pattern => pattern.type === 'skill_focus');
+      expect(focusPattern?.title).toBe('Focused on react');
+
+      expect(insights.recommendations).toEqual(expect.arrayContaining([
+        expect.objectContaining({ type: 'schedule', title: 'Schedule more morning sessions', actionUrl: '/sessions' }),
+        expect.objectContaining({ type: 'skill', title: 'Try teaching a session', actionUrl: '/match' })
+      ]));
+      expect(AchievementService.getUserAchievements).not.toHaveBeenCalled();
+    });
+
+    it('should surface achievements close to completion with action links', async () => {
+      mockPrisma.userStats.findUnique.mockResolvedValue({ currentStreak: 0, lastSessionDate: new Date() });
+      mockPrisma.session.findMany.mockResolvedValue([]);
+      (AchievementService.getUserAchievements as any).mockResolvedValue({
+        earned: [],
+        inProgress: [
+          { id: 'ach-streak', name: 'On Fire', description: '7 day streak', progress: 85, progressText: '6/7 days', criteria: { type: 'streak' } },
+          { id: 'ach-skill', name: 'Expert', description: 'Reach level 5', progress: 40, progressText: '2/5 levels', criteria: { type: 'skill_level' } },
+          { id: 'ach-far', name: 'Marathon', description: '100 sessions', progress: 5, progressText: '5/100 sessions', criteria: { type: 'session_count' } }
+        ]
+      });
+
+      const insights = await SessionAnalyticsService.generatePersonalizedInsights(mockUserId, 'all');
+
+      expect(insights.achievements).toEqual([
+        expect.objectContaining({ type: 'near_completion', achievementId: 'ach-streak', confidence: 85, actionUrl: '/match' }),
+        expect.objectContaining({ type: 'progress', achievementId: 'ach-skill', requirement: '2/5 levels', actionUrl: '/profile' })
+      ]);
+    });
   });
 
   describe('timeframe handling', () => {
@@ -390,6 +390,30 @@ describe('Validation Library', () => {
         expect(result.isValid).toBe(true);
       });
     });
+
+    it('should accept matching importance and hard filters', () => {
+      const preferences: UpdatePreferencesRequest = {
+        matchingImportance: { timezone: 5, sessionHistory: 1 },
+        sameLanguageOnly: true,
+        maxTimezoneGapHours: 3,
+        verifiedSkillsOnly: false,
+      };
+
+      const result = validateRequest(updatePreferencesSchema, preferences);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject out-of-range importance and large timezone gaps', () => {
+      expect(validateRequest(updatePreferencesSchema, { matchingImportance: { skill: 6 } }).isValid).toBe(false);
+      expect(validateRequest(updatePreferencesSchema, { matchingImportance: { skill: 2.5 } }).isValid).toBe(false);
+      expect(validateRequest(updatePreferencesSchema, { maxTimezoneGapHours: 13 }).isValid).toBe(false);
+    });
+
+    it('should drop unknown matching factors', () => {
+      const result = validateRequest(updatePreferencesSchema, { matchingImportance: { looks: 5, skill: 4 } });
+      expect(result.isValid).toBe(true);
+      expect(result.data?.matchingImportance).toEqual({ skill: 4 });
+    });
   });
 
   describe('Utility Functions', () => {
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountDeletionService } from '@/services/account-deletion.service';
+import { verifyAuthToken, rateLimitMiddleware, getClientIP, sanitizeRequestBody } from '@/lib/middleware';
+import { validateRequest, accountDeletionSchema } from '@/lib/validation';
+import { AccountDataError } from '@/lib/account-data';
+
+/**
+ * GET /api/account/deletion - When the account will be deleted, if at all
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const status = await AccountDeletionService.getStatus(authResult.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    console.error('Account deletion status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch account deletion status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/account/deletion - Schedule the account for deletion
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = getClientIP(request);
+    if (!rateLimitMiddleware(`account-deletion:${clientIP}`, 5, 3600000)) { // 5 attempts per hour
+      return NextResponse.json(
+        { error: 'Too many attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = sanitizeRequestBody(await request.json());
+    const validation = validateRequest(accountDeletionSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const status = await AccountDeletionService.scheduleDeletion(
+      authResult.user.id,
+      validation.data!.password,
+      {
+        userAgent: request.headers.get('user-agent'),
+        ipAddress: clientIP,
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: status,
+      message: 'Your account is scheduled for deletion',
+    });
+  } catch (error) {
+    if (error instanceof AccountDataError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Account deletion request error:', error);
+    return NextResponse.json(
+      { error: 'Failed to schedule account deletion' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/account/deletion - Cancel a scheduled deletion
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    await AccountDeletionService.cancelDeletion(authResult.user.id, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: getClientIP(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Account deletion cancelled',
+    });
+  } catch (error) {
+    if (error instanceof AccountDataError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Account deletion cancel error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel account deletion' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataExportService } from '@/services/data-export.service';
+import { verifyAuthToken } from '@/lib/middleware';
+import { AccountDataError } from '@/lib/account-data';
+
+/**
+ * GET /api/account/export/[exportId] - Download a finished export
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ exportId: string }> }
+) {
+  try {
+    const { exportId } = await params;
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!/^[a-f0-9]{24}$/i.test(exportId)) {
+      return NextResponse.json(
+        { error: 'Export not found' },
+        { status: 404 }
+      );
+    }
+
+    const download = await DataExportService.getDownload(authResult.user.id, exportId);
+
+    return new NextResponse(new Uint8Array(download.content), {
+      status: 200,
+      headers: {
+        'Content-Type': download.contentType,
+        'Content-Disposition': `attachment; filename="${download.filename}"`,
+        'Content-Length': download.content.length.toString(),
+        'Cache-Control': 'private, no-cache, no-store, must-revalidate',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    if (error instanceof AccountDataError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Data export download error:', error);
+    return NextResponse.json(
+      { error: 'Failed to download data export' },
+      { status: 500 }
+    );
+  }
+}
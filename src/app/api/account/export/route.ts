@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataExportService } from '@/services/data-export.service';
+import { verifyAuthToken, sanitizeRequestBody } from '@/lib/middleware';
+import { validateRequest, dataExportSchema } from '@/lib/validation';
+import { AccountDataError } from '@/lib/account-data';
+
+/**
+ * GET /api/account/export - Recent personal data exports
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const exports = await DataExportService.listExports(authResult.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: exports,
+    });
+  } catch (error) {
+    console.error('Data export list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch data exports' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/account/export - Request an export of all personal data
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = sanitizeRequestBody(await request.json().catch(() => ({})));
+    const validation = validateRequest(dataExportSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const dataExport = await DataExportService.requestExport(authResult.user.id, validation.data!.format);
+
+    // Built in the background; the job runner retries anything left pending
+    DataExportService.processExport(dataExport.id).catch(error => {
+      console.error('Data export processing error:', error);
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: dataExport,
+        message: 'Your export is being prepared',
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof AccountDataError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Data export request error:', error);
+    return NextResponse.json(
+      { error: 'Failed to request data export' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/auth';
 import { AchievementService } from '@/services/achievement.service';
+import { AuthService } from '@/services/auth.service';
 
 /**
  * POST /api/achievements/check - Check and award achievements for a user
@@ -17,7 +17,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
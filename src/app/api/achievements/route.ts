@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/auth';
 import { AchievementService } from '@/services/achievement.service';
+import { AuthService } from '@/services/auth.service';
 
 /**
  * GET /api/achievements - Get user's achievements with progress
@@ -16,7 +16,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
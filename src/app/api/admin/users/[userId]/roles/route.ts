@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SecurityMiddleware, verifyAuthToken, sanitizeRequestBody } from '@/lib/middleware';
+import { PermissionError } from '@/lib/permissions';
+import { userRolesSchema, validateRequest } from '@/lib/validation';
+import { RoleService } from '@/services/role.service';
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+/**
+ * PUT /api/admin/users/[userId]/roles - Replace a user's roles (admin only)
+ */
+export const PUT = SecurityMiddleware.createSecureAPIWrapper(
+  async (request: NextRequest, { params }: RouteContext) => {
+    try {
+      const { userId } = await params;
+      const authResult = await verifyAuthToken(request);
+      if (!authResult) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+
+      const body = sanitizeRequestBody(await request.json());
+      const validation = validateRequest(userRolesSchema, body);
+      if (!validation.isValid) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: validation.errors },
+          { status: 400 }
+        );
+      }
+
+      const roles = await RoleService.setRoles(authResult.user.id, userId, validation.data!.roles);
+
+      return NextResponse.json({
+        success: true,
+        data: { roles },
+        message: 'Roles updated. They apply to permission checks right away and to access tokens on the next refresh.',
+      });
+    } catch (error) {
+      if (error instanceof PermissionError) {
+        return NextResponse.json({ error: error.message }, { status: error.statusCode });
+      }
+
+      console.error('Error updating user roles:', error);
+      return NextResponse.json({ error: 'Failed to update roles' }, { status: 500 });
+    }
+  },
+  {
+    requirePermission: 'users:manage_roles',
+    rateLimitType: 'api',
+  }
+);
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AuthService } from '@/services/auth.service';
-import { verifyAccessToken, extractTokenFromHeader } from '@/lib/auth';
+import { extractTokenFromHeader } from '@/lib/auth';
 import { rateLimitMiddleware, getClientIP, sanitizeRequestBody, securityHeadersMiddleware } from '@/lib/middleware';
 import Joi from 'joi';
 import { validateRequest } from '@/lib/validation';
@@ -43,7 +43,7 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -68,7 +68,11 @@ export async function PUT(request: NextRequest) {
     const result = await AuthService.changePassword(
       decoded.userId,
       validation.data!.currentPassword,
-      validation.data!.newPassword
+      validation.data!.newPassword,
+      {
+        userAgent: request.headers.get('user-agent'),
+        ipAddress: clientIP,
+      }
     );
 
     // Create response with security headers
@@ -86,6 +90,15 @@ export async function PUT(request: NextRequest) {
       response.headers.set(key, value);
     });
 
+    // Other sessions were signed out, keep this one going with a fresh refresh token
+    response.cookies.set('refreshToken', result.refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: 7 * 24 * 60 * 60, // 7 days
+      path: '/',
+    });
+
     return response;
 
   } catch (error) {
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AuthService } from '@/services/auth.service';
 import { loginSchema, validateRequest } from '@/lib/validation';
-import { rateLimitMiddleware, getClientIP, sanitizeRequestBody, securityHeadersMiddleware } from '@/lib/middleware';
+import { AccountLockedError } from '@/lib/account-security';
+import { rateLimitMiddleware, getClientIP, getClientCountry, sanitizeRequestBody, securityHeadersMiddleware } from '@/lib/middleware';
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,14 +29,21 @@ export async function POST(request: NextRequest) {
     }
 
     // Attempt login
-    const result = await AuthService.login(validation.data!);
+    const result = await AuthService.login(validation.data!, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: clientIP,
+      country: getClientCountry(request),
+      timezone: validation.data!.timezone ?? null,
+    });
+
+    const requiresTwoFactor = 'requiresTwoFactor' in result;
 
     // Create response with security headers
     const response = NextResponse.json(
       {
         success: true,
         data: result,
-        message: 'Login successful'
+        message: requiresTwoFactor ? 'Two-factor code required' : 'Login successful'
       },
       { status: 200 }
     );
@@ -46,6 +54,11 @@ export async function POST(request: NextRequest) {
       response.headers.set(key, value);
     });
 
+    // No session yet, the client continues at /api/auth/login/two-factor
+    if (requiresTwoFactor) {
+      return response;
+    }
+
     // Set HTTP-only cookie for refresh token (optional, more secure)
     response.cookies.set('refreshToken', result.refreshToken, {
       httpOnly: true,
@@ -60,6 +73,13 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Login error:', error);
 
+    if (error instanceof AccountLockedError) {
+      return NextResponse.json(
+        { error: error.message, retryAfter: error.retryAfterSeconds },
+        { status: error.statusCode, headers: { 'Retry-After': error.retryAfterSeconds.toString() } }
+      );
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Login failed';
 
     return NextResponse.json(
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/services/auth.service';
+import { TwoFactorError } from '@/lib/two-factor';
+import { AccountLockedError } from '@/lib/account-security';
+import { twoFactorLoginSchema, validateRequest } from '@/lib/validation';
+import { rateLimitMiddleware, getClientIP, getClientCountry, sanitizeRequestBody, securityHeadersMiddleware } from '@/lib/middleware';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting - a 6-digit code is only safe if guesses are scarce
+    const clientIP = getClientIP(request);
+    if (!rateLimitMiddleware(`login-2fa:${clientIP}`, 5, 300000)) { // 5 attempts per 5 minutes
+      return NextResponse.json(
+        { error: 'Too many verification attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    // Parse and sanitize request body
+    const rawBody = await request.json();
+    const body = sanitizeRequestBody(rawBody);
+
+    // Validate request data
+    const validation = validateRequest(twoFactorLoginSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await AuthService.completeTwoFactorLogin(validation.data!, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: clientIP,
+      country: getClientCountry(request),
+      timezone: validation.data!.timezone ?? null,
+    });
+
+    // Create response with security headers
+    const response = NextResponse.json(
+      {
+        success: true,
+        data: result,
+        message: 'Login successful'
+      },
+      { status: 200 }
+    );
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    // Set HTTP-only cookie for refresh token
+    response.cookies.set('refreshToken', result.refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: 7 * 24 * 60 * 60, // 7 days
+      path: '/',
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+
+    if (error instanceof AccountLockedError) {
+      return NextResponse.json(
+        { error: error.message, retryAfter: error.retryAfterSeconds },
+        { status: error.statusCode, headers: { 'Retry-After': error.retryAfterSeconds.toString() } }
+      );
+    }
+
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Login failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(_request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.ALLOWED_ORIGINS || '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
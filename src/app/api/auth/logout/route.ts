@@ -1,8 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { securityHeadersMiddleware } from '@/lib/middleware';
+import { AuthService } from '@/services/auth.service';
+import { sanitizeRequestBody, securityHeadersMiddleware } from '@/lib/middleware';
 
-export async function POST(_request: NextRequest) {
+export async function POST(request: NextRequest) {
   try {
+    // Get refresh token from cookie or request body
+    let refreshToken = request.cookies.get('refreshToken')?.value;
+
+    if (!refreshToken) {
+      const rawBody = await request.json().catch(() => ({}));
+      const body = sanitizeRequestBody(rawBody);
+      refreshToken = typeof body?.refreshToken === 'string' ? body.refreshToken : undefined;
+    }
+
+    // Revoke server-side so the token stops working even if it was copied
+    if (refreshToken) {
+      await AuthService.logout(refreshToken);
+    }
+
     // Create response with security headers
     const response = NextResponse.json(
       {
@@ -13,7 +28,7 @@ export async function POST(_request: NextRequest) {
     );
 
     // Add security headers
-    const securityHeaders = securityHeadersMiddleware(_request);
+    const securityHeaders = securityHeadersMiddleware(request);
     Object.entries(securityHeaders).forEach(([key, value]) => {
       response.headers.set(key, value);
     });
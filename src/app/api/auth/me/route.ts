@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AuthService } from '@/services/auth.service';
-import { verifyAccessToken, extractTokenFromHeader } from '@/lib/auth';
+import { extractTokenFromHeader } from '@/lib/auth';
 import { securityHeadersMiddleware } from '@/lib/middleware';
 
 export async function GET(request: NextRequest) {
@@ -16,7 +16,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid or expired token' },
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OidcService } from '@/services/oidc.service';
+import { OIDC_CONFIG, OidcError } from '@/lib/oidc';
+import { rateLimitMiddleware, getClientIP } from '@/lib/middleware';
+
+/**
+ * Start provider sign-in: remember state, nonce and PKCE verifier in a
+ * cookie, then send the browser to the provider
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const clientIP = getClientIP(request);
+  if (!rateLimitMiddleware(`oidc-authorize:${clientIP}`, 20, 300000)) { // 20 attempts per 5 minutes
+    return NextResponse.json(
+      { error: 'Too many sign-in attempts. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const { provider } = await params;
+    const timezone = request.nextUrl.searchParams.get('timezone');
+    const { authorizationUrl, stateToken } = await OidcService.startLogin(
+      provider,
+      timezone ? { timezone } : {}
+    );
+
+    const response = NextResponse.redirect(authorizationUrl);
+
+    // Lax, not strict: the provider sends the browser back with a cross-site GET
+    response.cookies.set(OIDC_CONFIG.STATE_COOKIE, stateToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: OIDC_CONFIG.STATE_TTL_SECONDS,
+      path: '/api/auth/oidc',
+    });
+
+    return response;
+  } catch (error) {
+    console.error('OIDC authorize error:', error);
+
+    const message = error instanceof OidcError ? error.message : 'Sign-in is unavailable right now';
+    return NextResponse.redirect(
+      new URL(`/auth/oidc?error=${encodeURIComponent(message)}`, request.url)
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OidcService } from '@/services/oidc.service';
+import { OIDC_CONFIG, OidcError } from '@/lib/oidc';
+import { AccountLockedError } from '@/lib/account-security';
+import { rateLimitMiddleware, getClientIP, getClientCountry } from '@/lib/middleware';
+
+/**
+ * Provider redirect target. Signs the user in and hands over to /auth/oidc,
+ * which picks up the session from the refresh cookie or asks for a 2FA code.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const resultPage = new URL('/auth/oidc', request.url);
+  const redirectTo = (query: Record<string, string>) => {
+    Object.entries(query).forEach(([key, value]) => resultPage.searchParams.set(key, value));
+    const response = NextResponse.redirect(resultPage);
+    response.cookies.set(OIDC_CONFIG.STATE_COOKIE, '', { maxAge: 0, path: '/api/auth/oidc' });
+    return response;
+  };
+
+  const clientIP = getClientIP(request);
+  if (!rateLimitMiddleware(`oidc-callback:${clientIP}`, 20, 300000)) { // 20 attempts per 5 minutes
+    return redirectTo({ error: 'Too many sign-in attempts. Please try again later.' });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const providerError = searchParams.get('error');
+  if (providerError) {
+    return redirectTo({
+      error: providerError === 'access_denied' ? 'Sign-in was cancelled' : 'The provider could not sign you in',
+    });
+  }
+
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  if (!code || !state) {
+    return redirectTo({ error: 'Sign-in response was incomplete, please try again' });
+  }
+
+  try {
+    const { provider } = await params;
+    const result = await OidcService.completeLogin(
+      provider,
+      { code, state },
+      request.cookies.get(OIDC_CONFIG.STATE_COOKIE)?.value,
+      {
+        userAgent: request.headers.get('user-agent'),
+        ipAddress: clientIP,
+        country: getClientCountry(request),
+      }
+    );
+
+    if ('requiresTwoFactor' in result) {
+      return redirectTo({ challenge: result.challengeToken });
+    }
+
+    const response = redirectTo({ status: 'success' });
+
+    // Same cookie a password login sets; the page exchanges it for an access token
+    response.cookies.set('refreshToken', result.refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      maxAge: 7 * 24 * 60 * 60, // 7 days
+      path: '/',
+    });
+
+    return response;
+  } catch (error) {
+    console.error('OIDC callback error:', error);
+
+    if (error instanceof OidcError || error instanceof AccountLockedError) {
+      return redirectTo({ error: error.message });
+    }
+
+    return redirectTo({ error: 'Sign-in failed, please try again' });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOidcProviders } from '@/lib/oidc';
+import { securityHeadersMiddleware } from '@/lib/middleware';
+
+/**
+ * Sign-in providers to offer on the login form
+ */
+export async function GET(request: NextRequest) {
+  const providers = getOidcProviders().map(provider => ({
+    id: provider.id,
+    name: provider.name,
+  }));
+
+  const response = NextResponse.json({ success: true, data: { providers } });
+
+  const securityHeaders = securityHeadersMiddleware(request);
+  Object.entries(securityHeaders).forEach(([key, value]) => {
+    response.headers.set(key, value);
+  });
+
+  return response;
+}
@@ -39,8 +39,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Attempt token refresh
-    const result = await AuthService.refreshToken(refreshToken);
+    // Attempt token refresh; the presented token is rotated and can't be used again
+    const result = await AuthService.refreshToken(refreshToken, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: clientIP,
+    });
 
     // Create response with security headers
     const response = NextResponse.json(
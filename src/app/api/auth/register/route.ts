@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AuthService } from '@/services/auth.service';
 import { registerSchema, validateRequest } from '@/lib/validation';
-import { rateLimitMiddleware, getClientIP, sanitizeRequestBody, securityHeadersMiddleware } from '@/lib/middleware';
+import { rateLimitMiddleware, getClientIP, getClientCountry, sanitizeRequestBody, securityHeadersMiddleware } from '@/lib/middleware';
 
 export async function POST(request: NextRequest) {
   try {
@@ -28,7 +28,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Attempt registration
-    const result = await AuthService.register(validation.data!);
+    const result = await AuthService.register(validation.data!, {
+      userAgent: request.headers.get('user-agent'),
+      ipAddress: clientIP,
+      country: getClientCountry(request),
+      timezone: validation.data!.timezone,
+    });
 
     // Create response with security headers
     const response = NextResponse.json(
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SecurityMiddleware } from '@/lib/middleware';
+import { SecurityMiddleware, getClientCountry } from '@/lib/middleware';
 import { SecureRequestValidator, SecurityValidationSchemas } from '@/lib/input-validation';
 import { AuthService } from '@/services/auth.service';
 import { ProgressiveRateLimiter } from '@/lib/rate-limiter';
 import { InputSanitizer, SessionSecurity } from '@/lib/security';
 import { validateRequest } from '@/lib/validation';
 import { loginSchema } from '@/lib/validation';
+import { LoginResponse } from '@/types';
+import { AccountLockedError } from '@/lib/account-security';
 
 /**
  * Secure login endpoint with comprehensive security measures
@@ -59,9 +61,33 @@ export const POST = SecurityMiddleware.createSecureAPIWrapper(
       const sanitizedPassword = password.trim();
 
       // Attempt authentication
-      const authResult = await AuthService.authenticate(sanitizedEmail, sanitizedPassword);
+      const userAgent = request.headers.get('user-agent') || '';
+      let authResult: LoginResponse;
+      try {
+        authResult = await AuthService.login(
+          { email: sanitizedEmail, password: sanitizedPassword },
+          {
+            userAgent,
+            ipAddress: clientIP,
+            country: getClientCountry(request),
+            timezone: validation.data!.timezone ?? null,
+          }
+        );
+      } catch (error) {
+        if (error instanceof AccountLockedError) {
+          return NextResponse.json(
+            {
+              error: 'Account temporarily locked',
+              message: error.message,
+              retryAfter: error.retryAfterSeconds,
+            },
+            {
+              status: error.statusCode,
+              headers: { 'Retry-After': error.retryAfterSeconds.toString() },
+            }
+          );
+        }
 
-      if (!authResult.success) {
         // Record failed login attempt
         await ProgressiveRateLimiter.recordViolation(clientIP);
 
@@ -74,8 +100,19 @@ export const POST = SecurityMiddleware.createSecureAPIWrapper(
         );
       }
 
+      // Password was right but the account wants a second factor
+      if ('requiresTwoFactor' in authResult) {
+        return NextResponse.json(
+          {
+            success: true,
+            requiresTwoFactor: true,
+            challengeToken: authResult.challengeToken,
+          },
+          { status: 200 }
+        );
+      }
+
       // Generate session fingerprint for additional security
-      const userAgent = request.headers.get('user-agent') || '';
       const sessionFingerprint = SessionSecurity.createSessionFingerprint(userAgent, clientIP);
 
       // Successful authentication
@@ -83,9 +120,9 @@ export const POST = SecurityMiddleware.createSecureAPIWrapper(
         {
           success: true,
           user: {
-            id: authResult.user!.id,
-            email: authResult.user!.email,
-            username: authResult.user!.username,
+            id: authResult.user.id,
+            email: authResult.user.email,
+            username: authResult.user.username,
           },
           tokens: {
             accessToken: authResult.accessToken,
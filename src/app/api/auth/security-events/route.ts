@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractTokenFromHeader } from '@/lib/auth';
+import { securityHeadersMiddleware } from '@/lib/middleware';
+import { AccountSecurityService } from '@/services/account-security.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * GET /api/auth/security-events - Recent sign-ins, failed attempts, lockouts
+ * and security settings changes on the account
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = extractTokenFromHeader(request.headers.get('authorization'));
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 100);
+
+    const events = await AccountSecurityService.listEvents(decoded.userId, limit);
+
+    const response = NextResponse.json({
+      success: true,
+      events
+    });
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('List security events error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to retrieve security activity' },
+      { status: 500 }
+    );
+  }
+}
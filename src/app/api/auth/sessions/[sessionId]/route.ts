@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractTokenFromHeader } from '@/lib/auth';
+import { LoginSessionError } from '@/lib/login-sessions';
+import { securityHeadersMiddleware } from '@/lib/middleware';
+import { LoginSessionService } from '@/services/login-session.service';
+import { RefreshTokenService } from '@/services/refresh-token.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * DELETE /api/auth/sessions/[sessionId] - Sign out one device
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    // Extract and verify token
+    const token = extractTokenFromHeader(request.headers.get('authorization'));
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const refreshToken = request.cookies.get('refreshToken')?.value;
+    const isCurrentSession = !!refreshToken &&
+      await RefreshTokenService.getFamilyId(refreshToken) === sessionId;
+
+    await LoginSessionService.revokeSession(decoded.userId, sessionId);
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Device signed out'
+    });
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    // Signing out this device works like a logout
+    if (isCurrentSession) {
+      response.cookies.set('refreshToken', '', {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: 0, // Expire immediately
+        path: '/',
+      });
+    }
+
+    return response;
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+
+    if (error instanceof LoginSessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to sign out device' },
+      { status: 500 }
+    );
+  }
+}
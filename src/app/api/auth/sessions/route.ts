@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractTokenFromHeader } from '@/lib/auth';
+import { LoginSessionError } from '@/lib/login-sessions';
+import { getClientIP, securityHeadersMiddleware } from '@/lib/middleware';
+import { CurrentDeviceContext, LoginSessionService } from '@/services/login-session.service';
+import { AuthService } from '@/services/auth.service';
+
+function getCurrentDevice(request: NextRequest): CurrentDeviceContext {
+  return {
+    refreshToken: request.cookies.get('refreshToken')?.value ?? null,
+    userAgent: request.headers.get('user-agent'),
+    ipAddress: getClientIP(request),
+  };
+}
+
+/**
+ * GET /api/auth/sessions - Devices currently signed in to the account
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = extractTokenFromHeader(request.headers.get('authorization'));
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const sessions = await LoginSessionService.listSessions(decoded.userId, getCurrentDevice(request));
+
+    const response = NextResponse.json({
+      success: true,
+      sessions
+    });
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('List sessions error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to retrieve sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/sessions - Sign out all other devices
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = extractTokenFromHeader(request.headers.get('authorization'));
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const revoked = await LoginSessionService.revokeOtherSessions(decoded.userId, getCurrentDevice(request));
+
+    const response = NextResponse.json({
+      success: true,
+      revoked,
+      message: revoked > 0 ? `Signed out ${revoked} other device(s)` : 'No other devices were signed in'
+    });
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('Revoke other sessions error:', error);
+
+    if (error instanceof LoginSessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to sign out other devices' },
+      { status: 500 }
+    );
+  }
+}
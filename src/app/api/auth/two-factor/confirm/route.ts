@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractTokenFromHeader } from '@/lib/auth';
+import { TwoFactorError } from '@/lib/two-factor';
+import { twoFactorConfirmSchema, validateRequest } from '@/lib/validation';
+import { rateLimitMiddleware, sanitizeRequestBody, securityHeadersMiddleware } from '@/lib/middleware';
+import { TwoFactorService } from '@/services/two-factor.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * POST /api/auth/two-factor/confirm - Turn 2FA on with a first code from the app
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = extractTokenFromHeader(request.headers.get('authorization'));
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    if (!rateLimitMiddleware(`2fa-confirm:${decoded.userId}`, 10, 900000)) { // 10 attempts per 15 minutes
+      return NextResponse.json(
+        { error: 'Too many verification attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    // Parse and sanitize request body
+    const body = sanitizeRequestBody(await request.json());
+
+    const validation = validateRequest(twoFactorConfirmSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const { recoveryCodes } = await TwoFactorService.confirmEnrollment(decoded.userId, validation.data!.code);
+
+    const response = NextResponse.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.'
+    });
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+    response.headers.set('Cache-Control', 'no-store');
+
+    return response;
+
+  } catch (error) {
+    console.error('Confirm two-factor enrollment error:', error);
+
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to enable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
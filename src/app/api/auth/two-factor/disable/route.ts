@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractTokenFromHeader } from '@/lib/auth';
+import { TwoFactorError } from '@/lib/two-factor';
+import { twoFactorPasswordSchema, validateRequest } from '@/lib/validation';
+import { rateLimitMiddleware, sanitizeRequestBody, securityHeadersMiddleware } from '@/lib/middleware';
+import { TwoFactorService } from '@/services/two-factor.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * POST /api/auth/two-factor/disable - Turn 2FA off, requires the current password
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = extractTokenFromHeader(request.headers.get('authorization'));
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    if (!rateLimitMiddleware(`2fa-password:${decoded.userId}`, 5, 900000)) { // 5 attempts per 15 minutes
+      return NextResponse.json(
+        { error: 'Too many attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    // Parse and sanitize request body
+    const body = sanitizeRequestBody(await request.json());
+
+    const validation = validateRequest(twoFactorPasswordSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    await TwoFactorService.disable(decoded.userId, validation.data!.password);
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to disable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}
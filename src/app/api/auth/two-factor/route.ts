@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractTokenFromHeader } from '@/lib/auth';
+import { TwoFactorError } from '@/lib/two-factor';
+import { rateLimitMiddleware, securityHeadersMiddleware } from '@/lib/middleware';
+import { TwoFactorService } from '@/services/two-factor.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * GET /api/auth/two-factor - Whether 2FA is on and how many recovery codes are left
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = extractTokenFromHeader(request.headers.get('authorization'));
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const status = await TwoFactorService.getStatus(decoded.userId);
+
+    const response = NextResponse.json({
+      success: true,
+      data: status
+    });
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to retrieve two-factor status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/two-factor - Start enrollment, returns the secret and QR code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Extract and verify token
+    const token = extractTokenFromHeader(request.headers.get('authorization'));
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    if (!rateLimitMiddleware(`2fa-enroll:${decoded.userId}`, 10, 3600000)) { // 10 attempts per hour
+      return NextResponse.json(
+        { error: 'Too many setup attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const enrollment = await TwoFactorService.beginEnrollment(decoded.userId);
+
+    const response = NextResponse.json({
+      success: true,
+      data: enrollment,
+      message: 'Scan the QR code, then confirm with a code from your app'
+    });
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+    // The secret must not end up in any cache
+    response.headers.set('Cache-Control', 'no-store');
+
+    return response;
+
+  } catch (error) {
+    console.error('Begin two-factor enrollment error:', error);
+
+    if (error instanceof TwoFactorError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to start two-factor setup' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/services/auth.service';
+import { extractTokenFromHeader } from '@/lib/auth';
+import { EMAIL_VERIFICATION_CONFIG, EmailVerificationError } from '@/lib/email-verification';
+import { rateLimitMiddleware, getClientIP, securityHeadersMiddleware } from '@/lib/middleware';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Extract and verify token
+    const authHeader = request.headers.get('authorization');
+    const token = extractTokenFromHeader(authHeader);
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    // Rate limiting - per account to protect the inbox, per IP to protect the mailer
+    const clientIP = getClientIP(request);
+    if (
+      !rateLimitMiddleware(
+        `verify-email-resend:${decoded.userId}`,
+        EMAIL_VERIFICATION_CONFIG.RESEND_MAX_ATTEMPTS,
+        EMAIL_VERIFICATION_CONFIG.RESEND_WINDOW_MS
+      ) ||
+      !rateLimitMiddleware(`verify-email-resend-ip:${clientIP}`, 10, 3600000) // 10 attempts per hour
+    ) {
+      return NextResponse.json(
+        { error: 'Too many verification emails requested. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const result = await AuthService.resendVerificationEmail(decoded.userId);
+
+    // Create response with security headers
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: result.message
+      },
+      { status: 200 }
+    );
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('Resend verification email error:', error);
+
+    if (error instanceof EmailVerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to send verification email' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(_request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.ALLOWED_ORIGINS || '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/services/auth.service';
+import { verifyEmailSchema, validateRequest } from '@/lib/validation';
+import { EmailVerificationError } from '@/lib/email-verification';
+import { rateLimitMiddleware, getClientIP, sanitizeRequestBody, securityHeadersMiddleware } from '@/lib/middleware';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting
+    const clientIP = getClientIP(request);
+    if (!rateLimitMiddleware(`verify-email:${clientIP}`, 10, 3600000)) { // 10 attempts per hour
+      return NextResponse.json(
+        { error: 'Too many verification attempts. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    // Parse and sanitize request body
+    const rawBody = await request.json();
+    const body = sanitizeRequestBody(rawBody);
+
+    // Validate request data
+    const validation = validateRequest(verifyEmailSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    // Verify email
+    const result = await AuthService.verifyEmail(validation.data!.token);
+
+    // Create response with security headers
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: result.message
+      },
+      { status: 200 }
+    );
+
+    // Add security headers
+    const securityHeaders = securityHeadersMiddleware(request);
+    Object.entries(securityHeaders).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+
+  } catch (error) {
+    console.error('Email verification error:', error);
+
+    if (error instanceof EmailVerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Email verification failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS(_request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.ALLOWED_ORIGINS || '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AvatarService } from '@/services/avatar.service';
+import { parseAvatarUrl } from '@/lib/avatars';
+
+/**
+ * GET /api/avatars/[userId]/[version]/[file] - Processed avatar image.
+ * Public, and cacheable forever because every upload gets a new version.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ userId: string; version: string; file: string }> }
+) {
+  try {
+    const { userId, version, file } = await params;
+    const location = parseAvatarUrl(`/api/avatars/${userId}/${version}/${file}`);
+    if (!location) {
+      return NextResponse.json(
+        { error: 'Avatar not found' },
+        { status: 404 }
+      );
+    }
+
+    const image = await AvatarService.getAvatarImage(location.userId, location.version, location.size);
+    if (!image) {
+      return NextResponse.json(
+        { error: 'Avatar not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(image), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/webp',
+        'Content-Length': image.length.toString(),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Avatar fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch avatar' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CalendarService } from '@/services/calendar.service';
+
+/**
+ * GET /api/calendar/feed/[token] - Subscribable iCalendar feed, authenticated by the secret token
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token: feedFile } = await params;
+    const token = feedFile.replace(/\.ics$/, '');
+    const baseUrl = process.env.FRONTEND_URL || new URL(request.url).origin;
+
+    const calendar = await CalendarService.renderFeed(token, baseUrl);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Calendar feed not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="skillsync.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to render calendar feed' },
+      { status: 500 }
+    );
+  }
+}
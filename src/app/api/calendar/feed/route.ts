@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CalendarService } from '@/services/calendar.service';
+import { AuthService } from '@/services/auth.service';
+
+async function authenticate(request: NextRequest) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '');
+  return token ? AuthService.authenticateAccessToken(token) : null;
+}
+
+/**
+ * GET /api/calendar/feed - Check whether the calendar feed is enabled
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const decoded = await authenticate(request);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const status = await CalendarService.getFeedStatus(decoded.userId);
+
+    return NextResponse.json({
+      success: true,
+      ...status,
+    });
+  } catch (error) {
+    console.error('Error fetching calendar feed status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch calendar feed status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/calendar/feed - Create a new secret feed URL, replacing any previous one
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const decoded = await authenticate(request);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const token = await CalendarService.rotateFeedToken(decoded.userId);
+    const baseUrl = process.env.FRONTEND_URL || new URL(request.url).origin;
+
+    return NextResponse.json({
+      success: true,
+      feedUrl: `${baseUrl}/api/calendar/feed/${token}.ics`,
+      message: 'Calendar feed created. Previous feed links no longer work.'
+    });
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to create calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/calendar/feed - Disable the calendar feed
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const decoded = await authenticate(request);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    await CalendarService.revokeFeedToken(decoded.userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Calendar feed disabled'
+    });
+  } catch (error) {
+    console.error('Error disabling calendar feed:', error);
+    return NextResponse.json(
+      { error: 'Failed to disable calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { BlockService } from '@/services/block.service';
+import { AuthService } from '@/services/auth.service';
 
 /**
  * GET /api/dashboard/suggestions - Get suggested connections for user
@@ -16,7 +17,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
@@ -52,10 +53,13 @@ export async function GET(request: NextRequest) {
     const userSkillNames = currentUser.userSkills.map(us => us.skill.name);
     const userSkillCategories = [...new Set(currentUser.userSkills.map(us => us.skill.category))];
 
+    // Users blocked in either direction are never suggested
+    const blockedUserIds = await BlockService.getBlockedUserIds(userId);
+
     // Find potential connections
     const potentialConnections = await prisma.user.findMany({
       where: {
-        id: { not: userId },
+        id: { notIn: [userId, ...blockedUserIds] },
         isActive: true,
         userSkills: {
           some: {
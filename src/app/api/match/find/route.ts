@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/auth';
 import { MatchingService } from '@/services/matching.service';
+import { MatchmakerService } from '@/services/matchmaker.service';
+import { AuthService } from '@/services/auth.service';
+import { EmailVerificationError } from '@/lib/email-verification';
 
 /**
  * POST /api/match/find - Find a match for the user
@@ -16,7 +18,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
@@ -24,8 +26,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Unverified accounts can't be matched with anyone
+    await AuthService.requireVerifiedEmail(decoded.userId);
+
     const body = await request.json();
-    const matchingRequest = body;
+    const matchingRequest = {
+      ...body,
+      userId: decoded.userId,
+      maxDuration: body.maxDuration || 60,
+      urgency: body.urgency || 'medium',
+    };
 
     // Validate request
     if (!matchingRequest.userId || !matchingRequest.preferredSkills || !matchingRequest.sessionType) {
@@ -39,8 +49,9 @@ export async function POST(request: NextRequest) {
     const matchResult = await MatchingService.findMatch(matchingRequest);
 
     if (matchResult) {
-      // Generate a session ID (in a real implementation, this would create a session record)
-      const sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      // Propose under the same per-user locks as the background matchmaker;
+      // the session is created once both users accept
+      const proposal = await MatchmakerService.proposeMatch(matchingRequest, matchResult);
 
       return NextResponse.json({
         success: true,
@@ -48,7 +59,9 @@ export async function POST(request: NextRequest) {
           partnerId: matchResult.partnerId,
           compatibilityScore: matchResult.compatibilityScore,
           scoreBreakdown: matchResult.scoreBreakdown,
-          sessionId
+          explanation: matchResult.explanation,
+          proposalId: proposal.id,
+          expiresAt: proposal.expiresAt
         }
       });
     } else {
@@ -60,6 +73,22 @@ export async function POST(request: NextRequest) {
     }
   } catch (error) {
     console.error('Error finding match:', error);
+
+    if (error instanceof EmailVerificationError) {
+      return NextResponse.json(
+        { error: error.message, code: 'EMAIL_NOT_VERIFIED' },
+        { status: error.statusCode }
+      );
+    }
+
+    // The matchmaker or another request claimed one of them between scoring and session creation
+    if (error instanceof Error && error.message.includes('no longer available')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to find match' },
       { status: 500 }
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/auth';
 import { MatchingAnalytics } from '@/lib/matching-analytics';
+import { AuthService } from '@/services/auth.service';
 
 /**
  * GET /api/matching/metrics - Get matching performance metrics
@@ -16,7 +16,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
@@ -27,9 +27,16 @@ export async function GET(request: NextRequest) {
     // Get matching metrics using the analytics service
     const metrics = await MatchingAnalytics.getMatchingMetrics();
 
+    // Redis being down shouldn't take the rest of the metrics with it
+    const batchComparison = await MatchingAnalytics.getBatchComparison().catch(error => {
+      console.warn('Failed to load batch matching comparison:', error);
+      return null;
+    });
+
     return NextResponse.json({
       success: true,
-      metrics
+      metrics,
+      batchComparison
     });
   } catch (error) {
     console.error('Error getting matching metrics:', error);
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MatchProposalService } from '@/services/match-proposal.service';
+import { verifyAuthToken, sanitizeRequestBody } from '@/lib/middleware';
+import { validateRequest, matchProposalResponseSchema } from '@/lib/validation';
+import { MatchProposalError } from '@/lib/match-proposal';
+
+type RouteContext = { params: Promise<{ proposalId: string }> };
+
+/**
+ * POST /api/matching/proposals/[proposalId] - Accept or decline a match proposal
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { proposalId } = await params;
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = sanitizeRequestBody(await request.json());
+    const validation = validateRequest(matchProposalResponseSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const proposal = await MatchProposalService.respond(
+      authResult.user.id,
+      proposalId,
+      validation.data!.response
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: proposal,
+    });
+  } catch (error) {
+    if (error instanceof MatchProposalError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Match proposal response error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record your response' },
+      { status: 500 }
+    );
+  }
+}
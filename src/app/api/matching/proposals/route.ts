@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MatchProposalService } from '@/services/match-proposal.service';
+import { verifyAuthToken } from '@/lib/middleware';
+
+/**
+ * GET /api/matching/proposals - The match proposal waiting for the user's answer, if any
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const proposal = await MatchProposalService.getPendingProposal(authResult.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: proposal,
+    });
+  } catch (error) {
+    console.error('Get match proposal error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get match proposal' },
+      { status: 500 }
+    );
+  }
+}
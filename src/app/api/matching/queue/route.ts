@@ -3,6 +3,8 @@ import { QueueManagerService } from '@/services/queue-manager.service';
 import { MatchingService } from '@/services/matching.service';
 import { validateMatchingRequest } from '@/lib/matching-config';
 import { verifyToken } from '@/lib/auth';
+import { AuthService } from '@/services/auth.service';
+import { EmailVerificationError } from '@/lib/email-verification';
 
 /**
  * POST /api/matching/queue - Join the matching queue
@@ -26,6 +28,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Unverified accounts can't be matched with anyone
+    await AuthService.requireVerifiedEmail(decoded.userId);
+
     const body = await request.json();
     const matchingRequest = {
       userId: decoded.userId,
@@ -54,6 +59,14 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error('Error joining queue:', error);
+
+    if (error instanceof EmailVerificationError) {
+      return NextResponse.json(
+        { error: error.message, code: 'EMAIL_NOT_VERIFIED' },
+        { status: error.statusCode }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to join queue' },
       { status: 500 }
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { QueueManagerService } from '@/services/queue-manager.service';
 import { QueueCleanupService } from '@/services/queue-cleanup.service';
-import { verifyAccessToken } from '@/lib/auth';
+import { AuthService } from '@/services/auth.service';
 
 /**
  * GET /api/matching/queue/stats - Get comprehensive queue statistics
@@ -13,7 +13,7 @@ export async function GET(request: NextRequest) {
     let isAuthenticated = false;
 
     if (token) {
-      const decoded = verifyAccessToken(token);
+      const decoded = await AuthService.authenticateAccessToken(token);
       isAuthenticated = !!decoded;
     }
 
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SecurityMiddleware, verifyAuthToken, sanitizeRequestBody, getClientIP } from '@/lib/middleware';
+import { SafetyError } from '@/lib/safety';
+import { moderationActionSchema, validateRequest } from '@/lib/validation';
+import { ModerationService } from '@/services/moderation.service';
+
+type RouteContext = { params: Promise<{ reportId: string }> };
+
+function safetyErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof SafetyError) {
+    return NextResponse.json({ error: error.message }, { status: error.statusCode });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/moderation/reports/[reportId] - A single report (moderators only)
+ */
+export const GET = SecurityMiddleware.createSecureAPIWrapper(
+  async (_request: NextRequest, { params }: RouteContext) => {
+    try {
+      const { reportId } = await params;
+      const report = await ModerationService.getReport(reportId);
+
+      return NextResponse.json({ success: true, data: report });
+    } catch (error) {
+      return safetyErrorResponse(error, 'Failed to fetch report');
+    }
+  },
+  {
+    requirePermission: 'reports:review',
+    rateLimitType: 'api',
+  }
+);
+
+/**
+ * PUT /api/moderation/reports/[reportId] - Claim an open report for review
+ */
+export const PUT = SecurityMiddleware.createSecureAPIWrapper(
+  async (request: NextRequest, { params }: RouteContext) => {
+    try {
+      const { reportId } = await params;
+      const authResult = await verifyAuthToken(request);
+      if (!authResult) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+
+      await ModerationService.claimReport(authResult.user.id, reportId);
+
+      return NextResponse.json({ success: true, message: 'Report claimed' });
+    } catch (error) {
+      return safetyErrorResponse(error, 'Failed to claim report');
+    }
+  },
+  {
+    requirePermission: 'reports:review',
+    rateLimitType: 'api',
+  }
+);
+
+/**
+ * POST /api/moderation/reports/[reportId] - Resolve a report by warning,
+ * suspending or dismissing
+ */
+export const POST = SecurityMiddleware.createSecureAPIWrapper(
+  async (request: NextRequest, { params }: RouteContext) => {
+    try {
+      const { reportId } = await params;
+      const authResult = await verifyAuthToken(request);
+      if (!authResult) {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+      }
+
+      const body = sanitizeRequestBody(await request.json());
+      const validation = validateRequest(moderationActionSchema, body);
+      if (!validation.isValid) {
+        return NextResponse.json(
+          { error: 'Validation failed', details: validation.errors },
+          { status: 400 }
+        );
+      }
+
+      const { action, note } = validation.data!;
+      const report = await ModerationService.resolveReport(
+        authResult.user.id,
+        reportId,
+        action,
+        note ?? null,
+        {
+          userAgent: request.headers.get('user-agent'),
+          ipAddress: getClientIP(request),
+        }
+      );
+
+      return NextResponse.json({ success: true, data: report });
+    } catch (error) {
+      return safetyErrorResponse(error, 'Failed to resolve report');
+    }
+  },
+  {
+    requirePermission: 'reports:review',
+    rateLimitType: 'api',
+  }
+);
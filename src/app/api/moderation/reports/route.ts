@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SecurityMiddleware } from '@/lib/middleware';
+import { REPORT_STATUSES, ReportStatus } from '@/lib/safety';
+import { ModerationService } from '@/services/moderation.service';
+
+/**
+ * GET /api/moderation/reports - The moderation queue (moderators only)
+ *
+ * Without a status filter, returns reports that still need a decision.
+ */
+export const GET = SecurityMiddleware.createSecureAPIWrapper(async (request: NextRequest) => {
+  try {
+    const status = new URL(request.url).searchParams.get('status');
+    if (status && !REPORT_STATUSES.includes(status as ReportStatus)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${REPORT_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const reports = await ModerationService.listReports(status ? { status: status as ReportStatus } : {});
+
+    return NextResponse.json({
+      success: true,
+      data: reports,
+    });
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    return NextResponse.json({ error: 'Failed to fetch reports' }, { status: 500 });
+  }
+}, {
+  requirePermission: 'reports:review',
+  rateLimitType: 'api',
+});
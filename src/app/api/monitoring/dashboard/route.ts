@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { SecurityMiddleware } from '@/lib/middleware';
 import { performanceMonitor } from '@/lib/performance-monitor';
 import { autoScaler } from '@/lib/auto-scaling';
 import { cache } from '@/lib/cache';
 
-export async function GET(request: NextRequest) {
+/**
+ * GET /api/monitoring/dashboard - Operational data for administrators
+ */
+export const GET = SecurityMiddleware.createSecureAPIWrapper(async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const timeRange = parseInt(searchParams.get('timeRange') || '3600000'); // Default 1 hour
@@ -53,7 +57,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, {
+  requirePermission: 'monitoring:view',
+  rateLimitType: 'api',
+});
 
 function calculateOverallHealth(
   metrics: any,
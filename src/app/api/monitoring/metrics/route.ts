@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { SecurityMiddleware } from '@/lib/middleware';
 import { performanceMonitor } from '@/lib/performance-monitor';
 
-export async function GET(request: NextRequest) {
+/**
+ * GET /api/monitoring/metrics - Operational data for administrators
+ */
+export const GET = SecurityMiddleware.createSecureAPIWrapper(async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const timeRange = parseInt(searchParams.get('timeRange') || '3600000'); // Default 1 hour
@@ -31,7 +35,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, {
+  requirePermission: 'monitoring:view',
+  rateLimitType: 'api',
+});
 
 function formatPrometheusMetrics(data: any): string {
   const metrics: string[] = [];
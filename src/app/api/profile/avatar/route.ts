@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AvatarService } from '@/services/avatar.service';
+import { verifyAuthToken, rateLimitMiddleware } from '@/lib/middleware';
+import { UploadError } from '@/lib/uploads';
+
+/**
+ * POST /api/profile/avatar - Upload a new avatar (multipart field "avatar")
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!rateLimitMiddleware(`avatar:${authResult.user.id}`, 10, 3600000)) { // 10 uploads per hour
+      return NextResponse.json(
+        { error: 'Too many avatar uploads. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('avatar');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No image provided' },
+        { status: 400 }
+      );
+    }
+
+    const avatarUrl = await AvatarService.updateAvatar(authResult.user.id, {
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      buffer: Buffer.from(await file.arrayBuffer()),
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { avatarUrl },
+      message: 'Avatar updated successfully',
+    });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Avatar upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update avatar' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/profile/avatar - Remove the avatar
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    await AvatarService.removeAvatar(authResult.user.id);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Avatar removed successfully',
+    });
+  } catch (error) {
+    console.error('Avatar removal error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove avatar' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuthToken } from '@/lib/middleware';
+import { SkillVerificationError } from '@/lib/skill-verification';
+import { skillVerificationRequestSchema, validateRequest } from '@/lib/validation';
+import { SkillVerificationService, VerificationRequestInput } from '@/services/skill-verification.service';
+
+/**
+ * GET /api/profile/skills/[skillId]/verification - Verification status, evidence and audit trail
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ skillId: string }> }
+) {
+  try {
+    const { skillId } = await params;
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const [status, history] = await Promise.all([
+      SkillVerificationService.getVerificationStatus(authResult.user.id, skillId),
+      SkillVerificationService.getAuditTrail(authResult.user.id, skillId),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...status, history },
+    });
+  } catch (error) {
+    console.error('Get skill verification error:', error);
+
+    if (error instanceof SkillVerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch skill verification' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/profile/skills/[skillId]/verification - Ask a reviewer to verify the skill
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ skillId: string }> }
+) {
+  try {
+    const { skillId } = await params;
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateRequest<VerificationRequestInput>(skillVerificationRequestSchema, body);
+
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const verificationRequest = await SkillVerificationService.requestReview(
+      authResult.user.id,
+      skillId,
+      validation.data!
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: verificationRequest,
+      message: 'Verification requested',
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Request skill verification error:', error);
+
+    if (error instanceof SkillVerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to request verification' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BlockService } from '@/services/block.service';
+import { verifyAuthToken, rateLimitMiddleware } from '@/lib/middleware';
+import { SafetyError } from '@/lib/safety';
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+/**
+ * PUT /api/safety/blocks/[userId] - Block a user
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await params;
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    if (!rateLimitMiddleware(`block:${authResult.user.id}`, 30, 3600000)) { // 30 blocks per hour
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    await BlockService.blockUser(authResult.user.id, userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'User blocked. You will no longer be matched with or invited by them.',
+    });
+  } catch (error) {
+    if (error instanceof SafetyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Block user error:', error);
+    return NextResponse.json(
+      { error: 'Failed to block user' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/safety/blocks/[userId] - Unblock a user
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { userId } = await params;
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    await BlockService.unblockUser(authResult.user.id, userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'User unblocked',
+    });
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    return NextResponse.json(
+      { error: 'Failed to unblock user' },
+      { status: 500 }
+    );
+  }
+}
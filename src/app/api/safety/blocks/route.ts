@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BlockService } from '@/services/block.service';
+import { verifyAuthToken } from '@/lib/middleware';
+
+/**
+ * GET /api/safety/blocks - Users the current user has blocked
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const blockedUsers = await BlockService.listBlockedUsers(authResult.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: blockedUsers,
+    });
+  } catch (error) {
+    console.error('Blocked users fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch blocked users' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ModerationService } from '@/services/moderation.service';
+import { verifyAuthToken, sanitizeRequestBody } from '@/lib/middleware';
+import { validateRequest, reportUserSchema } from '@/lib/validation';
+import { SafetyError } from '@/lib/safety';
+
+/**
+ * POST /api/safety/reports - Report a user to the moderators
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuthToken(request);
+    if (!authResult) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = sanitizeRequestBody(await request.json());
+    const validation = validateRequest(reportUserSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const report = await ModerationService.submitReport(authResult.user.id, validation.data!);
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      message: 'Thanks for letting us know. A moderator will review your report.',
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SafetyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Report submission error:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit report' },
+      { status: 500 }
+    );
+  }
+}
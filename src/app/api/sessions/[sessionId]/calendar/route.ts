@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CalendarService } from '@/services/calendar.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * GET /api/sessions/[sessionId]/calendar - Download a session as an .ics file
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const { sessionId } = await params;
+    const baseUrl = process.env.FRONTEND_URL || new URL(request.url).origin;
+
+    const calendar = await CalendarService.renderSession(sessionId, decoded.userId, baseUrl);
+    if (!calendar) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="skillsync-session-${sessionId}.ics"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting session calendar:', error);
+    return NextResponse.json(
+      { error: 'Failed to export session' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/auth';
 import { SessionService } from '@/services/session.service';
+import { SessionTransitionError } from '@/lib/session-lifecycle';
+import { AuthService } from '@/services/auth.service';
 
 /**
  * POST /api/sessions/[sessionId]/complete - Complete a session and update stats
@@ -19,7 +20,7 @@ export async function POST(
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
@@ -33,18 +34,16 @@ export async function POST(
     // Parse request body
     const body = await request.json();
     const {
-      partnerId,
       durationMinutes,
       rating,
       feedback,
-      topics = [],
+      topics,
       sessionType = 'learning'
     } = body;
 
-    // Validate required fields
-    if (!partnerId || !durationMinutes) {
+    if (durationMinutes !== undefined && (typeof durationMinutes !== 'number' || durationMinutes < 0)) {
       return NextResponse.json(
-        { error: 'Missing required fields: partnerId, durationMinutes' },
+        { error: 'durationMinutes must be a positive number' },
         { status: 400 }
       );
     }
@@ -63,11 +62,10 @@ export async function POST(
       );
     }
 
-    // Complete the session
+    // Complete the session (partner and duration are derived from the session record)
     const result = await SessionService.completeSession({
       sessionId,
       userId,
-      partnerId,
       durationMinutes,
       rating,
       feedback,
@@ -80,12 +78,23 @@ export async function POST(
       session: result.session,
       newAchievements: result.newAchievements,
       updatedStats: result.updatedStats,
-      message: result.newAchievements.length > 0
-        ? `Session completed! You earned ${result.newAchievements.length} new achievement(s)!`
-        : 'Session completed successfully!'
+      alreadyCompleted: result.alreadyCompleted,
+      message: result.alreadyCompleted
+        ? 'Session was already completed'
+        : result.newAchievements.length > 0
+          ? `Session completed! You earned ${result.newAchievements.length} new achievement(s)!`
+          : 'Session completed successfully!'
     });
   } catch (error) {
     console.error('Error completing session:', error);
+
+    if (error instanceof SessionTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to complete session' },
       { status: 500 }
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EndorsementError } from '@/lib/endorsements';
+import { endorseSkillsSchema, validateRequest } from '@/lib/validation';
+import { EndorsementService } from '@/services/endorsement.service';
+import { AuthService } from '@/services/auth.service';
+
+async function authenticate(request: NextRequest) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '');
+  return token ? AuthService.authenticateAccessToken(token) : null;
+}
+
+function handleError(error: unknown, fallback: string) {
+  if (error instanceof EndorsementError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/sessions/[sessionId]/endorsements - Partner skills that can be endorsed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const decoded = await authenticate(request);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const result = await EndorsementService.getEndorsableSkills(sessionId, decoded.userId);
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+  } catch (error) {
+    console.error('Error fetching endorsable skills:', error);
+    return handleError(error, 'Failed to fetch endorsable skills');
+  }
+}
+
+/**
+ * POST /api/sessions/[sessionId]/endorsements - Endorse skills the partner demonstrated
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const decoded = await authenticate(request);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateRequest<{ skillIds: string[] }>(endorseSkillsSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await EndorsementService.endorseSkills(
+      sessionId,
+      decoded.userId,
+      validation.data!.skillIds
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      message: 'Skills endorsed'
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error endorsing skills:', error);
+    return handleError(error, 'Failed to endorse skills');
+  }
+}
+
+/**
+ * DELETE /api/sessions/[sessionId]/endorsements?skillId=... - Revoke an endorsement
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const decoded = await authenticate(request);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const skillId = new URL(request.url).searchParams.get('skillId');
+    if (!skillId) {
+      return NextResponse.json(
+        { error: 'skillId is required' },
+        { status: 400 }
+      );
+    }
+
+    await EndorsementService.revokeEndorsement(sessionId, decoded.userId, skillId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Endorsement revoked'
+    });
+  } catch (error) {
+    console.error('Error revoking endorsement:', error);
+    return handleError(error, 'Failed to revoke endorsement');
+  }
+}
@@ -1,6 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/auth';
-import { SessionAnalyticsService } from '@/services/session-analytics.service';
+import { FeedbackError } from '@/lib/session-feedback';
+import { DetailedFeedback, SessionAnalyticsService } from '@/services/session-analytics.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * Pick the DetailedFeedback fields from a request body
+ */
+function parseFeedback(body: any): DetailedFeedback {
+  const {
+    rating,
+    feedback,
+    skillsLearned = [],
+    skillsTaught = [],
+    learningOutcomes = [],
+    difficultyLevel,
+    paceRating,
+    communicationRating,
+    technicalIssues = [],
+    wouldRecommendPartner,
+    improvementSuggestions,
+    sharedResources = []
+  } = body;
+
+  return {
+    rating,
+    feedback,
+    skillsLearned,
+    skillsTaught,
+    learningOutcomes,
+    difficultyLevel,
+    paceRating,
+    communicationRating,
+    technicalIssues,
+    wouldRecommendPartner,
+    improvementSuggestions,
+    sharedResources
+  };
+}
 
 /**
  * POST /api/sessions/[sessionId]/feedback - Submit detailed session feedback
@@ -19,7 +55,7 @@ export async function POST(
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
@@ -31,24 +67,10 @@ export async function POST(
     const { sessionId } = params;
 
     // Parse request body
-    const body = await request.json();
-    const {
-      rating,
-      feedback,
-      skillsLearned = [],
-      skillsTaught = [],
-      learningOutcomes = [],
-      difficultyLevel,
-      paceRating,
-      communicationRating,
-      technicalIssues = [],
-      wouldRecommendPartner,
-      improvementSuggestions,
-      sharedResources = []
-    } = body;
+    const feedback = parseFeedback(await request.json());
 
     // Validate required fields
-    if (!rating || rating < 1 || rating > 5) {
+    if (!feedback.rating || feedback.rating < 1 || feedback.rating > 5) {
       return NextResponse.json(
         { error: 'Rating must be between 1 and 5' },
         { status: 400 }
@@ -56,20 +78,7 @@ export async function POST(
     }
 
     // Submit detailed feedback
-    const result = await SessionAnalyticsService.submitDetailedFeedback(sessionId, userId, {
-      rating,
-      feedback,
-      skillsLearned,
-      skillsTaught,
-      learningOutcomes,
-      difficultyLevel,
-      paceRating,
-      communicationRating,
-      technicalIssues,
-      wouldRecommendPartner,
-      improvementSuggestions,
-      sharedResources
-    });
+    const result = await SessionAnalyticsService.submitDetailedFeedback(sessionId, userId, feedback);
 
     return NextResponse.json({
       success: true,
@@ -78,6 +87,14 @@ export async function POST(
     });
   } catch (error) {
     console.error('Error submitting feedback:', error);
+
+    if (error instanceof FeedbackError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to submit feedback' },
       { status: 500 }
@@ -85,6 +102,69 @@ export async function POST(
   }
 }
 
+/**
+ * PUT /api/sessions/[sessionId]/feedback - Edit submitted feedback within the edit window
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const userId = decoded.userId;
+    const { sessionId } = params;
+
+    // Parse request body
+    const feedback = parseFeedback(await request.json());
+
+    // Validate required fields
+    if (!feedback.rating || feedback.rating < 1 || feedback.rating > 5) {
+      return NextResponse.json(
+        { error: 'Rating must be between 1 and 5' },
+        { status: 400 }
+      );
+    }
+
+    const result = await SessionAnalyticsService.updateDetailedFeedback(sessionId, userId, feedback);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: 'Feedback updated successfully'
+    });
+  } catch (error) {
+    console.error('Error updating feedback:', error);
+
+    if (error instanceof FeedbackError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update feedback' },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * GET /api/sessions/[sessionId]/feedback - Get session feedback
  */
@@ -102,7 +182,7 @@ export async function GET(
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
@@ -122,6 +202,14 @@ export async function GET(
     });
   } catch (error) {
     console.error('Error fetching feedback:', error);
+
+    if (error instanceof Error && error.message.includes('Unauthorized')) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 403 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to fetch feedback' },
       { status: 500 }
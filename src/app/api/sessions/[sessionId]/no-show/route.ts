@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionTransitionError } from '@/lib/session-lifecycle';
+import { SessionLifecycleService } from '@/services/session-lifecycle.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * POST /api/sessions/[sessionId]/no-show - Report that the partner did not join a scheduled session
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const { sessionId } = await params;
+
+    // Parse optional reason
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body.reason === 'string' ? body.reason.slice(0, 500) : undefined;
+
+    const result = await SessionLifecycleService.transition(sessionId, decoded.userId, 'no_show', {
+      ...(reason && { reason }),
+    });
+
+    return NextResponse.json({
+      success: true,
+      session: result.session,
+      alreadyApplied: !result.applied,
+      message: 'No-show recorded'
+    });
+  } catch (error) {
+    console.error('Error trying to record no-show for session:', error);
+
+    if (error instanceof SessionTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to record no-show for session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionTransitionError } from '@/lib/session-lifecycle';
+import { SessionLifecycleService } from '@/services/session-lifecycle.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * POST /api/sessions/[sessionId]/pause - Pause an active session
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const { sessionId } = await params;
+
+    const result = await SessionLifecycleService.transition(sessionId, decoded.userId, 'pause');
+
+    return NextResponse.json({
+      success: true,
+      session: result.session,
+      alreadyApplied: !result.applied,
+      message: 'Session paused'
+    });
+  } catch (error) {
+    console.error('Error trying to pause session:', error);
+
+    if (error instanceof SessionTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to pause session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BookingError } from '@/lib/booking';
+import { rescheduleSessionSchema, validateRequest } from '@/lib/validation';
+import { BookingService } from '@/services/booking.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * POST /api/sessions/[sessionId]/reschedule - Move a scheduled session to a new slot
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const { sessionId } = await params;
+
+    const body = await request.json();
+    const validation = validateRequest(rescheduleSessionSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const session = await BookingService.rescheduleSession(sessionId, decoded.userId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      session,
+      message: 'Session rescheduled'
+    });
+  } catch (error) {
+    console.error('Error rescheduling session:', error);
+
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to reschedule session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionService } from '@/services/session.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * GET /api/sessions/[sessionId] - Get a session the user participates in
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const { sessionId } = await params;
+
+    const session = await SessionService.getSessionForParticipant(sessionId, decoded.userId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      session
+    });
+  } catch (error) {
+    console.error('Error fetching session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch session' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { OPEN_SESSION_STATUSES } from '@/lib/session-lifecycle';
+import { AuthService } from '@/services/auth.service';
 
 /**
  * GET /api/sessions/active - Get user's active sessions
@@ -16,7 +17,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
@@ -34,7 +35,7 @@ export async function GET(request: NextRequest) {
           { partnerId: userId }
         ],
         status: {
-          in: ['waiting', 'active']
+          in: [...OPEN_SESSION_STATUSES]
         },
         endTime: null
       },
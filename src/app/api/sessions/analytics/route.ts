@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '@/lib/auth';
 import { SessionAnalyticsService } from '@/services/session-analytics.service';
+import { AuthService } from '@/services/auth.service';
 
 /**
  * GET /api/sessions/analytics - Get comprehensive session analytics for a user
@@ -16,7 +16,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const decoded = verifyAccessToken(token);
+    const decoded = await AuthService.authenticateAccessToken(token);
     if (!decoded) {
       return NextResponse.json(
         { error: 'Invalid token' },
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BookingError } from '@/lib/booking';
+import { BookingService } from '@/services/booking.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * GET /api/sessions/availability - List mutual free slots with a partner
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const partnerId = searchParams.get('partnerId');
+    const from = searchParams.get('from');
+    const days = searchParams.get('days');
+    const duration = searchParams.get('duration');
+
+    if (!partnerId) {
+      return NextResponse.json(
+        { error: 'partnerId is required' },
+        { status: 400 }
+      );
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    if (fromDate && isNaN(fromDate.getTime())) {
+      return NextResponse.json(
+        { error: 'from must be a valid date' },
+        { status: 400 }
+      );
+    }
+
+    const result = await BookingService.getMutualSlots(decoded.userId, partnerId, {
+      ...(fromDate && { from: fromDate }),
+      ...(days && { days: Math.max(1, parseInt(days) || 1) }),
+      ...(duration && { durationMinutes: parseInt(duration) }),
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error fetching availability:', error);
+
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch availability' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BookingError } from '@/lib/booking';
+import { bookSessionSchema, validateRequest } from '@/lib/validation';
+import { BookingService } from '@/services/booking.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * POST /api/sessions/book - Book a scheduled session with a partner
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateRequest(bookSessionSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const session = await BookingService.bookSession(decoded.userId, validation.data);
+
+    return NextResponse.json(
+      {
+        success: true,
+        session,
+        message: 'Session booked'
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error booking session:', error);
+
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to book session' },
+      { status: 500 }
+    );
+  }
+}
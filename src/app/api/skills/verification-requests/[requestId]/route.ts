@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SkillVerificationError } from '@/lib/skill-verification';
+import { skillVerificationReviewSchema, validateRequest } from '@/lib/validation';
+import { SkillVerificationService, VerificationReviewInput } from '@/services/skill-verification.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * POST /api/skills/verification-requests/[requestId] - Approve or reject a verification request
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ requestId: string }> }
+) {
+  try {
+    const { requestId } = await params;
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = validateRequest<VerificationReviewInput>(skillVerificationReviewSchema, body);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const verificationRequest = await SkillVerificationService.reviewRequest(
+      requestId,
+      decoded.userId,
+      validation.data!
+    );
+
+    return NextResponse.json({
+      success: true,
+      request: verificationRequest,
+      message: validation.data!.approve ? 'Skill verified' : 'Verification request rejected'
+    });
+  } catch (error) {
+    console.error('Error reviewing verification request:', error);
+
+    if (error instanceof SkillVerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to review verification request' },
+      { status: 500 }
+    );
+  }
+}
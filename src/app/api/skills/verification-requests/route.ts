@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SkillVerificationError } from '@/lib/skill-verification';
+import { SkillVerificationService } from '@/services/skill-verification.service';
+import { AuthService } from '@/services/auth.service';
+
+/**
+ * GET /api/skills/verification-requests - Pending verification requests (reviewers only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const decoded = await AuthService.authenticateAccessToken(token);
+    if (!decoded) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const requests = await SkillVerificationService.getPendingRequests(decoded.userId);
+
+    return NextResponse.json({
+      success: true,
+      requests
+    });
+  } catch (error) {
+    console.error('Error fetching verification requests:', error);
+
+    if (error instanceof SkillVerificationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch verification requests' },
+      { status: 500 }
+    );
+  }
+}
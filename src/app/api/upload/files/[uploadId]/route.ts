@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimitMiddleware, getClientIP } from '@/lib/middleware';
+import { UploadError } from '@/lib/uploads';
+import { UploadService } from '@/services/upload.service';
+
+// Types browsers may render in place; anything else is always a download
+const INLINE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf'];
+
+/**
+ * GET /api/upload/files/[uploadId]?uid=&expires=&signature= - Signed file download
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const { uploadId } = await params;
+    const clientIP = getClientIP(request);
+    if (!rateLimitMiddleware(`upload-download:${clientIP}`, 120, 60000)) { // 120 downloads per minute
+      return NextResponse.json(
+        { error: 'Too many downloads. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const uid = searchParams.get('uid');
+    const expires = Number(searchParams.get('expires'));
+    const signature = searchParams.get('signature');
+
+    if (!uid || !signature || !/^[a-f0-9]{24}$/i.test(uploadId)) {
+      return NextResponse.json(
+        { error: 'Download link is invalid or has expired' },
+        { status: 403 }
+      );
+    }
+
+    const { file, content } = await UploadService.openSignedDownload(uploadId, { uid, expires, signature });
+
+    const disposition = INLINE_TYPES.includes(file.type) ? 'inline' : 'attachment';
+
+    return new NextResponse(new Uint8Array(content), {
+      status: 200,
+      headers: {
+        'Content-Type': file.type,
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+        'Content-Length': content.length.toString(),
+        'Cache-Control': 'private, no-cache, no-store, must-revalidate',
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+      },
+    });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Signed file download error:', error);
+    return NextResponse.json(
+      { error: 'Unable to retrieve file' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SecurityMiddleware, FileUploadSecurity } from '@/lib/middleware';
-import { DataEncryption } from '@/lib/security';
+import { SecurityMiddleware, verifyAuthToken } from '@/lib/middleware';
 import { UserRateLimiter } from '@/lib/rate-limiter';
+import { UploadError } from '@/lib/uploads';
+import { UploadService } from '@/services/upload.service';
 
 /**
  * Secure file upload endpoint with comprehensive security measures
@@ -9,8 +10,14 @@ import { UserRateLimiter } from '@/lib/rate-limiter';
 export const POST = SecurityMiddleware.createSecureAPIWrapper(
   async (request: NextRequest) => {
     try {
-      // Get authenticated user (this would come from auth middleware)
-      const userId = 'user-123'; // Placeholder - would come from verified JWT
+      const authResult = await verifyAuthToken(request);
+      if (!authResult) {
+        return NextResponse.json(
+          { error: 'Authentication required' },
+          { status: 401 }
+        );
+      }
+      const userId = authResult.user.id;
 
       // Check user-specific upload rate limits
       const userRateLimit = await UserRateLimiter.checkUserRateLimit(userId, 'api');
@@ -32,10 +39,11 @@ export const POST = SecurityMiddleware.createSecureAPIWrapper(
 
       // Parse multipart form data
       const formData = await request.formData();
-      const file = formData.get('file') as File;
+      const file = formData.get('file');
       const fileType = formData.get('type') as string || 'general';
+      const sessionId = formData.get('sessionId');
 
-      if (!file) {
+      if (!(file instanceof File)) {
         return NextResponse.json(
           {
             error: 'No file provided',
@@ -45,102 +53,44 @@ export const POST = SecurityMiddleware.createSecureAPIWrapper(
         );
       }
 
-      // Convert file to buffer for security validation
-      const buffer = Buffer.from(await file.arrayBuffer());
-
-      // Comprehensive file validation
-      const fileValidation = FileUploadSecurity.validateUploadedFile({
-        name: file.name,
-        type: file.type,
-        size: file.size,
-        buffer,
-      });
-
-      if (!fileValidation.isValid) {
+      if (sessionId !== null && (typeof sessionId !== 'string' || !/^[a-f0-9]{24}$/i.test(sessionId))) {
         return NextResponse.json(
-          {
-            error: 'File validation failed',
-            message: fileValidation.securityViolation || 'Invalid file',
-            details: fileValidation.errors,
-          },
+          { error: 'Invalid session ID' },
           { status: 400 }
         );
       }
 
-      // Scan file for malware
-      const malwareScan = await FileUploadSecurity.scanFileForMalware(buffer);
-      if (!malwareScan.isSafe) {
-        console.warn(`Malware detected in file upload from user ${userId}:`, malwareScan.threats);
-
-        return NextResponse.json(
-          {
-            error: 'Security threat detected',
-            message: 'File contains potentially malicious content',
-          },
-          { status: 400 }
-        );
-      }
-
-      // Generate secure filename
-      const fileExtension = file.name.substring(file.name.lastIndexOf('.'));
-      const secureFilename = `${DataEncryption.generateSecureToken(16)}${fileExtension}`;
-
-      // Encrypt file content if it contains sensitive data
-      let processedBuffer = buffer;
-      if (fileType === 'sensitive' || file.type === 'text/plain') {
-        try {
-          const encryptedContent = DataEncryption.encrypt(buffer.toString('base64'));
-          processedBuffer = Buffer.from(encryptedContent);
-        } catch (error) {
-          console.error('File encryption error:', error);
-          return NextResponse.json(
-            {
-              error: 'File processing failed',
-              message: 'Unable to secure file content',
-            },
-            { status: 500 }
-          );
+      const upload = await UploadService.upload(
+        userId,
+        {
+          name: file.name,
+          type: file.type,
+          size: file.size,
+          buffer: Buffer.from(await file.arrayBuffer()),
+        },
+        {
+          sensitive: fileType === 'sensitive',
+          ...(sessionId && { sessionId }),
         }
-      }
-
-      // Store file metadata securely
-      const fileMetadata = {
-        id: DataEncryption.generateSecureToken(16),
-        originalName: file.name,
-        secureFilename,
-        mimeType: file.type,
-        size: file.size,
-        uploadedBy: userId,
-        uploadedAt: new Date().toISOString(),
-        encrypted: fileType === 'sensitive' || file.type === 'text/plain',
-        hash: DataEncryption.hash(buffer.toString('base64')),
-      };
-
-      // In a real implementation, you would:
-      // 1. Store the file in secure cloud storage (S3, etc.)
-      // 2. Save metadata to database
-      // 3. Set up proper access controls
-
-      // For this example, we'll simulate successful upload
-      console.log('File uploaded successfully:', fileMetadata);
+      );
 
       return NextResponse.json(
         {
           success: true,
-          file: {
-            id: fileMetadata.id,
-            name: fileMetadata.originalName,
-            size: fileMetadata.size,
-            type: fileMetadata.mimeType,
-            uploadedAt: fileMetadata.uploadedAt,
-            encrypted: fileMetadata.encrypted,
-          },
+          file: upload,
           message: 'File uploaded successfully',
         },
         { status: 201 }
       );
 
     } catch (error) {
+      if (error instanceof UploadError) {
+        return NextResponse.json(
+          { error: 'File validation failed', message: error.message },
+          { status: error.statusCode }
+        );
+      }
+
       console.error('Secure file upload error:', error);
 
       return NextResponse.json(
@@ -163,7 +113,8 @@ export const POST = SecurityMiddleware.createSecureAPIWrapper(
 );
 
 /**
- * Secure file download endpoint
+ * Download link for a file: GET /api/upload/secure?id=... returns a signed,
+ * expiring URL under /api/upload/files
  */
 export const GET = SecurityMiddleware.createSecureAPIWrapper(
   async (request: NextRequest) => {
@@ -171,68 +122,36 @@ export const GET = SecurityMiddleware.createSecureAPIWrapper(
       const { searchParams } = new URL(request.url);
       const fileId = searchParams.get('id');
 
-      if (!fileId) {
+      if (!fileId || !/^[a-f0-9]{24}$/i.test(fileId)) {
         return NextResponse.json(
           { error: 'File ID required' },
           { status: 400 }
         );
       }
 
-      // Get authenticated user
-      const userId = 'user-123'; // Placeholder
-
-      // Validate file access permissions
-      const hasAccess = await validateFileAccess(userId, fileId);
-      if (!hasAccess) {
+      const authResult = await verifyAuthToken(request);
+      if (!authResult) {
         return NextResponse.json(
-          {
-            error: 'Access denied',
-            message: 'You do not have permission to access this file',
-          },
-          { status: 403 }
+          { error: 'Authentication required' },
+          { status: 401 }
         );
       }
 
-      // Get file metadata and content
-      const fileData = await getSecureFile(fileId);
-      if (!fileData) {
-        return NextResponse.json(
-          { error: 'File not found' },
-          { status: 404 }
-        );
-      }
-
-      // Decrypt file content if encrypted
-      let fileContent = fileData.content;
-      if (fileData.encrypted) {
-        try {
-          const decryptedBase64 = DataEncryption.decrypt(fileData.content.toString());
-          fileContent = Buffer.from(decryptedBase64, 'base64');
-        } catch (error) {
-          console.error('File decryption error:', error);
-          return NextResponse.json(
-            {
-              error: 'File access failed',
-              message: 'Unable to decrypt file content',
-            },
-            { status: 500 }
-          );
-        }
-      }
+      const download = await UploadService.createDownloadUrl(fileId, authResult.user.id);
 
-      // Return file with security headers
-      return new NextResponse(fileContent, {
-        status: 200,
-        headers: {
-          'Content-Type': fileData.mimeType,
-          'Content-Disposition': `attachment; filename="${fileData.originalName}"`,
-          'Content-Length': fileContent.length.toString(),
-          'Cache-Control': 'private, no-cache, no-store, must-revalidate',
-          'X-Content-Type-Options': 'nosniff',
-        },
+      return NextResponse.json({
+        success: true,
+        data: download,
       });
 
     } catch (error) {
+      if (error instanceof UploadError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.statusCode }
+        );
+      }
+
       console.error('Secure file download error:', error);
 
       return NextResponse.json(
@@ -251,24 +170,6 @@ export const GET = SecurityMiddleware.createSecureAPIWrapper(
   }
 );
 
-// Helper functions
-async function validateFileAccess(userId: string, fileId: string): Promise<boolean> {
-  // This would check if the user has access to the file
-  // Implementation would involve database queries to check ownership/permissions
-  return true; // Placeholder
-}
-
-async function getSecureFile(fileId: string): Promise<{
-  originalName: string;
-  mimeType: string;
-  content: Buffer;
-  encrypted: boolean;
-} | null> {
-  // This would retrieve file metadata and content from secure storage
-  // For this example, we'll return null to simulate file not found
-  return null; // Placeholder
-}
-
 // Disable other HTTP methods
 export const PUT = () => NextResponse.json({ error: 'Method not allowed' }, { status: 405 });
-export const DELETE = () => NextResponse.json({ error: 'Method not allowed' }, { status: 405 });
\ No newline at end of file
+export const DELETE = () => NextResponse.json({ error: 'Method not allowed' }, { status: 405 });
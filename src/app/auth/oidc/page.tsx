@@ -0,0 +1,148 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { GlassCard, GlassButton, GlassInput } from '@/components/ui';
+
+type SignInState = 'finishing' | 'two-factor' | 'failed';
+
+function OidcResultContent() {
+  const searchParams = useSearchParams();
+  const status = searchParams.get('status');
+  const challengeToken = searchParams.get('challenge');
+  const errorParam = searchParams.get('error');
+
+  const [state, setState] = useState<SignInState>(
+    errorParam ? 'failed' : challengeToken ? 'two-factor' : 'finishing'
+  );
+  const [message, setMessage] = useState<string | null>(errorParam);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const attempted = useRef(false);
+
+  const finish = (accessToken: string) => {
+    localStorage.setItem('accessToken', accessToken);
+    window.location.href = '/dashboard';
+  };
+
+  useEffect(() => {
+    // The callback left the session in the refresh cookie; trade it for an access token
+    if (status !== 'success' || attempted.current) return;
+    attempted.current = true;
+
+    const exchange = async () => {
+      try {
+        const response = await fetch('/api/auth/refresh', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({}),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Sign-in failed');
+        }
+
+        finish(data.data.accessToken);
+      } catch (error) {
+        setState('failed');
+        setMessage(error instanceof Error ? error.message : 'Sign-in failed');
+      }
+    };
+
+    exchange();
+  }, [status]);
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      setMessage('Enter the code from your authenticator app');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setMessage(null);
+      const response = await fetch('/api/auth/login/two-factor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          challengeToken,
+          code: code.trim(),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Verification failed');
+      }
+
+      finish(data.data.accessToken);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Verification failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (state === 'two-factor') {
+    return (
+      <GlassCard className="p-8">
+        <h1 className="text-2xl font-bold text-white mb-4 text-center">Two-factor authentication</h1>
+        <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+          <GlassInput
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="6-digit code or recovery code"
+            disabled={submitting}
+          />
+          {message && <p className="text-sm text-red-300">{message}</p>}
+          <GlassButton type="submit" variant="primary" className="w-full" disabled={submitting}>
+            {submitting ? 'Verifying...' : 'Verify'}
+          </GlassButton>
+        </form>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <GlassCard className="p-8 text-center">
+      <h1 className="text-2xl font-bold text-white mb-4">
+        {state === 'failed' ? 'Sign-in failed' : 'Signing you in'}
+      </h1>
+
+      {state === 'finishing' && (
+        <p className="text-white/70">Finishing sign-in...</p>
+      )}
+
+      {message && (
+        <p className="mt-4 text-sm text-red-300">{message}</p>
+      )}
+
+      {state === 'failed' && (
+        <div className="mt-6">
+          <Link href="/auth">
+            <GlassButton variant="ghost" className="w-full">Back to sign in</GlassButton>
+          </Link>
+        </div>
+      )}
+    </GlassCard>
+  );
+}
+
+export default function OidcResultPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <Suspense fallback={<GlassCard className="p-8 text-center text-white/70">Loading...</GlassCard>}>
+          <OidcResultContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import React, { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { cn } from '@/utils';
+import { isTerminalStatus } from '@/lib/session-lifecycle';
 import { useResponsive } from '@/components/ui/ResponsiveProvider';
 import { usePerformance } from '@/components/ui/PerformanceProvider';
 import { MobileVideoCall } from '@/components/features/MobileVideoCall';
@@ -34,17 +35,54 @@ export default function CallPage() {
   const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
   const [isVideoEnabled, setIsVideoEnabled] = useState(true);
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
+  const [session, setSession] = useState<{ id: string; status: string; topics: string[] } | null>(null);
 
-  // Initialize media on mount
+  // Load the session record, then initialize media
   useEffect(() => {
     if (!sessionId) {
       router.push('/dashboard');
       return;
     }
 
-    initializeMedia();
+    loadSession().then((loaded) => {
+      if (loaded) {
+        initializeMedia();
+      }
+    });
   }, [sessionId, router]);
 
+  const loadSession = async (): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        },
+      });
+
+      if (!response.ok) {
+        setCallError(response.status === 404 ? 'This session does not exist' : 'Failed to load session');
+        setIsConnecting(false);
+        return false;
+      }
+
+      const data = await response.json();
+      setSession(data.session);
+
+      if (isTerminalStatus(data.session.status)) {
+        setCallError('This session has already ended');
+        setIsConnecting(false);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Failed to load session:', error);
+      setCallError('Failed to load session');
+      setIsConnecting(false);
+      return false;
+    }
+  };
+
   const initializeMedia = async () => {
     try {
       setIsConnecting(true);
@@ -70,6 +108,9 @@ export default function CallPage() {
       setIsCallActive(true);
       setIsConnecting(false);
 
+      // Move the session from scheduled to active (no-op if the partner already started it)
+      await postSessionTransition('start');
+
       // Simulate connection delay
       setTimeout(() => {
         // In a real app, this would be handled by WebRTC connection
@@ -144,7 +185,22 @@ export default function CallPage() {
     }
   };
 
-  const handleEndCall = () => {
+  const postSessionTransition = async (action: 'start' | 'complete') => {
+    try {
+      await fetch(`/api/sessions/${sessionId}/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        },
+        body: JSON.stringify({}),
+      });
+    } catch (error) {
+      console.error(`Failed to ${action} session:`, error);
+    }
+  };
+
+  const handleEndCall = async () => {
     // Clean up streams
     if (localStream) {
       localStream.getTracks().forEach(track => track.stop());
@@ -153,6 +209,9 @@ export default function CallPage() {
       remoteStream.getTracks().forEach(track => track.stop());
     }
 
+    // Ending is idempotent, so both participants can report it
+    await postSessionTransition('complete');
+
     // Navigate back
     router.push('/dashboard');
   };
@@ -170,6 +229,11 @@ export default function CallPage() {
             <p className="text-white/70 text-sm mb-6">
               Please wait while we set up your video call
             </p>
+            {session && session.topics.length > 0 && (
+              <p className="text-white/50 text-xs mb-6">
+                Topics: {session.topics.join(', ')}
+              </p>
+            )}
             <GlassButton
               variant="ghost"
               onClick={() => router.push('/dashboard')}
@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useQueue } from '@/hooks/useQueue';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { GlassButton } from '@/components/ui/GlassButton';
 import { LoadingSkeleton } from '@/components/ui/LoadingSkeleton';
@@ -16,6 +17,12 @@ interface MatchingRequest {
   urgency: 'low' | 'medium' | 'high';
 }
 
+interface MatchExplanation {
+  proposalId: string;
+  reasons: string[];
+  caveats: string[];
+}
+
 interface QueueStats {
   totalInQueue: number;
   averageWaitTime: number;
@@ -36,6 +43,43 @@ const MatchPage: React.FC = () => {
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [explanation, setExplanation] = useState<MatchExplanation | null>(null);
+  const { onMatchFound, onProposalClosed, proposal, respondToProposal, isLoading: responding } = useQueue();
+
+  // The session only exists once both of us accepted the proposal
+  useEffect(() => {
+    onMatchFound((match) => {
+      window.location.href = `/call/${match.sessionId}`;
+    });
+  }, [onMatchFound]);
+
+  useEffect(() => {
+    onProposalClosed((closed) => {
+      if (closed.requeued) {
+        setNotice(closed.status === 'declined'
+          ? 'Your match declined. You are back in the queue in the same spot.'
+          : 'Your match did not respond in time. You are back in the queue in the same spot.');
+      } else {
+        setIsInQueue(false);
+        setNotice(closed.status === 'declined'
+          ? 'Match declined. Join the queue again to keep searching.'
+          : 'The match expired before you answered. Join the queue again when you are ready.');
+      }
+    });
+  }, [onProposalClosed]);
+
+  useEffect(() => {
+    if (!proposal) return;
+
+    const tick = () => {
+      setSecondsLeft(Math.max(0, Math.ceil((new Date(proposal.expiresAt).getTime() - Date.now()) / 1000)));
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [proposal]);
 
   useEffect(() => {
     if (user) {
@@ -62,6 +106,8 @@ const MatchPage: React.FC = () => {
     try {
       setLoading(true);
       setError(null);
+      setNotice(null);
+      setExplanation(null);
 
       // Add to queue
       const response = await fetch('/api/queue/add', {
@@ -79,16 +125,23 @@ const MatchPage: React.FC = () => {
       // Try to find a match
       const matchResponse = await fetch('/api/match/find', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        },
         body: JSON.stringify(matchingRequest)
       });
 
-      if (matchResponse.ok) {
-        const matchData = await matchResponse.json();
-        if (matchData.match) {
-          // Redirect to session
-          window.location.href = `/call/${matchData.sessionId}`;
-        }
+      // A match comes back as a proposal, which reaches both of us over the queue socket
+      if (!matchResponse.ok) {
+        const errorData = await matchResponse.json();
+        throw new Error(errorData.error || 'Failed to find match');
+      }
+
+      // Only the user who asked gets the reasons behind the match
+      const { match } = await matchResponse.json();
+      if (match?.explanation) {
+        setExplanation({ proposalId: match.proposalId, ...match.explanation });
       }
     } catch (error) {
       setError(error instanceof Error ? error.message : 'An error occurred');
@@ -110,6 +163,14 @@ const MatchPage: React.FC = () => {
     }
   };
 
+  const handleProposalResponse = async (response: 'accept' | 'decline') => {
+    try {
+      await respondToProposal(response);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An error occurred');
+    }
+  };
+
   const addSkill = (skill: string) => {
     if (skill && !matchingRequest.preferredSkills.includes(skill)) {
       setMatchingRequest(prev => ({
@@ -157,6 +218,19 @@ const MatchPage: React.FC = () => {
           <p className="text-gray-300">Find your perfect learning partner with our intelligent matching system</p>
         </div>
 
+        {/* Email Verification */}
+        {!user.isVerified && (
+          <GlassCard className="flex flex-col md:flex-row items-center justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold text-white">Verify your email to start matching</h3>
+              <p className="text-sm text-gray-300">We sent a link to {user.email}. You can request a new one if it expired.</p>
+            </div>
+            <Link href="/verify-email">
+              <GlassButton variant="secondary">Verify Email</GlassButton>
+            </Link>
+          </GlassCard>
+        )}
+
         {/* Queue Statistics */}
         {queueStats && (
           <GlassCard>
@@ -184,6 +258,57 @@ const MatchPage: React.FC = () => {
           </GlassCard>
         )}
 
+        {/* Match Proposal */}
+        {proposal && (
+          <GlassCard className="text-center space-y-4">
+            <h3 className="text-lg font-semibold text-white">We found a match</h3>
+            <p className="text-gray-300">
+              {Math.round(proposal.compatibilityScore * 100)}% compatible for a {proposal.sessionType} session
+            </p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {proposal.topics.map((topic) => (
+                <GlassBadge key={topic} variant="primary">{topic}</GlassBadge>
+              ))}
+            </div>
+            {explanation?.proposalId === proposal.proposalId && (
+              <div className="text-left text-sm space-y-2">
+                {explanation.reasons.length > 0 && (
+                  <ul className="space-y-1">
+                    {explanation.reasons.map((reason) => (
+                      <li key={reason} className="text-green-300">✓ {reason}</li>
+                    ))}
+                  </ul>
+                )}
+                {explanation.caveats.length > 0 && (
+                  <ul className="space-y-1">
+                    {explanation.caveats.map((caveat) => (
+                      <li key={caveat} className="text-yellow-300">⚠️ {caveat}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            {proposal.accepted ? (
+              <p className="text-blue-400">Waiting for your partner to accept... ({secondsLeft}s)</p>
+            ) : (
+              <>
+                {proposal.partnerAccepted && (
+                  <p className="text-green-400">Your partner already accepted</p>
+                )}
+                <p className="text-sm text-gray-300">Respond within {secondsLeft}s</p>
+                <div className="flex justify-center gap-3">
+                  <GlassButton onClick={() => handleProposalResponse('accept')} disabled={responding}>
+                    Accept
+                  </GlassButton>
+                  <GlassButton variant="ghost" onClick={() => handleProposalResponse('decline')} disabled={responding}>
+                    Decline
+                  </GlassButton>
+                </div>
+              </>
+            )}
+          </GlassCard>
+        )}
+
         {/* Matching Form */}
         <GlassCard>
           <h3 className="text-lg font-semibold text-white mb-6">Matching Preferences</h3>
@@ -283,11 +408,17 @@ const MatchPage: React.FC = () => {
             </div>
           )}
 
+          {notice && (
+            <div className="mt-4 p-3 bg-blue-500/20 border border-blue-500/30 rounded-lg text-blue-300">
+              {notice}
+            </div>
+          )}
+
           <div className="mt-6 flex justify-center">
             {!isInQueue ? (
               <GlassButton
                 onClick={handleFindMatch}
-                disabled={loading || matchingRequest.preferredSkills.length === 0}
+                disabled={loading || !user.isVerified || matchingRequest.preferredSkills.length === 0}
                 className="px-8 py-3"
               >
                 {loading ? 'Finding Match...' : 'Find Learning Partner'}
@@ -6,6 +6,7 @@ import { GlassCard } from '@/components/ui/GlassCard';
 import { GlassButton } from '@/components/ui/GlassButton';
 import { LoadingSkeleton } from '@/components/ui/LoadingSkeleton';
 import { GlassBadge } from '@/components/ui/GlassBadge';
+import { LazyImage } from '@/components/ui/LazyImage';
 import Link from 'next/link';
 
 interface ActiveSession {
@@ -279,10 +280,12 @@ const SessionsPage: React.FC = () => {
                           {/* Partner Avatar */}
                           <div className="w-12 h-12 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white font-semibold">
                             {partner.avatarUrl ? (
-                              <img
+                              <LazyImage
                                 src={partner.avatarUrl}
                                 alt={partner.username}
-                                className="w-full h-full rounded-full object-cover"
+                                displaySize={48}
+                                className="w-full h-full rounded-full"
+                                imageClassName="w-full h-full object-cover"
                               />
                             ) : (
                               partner.username.charAt(0).toUpperCase()
@@ -0,0 +1,128 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/hooks/useAuth';
+import { GlassCard, GlassButton } from '@/components/ui';
+
+type VerificationState = 'idle' | 'verifying' | 'verified' | 'failed';
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const { user, isAuthenticated } = useAuth();
+
+  const [state, setState] = useState<VerificationState>(token ? 'verifying' : 'idle');
+  const [message, setMessage] = useState<string | null>(null);
+  const [resending, setResending] = useState(false);
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    // Effects run twice in development, only post the token once
+    if (!token || attempted.current) return;
+    attempted.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Verification failed');
+        }
+
+        setState('verified');
+        setMessage(data.message);
+      } catch (error) {
+        setState('failed');
+        setMessage(error instanceof Error ? error.message : 'Verification failed');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const handleResend = async () => {
+    try {
+      setResending(true);
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        },
+      });
+      const data = await response.json();
+
+      setMessage(response.ok ? `${data.message}. Check your inbox.` : data.error);
+    } catch {
+      setMessage('Failed to send verification email');
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const canResend = isAuthenticated && user && !user.isVerified && state !== 'verified';
+
+  return (
+    <GlassCard className="p-8 text-center">
+      <h1 className="text-2xl font-bold text-white mb-4">
+        {state === 'verified' ? 'Email verified' : 'Verify your email'}
+      </h1>
+
+      {state === 'verifying' && (
+        <p className="text-white/70">Verifying your email address...</p>
+      )}
+
+      {state === 'idle' && (
+        <p className="text-white/70">
+          We sent a verification link to {user?.email || 'your email address'}.
+          Open it to start matching with learning partners.
+        </p>
+      )}
+
+      {message && (
+        <p className={`mt-4 text-sm ${state === 'failed' ? 'text-red-300' : 'text-white/80'}`}>
+          {message}
+        </p>
+      )}
+
+      <div className="mt-6 flex flex-col gap-3">
+        {state === 'verified' && (
+          <Link href="/match">
+            <GlassButton className="w-full">Find a learning partner</GlassButton>
+          </Link>
+        )}
+
+        {canResend && (
+          <GlassButton variant="ghost" onClick={handleResend} disabled={resending}>
+            {resending ? 'Sending...' : 'Resend verification email'}
+          </GlassButton>
+        )}
+
+        {!isAuthenticated && state !== 'verified' && (
+          <Link href="/auth">
+            <GlassButton variant="ghost" className="w-full">Sign in to request a new link</GlassButton>
+          </Link>
+        )}
+      </div>
+    </GlassCard>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <Suspense fallback={<GlassCard className="p-8 text-center text-white/70">Loading...</GlassCard>}>
+          <VerifyEmailContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
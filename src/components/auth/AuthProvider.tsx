@@ -9,7 +9,10 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   error: string | null;
-  login: (credentials: LoginRequest) => Promise<void>;
+  twoFactorChallenge: string | null;
+  login: (credentials: LoginRequest) => Promise<boolean>;
+  completeTwoFactorLogin: (code: string) => Promise<void>;
+  cancelTwoFactorLogin: () => void;
   register: (userData: RegisterRequest) => Promise<void>;
   logout: () => Promise<void>;
   refreshToken: () => Promise<void>;
@@ -11,12 +11,21 @@ interface LoginFormProps {
 }
 
 export function LoginForm({ onSuccess, className = '' }: LoginFormProps) {
-  const { login, isLoading, error, clearError } = useAuth();
+  const {
+    login,
+    completeTwoFactorLogin,
+    cancelTwoFactorLogin,
+    twoFactorChallenge,
+    isLoading,
+    error,
+    clearError,
+  } = useAuth();
   const [formData, setFormData] = useState<LoginRequest>({
     email: '',
     password: '',
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [twoFactorCode, setTwoFactorCode] = useState('');
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -58,14 +67,97 @@ export function LoginForm({ onSuccess, className = '' }: LoginFormProps) {
     }
 
     try {
-      await login(formData);
-      onSuccess?.();
+      const signedIn = await login(formData);
+      if (signedIn) {
+        onSuccess?.();
+      }
     } catch (error) {
       // Error is handled by the useAuth hook
       console.error('Login failed:', error);
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!twoFactorCode.trim()) {
+      setFormErrors({ code: 'Enter the code from your authenticator app' });
+      return;
+    }
+
+    try {
+      await completeTwoFactorLogin(twoFactorCode.trim());
+      onSuccess?.();
+    } catch (error) {
+      // Error is handled by the useAuth hook
+      console.error('Two-factor verification failed:', error);
+    }
+  };
+
+  const handleTwoFactorCancel = () => {
+    setTwoFactorCode('');
+    setFormErrors({});
+    cancelTwoFactorLogin();
+  };
+
+  if (twoFactorChallenge) {
+    return (
+      <form onSubmit={handleTwoFactorSubmit} className={`space-y-6 ${className}`}>
+        <div>
+          <label htmlFor="code" className="block text-sm font-medium text-white mb-2">
+            Authentication code
+          </label>
+          <GlassInput
+            type="text"
+            id="code"
+            name="code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={twoFactorCode}
+            onChange={(e) => {
+              setTwoFactorCode(e.target.value);
+              if (formErrors.code) setFormErrors({});
+              if (error) clearError();
+            }}
+            placeholder="6-digit code"
+            disabled={isLoading}
+            className={formErrors.code ? 'border-red-500/50' : ''}
+          />
+          {formErrors.code && (
+            <p className="mt-1 text-sm text-red-400">{formErrors.code}</p>
+          )}
+          <p className="mt-2 text-xs text-white/60">
+            Open your authenticator app, or enter one of your recovery codes.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+            <p className="text-sm text-red-300">{error}</p>
+          </div>
+        )}
+
+        <GlassButton
+          type="submit"
+          variant="primary"
+          className="w-full"
+          disabled={isLoading}
+        >
+          {isLoading ? 'Verifying...' : 'Verify'}
+        </GlassButton>
+
+        <button
+          type="button"
+          onClick={handleTwoFactorCancel}
+          className="w-full text-sm text-white/60 hover:text-white transition-colors"
+          disabled={isLoading}
+        >
+          Back to sign in
+        </button>
+      </form>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className={`space-y-6 ${className}`}>
       <div>
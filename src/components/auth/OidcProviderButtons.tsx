@@ -0,0 +1,70 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GlassButton } from '@/components/ui';
+
+interface OidcProviderOption {
+  id: string;
+  name: string;
+}
+
+interface OidcProviderButtonsProps {
+  className?: string;
+}
+
+/**
+ * "Continue with ..." buttons for the configured OpenID Connect providers.
+ * Renders nothing when none are configured.
+ */
+export function OidcProviderButtons({ className = '' }: OidcProviderButtonsProps) {
+  const [providers, setProviders] = useState<OidcProviderOption[]>([]);
+
+  useEffect(() => {
+    fetch('/api/auth/oidc/providers')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setProviders(data?.data?.providers ?? []))
+      .catch(() => setProviders([]));
+  }, []);
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  const startSignIn = (providerId: string) => {
+    let timezone = '';
+    try {
+      timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    } catch {
+      // The server falls back to UTC for new accounts
+    }
+
+    const query = timezone ? `?timezone=${encodeURIComponent(timezone)}` : '';
+    window.location.href = `/api/auth/oidc/${encodeURIComponent(providerId)}/authorize${query}`;
+  };
+
+  return (
+    <div className={className}>
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-white/20"></div>
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-2 bg-slate-900 text-white/60">Or continue with</span>
+        </div>
+      </div>
+
+      <div className={`mt-4 grid gap-3 ${providers.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+        {providers.map(provider => (
+          <GlassButton
+            key={provider.id}
+            variant="ghost"
+            className="w-full"
+            onClick={() => startSignIn(provider.id)}
+          >
+            {provider.name}
+          </GlassButton>
+        ))}
+      </div>
+    </div>
+  );
+}
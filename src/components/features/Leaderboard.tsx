@@ -6,6 +6,7 @@ import { GlassCard } from '@/components/ui/GlassCard';
 import { GlassButton } from '@/components/ui/GlassButton';
 import { GlassSelect } from '@/components/ui/GlassSelect';
 import { LoadingSkeleton } from '@/components/ui/LoadingSkeleton';
+import { LazyImage } from '@/components/ui/LazyImage';
 import { useAuth } from '@/hooks/useAuth';
 
 interface LeaderboardEntry {
@@ -295,10 +296,12 @@ export function Leaderboard({
               {/* Avatar */}
               <div className="flex-shrink-0">
                 {entry.avatarUrl ? (
-                  <img
+                  <LazyImage
                     src={entry.avatarUrl}
                     alt={entry.username}
-                    className="w-10 h-10 rounded-full object-cover"
+                    displaySize={40}
+                    className="w-10 h-10 rounded-full"
+                    imageClassName="w-full h-full object-cover"
                   />
                 ) : (
                   <div className="w-10 h-10 bg-gradient-to-br from-blue-400 to-purple-500 rounded-full flex items-center justify-center">
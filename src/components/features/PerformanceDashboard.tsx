@@ -67,7 +67,9 @@ export function PerformanceDashboard() {
   const fetchData = async () => {
     try {
       setError(null);
-      const response = await fetch(`/api/monitoring/dashboard?timeRange=${timeRange}`);
+      const response = await fetch(`/api/monitoring/dashboard?timeRange=${timeRange}`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
+      });
       const result = await response.json();
 
       if (result.success) {
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { GlassCard } from '@/components/ui/GlassCard';
 import { GlassButton } from '@/components/ui/GlassButton';
 import { LoadingSkeleton } from '@/components/ui/LoadingSkeleton';
@@ -311,9 +312,27 @@ const SkillProgressionView: React.FC<{
                 </div>
               </div>
               <span className="text-white text-sm">
-                Level {skill.currentLevel}
+                {skill.initialLevel !== skill.currentLevel
+                  ? `Level ${skill.initialLevel} → ${skill.currentLevel}`
+                  : `Level ${skill.currentLevel}`}
               </span>
             </div>
+            <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
+              <span>
+                {skill.sessionsCount} sessions • {skill.hoursSpent}h invested
+              </span>
+              <span className={
+                skill.trend === 'improving' ? 'text-green-400' :
+                  skill.trend === 'declining' ? 'text-red-400' : 'text-gray-400'
+              }>
+                {skill.trend}
+              </span>
+            </div>
+            {skill.milestones.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                Latest: {skill.milestones[skill.milestones.length - 1].achievement}
+              </p>
+            )}
           </div>
         ))}
       </div>
@@ -415,6 +434,69 @@ const PersonalizedInsightsView: React.FC<{
                       Estimated impact: {rec.estimatedImpact}
                     </p>
                   )}
+                  {rec.actionUrl && (
+                    <Link href={rec.actionUrl} className="inline-block mt-2 text-sm text-blue-400 hover:text-blue-300">
+                      Take action →
+                    </Link>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </GlassCard>
+    )}
+
+    {/* Learning Patterns */}
+    {insights.patterns.length > 0 && (
+      <GlassCard className="p-6">
+        <h3 className="text-lg font-semibold text-white mb-4">Learning Patterns</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {insights.patterns.map((pattern: any, index: number) => (
+            <div key={index} className="bg-white/5 rounded-lg p-4">
+              <h4 className="font-medium text-white mb-1">{pattern.title}</h4>
+              <p className="text-gray-300 text-sm mb-3">{pattern.description}</p>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 bg-gray-700 rounded-full h-1.5">
+                  <div
+                    className="bg-purple-500 h-1.5 rounded-full"
+                    style={{ width: `${pattern.confidence}%` }}
+                  />
+                </div>
+                <span className="text-xs text-gray-400">{pattern.confidence}% confidence</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </GlassCard>
+    )}
+
+    {/* Achievement Progress */}
+    {insights.achievements.length > 0 && (
+      <GlassCard className="p-6">
+        <h3 className="text-lg font-semibold text-white mb-4">Achievements</h3>
+        <div className="space-y-4">
+          {insights.achievements.map((achievement: any, index: number) => (
+            <div key={index} className="bg-white/5 rounded-lg p-4">
+              <div className="flex items-start gap-3">
+                <span className="text-2xl">{achievement.type === 'near_completion' ? '🏆' : '🎖️'}</span>
+                <div className="flex-1">
+                  <div className="flex items-center justify-between mb-1">
+                    <h4 className="font-medium text-white">{achievement.title}</h4>
+                    <span className="text-xs text-gray-400">{achievement.requirement}</span>
+                  </div>
+                  <p className="text-gray-300 text-sm mb-2">{achievement.description}</p>
+                  <div className="w-full bg-gray-700 rounded-full h-2">
+                    <div
+                      className="bg-yellow-500 h-2 rounded-full"
+                      style={{ width: `${achievement.progress}%` }}
+                    />
+                  </div>
+                  {achievement.actionUrl && (
+                    <Link href={achievement.actionUrl} className="inline-block mt-2 text-sm text-blue-400 hover:text-blue-300">
+                      Work towards it →
+                    </Link>
+                  )}
                 </div>
               </div>
             </div>
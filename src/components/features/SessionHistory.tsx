@@ -6,6 +6,7 @@ import { GlassButton } from '@/components/ui/GlassButton';
 import { GlassInput } from '@/components/ui/GlassInput';
 import { GlassSelect } from '@/components/ui/GlassSelect';
 import { LoadingSkeleton } from '@/components/ui/LoadingSkeleton';
+import { LazyImage } from '@/components/ui/LazyImage';
 
 interface SessionHistoryProps {
   userId: string;
@@ -73,6 +74,7 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
     hasPrev: false
   });
   const [showFilters, setShowFilters] = useState(false);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
 
   useEffect(() => {
     fetchSessionHistory();
@@ -141,6 +143,51 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
     setPagination(prev => ({ ...prev, page: 1 }));
   };
 
+  const downloadSessionCalendar = async (sessionId: string) => {
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`/api/sessions/${sessionId}/calendar`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to export session');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `skillsync-session-${sessionId}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const createCalendarFeed = async () => {
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch('/api/calendar/feed', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to create calendar feed');
+      }
+
+      const data = await response.json();
+      setFeedUrl(data.feedUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
   const handlePageChange = (newPage: number) => {
     setPagination(prev => ({ ...prev, page: newPage }));
   };
@@ -198,6 +245,13 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
           >
             {showFilters ? 'Hide Filters' : 'Show Filters'}
           </GlassButton>
+          <GlassButton
+            variant="ghost"
+            size="sm"
+            onClick={createCalendarFeed}
+          >
+            Calendar Feed
+          </GlassButton>
           <GlassButton
             variant="ghost"
             size="sm"
@@ -208,6 +262,28 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
         </div>
       </div>
 
+      {/* Calendar Feed */}
+      {feedUrl && (
+        <GlassCard className="p-6">
+          <p className="text-sm text-gray-300 mb-2">
+            Subscribe to this URL in your calendar app. Keep it private - anyone with the link can see your sessions.
+            Creating a new link disables the previous one.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <code className="flex-1 px-3 py-2 bg-white/10 text-gray-200 rounded text-xs break-all">
+              {feedUrl}
+            </code>
+            <GlassButton
+              variant="ghost"
+              size="sm"
+              onClick={() => navigator.clipboard.writeText(feedUrl)}
+            >
+              Copy
+            </GlassButton>
+          </div>
+        </GlassCard>
+      )}
+
       {/* Filters */}
       {showFilters && (
         <GlassCard className="p-6">
@@ -302,6 +378,7 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
                   // Handle view details - could open a modal or navigate
                   console.log('View details for session:', sessionId);
                 }}
+                onDownloadCalendar={downloadSessionCalendar}
               />
             ))
           )}
@@ -362,7 +439,8 @@ const SessionCard: React.FC<{
   session: SessionRecord;
   userId: string;
   onViewDetails: (sessionId: string) => void;
-}> = ({ session, userId, onViewDetails }) => {
+  onDownloadCalendar: (sessionId: string) => void;
+}> = ({ session, userId, onViewDetails, onDownloadCalendar }) => {
   const partner = session.initiatorId === userId ? session.partner : session.initiator;
   const userRating = session.initiatorId === userId
     ? session.ratingInitiator
@@ -399,10 +477,12 @@ const SessionCard: React.FC<{
             {/* Partner Avatar */}
             <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white font-semibold">
               {partner.avatarUrl ? (
-                <img
+                <LazyImage
                   src={partner.avatarUrl}
                   alt={partner.username}
-                  className="w-full h-full rounded-full object-cover"
+                  displaySize={40}
+                  className="w-full h-full rounded-full"
+                  imageClassName="w-full h-full object-cover"
                 />
               ) : (
                 partner.username.charAt(0).toUpperCase()
@@ -486,6 +566,13 @@ const SessionCard: React.FC<{
           </div>
 
           {/* Actions */}
+          <GlassButton
+            variant="ghost"
+            size="sm"
+            onClick={() => onDownloadCalendar(session.id)}
+          >
+            Add to Calendar
+          </GlassButton>
           <GlassButton
             variant="ghost"
             size="sm"
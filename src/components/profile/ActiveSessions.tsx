@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+interface LoginSession {
+  id: string;
+  browser: string;
+  browserVersion: string | null;
+  os: string;
+  deviceType: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+  ipAddress: string | null;
+  signedInAt: string;
+  lastSeenAt: string;
+  isCurrent: boolean;
+}
+
+const deviceIcons: Record<LoginSession['deviceType'], string> = {
+  desktop: '💻',
+  mobile: '📱',
+  tablet: '📲',
+  unknown: '🖥️',
+};
+
+export default function ActiveSessions() {
+  const [sessions, setSessions] = useState<LoginSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const fetchSessions = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/auth/sessions', {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load devices');
+      }
+
+      const data = await response.json();
+      setSessions(data.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load devices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const signOut = async (session: LoginSession) => {
+    const prompt = session.isCurrent
+      ? 'Sign out of this device?'
+      : `Sign out ${session.browser} on ${session.os}?`;
+    if (!confirm(prompt)) return;
+
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/auth/sessions/${session.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to sign out device');
+      }
+
+      if (session.isCurrent) {
+        localStorage.removeItem('accessToken');
+        window.location.href = '/auth';
+        return;
+      }
+
+      await fetchSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out device');
+      setLoading(false);
+    }
+  };
+
+  const signOutOthers = async () => {
+    if (!confirm('Sign out of every other device?')) return;
+
+    try {
+      setLoading(true);
+      const response = await fetch('/api/auth/sessions', {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to sign out other devices');
+      }
+
+      await fetchSessions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out other devices');
+      setLoading(false);
+    }
+  };
+
+  const hasOtherSessions = sessions.some(session => !session.isCurrent);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 border border-white/20">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Signed-in Devices</h3>
+          <p className="text-sm text-white/60">Sign out anything you don&apos;t recognise</p>
+        </div>
+        {hasOtherSessions && (
+          <button
+            onClick={signOutOthers}
+            className="px-4 py-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-colors"
+            disabled={loading}
+          >
+            Sign out all other devices
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+          <button
+            onClick={() => setError(null)}
+            className="mt-1 text-red-400 hover:text-red-300 text-xs"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {loading && sessions.length === 0 ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-16 bg-white/10 rounded-lg"></div>
+            <div className="h-16 bg-white/10 rounded-lg"></div>
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center py-8 text-white/60">
+            <p>No active sessions found.</p>
+          </div>
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              className={`flex items-center justify-between p-4 rounded-lg border ${session.isCurrent
+                  ? 'bg-green-500/5 border-green-500/20'
+                  : 'bg-white/5 border-white/10'
+                }`}
+            >
+              <div className="flex items-center gap-3">
+                <span className="text-2xl">{deviceIcons[session.deviceType]}</span>
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-white font-medium">
+                      {session.browser}{session.browserVersion ? ` ${session.browserVersion}` : ''} on {session.os}
+                    </span>
+                    {session.isCurrent && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-green-500/20 text-green-400 border border-green-500/30">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm text-white/60">
+                    {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                    Last active {new Date(session.lastSeenAt).toLocaleString()}
+                    {' · '}Signed in {new Date(session.signedInAt).toLocaleDateString()}
+                  </div>
+                </div>
+              </div>
+              <button
+                onClick={() => signOut(session)}
+                className="px-3 py-1 text-sm text-red-400 hover:text-red-300 transition-colors"
+                disabled={loading}
+              >
+                Sign out
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
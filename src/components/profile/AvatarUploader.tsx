@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { LazyImage } from '@/components/ui/LazyImage';
+
+interface AvatarUploaderProps {
+  username: string;
+  avatarUrl?: string | null;
+  onChange: (avatarUrl: string | null) => void;
+}
+
+export default function AvatarUploader({ username, avatarUrl, onChange }: AvatarUploaderProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (init: RequestInit) => {
+    const response = await fetch('/api/profile/avatar', {
+      ...init,
+      headers: {
+        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+      },
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+
+    return data;
+  };
+
+  const uploadAvatar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const formData = new FormData();
+      formData.append('avatar', file);
+      const data = await request({ method: 'POST', body: formData });
+      onChange(data.data.avatarUrl);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload avatar');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const removeAvatar = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      await request({ method: 'DELETE' });
+      onChange(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove avatar');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-4">
+      <div className="w-20 h-20 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white text-2xl font-semibold overflow-hidden">
+        {avatarUrl ? (
+          <LazyImage
+            key={avatarUrl}
+            src={avatarUrl}
+            alt={username}
+            displaySize={80}
+            className="w-full h-full rounded-full"
+            imageClassName="w-full h-full object-cover"
+          />
+        ) : (
+          username.charAt(0).toUpperCase()
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={loading}
+            className="px-4 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors disabled:opacity-50"
+          >
+            {loading ? 'Saving...' : 'Change avatar'}
+          </button>
+          {avatarUrl && (
+            <button
+              onClick={removeAvatar}
+              disabled={loading}
+              className="px-4 py-2 text-white/60 hover:text-white transition-colors disabled:opacity-50"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-white/60">JPEG, PNG, GIF or WebP, up to 5MB</p>
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/gif,image/webp"
+        onChange={uploadAvatar}
+        className="hidden"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+interface BlockedUser {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  blockedAt: string;
+}
+
+export default function BlockedUsers() {
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchBlockedUsers();
+  }, []);
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+  });
+
+  const fetchBlockedUsers = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/safety/blocks', { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load blocked users');
+      }
+      setBlockedUsers(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load blocked users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unblock = async (userId: string) => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/safety/blocks/${userId}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to unblock user');
+      }
+      setBlockedUsers(users => users.filter(user => user.userId !== userId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unblock user');
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 border border-white/20 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Blocked Users</h3>
+        <p className="text-sm text-white/60">
+          Blocked users are never matched with you, suggested to you or able to invite you to sessions.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-white/60">Loading...</p>
+      ) : blockedUsers.length === 0 ? (
+        <p className="text-sm text-white/60">You haven&apos;t blocked anyone.</p>
+      ) : (
+        <div className="space-y-2">
+          {blockedUsers.map(user => (
+            <div key={user.userId} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+              <div className="text-sm">
+                <p className="text-white">{user.username}</p>
+                <p className="text-white/60">Blocked {new Date(user.blockedAt).toLocaleDateString()}</p>
+              </div>
+              <button
+                onClick={() => unblock(user.userId)}
+                className="px-3 py-1 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors text-sm"
+              >
+                Unblock
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
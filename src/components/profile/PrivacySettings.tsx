@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+type ExportFormat = 'json' | 'zip';
+
+interface DataExport {
+  id: string;
+  format: ExportFormat;
+  status: 'pending' | 'processing' | 'ready' | 'failed';
+  size: number | null;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+const statusLabels: Record<DataExport['status'], string> = {
+  pending: 'Preparing',
+  processing: 'Preparing',
+  ready: 'Ready',
+  failed: 'Failed',
+};
+
+export default function PrivacySettings() {
+  const [exports, setExports] = useState<DataExport[]>([]);
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const [showDeleteForm, setShowDeleteForm] = useState(false);
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+  });
+
+  const request = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(),
+      },
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+
+    return data;
+  };
+
+  const fetchStatus = async () => {
+    try {
+      setLoading(true);
+      const [exportData, deletionData] = await Promise.all([
+        request('/api/account/export'),
+        request('/api/account/deletion'),
+      ]);
+      setExports(exportData.data);
+      setScheduledFor(deletionData.data.scheduledFor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load privacy settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const requestExport = async (format: ExportFormat) => {
+    try {
+      setError(null);
+      await request('/api/account/export', {
+        method: 'POST',
+        body: JSON.stringify({ format }),
+      });
+      await fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request export');
+    }
+  };
+
+  const downloadExport = async (dataExport: DataExport) => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/account/export/${dataExport.id}`, { headers: authHeaders() });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Download failed');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `skillsync-data.${dataExport.format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Download failed');
+    }
+  };
+
+  const scheduleDeletion = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setError(null);
+      const data = await request('/api/account/deletion', {
+        method: 'POST',
+        body: JSON.stringify({ password }),
+      });
+      setScheduledFor(data.data.scheduledFor);
+      setShowDeleteForm(false);
+      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule deletion');
+    }
+  };
+
+  const cancelDeletion = async () => {
+    try {
+      setError(null);
+      await request('/api/account/deletion', { method: 'DELETE' });
+      setScheduledFor(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel deletion');
+    }
+  };
+
+  const isPreparing = exports.some(dataExport => dataExport.status === 'pending' || dataExport.status === 'processing');
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 border border-white/20 space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Your Data</h3>
+        <p className="text-sm text-white/60">
+          Download everything SkillSync stores about you, or delete your account.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          <button
+            onClick={() => requestExport('zip')}
+            disabled={loading || isPreparing}
+            className="px-4 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors disabled:opacity-50"
+          >
+            Export as ZIP
+          </button>
+          <button
+            onClick={() => requestExport('json')}
+            disabled={loading || isPreparing}
+            className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors disabled:opacity-50"
+          >
+            Export as JSON
+          </button>
+          {isPreparing && (
+            <button
+              onClick={fetchStatus}
+              className="px-4 py-2 text-white/60 hover:text-white transition-colors"
+            >
+              Refresh
+            </button>
+          )}
+        </div>
+
+        {exports.map(dataExport => (
+          <div key={dataExport.id} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+            <div className="text-sm">
+              <p className="text-white">
+                {dataExport.format.toUpperCase()} export, {new Date(dataExport.createdAt).toLocaleString()}
+              </p>
+              <p className="text-white/60">
+                {statusLabels[dataExport.status]}
+                {dataExport.expiresAt && ` · available until ${new Date(dataExport.expiresAt).toLocaleString()}`}
+              </p>
+            </div>
+            {dataExport.status === 'ready' && (!dataExport.expiresAt || new Date(dataExport.expiresAt) > new Date()) && (
+              <button
+                onClick={() => downloadExport(dataExport)}
+                className="px-3 py-1 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-sm"
+              >
+                Download
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="pt-6 border-t border-white/10">
+        {scheduledFor ? (
+          <div className="space-y-3">
+            <p className="text-sm text-red-400">
+              Your account will be deleted on {new Date(scheduledFor).toLocaleString()}.
+            </p>
+            <button
+              onClick={cancelDeletion}
+              className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors"
+            >
+              Keep my account
+            </button>
+          </div>
+        ) : showDeleteForm ? (
+          <form onSubmit={scheduleDeletion} className="space-y-3">
+            <p className="text-sm text-white/80">
+              Your profile, skills, goals and history will be removed after a grace period. Partners keep
+              their past sessions with you, shown without your name. Enter your password to confirm.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+                required
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-colors"
+              >
+                Delete account
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowDeleteForm(false)}
+                className="px-4 py-2 text-white/60 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => setShowDeleteForm(true)}
+            className="px-4 py-2 bg-red-500/20 text-red-400 rounded-lg hover:bg-red-500/30 transition-colors"
+          >
+            Delete my account
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,12 +5,18 @@ import { UserProfile } from '@/types';
 import ProfileCompletion from './ProfileCompletion';
 import SkillsManager from './SkillsManager';
 import LearningGoalsManager from './LearningGoalsManager';
+import ActiveSessions from './ActiveSessions';
+import TwoFactorSettings from './TwoFactorSettings';
+import SecurityActivity from './SecurityActivity';
+import AvatarUploader from './AvatarUploader';
+import PrivacySettings from './PrivacySettings';
+import BlockedUsers from './BlockedUsers';
 
 export default function ProfilePage() {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'overview' | 'skills' | 'goals' | 'preferences'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'skills' | 'goals' | 'preferences' | 'security'>('overview');
 
   useEffect(() => {
     fetchProfile();
@@ -101,6 +107,7 @@ export default function ProfilePage() {
     { id: 'skills', label: 'Skills', icon: '🎯' },
     { id: 'goals', label: 'Learning Goals', icon: '📚' },
     { id: 'preferences', label: 'Preferences', icon: '⚙️' },
+    { id: 'security', label: 'Security', icon: '🔒' },
   ] as const;
 
   return (
@@ -144,6 +151,13 @@ export default function ProfilePage() {
                 {/* Basic Profile Info */}
                 <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 border border-white/20">
                   <h3 className="text-lg font-semibold text-white mb-4">Basic Information</h3>
+                  <div className="mb-6">
+                    <AvatarUploader
+                      username={profile.username}
+                      avatarUrl={profile.avatarUrl ?? null}
+                      onChange={(avatarUrl) => setProfile({ ...profile, avatarUrl })}
+                    />
+                  </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
                       <label className="block text-sm font-medium text-white/70 mb-2">
@@ -240,6 +254,16 @@ export default function ProfilePage() {
                 )}
               </div>
             )}
+
+            {activeTab === 'security' && (
+              <div className="space-y-6">
+                <TwoFactorSettings />
+                <ActiveSessions />
+                <SecurityActivity />
+                <BlockedUsers />
+                <PrivacySettings />
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+type SecurityEventType =
+  | 'login_succeeded'
+  | 'login_failed'
+  | 'two_factor_failed'
+  | 'account_locked'
+  | 'password_changed'
+  | 'password_reset'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'recovery_codes_regenerated'
+  | 'identity_linked'
+  | 'roles_changed'
+  | 'deletion_scheduled'
+  | 'deletion_cancelled'
+  | 'account_warned'
+  | 'account_suspended';
+
+interface SecurityEvent {
+  id: string;
+  type: SecurityEventType;
+  browser: string;
+  os: string;
+  ipAddress: string | null;
+  country: string | null;
+  details: { anomalies?: string[]; lockedUntil?: string; provider?: string } | null;
+  createdAt: string;
+}
+
+const eventLabels: Record<SecurityEventType, { label: string; icon: string }> = {
+  login_succeeded: { label: 'Signed in', icon: '✅' },
+  login_failed: { label: 'Wrong password', icon: '❌' },
+  two_factor_failed: { label: 'Wrong two-factor code', icon: '❌' },
+  account_locked: { label: 'Account locked after failed attempts', icon: '⛔' },
+  password_changed: { label: 'Password changed', icon: '🔑' },
+  password_reset: { label: 'Password reset', icon: '🔑' },
+  two_factor_enabled: { label: 'Two-factor authentication turned on', icon: '🛡️' },
+  two_factor_disabled: { label: 'Two-factor authentication turned off', icon: '⚠️' },
+  recovery_codes_regenerated: { label: 'Recovery codes replaced', icon: '🛡️' },
+  identity_linked: { label: 'Sign-in provider linked', icon: '🔗' },
+  roles_changed: { label: 'Account roles changed', icon: '👤' },
+  deletion_scheduled: { label: 'Account deletion scheduled', icon: '🗑️' },
+  deletion_cancelled: { label: 'Account deletion cancelled', icon: '↩️' },
+  account_warned: { label: 'Warning from moderators', icon: '⚠️' },
+  account_suspended: { label: 'Account suspended by moderators', icon: '⛔' },
+};
+
+const anomalyLabels: Record<string, string> = {
+  new_device: 'new device',
+  new_country: 'new country',
+  timezone_mismatch: 'unexpected timezone',
+};
+
+export default function SecurityActivity() {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEvents();
+  }, []);
+
+  const fetchEvents = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/auth/security-events?limit=20', {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load security activity');
+      }
+
+      const data = await response.json();
+      setEvents(data.events);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load security activity');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 border border-white/20">
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold text-white">Recent Security Activity</h3>
+        <p className="text-sm text-white/60">Sign-ins, failed attempts and changes to your security settings</p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {loading && events.length === 0 ? (
+          <div className="animate-pulse space-y-2">
+            <div className="h-12 bg-white/10 rounded-lg"></div>
+            <div className="h-12 bg-white/10 rounded-lg"></div>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-8 text-white/60">
+            <p>No security activity yet.</p>
+          </div>
+        ) : (
+          events.map((event) => {
+            const anomalies = event.details?.anomalies ?? [];
+            return (
+              <div
+                key={event.id}
+                className={`flex items-start gap-3 p-3 rounded-lg border ${anomalies.length > 0 || event.type === 'account_locked'
+                    ? 'bg-yellow-500/5 border-yellow-500/20'
+                    : 'bg-white/5 border-white/10'
+                  }`}
+              >
+                <span className="text-lg">{eventLabels[event.type]?.icon ?? '•'}</span>
+                <div className="flex-1">
+                  <div className="text-white text-sm font-medium">
+                    {eventLabels[event.type]?.label ?? event.type}
+                    {event.details?.provider && ` (${event.details.provider})`}
+                    {anomalies.length > 0 && (
+                      <span className="ml-2 text-xs text-yellow-400">
+                        ({anomalies.map(anomaly => anomalyLabels[anomaly] ?? anomaly).join(', ')})
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-white/60">
+                    {new Date(event.createdAt).toLocaleString()}
+                    {event.browser !== 'Unknown' && ` · ${event.browser} on ${event.os}`}
+                    {event.ipAddress && ` · ${event.ipAddress}`}
+                    {event.country && ` · ${event.country}`}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
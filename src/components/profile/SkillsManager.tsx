@@ -213,6 +213,12 @@ export default function SkillsManager({ userSkills, onSkillsChange }: SkillsMana
                     {userSkill.endorsements} endorsement{userSkill.endorsements !== 1 ? 's' : ''}
                   </p>
                 )}
+                {userSkill.endorsedBy && userSkill.endorsedBy.length > 0 && (
+                  <p className="text-xs text-white/50 mt-0.5">
+                    Endorsed by {userSkill.endorsedBy.slice(0, 3).map(endorsement => endorsement.endorser.username).join(', ')}
+                    {userSkill.endorsedBy.length > 3 && ` and ${userSkill.endorsedBy.length - 3} more`}
+                  </p>
+                )}
               </div>
               <button
                 onClick={() => removeSkill(userSkill.skillId)}
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useIntersectionObserver } from '@/hooks/useIntersectionObserver';
+import { selectAvatarUrl } from '@/lib/avatars';
 
 interface LazyImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
   src: string;
@@ -7,6 +8,8 @@ interface LazyImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
   placeholder?: string;
   fallback?: string;
   className?: string;
+  imageClassName?: string;
+  displaySize?: number; // rendered width in CSS pixels, used to pick an avatar size
   onLoad?: () => void;
   onError?: () => void;
 }
@@ -17,6 +20,8 @@ export function LazyImage({
   placeholder = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMjAwIiBoZWlnaHQ9IjIwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMTAwJSIgaGVpZ2h0PSIxMDAlIiBmaWxsPSIjZGRkIi8+PC9zdmc+',
   fallback = '/images/fallback.png',
   className = '',
+  imageClassName = '',
+  displaySize,
   onLoad,
   onError,
   ...props
@@ -25,6 +30,15 @@ export function LazyImage({
   const [imageLoadError, setImageLoadError] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
 
+  // Processed avatars come in several sizes; load the smallest that stays sharp
+  const resolvedSrc = React.useMemo(() => {
+    if (!displaySize) {
+      return src;
+    }
+    const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+    return selectAvatarUrl(src, displaySize * pixelRatio);
+  }, [src, displaySize]);
+
   const { elementRef, isVisible } = useIntersectionObserver({
     threshold: 0.1,
     freezeOnceVisible: true,
@@ -35,7 +49,7 @@ export function LazyImage({
       const img = new Image();
 
       img.onload = () => {
-        setImageSrc(src);
+        setImageSrc(resolvedSrc);
         setIsLoaded(true);
         onLoad?.();
       };
@@ -46,9 +60,9 @@ export function LazyImage({
         onError?.();
       };
 
-      img.src = src;
+      img.src = resolvedSrc;
     }
-  }, [isVisible, src, isLoaded, imageLoadError, fallback, onLoad, onError]);
+  }, [isVisible, resolvedSrc, isLoaded, imageLoadError, fallback, onLoad, onError]);
 
   return (
     <div
@@ -59,7 +73,7 @@ export function LazyImage({
         src={imageSrc}
         alt={alt}
         className={`transition-opacity duration-300 ${isLoaded ? 'opacity-100' : 'opacity-70'
-          }`}
+          } ${imageClassName}`}
         {...props}
       />
       {!isLoaded && !imageLoadError && (
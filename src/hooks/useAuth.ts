@@ -1,29 +1,44 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { AuthUser, LoginRequest, RegisterRequest, AuthResponse } from '@/types';
+import { AuthUser, LoginRequest, RegisterRequest, AuthResponse, LoginResponse } from '@/types';
 
 interface AuthState {
   user: AuthUser | null;
   isLoading: boolean;
   isAuthenticated: boolean;
   error: string | null;
+  // Set after a correct password on an account with 2FA, until a code is entered
+  twoFactorChallenge: string | null;
 }
 
 interface AuthActions {
-  login: (credentials: LoginRequest) => Promise<void>;
+  // Resolves false when a two-factor code is still needed
+  login: (credentials: LoginRequest) => Promise<boolean>;
+  completeTwoFactorLogin: (code: string) => Promise<void>;
+  cancelTwoFactorLogin: () => void;
   register: (userData: RegisterRequest) => Promise<void>;
   logout: () => Promise<void>;
   refreshToken: () => Promise<void>;
   clearError: () => void;
 }
 
+// Lets the server notice logins from an unexpected timezone
+function getBrowserTimezone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
 export function useAuth(): AuthState & AuthActions {
   const [state, setState] = useState<AuthState>({
     user: null,
     isLoading: true,
     isAuthenticated: false,
     error: null,
+    twoFactorChallenge: null,
   });
 
   // Get stored token
@@ -108,7 +123,49 @@ export function useAuth(): AuthState & AuthActions {
     try {
       const response = await apiCall('/login', {
         method: 'POST',
-        body: JSON.stringify(credentials),
+        body: JSON.stringify({ ...credentials, timezone: getBrowserTimezone() }),
+      });
+
+      const loginData: LoginResponse = response.data;
+
+      if ('requiresTwoFactor' in loginData) {
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          twoFactorChallenge: loginData.challengeToken,
+        }));
+        return false;
+      }
+
+      storeToken(loginData.accessToken);
+
+      setState(prev => ({
+        ...prev,
+        user: loginData.user,
+        isAuthenticated: true,
+        isLoading: false,
+        error: null,
+      }));
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Login failed';
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: errorMessage,
+      }));
+      throw error;
+    }
+  }, [apiCall, storeToken]);
+
+  // Second login step for accounts with 2FA
+  const completeTwoFactorLogin = useCallback(async (code: string) => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const response = await apiCall('/login/two-factor', {
+        method: 'POST',
+        body: JSON.stringify({ challengeToken: state.twoFactorChallenge, code, timezone: getBrowserTimezone() }),
       });
 
       const authData: AuthResponse = response.data;
@@ -121,9 +178,10 @@ export function useAuth(): AuthState & AuthActions {
         isAuthenticated: true,
         isLoading: false,
         error: null,
+        twoFactorChallenge: null,
       }));
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Login failed';
+      const errorMessage = error instanceof Error ? error.message : 'Verification failed';
       setState(prev => ({
         ...prev,
         isLoading: false,
@@ -131,7 +189,11 @@ export function useAuth(): AuthState & AuthActions {
       }));
       throw error;
     }
-  }, [apiCall, storeToken]);
+  }, [apiCall, storeToken, state.twoFactorChallenge]);
+
+  const cancelTwoFactorLogin = useCallback(() => {
+    setState(prev => ({ ...prev, twoFactorChallenge: null, error: null }));
+  }, []);
 
   // Register function
   const register = useCallback(async (userData: RegisterRequest) => {
@@ -180,6 +242,7 @@ export function useAuth(): AuthState & AuthActions {
         isAuthenticated: false,
         isLoading: false,
         error: null,
+        twoFactorChallenge: null,
       });
     }
   }, [apiCall, removeToken]);
@@ -224,6 +287,8 @@ export function useAuth(): AuthState & AuthActions {
   return {
     ...state,
     login,
+    completeTwoFactorLogin,
+    cancelTwoFactorLogin,
     register,
     logout,
     refreshToken,
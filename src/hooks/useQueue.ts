@@ -31,6 +31,23 @@ interface MatchFound {
   compatibilityScore: number;
 }
 
+interface MatchProposal {
+  proposalId: string;
+  partnerId: string;
+  sessionType: string;
+  topics: string[];
+  compatibilityScore: number;
+  expiresAt: string;
+  partnerAccepted?: boolean;
+  accepted?: boolean; // this user's accept went through
+}
+
+interface ProposalClosed {
+  proposalId: string;
+  status: 'declined' | 'expired';
+  requeued: boolean; // false when the user was taken out of the queue
+}
+
 interface UseQueueReturn {
   // State
   isInQueue: boolean;
@@ -39,14 +56,18 @@ interface UseQueueReturn {
   isConnected: boolean;
   isLoading: boolean;
   error: string | null;
+  proposal: MatchProposal | null;
 
   // Actions
   joinQueue: (request: MatchingRequest) => Promise<void>;
   leaveQueue: () => Promise<void>;
   refreshStatus: () => Promise<void>;
+  respondToProposal: (response: 'accept' | 'decline') => Promise<void>;
 
   // Events
   onMatchFound: (callback: (match: MatchFound) => void) => void;
+  onMatchProposal: (callback: (proposal: MatchProposal) => void) => void;
+  onProposalClosed: (callback: (closed: ProposalClosed) => void) => void;
   onQueueUpdate: (callback: (status: QueueStatus) => void) => void;
   onError: (callback: (error: string) => void) => void;
 }
@@ -59,10 +80,13 @@ export function useQueue(): UseQueueReturn {
   const [isConnected, setIsConnected] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [proposal, setProposal] = useState<MatchProposal | null>(null);
 
   const socketRef = useRef<Socket | null>(null);
   const callbacksRef = useRef<{
     onMatchFound?: (match: MatchFound) => void;
+    onMatchProposal?: (proposal: MatchProposal) => void;
+    onProposalClosed?: (closed: ProposalClosed) => void;
     onQueueUpdate?: (status: QueueStatus) => void;
     onError?: (error: string) => void;
   }>({});
@@ -150,9 +174,30 @@ export function useQueue(): UseQueueReturn {
     socket.on('match_found', (match) => {
       setIsInQueue(false);
       setQueueStatus(null);
+      setProposal(null);
       callbacksRef.current.onMatchFound?.(match);
     });
 
+    socket.on('match_proposal', (offered: MatchProposal) => {
+      setProposal(offered);
+      callbacksRef.current.onMatchProposal?.(offered);
+    });
+
+    socket.on('match_proposal_accepted', (data) => {
+      setProposal(current =>
+        current && current.proposalId === data.proposalId ? { ...current, partnerAccepted: true } : current
+      );
+    });
+
+    socket.on('match_proposal_closed', (closed: ProposalClosed) => {
+      setProposal(current => (current && current.proposalId === closed.proposalId ? null : current));
+      if (!closed.requeued) {
+        setIsInQueue(false);
+        setQueueStatus(null);
+      }
+      callbacksRef.current.onProposalClosed?.(closed);
+    });
+
     socket.on('queue_error', (data) => {
       setError(data.message);
       callbacksRef.current.onError?.(data.message);
@@ -289,11 +334,62 @@ export function useQueue(): UseQueueReturn {
     }
   }, [token]);
 
+  // Accept or decline the current match proposal
+  const respondToProposal = useCallback(async (response: 'accept' | 'decline') => {
+    if (!proposal || !token) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/matching/proposals/${proposal.proposalId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ response }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        setProposal(null);
+        throw new Error(errorData.error || 'Failed to respond to match');
+      }
+
+      const data = await res.json();
+      setProposal(current => (current && response === 'accept' ? { ...current, accepted: true } : null));
+
+      // The completing accept gets the session right away; the queue socket tells the other user
+      if (data.data.sessionId) {
+        callbacksRef.current.onMatchFound?.({
+          partnerId: data.data.partnerId,
+          sessionId: data.data.sessionId,
+          compatibilityScore: data.data.compatibilityScore,
+        });
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to respond to match';
+      setError(errorMessage);
+      throw new Error(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [proposal, token]);
+
   // Event callback setters
   const onMatchFound = useCallback((callback: (match: MatchFound) => void) => {
     callbacksRef.current.onMatchFound = callback;
   }, []);
 
+  const onMatchProposal = useCallback((callback: (proposal: MatchProposal) => void) => {
+    callbacksRef.current.onMatchProposal = callback;
+  }, []);
+
+  const onProposalClosed = useCallback((callback: (closed: ProposalClosed) => void) => {
+    callbacksRef.current.onProposalClosed = callback;
+  }, []);
+
   const onQueueUpdate = useCallback((callback: (status: QueueStatus) => void) => {
     callbacksRef.current.onQueueUpdate = callback;
   }, []);
@@ -310,14 +406,18 @@ export function useQueue(): UseQueueReturn {
     isConnected,
     isLoading,
     error,
+    proposal,
 
     // Actions
     joinQueue,
     leaveQueue,
     refreshStatus,
+    respondToProposal,
 
     // Events
     onMatchFound,
+    onMatchProposal,
+    onProposalClosed,
     onQueueUpdate,
     onError,
   };
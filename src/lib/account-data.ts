@@ -0,0 +1,96 @@
+/**
+ * Personal data: export archives and account deletion settings
+ */
+
+import { strToU8, zipSync } from 'fflate';
+
+export const ACCOUNT_DATA_CONFIG = {
+  // Days between requesting deletion and the account being anonymized
+  DELETION_GRACE_DAYS: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30'),
+  // How long a finished export can be downloaded
+  EXPORT_TTL_HOURS: 72,
+  // Minimum time between two export requests
+  EXPORT_COOLDOWN_HOURS: 24,
+  // An export still processing after this is considered crashed
+  EXPORT_PROCESSING_TIMEOUT_MS: 60 * 60 * 1000,
+};
+
+export type ExportFormat = 'json' | 'zip';
+export type DataExportStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'zip'];
+
+export class AccountDataError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'AccountDataError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface DataExportInfo {
+  id: string;
+  format: ExportFormat;
+  status: DataExportStatus;
+  size: number | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+}
+
+// Everything gathered for one user, one entry per file in a ZIP export
+export type PersonalDataSections = Record<string, unknown>;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  zip: 'application/zip',
+};
+
+export function getExportFilename(format: ExportFormat, createdAt: Date): string {
+  return `skillsync-data-${createdAt.toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * One JSON document, or a ZIP with a JSON file per section
+ */
+export function buildExportArchive(
+  sections: PersonalDataSections,
+  format: ExportFormat,
+  exportedAt: Date = new Date()
+): Buffer {
+  if (format === 'json') {
+    return Buffer.from(JSON.stringify({ exportedAt, ...sections }, null, 2));
+  }
+
+  const files: Record<string, Uint8Array> = {
+    'README.txt': strToU8([
+      'Your SkillSync data',
+      `Exported ${exportedAt.toISOString()}`,
+      '',
+      'Each file holds one part of your account as JSON:',
+      ...Object.keys(sections).map(name => `  ${name}.json`),
+    ].join('\n')),
+  };
+  for (const [name, data] of Object.entries(sections)) {
+    files[`${name}.json`] = strToU8(JSON.stringify(data, null, 2));
+  }
+
+  return Buffer.from(zipSync(files, { mtime: exportedAt }));
+}
+
+export function getDeletionDate(requestedAt: Date = new Date()): Date {
+  return new Date(requestedAt.getTime() + ACCOUNT_DATA_CONFIG.DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * What a deleted account is shown as. Unique per account because email and
+ * username are unique, and the email can never receive mail.
+ */
+export function getAnonymizedIdentity(userId: string): { email: string; username: string } {
+  return {
+    email: `deleted-${userId}@deleted.invalid`,
+    username: `deleted-user-${userId}`,
+  };
+}
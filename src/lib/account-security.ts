@@ -0,0 +1,140 @@
+/**
+ * Account protection: per-account lockout, suspicious login detection and
+ * the security event log vocabulary
+ */
+
+import { createHash } from 'crypto';
+import { RefreshTokenContext } from '@/lib/refresh-tokens';
+
+export const ACCOUNT_LOCKOUT_CONFIG = {
+  // Consecutive failures before the first lock, whatever IPs they come from
+  MAX_FAILED_ATTEMPTS: 5,
+  // First lock, doubled for every further failure
+  BASE_LOCKOUT_MS: 60 * 1000,
+  MAX_LOCKOUT_MS: 24 * 60 * 60 * 1000,
+  // Successful logins compared against when looking for a new device or country
+  LOGIN_HISTORY_SIZE: 50,
+};
+
+export type SecurityEventType =
+  | 'login_succeeded'
+  | 'login_failed'
+  | 'two_factor_failed'
+  | 'account_locked'
+  | 'password_changed'
+  | 'password_reset'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'recovery_codes_regenerated'
+  | 'identity_linked'
+  | 'roles_changed'
+  | 'deletion_scheduled'
+  | 'deletion_cancelled'
+  | 'account_warned'
+  | 'account_suspended';
+
+export type LoginAnomaly = 'new_device' | 'new_country' | 'timezone_mismatch';
+
+// Where a login comes from; country is set by the edge, timezone by the browser
+export interface LoginContext extends RefreshTokenContext {
+  country?: string | null;
+  timezone?: string | null;
+}
+
+export interface LoginHistoryEntry {
+  fingerprint: string | null;
+  country: string | null;
+}
+
+export class AccountLockedError extends Error {
+  public readonly statusCode = 429;
+  public readonly retryAfterSeconds: number;
+
+  constructor(lockedUntil: Date, now: number = Date.now()) {
+    super('Too many failed login attempts. This account is temporarily locked.');
+    this.name = 'AccountLockedError';
+    this.retryAfterSeconds = Math.max(1, Math.ceil((lockedUntil.getTime() - now) / 1000));
+  }
+}
+
+/**
+ * How long to lock after the given number of consecutive failures, or 0 while
+ * still under the threshold
+ */
+export function getLockoutDuration(failedAttempts: number): number {
+  const { MAX_FAILED_ATTEMPTS, BASE_LOCKOUT_MS, MAX_LOCKOUT_MS } = ACCOUNT_LOCKOUT_CONFIG;
+  if (failedAttempts < MAX_FAILED_ATTEMPTS) {
+    return 0;
+  }
+
+  const doublings = Math.min(failedAttempts - MAX_FAILED_ATTEMPTS, 30);
+  return Math.min(BASE_LOCKOUT_MS * 2 ** doublings, MAX_LOCKOUT_MS);
+}
+
+export function isLocked(lockedUntil: Date | null | undefined, now: number = Date.now()): lockedUntil is Date {
+  return !!lockedUntil && lockedUntil.getTime() > now;
+}
+
+/**
+ * Current UTC offset of a timezone, e.g. "GMT+05:30", or null if unknown
+ */
+function getUtcOffset(timezone: string, at: Date): string | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, timeZoneName: 'longOffset' })
+      .formatToParts(at);
+    return parts.find(part => part.type === 'timeZoneName')?.value ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fingerprint of the device a login came from. Built from the user agent
+ * alone: the IP changes with every network, and an unfamiliar country is a
+ * separate signal.
+ */
+export function getDeviceFingerprint(userAgent: string | null | undefined): string | null {
+  return userAgent ? createHash('sha256').update(userAgent).digest('hex') : null;
+}
+
+/**
+ * Compare a successful login with earlier ones. A first login has nothing to
+ * compare against, so only the timezone check applies. Timezones are compared
+ * by UTC offset so aliases like Asia/Calcutta and Asia/Kolkata agree.
+ */
+export function detectLoginAnomalies(
+  history: LoginHistoryEntry[],
+  attempt: { fingerprint: string | null; country: string | null; timezone: string | null; accountTimezone: string },
+  now: Date = new Date()
+): LoginAnomaly[] {
+  const anomalies: LoginAnomaly[] = [];
+
+  if (history.length > 0) {
+    if (attempt.fingerprint && !history.some(entry => entry.fingerprint === attempt.fingerprint)) {
+      anomalies.push('new_device');
+    }
+
+    const knownCountries = history.map(entry => entry.country).filter(Boolean);
+    if (attempt.country && knownCountries.length > 0 && !knownCountries.includes(attempt.country)) {
+      anomalies.push('new_country');
+    }
+  }
+
+  if (attempt.timezone && attempt.timezone !== attempt.accountTimezone) {
+    const loginOffset = getUtcOffset(attempt.timezone, now);
+    const accountOffset = getUtcOffset(attempt.accountTimezone, now);
+    if (loginOffset && accountOffset && loginOffset !== accountOffset) {
+      anomalies.push('timezone_mismatch');
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Anomalies worth emailing the user about. A timezone mismatch alone is
+ * usually travel and is only logged.
+ */
+export function shouldNotifyOfLogin(anomalies: LoginAnomaly[]): boolean {
+  return anomalies.includes('new_device') || anomalies.includes('new_country');
+}
@@ -1,6 +1,8 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
+import { randomUUID } from 'crypto';
 import { JWTPayload, AuthUser } from '@/types';
+import { normalizeRoles } from '@/lib/permissions';
 
 // Environment variables with defaults for development
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
@@ -31,6 +33,7 @@ export function generateAccessToken(user: AuthUser): string {
     userId: user.id,
     email: user.email,
     username: user.username,
+    roles: user.roles,
   };
 
   return jwt.sign(payload, JWT_SECRET, {
@@ -51,10 +54,19 @@ export function generateRefreshToken(userId: string): string {
       expiresIn: JWT_REFRESH_EXPIRES_IN,
       issuer: 'skillsync-platform',
       audience: 'skillsync-users',
+      jwtid: randomUUID(), // Tokens issued in the same second must still be unique
     } as jwt.SignOptions
   );
 }
 
+/**
+ * Expiry date of a signed token, without verifying it
+ */
+export function getTokenExpiry(token: string): Date | null {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  return decoded?.exp ? new Date(decoded.exp * 1000) : null;
+}
+
 /**
  * Verify and decode JWT access token
  */
@@ -63,9 +75,14 @@ export function verifyAccessToken(token: string): JWTPayload | null {
     const decoded = jwt.verify(token, JWT_SECRET, {
       issuer: 'skillsync-platform',
       audience: 'skillsync-users',
-    }) as JWTPayload;
+    }) as JWTPayload & { type?: string };
 
-    return decoded;
+    // Reset, verification and challenge tokens share the secret but aren't sessions
+    if (decoded.type) {
+      throw new Error('Invalid token type');
+    }
+
+    return { ...decoded, roles: normalizeRoles(decoded.roles) };
   } catch (error) {
     console.error('Access token verification failed:', error);
     return null;
@@ -125,6 +142,129 @@ export function verifyPasswordResetToken(token: string): { userId: string; email
   }
 }
 
+/**
+ * Generate email verification token
+ */
+export function generateEmailVerificationToken(userId: string, email: string): string {
+  return jwt.sign(
+    { userId, email, type: 'email-verification' },
+    JWT_SECRET,
+    {
+      expiresIn: '24h', // Long enough to reach the inbox, short enough that old links die
+      issuer: 'skillsync-platform',
+      audience: 'skillsync-users',
+    }
+  );
+}
+
+/**
+ * Verify email verification token
+ */
+export function verifyEmailVerificationToken(token: string): { userId: string; email: string } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET, {
+      issuer: 'skillsync-platform',
+      audience: 'skillsync-users',
+    }) as { userId: string; email: string; type: string };
+
+    if (decoded.type !== 'email-verification') {
+      throw new Error('Invalid token type');
+    }
+
+    return { userId: decoded.userId, email: decoded.email };
+  } catch (error) {
+    console.error('Email verification token verification failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Generate two-factor challenge token, proof that the password step passed
+ */
+export function generateTwoFactorChallengeToken(userId: string): string {
+  return jwt.sign(
+    { userId, type: 'two-factor-challenge' },
+    JWT_SECRET,
+    {
+      expiresIn: '5m', // Time to open the authenticator app, not to guess codes
+      issuer: 'skillsync-platform',
+      audience: 'skillsync-users',
+    }
+  );
+}
+
+/**
+ * Verify two-factor challenge token
+ */
+export function verifyTwoFactorChallengeToken(token: string): { userId: string } | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET, {
+      issuer: 'skillsync-platform',
+      audience: 'skillsync-users',
+    }) as { userId: string; type: string };
+
+    if (decoded.type !== 'two-factor-challenge') {
+      throw new Error('Invalid token type');
+    }
+
+    return { userId: decoded.userId };
+  } catch (error) {
+    console.error('Two-factor challenge token verification failed:', error);
+    return null;
+  }
+}
+
+export interface OidcStatePayload {
+  providerId: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  timezone?: string;
+}
+
+/**
+ * Generate the token that carries an OpenID Connect login from the redirect
+ * to the callback, kept in a cookie so the server stays stateless
+ */
+export function generateOidcStateToken(payload: OidcStatePayload): string {
+  return jwt.sign(
+    { ...payload, type: 'oidc-state' },
+    JWT_SECRET,
+    {
+      expiresIn: '10m', // Time to sign in at the provider
+      issuer: 'skillsync-platform',
+      audience: 'skillsync-users',
+    }
+  );
+}
+
+/**
+ * Verify OpenID Connect state token
+ */
+export function verifyOidcStateToken(token: string): OidcStatePayload | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET, {
+      issuer: 'skillsync-platform',
+      audience: 'skillsync-users',
+    }) as OidcStatePayload & { type: string };
+
+    if (decoded.type !== 'oidc-state') {
+      throw new Error('Invalid token type');
+    }
+
+    return {
+      providerId: decoded.providerId,
+      state: decoded.state,
+      nonce: decoded.nonce,
+      codeVerifier: decoded.codeVerifier,
+      ...(decoded.timezone && { timezone: decoded.timezone }),
+    };
+  } catch (error) {
+    console.error('OIDC state token verification failed:', error);
+    return null;
+  }
+}
+
 /**
  * Extract token from Authorization header
  */
@@ -0,0 +1,67 @@
+/**
+ * Processed avatars: sizes, storage keys and URLs. Kept free of server-only
+ * imports so components can pick a size from an avatar URL.
+ */
+
+export const AVATAR_CONFIG = {
+  SIZES: [64, 128, 256] as const,
+  DEFAULT_SIZE: 256 as const,             // the size stored in User.avatarUrl
+  MAX_FILE_SIZE: 5 * 1024 * 1024,         // 5MB
+  MAX_INPUT_PIXELS: 40_000_000,           // refuse decompression bombs
+  MIME_TYPES: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+  WEBP_QUALITY: 82,
+};
+
+export type AvatarSize = typeof AVATAR_CONFIG.SIZES[number];
+
+export interface AvatarLocation {
+  userId: string;
+  version: string;
+  size: AvatarSize;
+}
+
+const AVATAR_PATH = /^\/api\/avatars\/([a-f0-9]{24})\/([a-z0-9]+)\/(\d+)\.webp$/;
+
+export function isAvatarSize(value: number): value is AvatarSize {
+  return (AVATAR_CONFIG.SIZES as readonly number[]).includes(value);
+}
+
+export function avatarStorageKey({ userId, version, size }: AvatarLocation): string {
+  return `avatars/${userId}/${version}/${size}.webp`;
+}
+
+/**
+ * The version changes with every upload, so the URL can be cached forever
+ */
+export function buildAvatarUrl({ userId, version, size }: AvatarLocation): string {
+  return `/api/avatars/${userId}/${version}/${size}.webp`;
+}
+
+/**
+ * Where an avatar URL points, or null for external URLs set on the profile
+ */
+export function parseAvatarUrl(url: string | null | undefined): AvatarLocation | null {
+  const match = url ? AVATAR_PATH.exec(url) : null;
+  if (!match) {
+    return null;
+  }
+
+  const size = Number(match[3]);
+  return isAvatarSize(size) ? { userId: match[1]!, version: match[2]!, size } : null;
+}
+
+/**
+ * The smallest processed size that covers the given number of device pixels.
+ * Other URLs are returned unchanged.
+ */
+export function selectAvatarUrl(url: string, pixels: number): string {
+  const location = parseAvatarUrl(url);
+  if (!location) {
+    return url;
+  }
+
+  const size = AVATAR_CONFIG.SIZES.find(candidate => candidate >= pixels)
+    ?? AVATAR_CONFIG.SIZES[AVATAR_CONFIG.SIZES.length - 1]!;
+
+  return buildAvatarUrl({ ...location, size });
+}
@@ -0,0 +1,317 @@
+/**
+ * Calendar booking helpers: timezone conversion and free-slot calculation for availability schedules
+ */
+
+import type { AvailabilitySchedule, TimeSlot } from '@/types';
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface BookableSlot {
+  startTime: string; // ISO 8601, UTC
+  endTime: string;   // ISO 8601, UTC
+}
+
+// Booking configuration
+export const BOOKING_CONFIG = {
+  SLOT_INTERVAL_MINUTES: 30,       // Slot start times are aligned to this grid
+  MIN_LEAD_TIME_MINUTES: 15,       // Earliest a session can be booked from now
+  MAX_DAYS_AHEAD: 30,              // Furthest a session can be booked
+  DEFAULT_SEARCH_DAYS: 7,
+  MAX_SEARCH_DAYS: 14,
+  MAX_SLOTS: 100,
+  DEFAULT_DURATION_MINUTES: 60,
+  MIN_DURATION_MINUTES: 15,
+  MAX_DURATION_MINUTES: 240,
+  LOCK_TTL_MS: 10000,              // Per-user booking lock
+} as const;
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export class BookingError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'BookingError';
+    this.statusCode = statusCode;
+  }
+}
+
+interface ZonedDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  dayName: string;
+}
+
+/**
+ * Check whether a string is an IANA timezone known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a timezone from UTC at the given instant, in milliseconds
+ */
+export function getTimezoneOffset(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second')
+  );
+
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Whole hours between two timezones' UTC offsets at the given instant
+ */
+export function getTimezoneGapHours(date: Date, first: string, second: string): number {
+  const gap = Math.abs(getTimezoneOffset(date, first) - getTimezoneOffset(date, second));
+  return Math.round(gap / (60 * MINUTE_MS));
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  minutesOfDay: number,
+  timezone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day) + minutesOfDay * MINUTE_MS;
+
+  // Re-check the offset at the resulting instant so DST transitions resolve correctly
+  let utc = wallClock - getTimezoneOffset(new Date(wallClock), timezone);
+  utc = wallClock - getTimezoneOffset(new Date(utc), timezone);
+
+  return new Date(utc);
+}
+
+/**
+ * Calendar date and weekday of an instant in a timezone
+ */
+function getZonedDate(date: Date, timezone: string): ZonedDate {
+  const local = new Date(date.getTime() + getTimezoneOffset(date, timezone));
+
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth() + 1,
+    day: local.getUTCDate(),
+    dayName: DAY_NAMES[local.getUTCDay()],
+  };
+}
+
+/**
+ * Convert HH:MM to minutes since midnight
+ */
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Expand a weekly schedule in the user's timezone into UTC intervals covering a window
+ */
+export function expandAvailability(
+  schedule: AvailabilitySchedule | null | undefined,
+  timezone: string,
+  windowStart: Date,
+  windowEnd: Date
+): TimeInterval[] {
+  if (!schedule) return [];
+
+  const intervals: TimeInterval[] = [];
+  const seenDates = new Set<string>();
+
+  // Walk local calendar days with a day of margin on both sides of the window
+  for (let t = windowStart.getTime() - DAY_MS; t <= windowEnd.getTime() + DAY_MS; t += DAY_MS) {
+    const date = getZonedDate(new Date(t), timezone);
+    const key = `${date.year}-${date.month}-${date.day}`;
+    if (seenDates.has(key)) continue;
+    seenDates.add(key);
+
+    const slots: TimeSlot[] = schedule[date.dayName] || [];
+    for (const slot of slots) {
+      const startMinutes = timeToMinutes(slot.start);
+      let endMinutes = timeToMinutes(slot.end);
+
+      // A slot ending at or before its start runs past midnight
+      if (endMinutes <= startMinutes) {
+        endMinutes += 24 * 60;
+      }
+
+      const start = zonedTimeToUtc(date.year, date.month, date.day, startMinutes, timezone);
+      const end = zonedTimeToUtc(date.year, date.month, date.day, endMinutes, timezone);
+
+      if (end > windowStart && start < windowEnd) {
+        intervals.push({
+          start: start < windowStart ? windowStart : start,
+          end: end > windowEnd ? windowEnd : end,
+        });
+      }
+    }
+  }
+
+  return mergeIntervals(intervals);
+}
+
+/**
+ * Sort intervals and merge any that overlap or touch
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: TimeInterval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Intersect two sorted, merged interval lists
+ */
+export function intersectIntervals(a: TimeInterval[], b: TimeInterval[]): TimeInterval[] {
+  const result: TimeInterval[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    const start = a[i].start > b[j].start ? a[i].start : b[j].start;
+    const end = a[i].end < b[j].end ? a[i].end : b[j].end;
+
+    if (start < end) {
+      result.push({ start, end });
+    }
+
+    if (a[i].end < b[j].end) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remove busy intervals from free intervals
+ */
+export function subtractIntervals(free: TimeInterval[], busy: TimeInterval[]): TimeInterval[] {
+  const blocked = mergeIntervals(busy);
+  const result: TimeInterval[] = [];
+
+  for (const interval of free) {
+    let cursor = interval.start;
+
+    for (const block of blocked) {
+      if (block.end <= cursor || block.start >= interval.end) continue;
+
+      if (block.start > cursor) {
+        result.push({ start: cursor, end: block.start });
+      }
+      if (block.end > cursor) {
+        cursor = block.end;
+      }
+    }
+
+    if (cursor < interval.end) {
+      result.push({ start: cursor, end: interval.end });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check whether two intervals overlap
+ */
+export function intervalsOverlap(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Check whether an interval lies entirely within one of the given intervals
+ */
+export function isWithinIntervals(interval: TimeInterval, intervals: TimeInterval[]): boolean {
+  return intervals.some(candidate => candidate.start <= interval.start && candidate.end >= interval.end);
+}
+
+/**
+ * Cut free intervals into fixed-length slots aligned to the slot grid
+ */
+export function buildSlots(
+  free: TimeInterval[],
+  durationMinutes: number,
+  limit: number = BOOKING_CONFIG.MAX_SLOTS
+): BookableSlot[] {
+  const step = BOOKING_CONFIG.SLOT_INTERVAL_MINUTES * MINUTE_MS;
+  const duration = durationMinutes * MINUTE_MS;
+  const slots: BookableSlot[] = [];
+
+  for (const interval of free) {
+    let start = Math.ceil(interval.start.getTime() / step) * step;
+
+    while (start + duration <= interval.end.getTime()) {
+      slots.push({
+        startTime: new Date(start).toISOString(),
+        endTime: new Date(start + duration).toISOString(),
+      });
+
+      if (slots.length >= limit) return slots;
+      start += step;
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Planned time range of a session; sessions without a planned end use the default duration
+ */
+export function getSessionInterval(session: {
+  startTime: Date;
+  scheduledEndTime?: Date | null;
+}): TimeInterval {
+  return {
+    start: session.startTime,
+    end: session.scheduledEndTime
+      || new Date(session.startTime.getTime() + BOOKING_CONFIG.DEFAULT_DURATION_MINUTES * MINUTE_MS),
+  };
+}
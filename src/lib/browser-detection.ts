@@ -88,6 +88,77 @@ export interface FeatureSupport {
   };
 }
 
+export interface UserAgentInfo {
+  name: string;
+  version: string;
+  engine: string;
+  platform: string;
+  isMobile: boolean;
+  isTablet: boolean;
+  isDesktop: boolean;
+}
+
+function extractVersion(ua: string, regex: RegExp): string {
+  const match = ua.match(regex);
+  return match ? match[1] : 'Unknown';
+}
+
+/**
+ * Browser, platform and device type from a user agent string. Works on the
+ * server too, e.g. for user agents recorded at sign-in.
+ */
+export function parseUserAgent(ua: string): UserAgentInfo {
+  let name = 'Unknown';
+  let version = 'Unknown';
+  let engine = 'Unknown';
+
+  // Browser detection
+  if (ua.includes('Chrome') && !ua.includes('Chromium')) {
+    name = 'Chrome';
+    version = extractVersion(ua, /Chrome\/([0-9.]+)/);
+    engine = 'Blink';
+  } else if (ua.includes('Firefox')) {
+    name = 'Firefox';
+    version = extractVersion(ua, /Firefox\/([0-9.]+)/);
+    engine = 'Gecko';
+  } else if (ua.includes('Safari') && !ua.includes('Chrome')) {
+    name = 'Safari';
+    version = extractVersion(ua, /Version\/([0-9.]+)/);
+    engine = 'WebKit';
+  } else if (ua.includes('Edge')) {
+    name = 'Edge';
+    version = extractVersion(ua, /Edge\/([0-9.]+)/);
+    engine = 'EdgeHTML';
+  } else if (ua.includes('Trident')) {
+    name = 'Internet Explorer';
+    version = extractVersion(ua, /rv:([0-9.]+)/);
+    engine = 'Trident';
+  }
+
+  // Platform detection - mobile first, Android and iOS user agents also mention Linux and Mac
+  let platform = 'Unknown';
+  if (ua.includes('Android')) platform = 'Android';
+  else if (/iPhone|iPad|iPod/.test(ua)) platform = 'iOS';
+  else if (ua.includes('Windows')) platform = 'Windows';
+  else if (ua.includes('Mac')) platform = 'macOS';
+  else if (ua.includes('Linux')) platform = 'Linux';
+
+  // Device type detection
+  const isMobile = /Mobile|Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(ua);
+  const isTablet = /iPad|Android(?!.*Mobile)/i.test(ua);
+  const isDesktop = !isMobile && !isTablet;
+
+  return {
+    name,
+    version,
+    engine,
+    platform,
+    isMobile,
+    isTablet,
+    isDesktop
+  };
+}
+
 class BrowserDetector {
   private userAgent: string;
   private browserInfo: BrowserInfo | null = null;
@@ -229,65 +300,8 @@ class BrowserDetector {
   /**
    * Detect browser name, version, and platform
    */
-  private detectBrowser(): {
-    name: string;
-    version: string;
-    engine: string;
-    platform: string;
-    isMobile: boolean;
-    isTablet: boolean;
-    isDesktop: boolean;
-  } {
-    const ua = this.userAgent;
-    let name = 'Unknown';
-    let version = 'Unknown';
-    let engine = 'Unknown';
-
-    // Browser detection
-    if (ua.includes('Chrome') && !ua.includes('Chromium')) {
-      name = 'Chrome';
-      version = this.extractVersion(ua, /Chrome\/([0-9.]+)/);
-      engine = 'Blink';
-    } else if (ua.includes('Firefox')) {
-      name = 'Firefox';
-      version = this.extractVersion(ua, /Firefox\/([0-9.]+)/);
-      engine = 'Gecko';
-    } else if (ua.includes('Safari') && !ua.includes('Chrome')) {
-      name = 'Safari';
-      version = this.extractVersion(ua, /Version\/([0-9.]+)/);
-      engine = 'WebKit';
-    } else if (ua.includes('Edge')) {
-      name = 'Edge';
-      version = this.extractVersion(ua, /Edge\/([0-9.]+)/);
-      engine = 'EdgeHTML';
-    } else if (ua.includes('Trident')) {
-      name = 'Internet Explorer';
-      version = this.extractVersion(ua, /rv:([0-9.]+)/);
-      engine = 'Trident';
-    }
-
-    // Platform detection
-    let platform = 'Unknown';
-    if (ua.includes('Windows')) platform = 'Windows';
-    else if (ua.includes('Mac')) platform = 'macOS';
-    else if (ua.includes('Linux')) platform = 'Linux';
-    else if (ua.includes('Android')) platform = 'Android';
-    else if (ua.includes('iOS')) platform = 'iOS';
-
-    // Device type detection
-    const isMobile = /Mobile|Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(ua);
-    const isTablet = /iPad|Android(?!.*Mobile)/i.test(ua);
-    const isDesktop = !isMobile && !isTablet;
-
-    return {
-      name,
-      version,
-      engine,
-      platform,
-      isMobile,
-      isTablet,
-      isDesktop
-    };
+  private detectBrowser(): UserAgentInfo {
+    return parseUserAgent(this.userAgent);
   }
 
   /**
@@ -522,11 +536,6 @@ class BrowserDetector {
   /**
    * Helper methods
    */
-  private extractVersion(ua: string, regex: RegExp): string {
-    const match = ua.match(regex);
-    return match ? match[1] : 'Unknown';
-  }
-
   private checkWebGLSupport(): boolean {
     try {
       const canvas = document.createElement('canvas');
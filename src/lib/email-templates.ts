@@ -0,0 +1,125 @@
+/**
+ * Transactional email content
+ */
+
+import { MailMessage } from '@/lib/mailer';
+import { LoginAnomaly } from '@/lib/account-security';
+
+export function getAppBaseUrl(): string {
+  return (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+export function buildVerificationEmail(to: string, username: string, token: string): MailMessage {
+  const link = `${getAppBaseUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Verify your SkillSync email address',
+    text: [
+      `Hi ${username},`,
+      '',
+      'Welcome to SkillSync! Confirm your email address to start matching with learning partners:',
+      '',
+      link,
+      '',
+      'The link expires in 24 hours. If you did not create an account, you can ignore this email.',
+    ].join('\n'),
+  };
+}
+
+const LOGIN_ANOMALY_DESCRIPTIONS: Record<LoginAnomaly, string> = {
+  new_device: 'a device or network you have not signed in from before',
+  new_country: 'a country you have not signed in from before',
+  timezone_mismatch: 'a timezone different from the one on your profile',
+};
+
+export function buildNewLoginEmail(
+  to: string,
+  username: string,
+  login: { device: string; ipAddress: string | null; country: string | null; at: Date; anomalies: LoginAnomaly[] }
+): MailMessage {
+  const location = [login.ipAddress, login.country].filter(Boolean).join(', ');
+
+  return {
+    to,
+    subject: 'New sign-in to your SkillSync account',
+    text: [
+      `Hi ${username},`,
+      '',
+      `Your account was just signed in to from ${login.anomalies.map(anomaly => LOGIN_ANOMALY_DESCRIPTIONS[anomaly]).join(' and ')}:`,
+      '',
+      `  ${login.device}${location ? ` (${location})` : ''}`,
+      `  ${login.at.toUTCString()}`,
+      '',
+      'If this was you, there is nothing to do. If not, change your password and sign out the device here:',
+      '',
+      `${getAppBaseUrl()}/profile`,
+    ].join('\n'),
+  };
+}
+
+export function buildAccountLockedEmail(to: string, username: string, lockedUntil: Date): MailMessage {
+  return {
+    to,
+    subject: 'Your SkillSync account has been temporarily locked',
+    text: [
+      `Hi ${username},`,
+      '',
+      'There have been several failed attempts to sign in to your account, so sign-in is blocked until',
+      `${lockedUntil.toUTCString()}.`,
+      '',
+      'If these attempts were not you, someone may know your email address. Once you can sign in again,',
+      'choose a strong password you do not use elsewhere and consider turning on two-factor authentication.',
+    ].join('\n'),
+  };
+}
+
+export function buildDeletionScheduledEmail(to: string, username: string, scheduledFor: Date): MailMessage {
+  return {
+    to,
+    subject: 'Your SkillSync account is scheduled for deletion',
+    text: [
+      `Hi ${username},`,
+      '',
+      `As requested, your account and personal data will be deleted on ${scheduledFor.toUTCString()}.`,
+      'Past sessions will stay in your partners\' history without your name.',
+      '',
+      'Changed your mind? Sign in and cancel the deletion under Security in your profile before then:',
+      '',
+      `${getAppBaseUrl()}/profile`,
+      '',
+      'If you did not request this, cancel the deletion and change your password.',
+    ].join('\n'),
+  };
+}
+
+export function buildAccountWarningEmail(to: string, username: string, reason: string, note: string | null): MailMessage {
+  return {
+    to,
+    subject: 'A warning about your SkillSync account',
+    text: [
+      `Hi ${username},`,
+      '',
+      `Our moderators reviewed a report about you (${reason.toLowerCase()}) and decided to issue a warning.`,
+      ...(note ? ['', note] : []),
+      '',
+      'Please keep sessions respectful. Further reports may lead to your account being suspended.',
+    ].join('\n'),
+  };
+}
+
+export function buildAccountSuspendedEmail(to: string, username: string, reason: string, note: string | null): MailMessage {
+  return {
+    to,
+    subject: 'Your SkillSync account has been suspended',
+    text: [
+      `Hi ${username},`,
+      '',
+      `After reviewing a report about you (${reason.toLowerCase()}), our moderators have suspended your account.`,
+      'You have been signed out and can no longer sign in or be matched.',
+      ...(note ? ['', note] : []),
+      '',
+      'If you believe this is a mistake, reply to this email.',
+    ].join('\n'),
+  };
+}
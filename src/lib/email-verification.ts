@@ -0,0 +1,20 @@
+/**
+ * Email verification rules for new accounts
+ */
+
+export const EMAIL_VERIFICATION_CONFIG = {
+  // Unverified accounts can sign in and edit their profile, but not match
+  REQUIRED_FOR_MATCHING: process.env.REQUIRE_EMAIL_VERIFICATION !== 'false',
+  RESEND_MAX_ATTEMPTS: parseInt(process.env.EMAIL_VERIFICATION_RESEND_MAX_ATTEMPTS || '3'),
+  RESEND_WINDOW_MS: 60 * 60 * 1000,
+};
+
+export class EmailVerificationError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'EmailVerificationError';
+    this.statusCode = statusCode;
+  }
+}
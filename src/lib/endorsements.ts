@@ -0,0 +1,16 @@
+/**
+ * Skill endorsement rules: which sessions allow endorsing a partner
+ */
+
+// Sessions after which participants can endorse each other
+export const ENDORSABLE_SESSION_STATUSES: readonly string[] = ['completed'];
+
+export class EndorsementError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'EndorsementError';
+    this.statusCode = statusCode;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * RFC 5545 iCalendar rendering for sessions
+ */
+
+export interface CalendarSession {
+  id: string;
+  initiatorId: string;
+  partnerId: string;
+  startTime: Date;
+  scheduledEndTime?: Date | null;
+  endTime?: Date | null;
+  durationMinutes?: number | null;
+  sessionType: string;
+  topics: string[];
+  status: string;
+  createdAt: Date;
+  rescheduledAt?: Date | null;
+  cancelledAt?: Date | null;
+  initiator: { id: string; username: string };
+  partner: { id: string; username: string };
+}
+
+const PRODUCT_ID = '-//SkillSync//Sessions//EN';
+const UID_DOMAIN = 'skillsync-platform';
+const DEFAULT_EVENT_MINUTES = 60;
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Format a date as a UTC DATE-TIME value, e.g. 20250303T150000Z
+ */
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Fold a content line to 75 octets without splitting multi-byte characters
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+
+    current += char;
+    currentOctets += octets;
+  }
+
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Planned or actual end of a session for its calendar entry
+ */
+function getEventEnd(session: CalendarSession): Date {
+  if (session.endTime) return session.endTime;
+  if (session.scheduledEndTime) return session.scheduledEndTime;
+
+  const minutes = session.durationMinutes || DEFAULT_EVENT_MINUTES;
+  return new Date(session.startTime.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Render the VEVENT lines for a session as seen by one participant
+ */
+export function buildSessionEvent(session: CalendarSession, viewerId: string, baseUrl: string): string[] {
+  const partner = session.initiatorId === viewerId ? session.partner : session.initiator;
+  const joinUrl = `${baseUrl.replace(/\/$/, '')}/call/${session.id}`;
+  const sessionType = session.sessionType.charAt(0).toUpperCase() + session.sessionType.slice(1);
+  const lastModified = session.cancelledAt || session.rescheduledAt || session.createdAt;
+
+  const description = [
+    `${sessionType} session with ${partner.username}`,
+    session.topics.length > 0 ? `Topics: ${session.topics.join(', ')}` : null,
+    `Join: ${joinUrl}`,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${session.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(new Date())}`,
+    `DTSTART:${formatDateTime(session.startTime)}`,
+    `DTEND:${formatDateTime(getEventEnd(session))}`,
+    `LAST-MODIFIED:${formatDateTime(lastModified)}`,
+    // Bump the sequence so calendar clients pick up reschedules and cancellations
+    `SEQUENCE:${Math.floor(lastModified.getTime() / 1000) - Math.floor(session.createdAt.getTime() / 1000)}`,
+    `SUMMARY:${escapeText(`SkillSync: ${sessionType} with ${partner.username}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(session.topics.length > 0 ? [`CATEGORIES:${session.topics.map(escapeText).join(',')}`] : []),
+    `LOCATION:${escapeText(joinUrl)}`,
+    `URL:${joinUrl}`,
+    `STATUS:${session.status === 'cancelled' || session.status === 'no_show' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Render a complete VCALENDAR document with CRLF line endings
+ */
+export function buildCalendar(
+  sessions: CalendarSession[],
+  viewerId: string,
+  baseUrl: string,
+  name: string = 'SkillSync Sessions'
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...sessions.flatMap(session => buildSessionEvent(session, viewerId, baseUrl)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
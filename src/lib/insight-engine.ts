@@ -0,0 +1,518 @@
+/**
+ * Rule-based insight engine: mines session history for learning patterns,
+ * recommendations and achievement nudges
+ */
+
+import { getTimezoneOffset } from '@/lib/booking';
+import type {
+  AchievementInsight,
+  LearningPattern,
+  Recommendation,
+} from '@/services/session-analytics.service';
+
+export interface InsightSession {
+  id: string;
+  initiatorId: string;
+  partnerId: string;
+  startTime: Date;
+  durationMinutes: number | null;
+  sessionType: string;
+  topics: string[];
+  ratingInitiator: number | null;
+  ratingPartner: number | null;
+  initiator: { id: string; username: string };
+  partner: { id: string; username: string };
+}
+
+export interface InsightStats {
+  currentStreak: number;
+  lastSessionDate?: Date | null;
+}
+
+export interface AchievementProgress {
+  id: string;
+  name: string;
+  description: string;
+  progress: number; // 0-100
+  progressText: string;
+  criteria: unknown;
+}
+
+export interface InsightContext {
+  userId: string;
+  timezone: string;
+  sessions: InsightSession[];
+  stats: InsightStats | null;
+  now: Date;
+}
+
+export const INSIGHT_CONFIG = {
+  MIN_SESSIONS_FOR_PATTERNS: 5,       // Below this, patterns are noise
+  FULL_CONFIDENCE_SESSIONS: 20,       // Sample size at which confidence is not discounted
+  MIN_RATED_SESSIONS_PER_BUCKET: 2,   // Ratings needed before comparing buckets
+  MIN_RATING_DIFFERENCE: 0.5,         // Rating gap worth recommending a change for
+  DOMINANT_PERIOD_SHARE: 0.4,
+  DOMINANT_DAY_SHARE: 0.3,
+  TOPIC_FOCUS_SHARE: 0.3,
+  FAVORITE_PARTNER_MIN_SESSIONS: 2,
+  FAVORITE_PARTNER_MIN_RATING: 4,
+  STREAK_AT_RISK_MIN_DAYS: 3,
+  INACTIVE_DAYS: 14,
+  NEAR_COMPLETION_PROGRESS: 75,
+  IN_PROGRESS_MIN_PROGRESS: 25,
+  MAX_RECOMMENDATIONS: 5,
+  MAX_ACHIEVEMENT_INSIGHTS: 5,
+} as const;
+
+type DayPeriod = 'morning' | 'afternoon' | 'evening' | 'night';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const LENGTH_BUCKETS = [
+  { key: 'short', label: 'short (under 45 min)', max: 45 },
+  { key: 'medium', label: 'medium (45-75 min)', max: 75 },
+  { key: 'long', label: 'long (over 75 min)', max: Infinity },
+] as const;
+
+// Where each achievement criteria type can be worked on
+const ACHIEVEMENT_ACTIONS: Record<string, string> = {
+  session_count: '/match',
+  streak: '/match',
+  minutes_learned: '/match',
+  teaching_sessions: '/match',
+  collaboration_sessions: '/match',
+  skill_level: '/profile',
+  rating: '/sessions',
+};
+
+const PRIORITY_ORDER = { high: 0, medium: 1, low: 2 } as const;
+
+interface BucketStats {
+  count: number;
+  ratings: number[];
+}
+
+/**
+ * Detect time, length, topic and partner patterns in completed sessions
+ */
+export function detectLearningPatterns(context: InsightContext): LearningPattern[] {
+  const { sessions } = context;
+  if (sessions.length < INSIGHT_CONFIG.MIN_SESSIONS_FOR_PATTERNS) return [];
+
+  return [
+    detectTimeOfDayPattern(context),
+    detectDayOfWeekPattern(context),
+    detectSessionLengthPattern(context),
+    detectSkillFocusPattern(context),
+    detectPartnerPattern(context),
+  ].filter((pattern): pattern is LearningPattern => pattern !== null);
+}
+
+/**
+ * Turn detected patterns and activity into prioritized, actionable recommendations
+ */
+export function buildRecommendations(context: InsightContext, patterns: LearningPattern[]): Recommendation[] {
+  const recommendations: Recommendation[] = [];
+  const findPattern = (type: LearningPattern['type'], key: string) =>
+    patterns.find(pattern => pattern.type === type && pattern.data.kind === key);
+
+  // Keep an active streak going
+  const { stats, now } = context;
+  if (stats?.lastSessionDate) {
+    const daysSinceLastSession = Math.floor((now.getTime() - stats.lastSessionDate.getTime()) / (24 * 60 * 60 * 1000));
+
+    if (stats.currentStreak >= INSIGHT_CONFIG.STREAK_AT_RISK_MIN_DAYS && daysSinceLastSession >= 1) {
+      recommendations.push({
+        type: 'goal',
+        priority: 'high',
+        title: `Keep your ${stats.currentStreak}-day streak alive`,
+        description: 'You have not had a session today. A short session keeps your streak going.',
+        actionable: true,
+        estimatedImpact: `Protects a ${stats.currentStreak}-day streak`,
+        confidence: 90,
+        actionUrl: '/match',
+        data: { currentStreak: stats.currentStreak },
+      });
+    } else if (daysSinceLastSession >= INSIGHT_CONFIG.INACTIVE_DAYS) {
+      recommendations.push({
+        type: 'goal',
+        priority: 'high',
+        title: 'Get back into learning',
+        description: `Your last session was ${daysSinceLastSession} days ago. Find a partner to pick up where you left off.`,
+        actionable: true,
+        estimatedImpact: 'Restart your learning routine',
+        confidence: 85,
+        actionUrl: '/match',
+        data: { daysSinceLastSession },
+      });
+    }
+  }
+
+  // Schedule around the best-rated time of day
+  const timePattern = findPattern('time_preference', 'time_of_day');
+  if (timePattern?.data.bestRatedPeriod && timePattern.data.bestRatedPeriod !== timePattern.data.period) {
+    const best = timePattern.data.bestRatedPeriod as DayPeriod;
+    const gap = timePattern.data.averageRatings[best] - timePattern.data.averageRatings[timePattern.data.period];
+
+    recommendations.push({
+      type: 'schedule',
+      priority: 'medium',
+      title: `Schedule more ${best} sessions`,
+      description: `You usually learn in the ${timePattern.data.period}, but rate ${best} sessions higher.`,
+      actionable: true,
+      estimatedImpact: `+${round(gap, 1)} average session rating`,
+      confidence: timePattern.confidence,
+      actionUrl: '/sessions',
+      data: { period: best, ratingGap: round(gap, 2) },
+    });
+  }
+
+  // Adjust session length towards the best-rated length
+  const lengthPattern = findPattern('session_length', 'duration');
+  if (lengthPattern?.data.bestRatedLength && lengthPattern.data.bestRatedLength !== lengthPattern.data.typicalLength) {
+    const bucket = LENGTH_BUCKETS.find(candidate => candidate.key === lengthPattern.data.bestRatedLength);
+
+    recommendations.push({
+      type: 'schedule',
+      priority: 'low',
+      title: `Try ${bucket?.label} sessions`,
+      description: `Your ${lengthPattern.data.bestRatedLength} sessions get better ratings than your usual ${lengthPattern.data.typicalLength} ones.`,
+      actionable: true,
+      estimatedImpact: 'Higher session ratings',
+      confidence: lengthPattern.confidence,
+      actionUrl: '/profile',
+      data: { length: lengthPattern.data.bestRatedLength },
+    });
+  }
+
+  // Rebook a partner the user rates highly
+  const partnerPattern = findPattern('partner_preference', 'favorite_partner');
+  if (partnerPattern) {
+    recommendations.push({
+      type: 'partner',
+      priority: 'medium',
+      title: `Book another session with ${partnerPattern.data.partnerName}`,
+      description: `You rated your ${partnerPattern.data.sessions} sessions with ${partnerPattern.data.partnerName} ${partnerPattern.data.averageRating}/5 on average.`,
+      actionable: true,
+      estimatedImpact: 'Consistent, high-quality sessions',
+      confidence: partnerPattern.confidence,
+      actionUrl: '/sessions',
+      data: { partnerId: partnerPattern.data.partnerId },
+    });
+  }
+
+  // Balance the session type mix
+  const focusPattern = findPattern('skill_focus', 'topics');
+  if (focusPattern) {
+    const mix = focusPattern.data.sessionTypeMix as Record<string, number>;
+    const total = Object.values(mix).reduce((sum, count) => sum + count, 0);
+
+    if (!mix.teaching) {
+      recommendations.push({
+        type: 'skill',
+        priority: 'medium',
+        title: 'Try teaching a session',
+        description: 'You have not taught yet. Explaining a topic is one of the fastest ways to master it.',
+        actionable: true,
+        estimatedImpact: 'Deeper understanding and teaching achievements',
+        confidence: focusPattern.confidence,
+        actionUrl: '/match',
+        data: { sessionType: 'teaching' },
+      });
+    } else if ((mix.learning || 0) / total >= 0.8 && !mix.collaboration) {
+      recommendations.push({
+        type: 'skill',
+        priority: 'low',
+        title: 'Try a collaboration session',
+        description: 'Most of your sessions are learning sessions. Building something together applies what you learned.',
+        actionable: true,
+        estimatedImpact: 'Practical experience',
+        confidence: focusPattern.confidence,
+        actionUrl: '/match',
+        data: { sessionType: 'collaboration' },
+      });
+    }
+  }
+
+  return recommendations
+    .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || b.confidence - a.confidence)
+    .slice(0, INSIGHT_CONFIG.MAX_RECOMMENDATIONS);
+}
+
+/**
+ * Nudge towards achievements that are close to completion
+ */
+export function buildAchievementInsights(inProgress: AchievementProgress[]): AchievementInsight[] {
+  const sorted = [...inProgress]
+    .filter(achievement => achievement.progress < 100)
+    .sort((a, b) => b.progress - a.progress);
+
+  const toInsight = (achievement: AchievementProgress, type: AchievementInsight['type']): AchievementInsight => {
+    const criteriaType = (achievement.criteria as { type?: string } | null)?.type || '';
+    const progress = Math.round(achievement.progress);
+
+    return {
+      type,
+      achievementId: achievement.id,
+      title: type === 'near_completion' ? `Almost there: ${achievement.name}` : achievement.name,
+      description: achievement.description,
+      progress,
+      requirement: achievement.progressText,
+      confidence: progress,
+      actionUrl: ACHIEVEMENT_ACTIONS[criteriaType] || '/dashboard',
+    };
+  };
+
+  const nearCompletion = sorted
+    .filter(achievement => achievement.progress >= INSIGHT_CONFIG.NEAR_COMPLETION_PROGRESS)
+    .map(achievement => toInsight(achievement, 'near_completion'));
+
+  const inProgressInsights = sorted
+    .filter(achievement =>
+      achievement.progress >= INSIGHT_CONFIG.IN_PROGRESS_MIN_PROGRESS
+      && achievement.progress < INSIGHT_CONFIG.NEAR_COMPLETION_PROGRESS)
+    .slice(0, 2)
+    .map(achievement => toInsight(achievement, 'progress'));
+
+  const insights = [...nearCompletion, ...inProgressInsights];
+
+  // Nothing is close yet: point at the most reachable achievement
+  if (insights.length === 0 && sorted.length > 0) {
+    insights.push(toInsight(sorted[0], 'suggestion'));
+  }
+
+  return insights.slice(0, INSIGHT_CONFIG.MAX_ACHIEVEMENT_INSIGHTS);
+}
+
+function detectTimeOfDayPattern(context: InsightContext): LearningPattern | null {
+  const buckets = groupSessions(context, session => getDayPeriod(getLocalTime(session.startTime, context.timezone).hour));
+  const dominant = getDominantBucket(buckets, context.sessions.length);
+  if (!dominant || dominant.share < INSIGHT_CONFIG.DOMINANT_PERIOD_SHARE) return null;
+
+  const averageRatings = getAverageRatings(buckets);
+
+  return {
+    type: 'time_preference',
+    title: `You're a ${dominant.key} learner`,
+    description: `${Math.round(dominant.share * 100)}% of your sessions happen in the ${dominant.key}.`,
+    confidence: getConfidence(dominant.share, context.sessions.length),
+    data: {
+      kind: 'time_of_day',
+      period: dominant.key,
+      distribution: getCounts(buckets),
+      averageRatings,
+      bestRatedPeriod: getBestRatedBucket(buckets, averageRatings),
+    },
+  };
+}
+
+function detectDayOfWeekPattern(context: InsightContext): LearningPattern | null {
+  const buckets = groupSessions(context, session => DAY_NAMES[getLocalTime(session.startTime, context.timezone).day]);
+  const dominant = getDominantBucket(buckets, context.sessions.length);
+  if (!dominant || dominant.share < INSIGHT_CONFIG.DOMINANT_DAY_SHARE) return null;
+
+  return {
+    type: 'time_preference',
+    title: `${dominant.key}s are your learning day`,
+    description: `${Math.round(dominant.share * 100)}% of your sessions happen on ${dominant.key}s.`,
+    confidence: getConfidence(dominant.share, context.sessions.length),
+    data: {
+      kind: 'day_of_week',
+      day: dominant.key,
+      distribution: getCounts(buckets),
+      averageRatings: getAverageRatings(buckets),
+    },
+  };
+}
+
+function detectSessionLengthPattern(context: InsightContext): LearningPattern | null {
+  const durations = context.sessions
+    .map(session => session.durationMinutes)
+    .filter((minutes): minutes is number => typeof minutes === 'number' && minutes > 0);
+  if (durations.length < INSIGHT_CONFIG.MIN_SESSIONS_FOR_PATTERNS) return null;
+
+  const averageMinutes = durations.reduce((sum, minutes) => sum + minutes, 0) / durations.length;
+  const variance = durations.reduce((sum, minutes) => sum + (minutes - averageMinutes) ** 2, 0) / durations.length;
+  // Consistent lengths make a stronger pattern
+  const consistency = Math.max(0, 1 - Math.sqrt(variance) / averageMinutes);
+
+  const buckets = groupSessions(
+    { ...context, sessions: context.sessions.filter(session => session.durationMinutes) },
+    session => getLengthBucket(session.durationMinutes as number)
+  );
+  const averageRatings = getAverageRatings(buckets);
+
+  return {
+    type: 'session_length',
+    title: `Your sessions last about ${Math.round(averageMinutes)} minutes`,
+    description: consistency >= 0.7
+      ? 'You keep a very consistent session length.'
+      : 'Your session lengths vary quite a bit.',
+    confidence: getConfidence(consistency, durations.length),
+    data: {
+      kind: 'duration',
+      averageMinutes: Math.round(averageMinutes),
+      typicalLength: getLengthBucket(averageMinutes),
+      distribution: getCounts(buckets),
+      averageRatings,
+      bestRatedLength: getBestRatedBucket(buckets, averageRatings),
+    },
+  };
+}
+
+function detectSkillFocusPattern(context: InsightContext): LearningPattern | null {
+  const topicCounts = new Map<string, number>();
+  const sessionTypeMix: Record<string, number> = {};
+
+  context.sessions.forEach(session => {
+    new Set(session.topics.map(topic => topic.toLowerCase())).forEach(topic => {
+      topicCounts.set(topic, (topicCounts.get(topic) || 0) + 1);
+    });
+    sessionTypeMix[session.sessionType] = (sessionTypeMix[session.sessionType] || 0) + 1;
+  });
+
+  const topTopics = Array.from(topicCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([topic, count]) => ({ topic, count }));
+
+  const focusShare = topTopics.length > 0 ? topTopics[0].count / context.sessions.length : 0;
+  const focused = focusShare >= INSIGHT_CONFIG.TOPIC_FOCUS_SHARE;
+
+  return {
+    type: 'skill_focus',
+    title: focused ? `Focused on ${topTopics[0].topic}` : 'Broad learner',
+    description: focused
+      ? `${topTopics[0].topic} comes up in ${Math.round(focusShare * 100)}% of your sessions.`
+      : 'You spread your sessions across many topics.',
+    confidence: getConfidence(focused ? focusShare : 1 - focusShare, context.sessions.length),
+    data: {
+      kind: 'topics',
+      topTopics,
+      sessionTypeMix,
+    },
+  };
+}
+
+function detectPartnerPattern(context: InsightContext): LearningPattern | null {
+  const partners = new Map<string, { name: string; sessions: number; ratings: number[] }>();
+
+  context.sessions.forEach(session => {
+    const isInitiator = session.initiatorId === context.userId;
+    const partner = isInitiator ? session.partner : session.initiator;
+    const rating = isInitiator ? session.ratingInitiator : session.ratingPartner;
+
+    const entry = partners.get(partner.id) || { name: partner.username, sessions: 0, ratings: [] };
+    entry.sessions++;
+    if (rating) entry.ratings.push(rating);
+    partners.set(partner.id, entry);
+  });
+
+  const favorite = Array.from(partners.entries())
+    .map(([partnerId, entry]) => ({ partnerId, ...entry, averageRating: average(entry.ratings) }))
+    .filter(entry =>
+      entry.sessions >= INSIGHT_CONFIG.FAVORITE_PARTNER_MIN_SESSIONS
+      && entry.averageRating >= INSIGHT_CONFIG.FAVORITE_PARTNER_MIN_RATING)
+    .sort((a, b) => b.averageRating * b.sessions - a.averageRating * a.sessions)[0];
+
+  if (!favorite) return null;
+
+  return {
+    type: 'partner_preference',
+    title: `Great sessions with ${favorite.name}`,
+    description: `You've had ${favorite.sessions} sessions with ${favorite.name}, rated ${round(favorite.averageRating, 1)}/5 on average.`,
+    confidence: Math.round(Math.min(1, favorite.sessions / 5) * (favorite.averageRating / 5) * 100),
+    data: {
+      kind: 'favorite_partner',
+      partnerId: favorite.partnerId,
+      partnerName: favorite.name,
+      sessions: favorite.sessions,
+      averageRating: round(favorite.averageRating, 2),
+    },
+  };
+}
+
+function groupSessions(
+  context: InsightContext,
+  keyOf: (session: InsightSession) => string
+): Map<string, BucketStats> {
+  const buckets = new Map<string, BucketStats>();
+
+  context.sessions.forEach(session => {
+    const key = keyOf(session);
+    const bucket = buckets.get(key) || { count: 0, ratings: [] };
+    const rating = session.initiatorId === context.userId ? session.ratingInitiator : session.ratingPartner;
+
+    bucket.count++;
+    if (rating) bucket.ratings.push(rating);
+    buckets.set(key, bucket);
+  });
+
+  return buckets;
+}
+
+function getDominantBucket(buckets: Map<string, BucketStats>, total: number) {
+  const [key, stats] = Array.from(buckets.entries()).sort((a, b) => b[1].count - a[1].count)[0] || [];
+  return key && stats ? { key, share: stats.count / total } : null;
+}
+
+function getCounts(buckets: Map<string, BucketStats>): Record<string, number> {
+  return Object.fromEntries(Array.from(buckets.entries()).map(([key, stats]) => [key, stats.count]));
+}
+
+function getAverageRatings(buckets: Map<string, BucketStats>): Record<string, number> {
+  return Object.fromEntries(
+    Array.from(buckets.entries())
+      .filter(([, stats]) => stats.ratings.length > 0)
+      .map(([key, stats]) => [key, round(average(stats.ratings), 2)])
+  );
+}
+
+/**
+ * Bucket with the highest average rating, if it beats the others by a meaningful margin
+ */
+function getBestRatedBucket(buckets: Map<string, BucketStats>, averageRatings: Record<string, number>): string | null {
+  const rated = Array.from(buckets.entries())
+    .filter(([, stats]) => stats.ratings.length >= INSIGHT_CONFIG.MIN_RATED_SESSIONS_PER_BUCKET)
+    .sort((a, b) => averageRatings[b[0]] - averageRatings[a[0]]);
+
+  if (rated.length < 2) return null;
+
+  const [best, runnerUp] = rated;
+  return averageRatings[best[0]] - averageRatings[runnerUp[0]] >= INSIGHT_CONFIG.MIN_RATING_DIFFERENCE
+    ? best[0]
+    : null;
+}
+
+/**
+ * Scale a 0-1 signal strength by how much data backs it
+ */
+function getConfidence(strength: number, sampleSize: number): number {
+  const sampleFactor = Math.min(1, sampleSize / INSIGHT_CONFIG.FULL_CONFIDENCE_SESSIONS);
+  return Math.round(Math.max(0, Math.min(1, strength)) * sampleFactor * 100);
+}
+
+function getLocalTime(date: Date, timezone: string): { hour: number; day: number } {
+  const local = new Date(date.getTime() + getTimezoneOffset(date, timezone));
+  return { hour: local.getUTCHours(), day: local.getUTCDay() };
+}
+
+function getDayPeriod(hour: number): DayPeriod {
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+}
+
+function getLengthBucket(minutes: number): string {
+  return LENGTH_BUCKETS.find(bucket => minutes < bucket.max)?.key || 'long';
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
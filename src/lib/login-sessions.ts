@@ -0,0 +1,62 @@
+/**
+ * Signed-in devices: how a login session is described to its owner
+ */
+
+import { parseUserAgent } from '@/lib/browser-detection';
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'unknown';
+
+export interface DeviceDescription {
+  browser: string;
+  browserVersion: string | null;
+  os: string;
+  deviceType: DeviceType;
+}
+
+export class LoginSessionError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'LoginSessionError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function describeDevice(userAgent: string | null): DeviceDescription {
+  if (!userAgent) {
+    return { browser: 'Unknown', browserVersion: null, os: 'Unknown', deviceType: 'unknown' };
+  }
+
+  const info = parseUserAgent(userAgent);
+  const majorVersion = info.version === 'Unknown' ? null : info.version.split('.')[0];
+
+  return {
+    browser: info.name,
+    browserVersion: majorVersion,
+    os: info.platform,
+    deviceType: info.isTablet ? 'tablet' : info.isMobile ? 'mobile' : 'desktop',
+  };
+}
+
+/**
+ * Enough of the address to recognise a network, not to locate the user:
+ * the last IPv4 octet and everything after the first three IPv6 groups
+ * are dropped.
+ */
+export function maskIpAddress(ipAddress: string | null): string | null {
+  if (!ipAddress || ipAddress === 'unknown') {
+    return null;
+  }
+
+  const ipv4 = ipAddress.replace(/^::ffff:/, '');
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(ipv4)) {
+    return `${ipv4.split('.').slice(0, 3).join('.')}.x`;
+  }
+
+  if (ipAddress.includes(':')) {
+    return `${ipAddress.split(':').slice(0, 3).join(':')}::`;
+  }
+
+  return null;
+}
@@ -0,0 +1,98 @@
+/**
+ * Outgoing mail: a small transport interface so the delivery provider can be
+ * swapped without touching the code that sends mail
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export const MAIL_CONFIG = {
+  FROM: process.env.MAIL_FROM || 'SkillSync <no-reply@skillsync.dev>',
+  // console | file, anything else can be registered with setMailTransport
+  TRANSPORT: process.env.MAIL_TRANSPORT || 'console',
+  OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), '.mail-outbox'),
+};
+
+/**
+ * Prints messages to the server log. The default for local development.
+ */
+export class ConsoleTransport implements MailTransport {
+  name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      `[mail] From: ${MAIL_CONFIG.FROM}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`
+    );
+  }
+}
+
+/**
+ * Writes each message to its own .eml file so links can be opened from disk
+ */
+export class FileTransport implements MailTransport {
+  name = 'file';
+
+  constructor(private readonly directory: string = MAIL_CONFIG.OUTBOX_DIR) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${recipient}.eml`;
+    const contents = [
+      `From: ${MAIL_CONFIG.FROM}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+
+    await fs.writeFile(path.join(this.directory, fileName), contents, 'utf8');
+  }
+}
+
+function createTransport(name: string): MailTransport {
+  switch (name) {
+    case 'file':
+      return new FileTransport();
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      console.warn(`Unknown MAIL_TRANSPORT "${name}", falling back to console`);
+      return new ConsoleTransport();
+  }
+}
+
+let activeTransport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!activeTransport) {
+    activeTransport = createTransport(MAIL_CONFIG.TRANSPORT);
+  }
+  return activeTransport;
+}
+
+/**
+ * Register a transport for a real provider (SMTP, SES, Postmark, ...)
+ */
+export function setMailTransport(transport: MailTransport): void {
+  activeTransport = transport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
@@ -0,0 +1,297 @@
+/**
+ * Turns a compatibility score breakdown and the data behind it into
+ * human-readable reasons and caveats for the user who asked for the match
+ */
+
+import { expandAvailability, getTimezoneGapHours, getTimezoneOffset, intersectIntervals } from '@/lib/booking';
+import { resolveMatchingWeights } from '@/lib/matching-config';
+import type { CompatibilityScoreBreakdown } from '@/services/matching.service';
+import type { AvailabilitySchedule, MatchingFactor, UserProfile } from '@/types';
+
+export interface MatchExplanation {
+  reasons: string[];
+  caveats: string[];
+}
+
+// Completed sessions the two users already had together
+export interface SharedSessionSummary {
+  count: number;
+  averageRating: number | null;
+}
+
+export interface MatchExplanationInput {
+  requester: UserProfile;
+  candidate: UserProfile;
+  sessionType: 'learning' | 'teaching' | 'collaboration';
+  preferredSkills: string[];
+  scoreBreakdown: CompatibilityScoreBreakdown;
+  sharedSessions: SharedSessionSummary;
+  now?: Date;
+}
+
+export const MATCH_EXPLANATION_CONFIG = {
+  MAX_REASONS: 5,
+  MAX_CAVEATS: 3,
+  MAX_SKILLS_LISTED: 3,
+  MAX_WINDOWS_LISTED: 3,
+  CLOSE_TIMEZONE_HOURS: 2,
+  FAR_TIMEZONE_HOURS: 6,
+  DURATION_GAP_MINUTES: 30,
+  GOOD_RATING: 4,
+  POOR_RATING: 3,
+} as const;
+
+interface Finding {
+  factor: MatchingFactor;
+  text: string;
+}
+
+export interface AvailabilityWindow {
+  day: string;
+  start: string;
+  end: string;
+}
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LEVEL_GAP_WORDS = ['', 'one level', 'two levels', 'three levels', 'four levels'];
+
+// Sub-score and the requester's weight behind each factor, used to put the strongest reasons first
+function factorWeights(input: MatchExplanationInput): Record<MatchingFactor, { score: number; weight: number }> {
+  const breakdown = input.scoreBreakdown;
+  const weights = resolveMatchingWeights(input.requester.preferences?.matchingImportance);
+  return {
+    skill: { score: breakdown.skillCompatibility, weight: weights.SKILL_COMPATIBILITY },
+    timezone: { score: breakdown.timezoneCompatibility, weight: weights.TIMEZONE_COMPATIBILITY },
+    availability: { score: breakdown.availabilityCompatibility, weight: weights.AVAILABILITY_COMPATIBILITY },
+    communication: { score: breakdown.communicationCompatibility, weight: weights.COMMUNICATION_COMPATIBILITY },
+    sessionHistory: { score: breakdown.sessionHistoryCompatibility, weight: weights.SESSION_HISTORY_COMPATIBILITY },
+  };
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Weekday and HH:MM of an instant on a timezone's wall clock
+function toLocalTime(date: Date, timezone: string): { day: string; time: string } {
+  const local = new Date(date.getTime() + getTimezoneOffset(date, timezone));
+  const time = `${String(local.getUTCHours()).padStart(2, '0')}:${String(local.getUTCMinutes()).padStart(2, '0')}`;
+  return { day: DAY_NAMES[local.getUTCDay()], time };
+}
+
+/**
+ * Weekly windows where both users are free, longest first. Each schedule is
+ * read in its owner's timezone and the windows are given in the first
+ * timezone's local time.
+ */
+export function findOverlappingWindows(
+  first: { schedule: AvailabilitySchedule; timezone: string },
+  second: { schedule: AvailabilitySchedule; timezone: string },
+  now: Date = new Date()
+): AvailabilityWindow[] {
+  // Expand a day either side of the coming week so no window is cut short,
+  // then keep one occurrence of each: the ones starting within the week
+  const weekEnd = new Date(now.getTime() + 7 * DAY_MS);
+  const from = new Date(now.getTime() - DAY_MS);
+  const to = new Date(weekEnd.getTime() + DAY_MS);
+
+  return intersectIntervals(
+    expandAvailability(first.schedule, first.timezone, from, to),
+    expandAvailability(second.schedule, second.timezone, from, to)
+  )
+    .filter(interval => interval.start >= now && interval.start < weekEnd)
+    .sort((a, b) => (b.end.getTime() - b.start.getTime()) - (a.end.getTime() - a.start.getTime()))
+    .map(interval => {
+      const start = toLocalTime(interval.start, first.timezone);
+      return { day: start.day, start: start.time, end: toLocalTime(interval.end, first.timezone).time };
+    });
+}
+
+function explainSkills(input: MatchExplanationInput, reasons: Finding[], caveats: Finding[]): void {
+  const { requester, candidate, sessionType, preferredSkills } = input;
+  const mine = new Map(requester.skills.map(s => [s.skill.name.toLowerCase(), s]));
+  const theirs = new Map(candidate.skills.map(s => [s.skill.name.toLowerCase(), s]));
+
+  // Preferred skills first, then anything else both users list
+  const preferred = preferredSkills.map(s => s.toLowerCase());
+  const shared = [
+    ...preferred.filter(name => mine.has(name) && theirs.has(name)),
+    ...[...mine.keys()].filter(name => theirs.has(name) && !preferred.includes(name)),
+  ];
+
+  const complementary: string[] = [];
+  const mismatched: string[] = [];
+
+  for (const name of shared) {
+    const own = mine.get(name)!;
+    const other = theirs.get(name)!;
+    const gap = other.proficiencyLevel - own.proficiencyLevel;
+    const label = other.skill.name + (other.verified ? ' (verified)' : '');
+
+    if (sessionType === 'learning') {
+      if (gap > 0) complementary.push(`${label} ${LEVEL_GAP_WORDS[gap]} above you`);
+      else mismatched.push(other.skill.name);
+    } else if (sessionType === 'teaching') {
+      if (gap < 0) complementary.push(`${label} ${LEVEL_GAP_WORDS[-gap]} below you`);
+      else mismatched.push(other.skill.name);
+    } else if (Math.abs(gap) <= 1) {
+      complementary.push(`${label} at ${gap === 0 ? 'the same level as you' : 'a similar level to you'}`);
+    } else {
+      mismatched.push(other.skill.name);
+    }
+  }
+
+  const listed = complementary.slice(0, MATCH_EXPLANATION_CONFIG.MAX_SKILLS_LISTED);
+  if (listed.length > 0) {
+    const verb = sessionType === 'teaching' ? 'Is learning' : 'Knows';
+    reasons.push({ factor: 'skill', text: `${verb} ${joinList(listed)}` });
+  }
+
+  if (mismatched.length > 0) {
+    const names = joinList(mismatched.slice(0, MATCH_EXPLANATION_CONFIG.MAX_SKILLS_LISTED));
+    const text = sessionType === 'learning'
+      ? `Isn't ahead of you in ${names}`
+      : sessionType === 'teaching'
+        ? `Already knows ${names} as well as you do`
+        : `Is at a quite different level in ${names}`;
+    caveats.push({ factor: 'skill', text });
+  }
+
+  const missing = preferredSkills.filter(skill => !theirs.has(skill.toLowerCase()));
+  if (missing.length > 0) {
+    caveats.push({ factor: 'skill', text: `Doesn't list ${joinList(missing.slice(0, MATCH_EXPLANATION_CONFIG.MAX_SKILLS_LISTED))}` });
+  } else if (shared.length === 0) {
+    caveats.push({ factor: 'skill', text: 'Has no skills in common with you' });
+  }
+}
+
+function explainTimezone(input: MatchExplanationInput, reasons: Finding[], caveats: Finding[]): void {
+  const now = input.now ?? new Date();
+  let hours: number;
+  try {
+    hours = getTimezoneGapHours(now, input.requester.timezone, input.candidate.timezone);
+  } catch {
+    return; // Unknown timezone, nothing useful to say
+  }
+
+  if (hours === 0) {
+    reasons.push({ factor: 'timezone', text: 'Lives in your timezone' });
+  } else if (hours <= MATCH_EXPLANATION_CONFIG.CLOSE_TIMEZONE_HOURS) {
+    reasons.push({ factor: 'timezone', text: `Is only ${hours} hour${hours === 1 ? '' : 's'} from your timezone` });
+  } else if (hours >= MATCH_EXPLANATION_CONFIG.FAR_TIMEZONE_HOURS) {
+    caveats.push({ factor: 'timezone', text: `Is ${hours} hours from your timezone` });
+  }
+}
+
+function explainAvailability(input: MatchExplanationInput, reasons: Finding[], caveats: Finding[]): void {
+  const mine = input.requester.preferences?.availabilitySchedule;
+  const theirs = input.candidate.preferences?.availabilitySchedule;
+  if (!mine || !theirs) {
+    caveats.push({ factor: 'availability', text: 'Availability is unknown, so check a time works for both of you' });
+    return;
+  }
+
+  let windows: AvailabilityWindow[];
+  try {
+    windows = findOverlappingWindows(
+      { schedule: mine, timezone: input.requester.timezone },
+      { schedule: theirs, timezone: input.candidate.timezone },
+      input.now
+    );
+  } catch {
+    return; // Unknown timezone, the windows can't be placed
+  }
+
+  if (windows.length === 0) {
+    caveats.push({ factor: 'availability', text: 'Your weekly availability doesn\'t overlap' });
+    return;
+  }
+
+  const listed = windows
+    .slice(0, MATCH_EXPLANATION_CONFIG.MAX_WINDOWS_LISTED)
+    .map(w => `${capitalize(w.day)} ${w.start}-${w.end}`);
+  const yourTime = input.requester.timezone === input.candidate.timezone ? '' : ' your time';
+  reasons.push({ factor: 'availability', text: `You're both free ${joinList(listed)}${yourTime}` });
+}
+
+function explainCommunication(input: MatchExplanationInput, reasons: Finding[], caveats: Finding[]): void {
+  const mine = input.requester.preferences;
+  const theirs = input.candidate.preferences;
+  if (!mine || !theirs) return;
+
+  const common = theirs.languagePreferences.filter(lang => mine.languagePreferences.includes(lang));
+  if (common.length > 0) {
+    reasons.push({ factor: 'communication', text: `Speaks ${joinList(common)}` });
+  } else if (mine.languagePreferences.length > 0 && theirs.languagePreferences.length > 0) {
+    caveats.push({ factor: 'communication', text: 'Doesn\'t share a preferred language with you' });
+  }
+
+  if (mine.communicationStyle && mine.communicationStyle === theirs.communicationStyle) {
+    reasons.push({ factor: 'communication', text: `Prefers a ${mine.communicationStyle} style like you` });
+  }
+
+  if (Math.abs(mine.maxSessionDuration - theirs.maxSessionDuration) > MATCH_EXPLANATION_CONFIG.DURATION_GAP_MINUTES) {
+    caveats.push({ factor: 'communication', text: `Prefers sessions of up to ${theirs.maxSessionDuration} minutes` });
+  }
+}
+
+function explainSessionHistory(input: MatchExplanationInput, reasons: Finding[], caveats: Finding[]): void {
+  const { count, averageRating } = input.sharedSessions;
+  const stats = input.candidate.stats;
+
+  if (count > 0) {
+    const sessions = `${count} session${count === 1 ? '' : 's'} together`;
+    if (averageRating === null) {
+      reasons.push({ factor: 'sessionHistory', text: `You've had ${sessions} before` });
+    } else if (averageRating >= MATCH_EXPLANATION_CONFIG.GOOD_RATING) {
+      reasons.push({ factor: 'sessionHistory', text: `You've had ${sessions}, rated ${averageRating.toFixed(1)}/5 on average` });
+    } else if (averageRating < MATCH_EXPLANATION_CONFIG.POOR_RATING) {
+      caveats.push({ factor: 'sessionHistory', text: `Your past ${sessions} were rated ${averageRating.toFixed(1)}/5 on average` });
+    }
+    return;
+  }
+
+  if (!stats || stats.totalSessions === 0) {
+    caveats.push({ factor: 'sessionHistory', text: 'Hasn\'t completed a session yet' });
+  } else if (stats.averageRating && stats.averageRating >= MATCH_EXPLANATION_CONFIG.GOOD_RATING) {
+    reasons.push({ factor: 'sessionHistory', text: `Rated ${stats.averageRating.toFixed(1)}/5 across ${stats.totalSessions} sessions` });
+  }
+}
+
+/**
+ * Explain a match from the requester's point of view. Reasons come from the
+ * factors that contributed most to the score; caveats from the weakest first.
+ */
+export function explainMatch(input: MatchExplanationInput): MatchExplanation {
+  const reasons: Finding[] = [];
+  const caveats: Finding[] = [];
+
+  explainSkills(input, reasons, caveats);
+  explainTimezone(input, reasons, caveats);
+  explainAvailability(input, reasons, caveats);
+  explainCommunication(input, reasons, caveats);
+  explainSessionHistory(input, reasons, caveats);
+
+  const factors = factorWeights(input);
+  const contribution = (f: Finding) => factors[f.factor].score * factors[f.factor].weight;
+
+  // Array sort is stable, so findings within a factor keep their order
+  return {
+    reasons: reasons
+      .sort((a, b) => contribution(b) - contribution(a))
+      .slice(0, MATCH_EXPLANATION_CONFIG.MAX_REASONS)
+      .map(f => f.text),
+    caveats: caveats
+      .sort((a, b) => factors[a.factor].score - factors[b.factor].score)
+      .slice(0, MATCH_EXPLANATION_CONFIG.MAX_CAVEATS)
+      .map(f => f.text),
+  };
+}
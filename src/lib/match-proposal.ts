@@ -0,0 +1,40 @@
+/**
+ * Match proposals: both users accept a match before a session is created
+ */
+
+export const MATCH_PROPOSAL_CONFIG = {
+  // How long both users have to respond before the proposal expires
+  ACCEPT_WINDOW_MS: parseInt(process.env.MATCH_PROPOSAL_WINDOW_MS || '30000'),
+  // A declined pair is not proposed again for this long
+  DECLINE_COOLDOWN_MS: 24 * 60 * 60 * 1000,
+};
+
+export type ProposalStatus = 'pending' | 'accepted' | 'declined' | 'expired';
+
+export type ProposalResponse = 'accept' | 'decline';
+
+export const PROPOSAL_RESPONSES: ProposalResponse[] = ['accept', 'decline'];
+
+// A proposal as one of its two users sees it
+export interface MatchProposalView {
+  id: string;
+  partnerId: string;
+  sessionType: string;
+  topics: string[];
+  compatibilityScore: number;
+  status: ProposalStatus;
+  response: ProposalResponse | null;
+  partnerAccepted: boolean;
+  sessionId: string | null; // set once both accepted
+  expiresAt: Date;
+}
+
+export class MatchProposalError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'MatchProposalError';
+    this.statusCode = statusCode;
+  }
+}
@@ -3,6 +3,8 @@
  */
 
 import prisma from './prisma';
+import redis from './redis';
+import type { PairingOutcome, PairingStrategy } from './matchmaker';
 
 export interface MatchingMetrics {
   totalMatches: number;
@@ -26,6 +28,26 @@ export interface MatchingPerformanceData {
   sessionRating?: number;
 }
 
+// One matchmaker run: the chosen pairing next to what greedy matching would have done
+export interface BatchComparison {
+  timestamp: Date;
+  waitingUsers: number;
+  strategy: PairingStrategy;
+  batch: PairingOutcome;
+  greedy: PairingOutcome;
+}
+
+export interface BatchComparisonSummary {
+  runs: number;
+  batch: { matchedUsers: number; totalScore: number; averageScore: number; longestUnmatchedWaitMs: number };
+  greedy: { matchedUsers: number; totalScore: number; averageScore: number; longestUnmatchedWaitMs: number };
+  // Relative change in total score from greedy to batch, e.g. 0.12 for 12% better
+  scoreImprovement: number;
+}
+
+const BATCH_COMPARISONS_KEY = 'matching:batch_comparisons';
+const MAX_BATCH_COMPARISONS = 500;
+
 export class MatchingAnalytics {
   /**
    * Record matching attempt performance data
@@ -45,6 +67,50 @@ export class MatchingAnalytics {
     // TODO: Store in analytics database table for production use
   }
 
+  /**
+   * Keep the outcome of a batch run for comparison with greedy matching. Runs
+   * happen in the matchmaker worker, so the history lives in Redis.
+   */
+  static async recordBatchComparison(comparison: BatchComparison): Promise<void> {
+    try {
+      await redis.lpush(BATCH_COMPARISONS_KEY, JSON.stringify(comparison));
+      await redis.ltrim(BATCH_COMPARISONS_KEY, 0, MAX_BATCH_COMPARISONS - 1);
+    } catch (error) {
+      console.warn('Failed to record batch matching comparison:', error);
+    }
+  }
+
+  /**
+   * Batch versus greedy over the most recent matchmaker runs that had anyone to pair
+   */
+  static async getBatchComparison(limit: number = 100): Promise<BatchComparisonSummary> {
+    const raw = await redis.lrange(BATCH_COMPARISONS_KEY, 0, limit - 1);
+    const runs: BatchComparison[] = raw.map(item => JSON.parse(item));
+
+    const aggregate = (outcomes: PairingOutcome[]) => {
+      const pairs = outcomes.reduce((sum, outcome) => sum + outcome.pairs, 0);
+      const totalScore = outcomes.reduce((sum, outcome) => sum + outcome.totalScore, 0);
+      return {
+        matchedUsers: outcomes.reduce((sum, outcome) => sum + outcome.matchedUsers, 0),
+        totalScore: Math.round(totalScore * 100) / 100,
+        averageScore: pairs > 0 ? Math.round((totalScore / pairs) * 100) / 100 : 0,
+        longestUnmatchedWaitMs: Math.max(0, ...outcomes.map(outcome => outcome.longestUnmatchedWaitMs)),
+      };
+    };
+
+    const batch = aggregate(runs.map(run => run.batch));
+    const greedy = aggregate(runs.map(run => run.greedy));
+
+    return {
+      runs: runs.length,
+      batch,
+      greedy,
+      scoreImprovement: greedy.totalScore > 0
+        ? Math.round(((batch.totalScore - greedy.totalScore) / greedy.totalScore) * 1000) / 1000
+        : 0,
+    };
+  }
+
   /**
    * Get comprehensive matching metrics for the platform
    */
@@ -2,6 +2,8 @@
  * Configuration constants and utilities for the AI matching algorithm
  */
 
+import type { MatchingFactor, MatchingImportance } from '../types';
+
 // Matching algorithm weights (must total 100%)
 export const MATCHING_WEIGHTS = {
   SKILL_COMPATIBILITY: 0.30,      // 30% - Most important factor
@@ -11,6 +13,26 @@ export const MATCHING_WEIGHTS = {
   SESSION_HISTORY_COMPATIBILITY: 0.25, // 25% - Past performance and ratings
 } as const;
 
+export type MatchingWeights = Record<keyof typeof MATCHING_WEIGHTS, number>;
+
+// Which weight each user-facing matching factor scales
+export const MATCHING_FACTOR_WEIGHTS: Record<MatchingFactor, keyof typeof MATCHING_WEIGHTS> = {
+  skill: 'SKILL_COMPATIBILITY',
+  timezone: 'TIMEZONE_COMPATIBILITY',
+  availability: 'AVAILABILITY_COMPATIBILITY',
+  communication: 'COMMUNICATION_COMPATIBILITY',
+  sessionHistory: 'SESSION_HISTORY_COMPATIBILITY',
+};
+
+// Per-user importance levels; each level away from the default scales the weight by STEP
+export const MATCHING_IMPORTANCE = {
+  MIN: 1,
+  MAX: 5,
+  DEFAULT: 3,
+  STEP: 0.5, // 1 -> x0.25 (floored), 2 -> x0.5, 3 -> x1, 4 -> x1.5, 5 -> x2
+  MIN_MULTIPLIER: 0.25, // a factor can be turned down but never ignored entirely
+} as const;
+
 // Skill complementarity scoring thresholds
 export const SKILL_SCORING = {
   PERFECT_MATCH: 1.0,
@@ -21,6 +43,9 @@ export const SKILL_SCORING = {
   MINIMAL_MATCH: 0.1,
 } as const;
 
+// Added to a skill's complementarity score when the candidate's skill is verified
+export const SKILL_VERIFICATION_BONUS = 0.1;
+
 // Timezone compatibility thresholds (in hours)
 export const TIMEZONE_THRESHOLDS = {
   SAME_ZONE: 0,
@@ -54,11 +79,45 @@ export const SESSION_COMPATIBILITY = {
 /**
  * Validate matching algorithm weights
  */
-export function validateWeights(): boolean {
-  const totalWeight = Object.values(MATCHING_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+export function validateWeights(weights: MatchingWeights = MATCHING_WEIGHTS): boolean {
+  const values = Object.values(weights);
+  if (values.some(weight => !Number.isFinite(weight) || weight < 0)) {
+    return false;
+  }
+  const totalWeight = values.reduce((sum, weight) => sum + weight, 0);
   return Math.abs(totalWeight - 1.0) < 0.001; // Allow for floating point precision
 }
 
+/**
+ * Scale the default weights by a user's importance levels and renormalize
+ * them to total 100%. Missing or out-of-range levels keep the default.
+ */
+export function resolveMatchingWeights(importance?: MatchingImportance | null): MatchingWeights {
+  const scaled = { ...MATCHING_WEIGHTS } as MatchingWeights;
+  if (!importance) {
+    return scaled;
+  }
+
+  for (const [factor, key] of Object.entries(MATCHING_FACTOR_WEIGHTS) as [MatchingFactor, keyof typeof MATCHING_WEIGHTS][]) {
+    const level = importance[factor];
+    if (!Number.isInteger(level) || level! < MATCHING_IMPORTANCE.MIN || level! > MATCHING_IMPORTANCE.MAX) {
+      continue;
+    }
+    const multiplier = Math.max(
+      1 + (level! - MATCHING_IMPORTANCE.DEFAULT) * MATCHING_IMPORTANCE.STEP,
+      MATCHING_IMPORTANCE.MIN_MULTIPLIER
+    );
+    scaled[key] = MATCHING_WEIGHTS[key] * multiplier;
+  }
+
+  const total = Object.values(scaled).reduce((sum, weight) => sum + weight, 0);
+  for (const key of Object.keys(scaled) as (keyof typeof MATCHING_WEIGHTS)[]) {
+    scaled[key] = scaled[key] / total;
+  }
+
+  return scaled;
+}
+
 /**
  * Get skill level description
  */
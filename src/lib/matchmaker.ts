@@ -0,0 +1,165 @@
+/**
+ * Background matchmaker: configuration and pair selection over the waiting queue
+ */
+
+import { maxWeightMatching, WeightedEdge } from './max-weight-matching';
+
+// How the matchmaker picks pairs out of all scored pairs
+export type PairingStrategy = 'optimal' | 'mutual_best';
+
+export const MATCHMAKER_CONFIG = {
+  INTERVAL_MS: parseInt(process.env.MATCHMAKER_INTERVAL_MS || '5000'),
+  STRATEGY: (process.env.MATCHMAKER_STRATEGY === 'mutual_best' ? 'mutual_best' : 'optimal') as PairingStrategy,
+  MAX_ENTRIES_PER_RUN: 100, // Pairs are scored all-against-all, so keep this bounded
+  LOCK_TTL_MS: 15000,       // Per-user lock while a match is committed
+  // Added to every pair a waiting user is part of, so long waits aren't skipped forever
+  WAIT_BOOST_PER_MINUTE: 0.01,
+  MAX_WAIT_BOOST: 0.3,
+} as const;
+
+// Scores are scaled to integers for the matching algorithm
+const WEIGHT_SCALE = 10000;
+
+export interface CandidatePair {
+  userId1: string;
+  userId2: string;
+  compatibilityScore: number;
+}
+
+/**
+ * Pick pairs where each user is the other's best remaining option. After each
+ * round the matched users drop out and the rest are compared again, so a user
+ * whose favourite was taken still gets their next best.
+ */
+export function selectMutualBestPairs<T extends CandidatePair>(pairs: T[]): T[] {
+  const selected: T[] = [];
+  let remaining = pairs;
+
+  while (remaining.length > 0) {
+    const best = new Map<string, T>();
+    for (const pair of remaining) {
+      for (const userId of [pair.userId1, pair.userId2]) {
+        const current = best.get(userId);
+        if (!current || pair.compatibilityScore > current.compatibilityScore) {
+          best.set(userId, pair);
+        }
+      }
+    }
+
+    // The highest scoring pair is always mutual, so every round makes progress
+    const mutual = remaining.filter(pair => best.get(pair.userId1) === pair && best.get(pair.userId2) === pair);
+    if (mutual.length === 0) {
+      break;
+    }
+
+    selected.push(...mutual);
+
+    const matched = new Set(mutual.flatMap(pair => [pair.userId1, pair.userId2]));
+    remaining = remaining.filter(pair => !matched.has(pair.userId1) && !matched.has(pair.userId2));
+  }
+
+  return selected;
+}
+
+/**
+ * Extra weight for a user who has waited this long
+ */
+export function getWaitBoost(waitMs: number): number {
+  const minutes = Math.max(0, waitMs) / (60 * 1000);
+  return Math.min(minutes * MATCHMAKER_CONFIG.WAIT_BOOST_PER_MINUTE, MATCHMAKER_CONFIG.MAX_WAIT_BOOST);
+}
+
+/**
+ * The set of pairs with the highest total weight, where a pair's weight is its
+ * score plus both users' wait boosts. Unlike greedy picking, one great
+ * candidate is not handed to whoever happens to be looked at first.
+ */
+export function selectOptimalPairs<T extends CandidatePair>(
+  pairs: T[],
+  joinedAt: Map<string, number>,
+  now: number = Date.now()
+): T[] {
+  const userIds = [...new Set(pairs.flatMap(pair => [pair.userId1, pair.userId2]))];
+  const vertex = new Map(userIds.map((userId, index) => [userId, index]));
+  const boost = (userId: string) => getWaitBoost(now - (joinedAt.get(userId) ?? now));
+
+  const edges: WeightedEdge[] = pairs.map(pair => [
+    vertex.get(pair.userId1)!,
+    vertex.get(pair.userId2)!,
+    Math.round((pair.compatibilityScore + boost(pair.userId1) + boost(pair.userId2)) * WEIGHT_SCALE),
+  ]);
+  const mate = maxWeightMatching(edges);
+
+  return pairs.filter(pair => mate[vertex.get(pair.userId1)!] === vertex.get(pair.userId2));
+}
+
+/**
+ * What on-request matching would do: users in queue order each take their
+ * best remaining candidate. Kept for comparison with the batch modes.
+ */
+export function selectGreedyPairs<T extends CandidatePair>(pairs: T[], queueOrder: string[]): T[] {
+  const selected: T[] = [];
+  const matched = new Set<string>();
+
+  for (const userId of queueOrder) {
+    if (matched.has(userId)) {
+      continue;
+    }
+
+    let best: T | null = null;
+    for (const pair of pairs) {
+      const partnerId = pair.userId1 === userId ? pair.userId2 : pair.userId2 === userId ? pair.userId1 : null;
+      if (partnerId && !matched.has(partnerId) && (!best || pair.compatibilityScore > best.compatibilityScore)) {
+        best = pair;
+      }
+    }
+
+    if (best) {
+      selected.push(best);
+      matched.add(best.userId1);
+      matched.add(best.userId2);
+    }
+  }
+
+  return selected;
+}
+
+export interface PairingOutcome {
+  pairs: number;
+  matchedUsers: number;
+  totalScore: number;
+  averageScore: number;
+  averageMatchedWaitMs: number;
+  longestUnmatchedWaitMs: number; // 0 when everyone was matched
+}
+
+/**
+ * Summarize one way of pairing the queue, for comparing strategies
+ */
+export function summarizePairing(
+  pairs: CandidatePair[],
+  joinedAt: Map<string, number>,
+  now: number = Date.now()
+): PairingOutcome {
+  const matched = new Set(pairs.flatMap(pair => [pair.userId1, pair.userId2]));
+  const totalScore = pairs.reduce((sum, pair) => sum + pair.compatibilityScore, 0);
+
+  let matchedWait = 0;
+  let longestUnmatchedWaitMs = 0;
+  for (const [userId, joined] of joinedAt) {
+    if (matched.has(userId)) {
+      matchedWait += now - joined;
+    } else {
+      longestUnmatchedWaitMs = Math.max(longestUnmatchedWaitMs, now - joined);
+    }
+  }
+
+  return {
+    pairs: pairs.length,
+    matchedUsers: matched.size,
+    totalScore: Math.round(totalScore * 100) / 100,
+    averageScore: pairs.length > 0 ? Math.round((totalScore / pairs.length) * 100) / 100 : 0,
+    averageMatchedWaitMs: matched.size > 0 ? Math.round(matchedWait / matched.size) : 0,
+    longestUnmatchedWaitMs,
+  };
+}
@@ -13,6 +13,7 @@ import {
   SessionSecurity
 } from '@/lib/security';
 import { SecureRequestValidator } from '@/lib/input-validation';
+import { Permission, hasPermission } from '@/lib/permissions';
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: {
@@ -29,7 +30,10 @@ export interface AuthenticatedRequest extends NextRequest {
 /**
  * Enhanced authentication middleware with security features
  */
-export async function authMiddleware(request: NextRequest): Promise<NextResponse | null> {
+export async function authMiddleware(
+  request: NextRequest,
+  options: { permission?: Permission } = {}
+): Promise<NextResponse | null> {
   try {
     // Check for progressive rate limiting violations
     const clientIP = getClientIP(request);
@@ -83,6 +87,15 @@ export async function authMiddleware(request: NextRequest): Promise<NextResponse
       );
     }
 
+    // Roles come from the database, not the token, so a demotion applies at once
+    if (options.permission && !hasPermission(user.roles, options.permission)) {
+      console.warn('Permission denied', { userId: user.id, permission: options.permission });
+      return NextResponse.json(
+        { error: 'You do not have permission to access this resource' },
+        { status: 403, headers: SecurityHeaders.additionalHeaders }
+      );
+    }
+
     // Validate session fingerprint for additional security
     const userAgent = request.headers.get('user-agent') || '';
     const expectedFingerprint = SessionSecurity.createSessionFingerprint(userAgent, clientIP);
@@ -224,6 +237,21 @@ export function getClientIP(request: NextRequest): string {
   return (request as any).ip || 'unknown';
 }
 
+/**
+ * Country of the client as reported by the hosting edge (Vercel or
+ * Cloudflare), or null when no geo header is present
+ */
+export function getClientCountry(request: NextRequest): string | null {
+  const country = request.headers.get('x-vercel-ip-country') || request.headers.get('cf-ipcountry');
+
+  // XX and T1 are Cloudflare's unknown and Tor markers
+  if (!country || country === 'XX' || country === 'T1') {
+    return null;
+  }
+
+  return country.toUpperCase();
+}
+
 /**
  * Simple rate limiting middleware for API routes
  */
@@ -401,6 +429,8 @@ export class SecurityMiddleware {
     request: NextRequest,
     options: {
       requireAuth?: boolean;
+      // Implies requireAuth
+      requirePermission?: Permission;
       requireCSRF?: boolean;
       rateLimitType?: 'auth' | 'api' | 'matching' | 'upload';
       maxBodySize?: number;
@@ -423,9 +453,12 @@ export class SecurityMiddleware {
         }
       }
 
-      // 3. Apply authentication if required
-      if (options.requireAuth) {
-        const authResponse = await authMiddleware(request);
+      // 3. Apply authentication and permission checks if required
+      if (options.requireAuth || options.requirePermission) {
+        const authResponse = await authMiddleware(
+          request,
+          options.requirePermission ? { permission: options.requirePermission } : {}
+        );
         if (authResponse) {
           return authResponse;
         }
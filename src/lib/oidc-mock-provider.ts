@@ -0,0 +1,166 @@
+/**
+ * Minimal OpenID Connect provider for local development and tests. Approves
+ * every authorization request for the user named by login_hint (or the first
+ * configured user), so sign-in can be exercised without a real identity
+ * provider. Never run this in production.
+ */
+
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { createCodeChallenge } from '@/lib/oidc';
+
+export interface MockOidcUser {
+  sub: string;
+  email: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+}
+
+export interface MockOidcProviderOptions {
+  port?: number; // 0 or omitted picks a free port
+  clientId?: string;
+  users?: MockOidcUser[];
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  clientId: string;
+  stop(): Promise<void>;
+}
+
+interface PendingCode {
+  user: MockOidcUser;
+  clientId: string;
+  redirectUri: string;
+  nonce: string | null;
+  codeChallenge: string | null;
+}
+
+const DEFAULT_USERS: MockOidcUser[] = [
+  { sub: 'mock-user-1', email: 'alice@example.com', email_verified: true, name: 'Alice Example', preferred_username: 'alice' },
+];
+
+async function readForm(request: IncomingMessage): Promise<URLSearchParams> {
+  let body = '';
+  for await (const chunk of request) {
+    body += chunk;
+  }
+  return new URLSearchParams(body);
+}
+
+export async function startMockOidcProvider(options: MockOidcProviderOptions = {}): Promise<MockOidcProvider> {
+  const clientId = options.clientId || 'skillsync-local';
+  const users = options.users?.length ? options.users : DEFAULT_USERS;
+  const codes = new Map<string, PendingCode>();
+
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = randomBytes(8).toString('hex');
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' };
+
+  let issuer = '';
+
+  const server: Server = createServer(async (request, response) => {
+    const url = new URL(request.url || '/', issuer);
+
+    const sendJson = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+      response.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    }
+
+    if (url.pathname === '/jwks') {
+      return sendJson(200, { keys: [jwk] });
+    }
+
+    if (url.pathname === '/authorize') {
+      const params = url.searchParams;
+      const redirectUri = params.get('redirect_uri');
+      if (!redirectUri || params.get('client_id') !== clientId || params.get('response_type') !== 'code') {
+        return sendJson(400, { error: 'invalid_request' });
+      }
+
+      const loginHint = params.get('login_hint');
+      const user = users.find(candidate => candidate.email === loginHint || candidate.sub === loginHint) ?? users[0]!;
+
+      const code = randomBytes(16).toString('hex');
+      codes.set(code, {
+        user,
+        clientId,
+        redirectUri,
+        nonce: params.get('nonce'),
+        codeChallenge: params.get('code_challenge_method') === 'S256' ? params.get('code_challenge') : null,
+      });
+
+      const location = new URL(redirectUri);
+      location.searchParams.set('code', code);
+      const state = params.get('state');
+      if (state) {
+        location.searchParams.set('state', state);
+      }
+
+      response.writeHead(302, { Location: location.toString() });
+      return response.end();
+    }
+
+    if (url.pathname === '/token' && request.method === 'POST') {
+      const form = await readForm(request);
+      const code = form.get('code') || '';
+      const pending = codes.get(code);
+      codes.delete(code); // Single use, even when the exchange fails
+
+      const verifier = form.get('code_verifier');
+      if (
+        form.get('grant_type') !== 'authorization_code' ||
+        !pending ||
+        form.get('client_id') !== pending.clientId ||
+        form.get('redirect_uri') !== pending.redirectUri ||
+        (pending.codeChallenge && (!verifier || createCodeChallenge(verifier) !== pending.codeChallenge))
+      ) {
+        return sendJson(400, { error: 'invalid_grant' });
+      }
+
+      const idToken = jwt.sign(
+        {
+          ...pending.user,
+          email_verified: pending.user.email_verified ?? true,
+          ...(pending.nonce && { nonce: pending.nonce }),
+        },
+        privateKey,
+        { algorithm: 'RS256', keyid: kid, issuer, audience: pending.clientId, expiresIn: '5m' }
+      );
+
+      return sendJson(200, {
+        access_token: randomBytes(16).toString('hex'),
+        token_type: 'Bearer',
+        expires_in: 300,
+        id_token: idToken,
+      });
+    }
+
+    sendJson(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    clientId,
+    stop: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * OpenID Connect sign-in: provider configuration, PKCE helpers and errors
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+export interface OidcProviderConfig {
+  id: string;           // used in URLs: /api/auth/oidc/{id}/authorize
+  name: string;         // shown on the sign-in button
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // omitted for public clients, PKCE alone then
+  scopes?: string;
+}
+
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+// The ID token claims sign-in relies on
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+  nonce?: string;
+}
+
+export const OIDC_CONFIG = {
+  STATE_COOKIE: 'oidc_state',
+  STATE_TTL_SECONDS: 10 * 60,
+  DEFAULT_SCOPES: 'openid email profile',
+  DISCOVERY_CACHE_MS: 60 * 60 * 1000,
+  // Algorithms accepted for ID tokens; HS* would let the client secret forge them
+  ID_TOKEN_ALGORITHMS: ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'],
+};
+
+export class OidcError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'OidcError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Providers from OIDC_PROVIDERS, a JSON array of OidcProviderConfig. Read on
+ * every call so tests and the mock provider can change it at runtime.
+ */
+export function getOidcProviders(): OidcProviderConfig[] {
+  const raw = process.env.OIDC_PROVIDERS;
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      throw new Error('OIDC_PROVIDERS must be a JSON array');
+    }
+
+    return parsed.filter((provider: Partial<OidcProviderConfig>): provider is OidcProviderConfig =>
+      typeof provider?.id === 'string' &&
+      typeof provider.issuer === 'string' &&
+      typeof provider.clientId === 'string'
+    ).map(provider => ({
+      ...provider,
+      name: provider.name || provider.id,
+      issuer: provider.issuer.replace(/\/$/, ''),
+    }));
+  } catch (error) {
+    console.error('Invalid OIDC_PROVIDERS configuration:', error);
+    return [];
+  }
+}
+
+export function getOidcProvider(providerId: string): OidcProviderConfig {
+  const provider = getOidcProviders().find(candidate => candidate.id === providerId);
+  if (!provider) {
+    throw new OidcError('Unknown sign-in provider', 404);
+  }
+
+  return provider;
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Random value for state, nonce and the PKCE verifier (43 characters)
+ */
+export function generateOidcRandom(): string {
+  return base64Url(randomBytes(32));
+}
+
+/**
+ * PKCE S256 challenge for a code verifier (RFC 7636)
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+  return base64Url(createHash('sha256').update(codeVerifier).digest());
+}
+
+/**
+ * Providers send email_verified as a boolean or, in a few cases, a string
+ */
+export function isEmailVerified(claims: OidcClaims): boolean {
+  return claims.email_verified === true || claims.email_verified === 'true';
+}
+
+/**
+ * Username candidate from the identity: letters and numbers only, 3-30
+ * characters, like the registration form requires
+ */
+export function deriveUsername(claims: OidcClaims): string {
+  const source = claims.preferred_username || claims.name || claims.email?.split('@')[0] || 'user';
+  const cleaned = source.replace(/[^a-zA-Z0-9]/g, '').slice(0, 24);
+
+  return cleaned.length >= 3 ? cleaned : `user${cleaned}`;
+}
@@ -0,0 +1,48 @@
+/**
+ * Roles and the permissions they grant
+ */
+
+import { UserRole } from '@/types';
+
+export const USER_ROLES: UserRole[] = ['member', 'mentor', 'moderator', 'admin'];
+
+export type Permission =
+  | 'skills:review'      // approve or reject skill verification requests
+  | 'reports:review'     // work the safety report queue, warn or suspend users
+  | 'users:manage_roles'
+  | 'queue:manage'       // force matching queue cleanup
+  | 'monitoring:view';   // performance dashboard and metrics
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  member: [],
+  mentor: [],
+  moderator: ['skills:review', 'reports:review'],
+  admin: ['skills:review', 'reports:review', 'users:manage_roles', 'queue:manage', 'monitoring:view'],
+};
+
+export class PermissionError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string = 'You do not have permission to do this', statusCode: number = 403) {
+    super(message);
+    this.name = 'PermissionError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+/**
+ * Known roles from a stored or decoded value. Accounts and tokens from before
+ * roles existed have none, and every account is at least a member.
+ */
+export function normalizeRoles(roles: unknown): UserRole[] {
+  const known = Array.isArray(roles) ? roles.filter(isUserRole) : [];
+  return known.includes('member') ? known : ['member', ...known];
+}
+
+export function hasPermission(roles: unknown, permission: Permission): boolean {
+  return normalizeRoles(roles).some(role => ROLE_PERMISSIONS[role].includes(permission));
+}
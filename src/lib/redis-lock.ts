@@ -0,0 +1,50 @@
+/**
+ * Short-lived Redis locks shared by services that must not work on the same
+ * user from two processes at once
+ */
+
+import { randomUUID } from 'crypto';
+import redis from './redis';
+
+// Delete the key only while it still holds our token, in one step, so a lock
+// that expired and was taken by someone else is never released by us
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+export interface RedisLockOptions {
+  ttlMs: number;
+  onBusy: () => Error; // thrown when another holder has one of the keys
+}
+
+/**
+ * Run the callback while holding every key. Keys are taken in a stable order,
+ * so two callers wanting overlapping keys back off instead of deadlocking.
+ */
+export async function withRedisLocks<T>(
+  keys: string[],
+  options: RedisLockOptions,
+  callback: () => Promise<T>
+): Promise<T> {
+  const token = randomUUID();
+  const acquired: string[] = [];
+
+  try {
+    for (const key of [...new Set(keys)].sort()) {
+      const result = await redis.set(key, token, 'PX', options.ttlMs, 'NX');
+      if (result !== 'OK') {
+        throw options.onBusy();
+      }
+      acquired.push(key);
+    }
+
+    return await callback();
+  } finally {
+    for (const key of acquired) {
+      await redis.eval(RELEASE_SCRIPT, 1, key, token);
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Refresh token store rules: rotation, revocation reasons and errors
+ */
+
+export type RefreshTokenRevocationReason =
+  | 'rotated'
+  | 'logout'
+  | 'signed_out_remotely'
+  | 'reuse_detected'
+  | 'password_changed'
+  | 'password_reset'
+  | 'account_inactive';
+
+// Where a token was issued, kept so users can recognise their devices
+export interface RefreshTokenContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export class RefreshTokenError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 401) {
+    super(message);
+    this.name = 'RefreshTokenError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * A rotated token is never valid again, so presenting one means the token was
+ * copied. Tokens revoked for any other reason were simply ended.
+ */
+export function isReuseOfRotatedToken(revokedReason: string | null): boolean {
+  return revokedReason === 'rotated';
+}
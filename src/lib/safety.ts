@@ -0,0 +1,103 @@
+/**
+ * Trust and safety: blocking, reports and moderation vocabulary
+ */
+
+export const SAFETY_CONFIG = {
+  MAX_DESCRIPTION_LENGTH: 2000,
+  MAX_CHAT_EXCERPT_MESSAGES: 50,
+  MAX_CHAT_MESSAGE_LENGTH: 1000,
+  // Reports one user can file per day, to keep the queue usable
+  MAX_REPORTS_PER_DAY: 10,
+};
+
+export type ReportCategory =
+  | 'harassment'
+  | 'inappropriate_content'
+  | 'spam'
+  | 'no_show'
+  | 'safety_concern'
+  | 'other';
+
+export type ReportStatus = 'open' | 'in_review' | 'actioned' | 'dismissed';
+
+export type ModerationAction = 'warn' | 'suspend' | 'dismiss';
+
+export const REPORT_CATEGORIES: ReportCategory[] = [
+  'harassment',
+  'inappropriate_content',
+  'spam',
+  'no_show',
+  'safety_concern',
+  'other',
+];
+
+export const REPORT_CATEGORY_LABELS: Record<ReportCategory, string> = {
+  harassment: 'Harassment or bullying',
+  inappropriate_content: 'Inappropriate content',
+  spam: 'Spam or advertising',
+  no_show: 'Repeatedly not showing up',
+  safety_concern: 'Safety concern',
+  other: 'Something else',
+};
+
+export const REPORT_STATUSES: ReportStatus[] = ['open', 'in_review', 'actioned', 'dismissed'];
+
+export const MODERATION_ACTIONS: ModerationAction[] = ['warn', 'suspend', 'dismiss'];
+
+// A chat message as the reporter's client saw it
+export interface ChatExcerptMessage {
+  userId: string;
+  message: string;
+  sentAt?: string;
+}
+
+export interface SubmitReportRequest {
+  reportedUserId: string;
+  category: ReportCategory;
+  description: string;
+  sessionId?: string;
+  chatExcerpt?: ChatExcerptMessage[];
+  block?: boolean; // also block the reported user
+}
+
+export interface BlockedUserInfo {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  blockedAt: Date;
+}
+
+export interface UserReportInfo {
+  id: string;
+  reporter: { id: string; username: string };
+  reportedUser: { id: string; username: string; isActive: boolean };
+  sessionId: string | null;
+  category: ReportCategory;
+  description: string;
+  chatExcerpt: ChatExcerptMessage[] | null;
+  status: ReportStatus;
+  action: ModerationAction | null;
+  moderatorId: string | null;
+  moderatorNote: string | null;
+  createdAt: Date;
+  resolvedAt: Date | null;
+  // Earlier reports about the same user, to spot patterns
+  previousReports: number;
+}
+
+export class SafetyError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'SafetyError';
+    this.statusCode = statusCode;
+  }
+}
+
+// What a moderation action does to the report
+export const ACTION_STATUS: Record<ModerationAction, ReportStatus> = {
+  warn: 'actioned',
+  suspend: 'actioned',
+  dismiss: 'dismissed',
+};
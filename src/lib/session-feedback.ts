@@ -0,0 +1,37 @@
+/**
+ * Session feedback rules: who may submit, and for how long feedback can be edited
+ */
+
+// Feedback can be submitted until this long after the session ended
+export const FEEDBACK_SUBMISSION_WINDOW_DAYS = 14;
+
+// A submission can be edited until this long after it was first submitted
+export const FEEDBACK_EDIT_WINDOW_HOURS = 24;
+
+// Sessions that can receive feedback
+export const FEEDBACK_SESSION_STATUSES: readonly string[] = ['completed'];
+
+export class FeedbackError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'FeedbackError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Last moment feedback can be submitted for a session
+ */
+export function getSubmissionDeadline(session: { startTime: Date; endTime?: Date | null }): Date {
+  const endedAt = session.endTime || session.startTime;
+  return new Date(endedAt.getTime() + FEEDBACK_SUBMISSION_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Last moment a submission can be edited
+ */
+export function getEditDeadline(submittedAt: Date): Date {
+  return new Date(submittedAt.getTime() + FEEDBACK_EDIT_WINDOW_HOURS * 60 * 60 * 1000);
+}
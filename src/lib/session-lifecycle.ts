@@ -0,0 +1,96 @@
+/**
+ * Session lifecycle state machine: allowed status transitions and their timestamps
+ */
+
+export type SessionStatus = 'scheduled' | 'active' | 'paused' | 'completed' | 'cancelled' | 'no_show';
+
+export type SessionTransition = 'start' | 'pause' | 'resume' | 'end' | 'cancel' | 'no_show';
+
+export interface SessionTransitionRule {
+  from: readonly SessionStatus[];
+  to: SessionStatus;
+  timestampField: 'startedAt' | 'pausedAt' | 'resumedAt' | 'endTime' | 'cancelledAt' | 'noShowAt';
+  event: string;
+}
+
+// Transition table - the only way a session status may change
+export const SESSION_TRANSITIONS: Record<SessionTransition, SessionTransitionRule> = {
+  start: { from: ['scheduled'], to: 'active', timestampField: 'startedAt', event: 'session_started' },
+  pause: { from: ['active'], to: 'paused', timestampField: 'pausedAt', event: 'session_paused' },
+  resume: { from: ['paused'], to: 'active', timestampField: 'resumedAt', event: 'session_resumed' },
+  end: { from: ['active', 'paused'], to: 'completed', timestampField: 'endTime', event: 'session_ended' },
+  cancel: { from: ['scheduled'], to: 'cancelled', timestampField: 'cancelledAt', event: 'session_cancelled' },
+  no_show: { from: ['scheduled'], to: 'no_show', timestampField: 'noShowAt', event: 'session_no_show' },
+} as const;
+
+// Statuses a session can never leave
+export const TERMINAL_SESSION_STATUSES: readonly SessionStatus[] = ['completed', 'cancelled', 'no_show'];
+
+// Statuses that count as an upcoming or running session
+export const OPEN_SESSION_STATUSES: readonly SessionStatus[] = ['scheduled', 'active', 'paused'];
+
+// Minutes after the scheduled start before a partner can be reported as a no-show
+export const NO_SHOW_GRACE_MINUTES = 10;
+
+export class SessionTransitionError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 409) {
+    super(message);
+    this.name = 'SessionTransitionError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Check whether a transition is allowed from the given status
+ */
+export function canTransition(status: string, transition: SessionTransition): boolean {
+  return SESSION_TRANSITIONS[transition].from.includes(status as SessionStatus);
+}
+
+/**
+ * Check whether a session already is where the transition would take it
+ */
+export function isTransitionApplied(status: string, transition: SessionTransition): boolean {
+  return SESSION_TRANSITIONS[transition].to === status;
+}
+
+/**
+ * Check whether a session status is terminal
+ */
+export function isTerminalStatus(status: string): boolean {
+  return TERMINAL_SESSION_STATUSES.includes(status as SessionStatus);
+}
+
+/**
+ * Validate a transition name coming from a request
+ */
+export function isSessionTransition(value: unknown): value is SessionTransition {
+  return typeof value === 'string' && value in SESSION_TRANSITIONS;
+}
+
+/**
+ * Calculate billable minutes for a session, excluding time spent paused
+ */
+export function calculateActiveMinutes(
+  session: {
+    startTime: Date;
+    startedAt?: Date | null;
+    pausedAt?: Date | null;
+    pausedMinutes?: number | null;
+    status: string;
+  },
+  endTime: Date = new Date()
+): number {
+  const startedAt = session.startedAt || session.startTime;
+  let pausedMinutes = session.pausedMinutes || 0;
+
+  // A session ended while paused has an open pause interval
+  if (session.status === 'paused' && session.pausedAt) {
+    pausedMinutes += (endTime.getTime() - session.pausedAt.getTime()) / (1000 * 60);
+  }
+
+  const totalMinutes = (endTime.getTime() - startedAt.getTime()) / (1000 * 60);
+  return Math.max(0, Math.round(totalMinutes - pausedMinutes));
+}
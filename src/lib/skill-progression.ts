@@ -0,0 +1,134 @@
+/**
+ * Skill progression timelines built from the proficiency history
+ */
+
+import type { SkillMilestone, SkillProgressionData } from '@/services/session-analytics.service';
+
+export type SkillProgressEventType = 'level_set' | 'level_changed' | 'session_learned' | 'session_taught';
+
+export interface SkillProgressEventRecord {
+  skillId: string;
+  eventType: string;
+  previousLevel: number | null;
+  level: number | null;
+  sessionId: string | null;
+  minutes: number | null;
+  createdAt: Date;
+  skill: { id: string; name: string; category: string };
+}
+
+export interface UserSkillRecord {
+  skillId: string;
+  proficiencyLevel: number;
+  createdAt: Date;
+  skill: { id: string; name: string; category: string };
+}
+
+export const MAX_PROFICIENCY_LEVEL = 5;
+
+const LEVEL_EVENTS: readonly string[] = ['level_set', 'level_changed'];
+const SESSION_EVENTS: readonly string[] = ['session_learned', 'session_taught'];
+
+/**
+ * Build per-skill progression for a timeframe; events must be sorted by createdAt ascending
+ */
+export function buildSkillProgression(
+  userSkills: UserSkillRecord[],
+  events: SkillProgressEventRecord[],
+  fromDate: Date
+): SkillProgressionData[] {
+  const skillIds = new Set<string>(userSkills.map(userSkill => userSkill.skillId));
+
+  // Skills no longer in the profile still show up if they were practiced in the timeframe
+  events
+    .filter(event => event.createdAt >= fromDate && SESSION_EVENTS.includes(event.eventType))
+    .forEach(event => skillIds.add(event.skillId));
+
+  const progression: SkillProgressionData[] = [];
+
+  for (const skillId of skillIds) {
+    const userSkill = userSkills.find(candidate => candidate.skillId === skillId);
+    const skillEvents = events.filter(event => event.skillId === skillId);
+    const skill = userSkill?.skill || skillEvents[0]?.skill;
+    if (!skill) continue;
+
+    const levelEvents = skillEvents.filter(event => LEVEL_EVENTS.includes(event.eventType) && event.level !== null);
+    const sessionEvents = skillEvents.filter(event => SESSION_EVENTS.includes(event.eventType));
+    const windowSessionEvents = sessionEvents.filter(event => event.createdAt >= fromDate);
+
+    const currentLevel = userSkill?.proficiencyLevel
+      ?? levelEvents[levelEvents.length - 1]?.level
+      ?? 0;
+    const initialLevel = getLevelAt(levelEvents, fromDate) ?? currentLevel;
+
+    // Count each session once even if the skill was both learned and taught in it
+    const minutesBySession = new Map<string, number>();
+    windowSessionEvents.forEach(event => {
+      if (event.sessionId) {
+        minutesBySession.set(event.sessionId, event.minutes || 0);
+      }
+    });
+    const totalMinutes = Array.from(minutesBySession.values()).reduce((sum, minutes) => sum + minutes, 0);
+
+    const lastEvent = sessionEvents[sessionEvents.length - 1];
+    const lastPracticed = lastEvent?.createdAt ?? userSkill?.createdAt ?? skillEvents[skillEvents.length - 1].createdAt;
+
+    progression.push({
+      skillId,
+      skillName: skill.name,
+      category: skill.category,
+      initialLevel,
+      currentLevel,
+      progressPercentage: Math.round((currentLevel / MAX_PROFICIENCY_LEVEL) * 100),
+      sessionsCount: minutesBySession.size,
+      hoursSpent: Math.round((totalMinutes / 60) * 10) / 10,
+      lastPracticed,
+      trend: currentLevel > initialLevel ? 'improving' : currentLevel < initialLevel ? 'declining' : 'stable',
+      milestones: buildMilestones(levelEvents, sessionEvents, fromDate),
+    });
+  }
+
+  return progression.sort((a, b) => b.lastPracticed.getTime() - a.lastPracticed.getTime());
+}
+
+/**
+ * Proficiency level at the start of the timeframe, if the history knows it
+ */
+function getLevelAt(levelEvents: SkillProgressEventRecord[], date: Date): number | null {
+  const before = levelEvents.filter(event => event.createdAt < date);
+  if (before.length > 0) {
+    return before[before.length - 1].level;
+  }
+
+  // The skill was added or first changed inside the timeframe
+  const first = levelEvents[0];
+  if (!first) return null;
+  return first.eventType === 'level_set' ? first.level : first.previousLevel ?? first.level;
+}
+
+/**
+ * Level-ups within the timeframe, linked to the latest session before each one
+ */
+function buildMilestones(
+  levelEvents: SkillProgressEventRecord[],
+  sessionEvents: SkillProgressEventRecord[],
+  fromDate: Date
+): SkillMilestone[] {
+  return levelEvents
+    .filter(event => event.createdAt >= fromDate)
+    .filter(event => event.eventType === 'level_set' || (event.level ?? 0) > (event.previousLevel ?? 0))
+    .map(event => {
+      const precedingSession = sessionEvents
+        .filter(sessionEvent => sessionEvent.sessionId && sessionEvent.createdAt <= event.createdAt)
+        .pop();
+
+      return {
+        date: event.createdAt,
+        level: event.level as number,
+        achievement: event.eventType === 'level_set'
+          ? `Started at level ${event.level}`
+          : `Reached level ${event.level}`,
+        ...(precedingSession?.sessionId && { sessionId: precedingSession.sessionId }),
+      };
+    });
+}
@@ -0,0 +1,51 @@
+/**
+ * Skill verification rules: the evidence that makes a UserSkill verified
+ */
+
+import { MAX_PROFICIENCY_LEVEL } from '@/lib/skill-progression';
+
+export type VerificationMethod = 'endorsements' | 'teaching_sessions' | 'reviewer';
+
+export type VerificationAction = 'verified' | 'revoked' | 'review_requested' | 'review_rejected';
+
+export interface VerificationEvidence {
+  endorsements: number;       // endorsements from partners at a higher level
+  teachingSessions: number;   // completed sessions teaching the skill, rated highly by the learner
+}
+
+export const SKILL_VERIFICATION_CONFIG = {
+  MIN_ENDORSEMENTS: parseInt(process.env.SKILL_VERIFICATION_MIN_ENDORSEMENTS || '3'),
+  MIN_TEACHING_SESSIONS: parseInt(process.env.SKILL_VERIFICATION_MIN_TEACHING_SESSIONS || '3'),
+  MIN_TEACHING_RATING: parseInt(process.env.SKILL_VERIFICATION_MIN_TEACHING_RATING || '4'),
+};
+
+export class SkillVerificationError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'SkillVerificationError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Lowest endorser level that counts towards verification. Nobody outranks an
+ * expert, so endorsements from other experts count for them.
+ */
+export function getQualifyingEndorserLevel(level: number): number {
+  return Math.min(level + 1, MAX_PROFICIENCY_LEVEL);
+}
+
+/**
+ * The automatic method the evidence satisfies, if any
+ */
+export function evaluateEvidence(evidence: VerificationEvidence): VerificationMethod | null {
+  if (evidence.endorsements >= SKILL_VERIFICATION_CONFIG.MIN_ENDORSEMENTS) {
+    return 'endorsements';
+  }
+  if (evidence.teachingSessions >= SKILL_VERIFICATION_CONFIG.MIN_TEACHING_SESSIONS) {
+    return 'teaching_sessions';
+  }
+  return null;
+}
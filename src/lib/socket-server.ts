@@ -1,8 +1,14 @@
 import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
-import { verifyToken } from './auth';
+import { AuthService } from '@/services/auth.service';
 import { QueueSocketService } from '@/services/queue-socket.service';
 import { DashboardSocketService } from '@/services/dashboard-socket.service';
+import { SessionService } from '@/services/session.service';
+import { SessionLifecycleService } from '@/services/session-lifecycle.service';
+import { BlockService } from '@/services/block.service';
+import { MatchProposalService } from '@/services/match-proposal.service';
+import { isSessionTransition } from './session-lifecycle';
+import { MatchProposalError, PROPOSAL_RESPONSES } from './match-proposal';
 
 // Socket.io server instance
 let io: SocketIOServer | null = null;
@@ -67,7 +73,7 @@ function setupMainNamespace(io: SocketIOServer): void {
         return next(new Error('Authentication token required'));
       }
 
-      const decoded = verifyToken(token);
+      const decoded = await AuthService.authenticateAccessToken(token);
       if (!decoded) {
         return next(new Error('Invalid authentication token'));
       }
@@ -161,7 +167,7 @@ function setupCollaborationNamespace(io: SocketIOServer): void {
         return next(new Error('Authentication token required'));
       }
 
-      const decoded = verifyToken(token);
+      const decoded = await AuthService.authenticateAccessToken(token);
       if (!decoded) {
         return next(new Error('Invalid authentication token'));
       }
@@ -207,6 +213,32 @@ function setupCollaborationNamespace(io: SocketIOServer): void {
       console.log(`User ${userId} left collaboration session: ${sessionId}`);
     });
 
+    // Session lifecycle transitions (start, pause, resume, end, cancel, no_show)
+    socket.on('session_transition', async (data, ack) => {
+      const { sessionId, transition, reason } = data || {};
+      const respond = typeof ack === 'function' ? ack : () => undefined;
+
+      if (!sessionId || !isSessionTransition(transition)) {
+        respond({ success: false, error: 'Invalid session transition' });
+        return;
+      }
+
+      try {
+        // Ending goes through SessionService so stats are recorded exactly once
+        const session = transition === 'end'
+          ? (await SessionService.completeSession({ sessionId, userId })).session
+          : (await SessionLifecycleService.transition(sessionId, userId, transition, reason ? { reason } : {})).session;
+
+        respond({ success: true, status: session.status });
+      } catch (error) {
+        console.error(`Session transition ${transition} failed for user ${userId}:`, error);
+        respond({
+          success: false,
+          error: error instanceof Error ? error.message : 'Session transition failed',
+        });
+      }
+    });
+
     // Enhanced WebRTC signaling events with logging and validation
     socket.on('webrtc_offer', (data) => {
       const { sessionId, targetUserId, offer } = data;
@@ -402,7 +434,7 @@ function setupMatchingNamespace(io: SocketIOServer): void {
         return next(new Error('Authentication token required'));
       }
 
-      const decoded = verifyToken(token);
+      const decoded = await AuthService.authenticateAccessToken(token);
       if (!decoded) {
         return next(new Error('Invalid authentication token'));
       }
@@ -422,23 +454,45 @@ function setupMatchingNamespace(io: SocketIOServer): void {
     // Join user to their personal matching room
     socket.join(`user:${userId}`);
 
-    // Handle match notifications
-    socket.on('match_response', (data) => {
-      const { matchId, response, partnerId } = data; // response: 'accept' | 'decline'
+    // Answer a match proposal; the partner hears about it through the queue channel
+    socket.on('match_response', async (data) => {
+      const { proposalId, response } = data; // response: 'accept' | 'decline'
 
-      // Notify the partner about the response
-      socket.to(`user:${partnerId}`).emit('match_response', {
-        fromUserId: userId,
-        matchId,
-        response,
-        timestamp: new Date().toISOString(),
-      });
+      if (!PROPOSAL_RESPONSES.includes(response)) {
+        socket.emit('match_response_error', { proposalId, error: 'Response must be accept or decline' });
+        return;
+      }
+
+      try {
+        const proposal = await MatchProposalService.respond(userId, proposalId, response);
+        socket.emit('match_response_recorded', proposal);
+      } catch (error) {
+        if (error instanceof MatchProposalError) {
+          socket.emit('match_response_error', { proposalId, error: error.message });
+          return;
+        }
+
+        console.error(`Match response from ${userId} failed:`, error);
+        socket.emit('match_response_error', { proposalId, error: 'Could not record your response' });
+      }
     });
 
     // Handle session invitations
-    socket.on('session_invite', (data) => {
+    socket.on('session_invite', async (data) => {
       const { targetUserId, sessionId, sessionType } = data;
 
+      // Don't reveal the block, just say the user can't be invited
+      try {
+        if (await BlockService.isBlockedBetween(userId, targetUserId)) {
+          socket.emit('session_invite_error', { targetUserId, sessionId, error: 'User is not available' });
+          return;
+        }
+      } catch (error) {
+        console.error(`Block check failed for invite from ${userId}:`, error);
+        socket.emit('session_invite_error', { targetUserId, sessionId, error: 'Could not send invitation' });
+        return;
+      }
+
       socket.to(`user:${targetUserId}`).emit('session_invite', {
         fromUserId: userId,
         sessionId,
@@ -535,7 +589,7 @@ function setupDashboardNamespace(io: SocketIOServer): void {
         return next(new Error('Authentication token required'));
       }
 
-      const decoded = verifyToken(token);
+      const decoded = await AuthService.authenticateAccessToken(token);
       if (!decoded) {
         return next(new Error('Invalid authentication token'));
       }
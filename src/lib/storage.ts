@@ -0,0 +1,232 @@
+/**
+ * File storage: a small adapter interface so uploads can live on the local
+ * disk in development and in any S3-compatible bucket in production
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, createHmac } from 'crypto';
+
+export interface StorageAdapter {
+  name: string;
+  put(key: string, body: Buffer, options?: { contentType?: string }): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+export interface S3StorageOptions {
+  endpoint: string;        // e.g. https://s3.eu-west-1.amazonaws.com or http://localhost:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export const STORAGE_CONFIG = {
+  // local | s3, anything else can be registered with setStorageAdapter
+  DRIVER: process.env.STORAGE_DRIVER || 'local',
+  LOCAL_DIR: process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), '.uploads'),
+  S3: {
+    endpoint: process.env.S3_ENDPOINT || '',
+    region: process.env.S3_REGION || 'us-east-1',
+    bucket: process.env.S3_BUCKET || '',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+  },
+};
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Keeps files under a directory on the local disk
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  name = 'local';
+
+  constructor(private readonly directory: string = STORAGE_CONFIG.LOCAL_DIR) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.directory);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new StorageError(`Storage key escapes the upload directory: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+const sha256Hex = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding as SigV4 expects it; '/' is kept in object paths
+function encodeS3Path(value: string): string {
+  return value.split('/').map(segment =>
+    encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+  ).join('/');
+}
+
+/**
+ * Headers for an AWS Signature Version 4 request. Every header passed in is
+ * signed; host, x-amz-date and x-amz-content-sha256 are added.
+ */
+export function signS3Request(request: {
+  method: string;
+  url: URL;
+  headers?: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date?: Date;
+}): Record<string, string> {
+  const amzDate = (request.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const day = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(request.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+    host: request.url.host,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const signedHeaders = Object.keys(headers).sort();
+
+  const canonicalQuery = Array.from(request.url.searchParams.entries())
+    .map(([name, value]) => [encodeURIComponent(name), encodeURIComponent(value)])
+    .sort(([a], [b]) => (a! < b! ? -1 : a! > b! ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQuery,
+    ...signedHeaders.map(name => `${name}:${headers[name]}`),
+    '',
+    signedHeaders.join(';'),
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${day}/${request.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${request.secretAccessKey}`, day), request.region), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${request.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Any S3-compatible object store (AWS S3, MinIO, R2, ...) over its REST API
+ * with path-style URLs, so no SDK is needed
+ */
+export class S3StorageAdapter implements StorageAdapter {
+  name = 's3';
+
+  constructor(private readonly options: S3StorageOptions = STORAGE_CONFIG.S3) {
+    if (!options.endpoint || !options.bucket || !options.accessKeyId || !options.secretAccessKey) {
+      throw new StorageError('S3 storage needs S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+  }
+
+  async put(key: string, body: Buffer, options: { contentType?: string } = {}): Promise<void> {
+    const response = await this.send('PUT', key, body, {
+      'content-type': options.contentType || 'application/octet-stream',
+    });
+    if (!response.ok) {
+      throw new StorageError(`S3 upload failed with status ${response.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.send('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new StorageError(`S3 download failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new StorageError(`S3 delete failed with status ${response.status}`);
+    }
+  }
+
+  private async send(method: string, key: string, body?: Buffer, headers: Record<string, string> = {}): Promise<Response> {
+    const url = new URL(`${this.options.endpoint.replace(/\/$/, '')}/${encodeS3Path(this.options.bucket)}/${encodeS3Path(key)}`);
+
+    const signedHeaders = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash: sha256Hex(body ?? ''),
+      region: this.options.region,
+      accessKeyId: this.options.accessKeyId,
+      secretAccessKey: this.options.secretAccessKey,
+    });
+    // fetch sets Host itself and refuses to have it overridden
+    delete signedHeaders.host;
+
+    return fetch(url, { method, headers: signedHeaders, ...(body && { body: new Uint8Array(body) }) });
+  }
+}
+
+function createAdapter(name: string): StorageAdapter {
+  switch (name) {
+    case 's3':
+      return new S3StorageAdapter();
+    case 'local':
+      return new LocalStorageAdapter();
+    default:
+      console.warn(`Unknown STORAGE_DRIVER "${name}", falling back to local`);
+      return new LocalStorageAdapter();
+  }
+}
+
+let activeAdapter: StorageAdapter | null = null;
+
+export function getStorageAdapter(): StorageAdapter {
+  if (!activeAdapter) {
+    activeAdapter = createAdapter(STORAGE_CONFIG.DRIVER);
+  }
+  return activeAdapter;
+}
+
+/**
+ * Register an adapter for another backend, or a stand-in in tests
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  activeAdapter = adapter;
+}
@@ -0,0 +1,45 @@
+/**
+ * Two-factor authentication settings, recovery codes and errors
+ */
+
+import { randomBytes } from 'crypto';
+
+export const TWO_FACTOR_CONFIG = {
+  ISSUER: process.env.TWO_FACTOR_ISSUER || 'SkillSync',
+  RECOVERY_CODE_COUNT: 10,
+  // Steps either side of now that are still accepted (30 seconds each)
+  CLOCK_DRIFT_WINDOW: 1,
+  // Re-reads allowed when another login changes the recovery codes mid-write
+  RECOVERY_CODE_WRITE_ATTEMPTS: 5,
+};
+
+export class TwoFactorError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * One-time recovery codes, formatted xxxxx-xxxxx for readability
+ */
+export function generateRecoveryCodes(count: number = TWO_FACTOR_CONFIG.RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Recovery codes are compared case-insensitively and without the dash
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-f0-9]/g, '');
+}
+
+export function looksLikeRecoveryCode(code: string): boolean {
+  return normalizeRecoveryCode(code).length === 10;
+}
@@ -0,0 +1,70 @@
+/**
+ * Uploaded files: signed download links and errors
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const UPLOAD_CONFIG = {
+  // How long a download link works after it is handed out
+  DOWNLOAD_URL_TTL_SECONDS: parseInt(process.env.UPLOAD_DOWNLOAD_URL_TTL_SECONDS || '300'),
+  SIGNING_SECRET: process.env.UPLOAD_SIGNING_SECRET || process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production',
+};
+
+export class UploadError extends Error {
+  public readonly statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'UploadError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface DownloadSignature {
+  uid: string;       // the user the link was issued to
+  expires: number;   // unix seconds
+  signature: string;
+}
+
+function computeSignature(uploadId: string, userId: string, expires: number): string {
+  return createHmac('sha256', UPLOAD_CONFIG.SIGNING_SECRET)
+    .update(`${uploadId}:${userId}:${expires}`)
+    .digest('hex');
+}
+
+/**
+ * Signed download path for one user. Works without an Authorization header
+ * so it can be used in <img> tags and plain links.
+ */
+export function createSignedDownloadPath(
+  uploadId: string,
+  userId: string,
+  now: number = Date.now()
+): { path: string; expiresAt: Date } {
+  const expires = Math.floor(now / 1000) + UPLOAD_CONFIG.DOWNLOAD_URL_TTL_SECONDS;
+  const query = new URLSearchParams({
+    uid: userId,
+    expires: expires.toString(),
+    signature: computeSignature(uploadId, userId, expires),
+  });
+
+  return {
+    path: `/api/upload/files/${encodeURIComponent(uploadId)}?${query.toString()}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+export function isValidDownloadSignature(
+  uploadId: string,
+  params: DownloadSignature,
+  now: number = Date.now()
+): boolean {
+  if (!Number.isFinite(params.expires) || params.expires * 1000 < now) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(uploadId, params.uid, params.expires), 'hex');
+  const provided = Buffer.from(params.signature, 'hex');
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -1,5 +1,16 @@
 import Joi from 'joi';
-import { LoginRequest, RegisterRequest, PasswordResetRequest, PasswordResetConfirm } from '@/types';
+import { LoginRequest, RegisterRequest, PasswordResetRequest, PasswordResetConfirm, TwoFactorLoginRequest, UserRole } from '@/types';
+import { USER_ROLES } from '@/lib/permissions';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/account-data';
+import { PROPOSAL_RESPONSES, ProposalResponse } from '@/lib/match-proposal';
+import {
+  MODERATION_ACTIONS,
+  ModerationAction,
+  REPORT_CATEGORIES,
+  SAFETY_CONFIG,
+  SubmitReportRequest,
+} from '@/lib/safety';
+import { MATCHING_FACTOR_WEIGHTS, MATCHING_IMPORTANCE } from '@/lib/matching-config';
 
 // Common validation patterns
 const emailSchema = Joi.string()
@@ -44,6 +55,8 @@ export const loginSchema = Joi.object<LoginRequest>({
   password: Joi.string().required().messages({
     'any.required': 'Password is required',
   }),
+  // Browser timezone, compared with the profile's to spot unusual logins
+  timezone: Joi.string().max(64).optional(),
 });
 
 // Registration validation schema
@@ -67,6 +80,38 @@ export const passwordResetConfirmSchema = Joi.object<PasswordResetConfirm>({
   newPassword: passwordSchema,
 });
 
+// Email verification validation schema
+export const verifyEmailSchema = Joi.object<{ token: string }>({
+  token: Joi.string().required().messages({
+    'any.required': 'Verification token is required',
+  }),
+});
+
+// Two-factor validation schemas
+const twoFactorCodeSchema = Joi.string().trim().min(6).max(20).required().messages({
+  'string.min': 'Enter the 6-digit code from your app or a recovery code',
+  'string.max': 'Enter the 6-digit code from your app or a recovery code',
+  'any.required': 'Verification code is required',
+});
+
+export const twoFactorLoginSchema = Joi.object<TwoFactorLoginRequest>({
+  challengeToken: Joi.string().required().messages({
+    'any.required': 'Challenge token is required',
+  }),
+  code: twoFactorCodeSchema,
+  timezone: Joi.string().max(64).optional(),
+});
+
+export const twoFactorConfirmSchema = Joi.object<{ code: string }>({
+  code: twoFactorCodeSchema,
+});
+
+export const twoFactorPasswordSchema = Joi.object<{ password: string }>({
+  password: Joi.string().required().messages({
+    'any.required': 'Current password is required',
+  }),
+});
+
 // Refresh token validation schema
 export const refreshTokenSchema = Joi.object({
   refreshToken: Joi.string().required().messages({
@@ -244,6 +289,23 @@ export const updateLearningGoalSchema = Joi.object<UpdateLearningGoalRequest>({
   }),
 });
 
+// Importance per matching factor; resolveMatchingWeights scales the result back to 100%
+const matchingImportanceSchema = Joi.object(
+  Object.fromEntries(
+    Object.keys(MATCHING_FACTOR_WEIGHTS).map(factor => [
+      factor,
+      Joi.number().integer().min(MATCHING_IMPORTANCE.MIN).max(MATCHING_IMPORTANCE.MAX).optional(),
+    ])
+  )
+)
+  .allow(null)
+  .messages({
+    'number.base': 'Matching importance must be a number',
+    'number.integer': 'Matching importance must be a whole number',
+    'number.min': `Matching importance must be at least ${MATCHING_IMPORTANCE.MIN}`,
+    'number.max': `Matching importance must not exceed ${MATCHING_IMPORTANCE.MAX}`,
+  });
+
 // User preferences validation schema
 export const updatePreferencesSchema = Joi.object<UpdatePreferencesRequest>({
   preferredSessionTypes: Joi.array()
@@ -272,6 +334,144 @@ export const updatePreferencesSchema = Joi.object<UpdatePreferencesRequest>({
       'array.min': 'At least one language preference must be selected',
       'string.length': 'Language codes must be 2 characters long',
     }),
+  matchingImportance: matchingImportanceSchema.optional(),
+  sameLanguageOnly: Joi.boolean().optional(),
+  maxTimezoneGapHours: Joi.number().integer().min(0).max(12).allow(null).optional().messages({
+    'number.base': 'Max timezone gap must be a number of hours',
+    'number.integer': 'Max timezone gap must be a whole number of hours',
+    'number.min': 'Max timezone gap must not be negative',
+    'number.max': 'Max timezone gap must not exceed 12 hours',
+  }),
+  verifiedSkillsOnly: Joi.boolean().optional(),
+});
+
+// Session booking validation schemas
+export const bookSessionSchema = Joi.object({
+  partnerId: Joi.string().required().messages({
+    'any.required': 'Partner ID is required',
+  }),
+  startTime: Joi.date().iso().required().messages({
+    'date.format': 'Start time must be an ISO 8601 date',
+    'any.required': 'Start time is required',
+  }),
+  durationMinutes: Joi.number().integer().min(15).max(240).default(60).messages({
+    'number.min': 'Duration must be at least 15 minutes',
+    'number.max': 'Duration must not exceed 240 minutes',
+  }),
+  sessionType: Joi.string().valid('learning', 'teaching', 'collaboration').required().messages({
+    'any.only': 'Session type must be learning, teaching, or collaboration',
+    'any.required': 'Session type is required',
+  }),
+  topics: Joi.array().items(Joi.string().max(100)).max(10).default([]).messages({
+    'array.max': 'At most 10 topics can be added',
+  }),
+});
+
+export const rescheduleSessionSchema = Joi.object({
+  startTime: Joi.date().iso().required().messages({
+    'date.format': 'Start time must be an ISO 8601 date',
+    'any.required': 'Start time is required',
+  }),
+  durationMinutes: Joi.number().integer().min(15).max(240).optional().messages({
+    'number.min': 'Duration must be at least 15 minutes',
+    'number.max': 'Duration must not exceed 240 minutes',
+  }),
+  reason: Joi.string().max(500).optional(),
+});
+
+// Skill endorsement validation schema
+export const endorseSkillsSchema = Joi.object({
+  skillIds: Joi.array().items(Joi.string()).min(1).max(10).unique().required().messages({
+    'array.min': 'Select at least one skill to endorse',
+    'array.max': 'At most 10 skills can be endorsed at once',
+    'array.unique': 'Each skill can only be endorsed once',
+    'any.required': 'Skill IDs are required',
+  }),
+});
+
+// Skill verification validation schemas
+export const skillVerificationRequestSchema = Joi.object({
+  evidenceUrl: Joi.string().uri({ scheme: ['http', 'https'] }).max(500).optional().messages({
+    'string.uri': 'Evidence must be a valid http(s) URL',
+  }),
+  note: Joi.string().max(1000).optional(),
+});
+
+export const skillVerificationReviewSchema = Joi.object({
+  approve: Joi.boolean().required().messages({
+    'any.required': 'Approval decision is required',
+  }),
+  note: Joi.string().max(1000).optional(),
+});
+
+// Role assignment validation schema
+export const userRolesSchema = Joi.object<{ roles: UserRole[] }>({
+  roles: Joi.array().items(Joi.string().valid(...USER_ROLES)).min(1).unique().required().messages({
+    'any.only': `Roles must be one of: ${USER_ROLES.join(', ')}`,
+    'array.min': 'At least one role is required',
+    'any.required': 'Roles are required',
+  }),
+});
+
+// Personal data export validation schema
+export const dataExportSchema = Joi.object<{ format: ExportFormat }>({
+  format: Joi.string().valid(...EXPORT_FORMATS).default('zip').messages({
+    'any.only': `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+  }),
+});
+
+// Account deletion validation schema
+export const accountDeletionSchema = Joi.object<{ password: string }>({
+  password: Joi.string().required().messages({
+    'any.required': 'Password is required to delete your account',
+  }),
+});
+
+// Safety report validation schemas
+const chatExcerptMessageSchema = Joi.object({
+  userId: Joi.string().required(),
+  message: Joi.string().max(SAFETY_CONFIG.MAX_CHAT_MESSAGE_LENGTH).required().messages({
+    'string.max': `Chat messages must not exceed ${SAFETY_CONFIG.MAX_CHAT_MESSAGE_LENGTH} characters`,
+  }),
+  sentAt: Joi.string().isoDate().optional(),
+});
+
+export const reportUserSchema = Joi.object<SubmitReportRequest>({
+  reportedUserId: Joi.string().pattern(/^[a-f0-9]{24}$/).required().messages({
+    'string.pattern.base': 'Invalid user ID',
+    'any.required': 'The user being reported is required',
+  }),
+  category: Joi.string().valid(...REPORT_CATEGORIES).required().messages({
+    'any.only': `Category must be one of: ${REPORT_CATEGORIES.join(', ')}`,
+    'any.required': 'Category is required',
+  }),
+  description: Joi.string().trim().min(10).max(SAFETY_CONFIG.MAX_DESCRIPTION_LENGTH).required().messages({
+    'string.min': 'Please describe what happened in at least 10 characters',
+    'string.max': `Description must not exceed ${SAFETY_CONFIG.MAX_DESCRIPTION_LENGTH} characters`,
+    'any.required': 'Description is required',
+  }),
+  sessionId: Joi.string().pattern(/^[a-f0-9]{24}$/).optional().messages({
+    'string.pattern.base': 'Invalid session ID',
+  }),
+  chatExcerpt: Joi.array().items(chatExcerptMessageSchema).max(SAFETY_CONFIG.MAX_CHAT_EXCERPT_MESSAGES).optional().messages({
+    'array.max': `At most ${SAFETY_CONFIG.MAX_CHAT_EXCERPT_MESSAGES} chat messages can be attached`,
+  }),
+  block: Joi.boolean().default(false),
+});
+
+export const moderationActionSchema = Joi.object<{ action: ModerationAction; note?: string }>({
+  action: Joi.string().valid(...MODERATION_ACTIONS).required().messages({
+    'any.only': `Action must be one of: ${MODERATION_ACTIONS.join(', ')}`,
+    'any.required': 'Action is required',
+  }),
+  note: Joi.string().max(1000).optional(),
+});
+
+export const matchProposalResponseSchema = Joi.object<{ response: ProposalResponse }>({
+  response: Joi.string().valid(...PROPOSAL_RESPONSES).required().messages({
+    'any.only': 'Response must be accept or decline',
+    'any.required': 'Response is required',
+  }),
 });
 
 /**
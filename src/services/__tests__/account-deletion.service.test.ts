@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AccountDeletionService } from '../account-deletion.service';
+import { AccountSecurityService } from '../account-security.service';
+import { AvatarService } from '../avatar.service';
+import { DataExportService } from '../data-export.service';
+import { MatchProposalService } from '../match-proposal.service';
+import { verifyPassword } from '@/lib/auth';
+import { sendMail } from '@/lib/mailer';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => {
+  const collection = () => ({ deleteMany: vi.fn() });
+  return {
+    default: {
+      user: {
+        findUnique: vi.fn(),
+        findMany: vi.fn(),
+        update: vi.fn(),
+        updateMany: vi.fn(),
+      },
+      matchingQueue: { updateMany: vi.fn(), deleteMany: vi.fn() },
+      upload: { findMany: vi.fn(), deleteMany: vi.fn() },
+      userSkill: collection(),
+      skillProgressEvent: collection(),
+      skillVerificationRequest: collection(),
+      skillVerificationEvent: collection(),
+      skillEndorsement: collection(),
+      learningGoal: collection(),
+      userPreference: collection(),
+      userAchievement: collection(),
+      userStats: collection(),
+      calendarFeed: collection(),
+      refreshToken: collection(),
+      twoFactorCredential: collection(),
+      oidcIdentity: collection(),
+      securityEvent: collection(),
+      userBlock: collection(),
+      userReport: collection(),
+      matchProposal: collection(),
+      session: { deleteMany: vi.fn() },
+      sessionFeedback: { deleteMany: vi.fn() },
+    },
+  };
+});
+
+vi.mock('@/lib/auth', () => ({
+  verifyPassword: vi.fn(),
+  hashPassword: vi.fn().mockResolvedValue('random-hash'),
+}));
+
+vi.mock('@/lib/mailer', () => ({
+  sendMail: vi.fn(),
+}));
+
+vi.mock('../account-security.service', () => ({
+  AccountSecurityService: { logEvent: vi.fn() },
+}));
+
+vi.mock('../avatar.service', () => ({
+  AvatarService: { removeAvatar: vi.fn() },
+}));
+
+vi.mock('../data-export.service', () => ({
+  DataExportService: { deleteAllForUser: vi.fn() },
+}));
+
+vi.mock('../match-proposal.service', () => ({
+  MatchProposalService: { withdrawUser: vi.fn() },
+}));
+
+const USER_ID = '64b000000000000000000001';
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+describe('AccountDeletionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.user.findUnique as any).mockResolvedValue({
+      id: USER_ID,
+      email: 'learner@example.com',
+      username: 'learner',
+      passwordHash: 'hash',
+      isActive: true,
+      deletionScheduledAt: null,
+    });
+    (verifyPassword as any).mockResolvedValue(true);
+    (prisma.upload.findMany as any).mockResolvedValue([]);
+  });
+
+  describe('scheduleDeletion', () => {
+    it('should schedule deletion after the grace period and tell the user', async () => {
+      const status = await AccountDeletionService.scheduleDeletion(USER_ID, 'Password123!', {}, NOW);
+
+      expect(status.scheduledFor).toEqual(new Date('2025-03-31T12:00:00Z'));
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: USER_ID },
+        data: { deletionScheduledAt: status.scheduledFor },
+      });
+      expect(prisma.matchingQueue.updateMany).toHaveBeenCalledWith({
+        where: { userId: USER_ID, status: 'waiting' },
+        data: { status: 'cancelled' },
+      });
+      expect(MatchProposalService.withdrawUser).toHaveBeenCalledWith(USER_ID, NOW);
+      expect(AccountSecurityService.logEvent).toHaveBeenCalledWith(USER_ID, 'deletion_scheduled', {}, {
+        scheduledFor: '2025-03-31T12:00:00.000Z',
+      });
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'learner@example.com' }));
+    });
+
+    it('should require the current password', async () => {
+      (verifyPassword as any).mockResolvedValue(false);
+
+      await expect(AccountDeletionService.scheduleDeletion(USER_ID, 'wrong', {}, NOW))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelDeletion', () => {
+    it('should clear a scheduled deletion', async () => {
+      (prisma.user.updateMany as any).mockResolvedValue({ count: 1 });
+
+      await AccountDeletionService.cancelDeletion(USER_ID);
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: USER_ID, deletionScheduledAt: { not: null }, deletedAt: null },
+        data: { deletionScheduledAt: null },
+      });
+      expect(AccountSecurityService.logEvent).toHaveBeenCalledWith(USER_ID, 'deletion_cancelled', {});
+    });
+
+    it('should report when nothing is scheduled', async () => {
+      (prisma.user.updateMany as any).mockResolvedValue({ count: 0 });
+
+      await expect(AccountDeletionService.cancelDeletion(USER_ID)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('anonymizeUser', () => {
+    it('should remove personal data but keep sessions for partners', async () => {
+      await AccountDeletionService.anonymizeUser(USER_ID, NOW);
+
+      expect(AvatarService.removeAvatar).toHaveBeenCalledWith(USER_ID);
+      expect(DataExportService.deleteAllForUser).toHaveBeenCalledWith(USER_ID);
+      expect(prisma.userSkill.deleteMany).toHaveBeenCalledWith({ where: { userId: USER_ID } });
+      expect(prisma.learningGoal.deleteMany).toHaveBeenCalledWith({ where: { userId: USER_ID } });
+      expect(prisma.refreshToken.deleteMany).toHaveBeenCalledWith({ where: { userId: USER_ID } });
+      expect(prisma.skillEndorsement.deleteMany).toHaveBeenCalledWith({ where: { endorseeId: USER_ID } });
+      expect(prisma.userBlock.deleteMany).toHaveBeenCalledWith({
+        where: { OR: [{ blockerId: USER_ID }, { blockedId: USER_ID }] },
+      });
+      expect(prisma.userReport.deleteMany).toHaveBeenCalledWith({ where: { reporterId: USER_ID } });
+      expect(MatchProposalService.withdrawUser).toHaveBeenCalledWith(USER_ID, NOW);
+      expect(prisma.matchProposal.deleteMany).toHaveBeenCalledWith({
+        where: { OR: [{ userId1: USER_ID }, { userId2: USER_ID }] },
+      });
+
+      expect(prisma.session.deleteMany).not.toHaveBeenCalled();
+      expect(prisma.sessionFeedback.deleteMany).not.toHaveBeenCalled();
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: USER_ID },
+        data: expect.objectContaining({
+          email: `deleted-${USER_ID}@deleted.invalid`,
+          username: `deleted-user-${USER_ID}`,
+          passwordHash: 'random-hash',
+          avatarUrl: null,
+          isActive: false,
+          deletedAt: NOW,
+        }),
+      });
+    });
+  });
+
+  describe('processDueDeletions', () => {
+    it('should anonymize accounts past their grace period and carry on after a failure', async () => {
+      (prisma.user.findMany as any).mockResolvedValue([{ id: 'user-a' }, { id: 'user-b' }]);
+      (AvatarService.removeAvatar as any).mockRejectedValueOnce(new Error('storage down'));
+
+      const processed = await AccountDeletionService.processDueDeletions(NOW);
+
+      expect(prisma.user.findMany).toHaveBeenCalledWith({
+        where: { deletionScheduledAt: { lte: NOW }, deletedAt: null },
+        select: { id: true },
+      });
+      expect(processed).toBe(1);
+      expect(prisma.user.update).toHaveBeenCalledTimes(1);
+    });
+  });
+});
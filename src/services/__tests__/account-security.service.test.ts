@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AccountSecurityService } from '../account-security.service';
+import { AccountLockedError, detectLoginAnomalies, getDeviceFingerprint, getLockoutDuration } from '@/lib/account-security';
+import { sendMail } from '@/lib/mailer';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: {
+      update: vi.fn(),
+    },
+    securityEvent: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/mailer', () => ({
+  sendMail: vi.fn(),
+}));
+
+describe('getLockoutDuration', () => {
+  it('should not lock below the threshold', () => {
+    expect(getLockoutDuration(4)).toBe(0);
+  });
+
+  it('should double the lock for every further failure, up to a day', () => {
+    expect(getLockoutDuration(5)).toBe(60 * 1000);
+    expect(getLockoutDuration(6)).toBe(2 * 60 * 1000);
+    expect(getLockoutDuration(8)).toBe(8 * 60 * 1000);
+    expect(getLockoutDuration(100)).toBe(24 * 60 * 60 * 1000);
+  });
+});
+
+describe('detectLoginAnomalies', () => {
+  const history = [
+    { fingerprint: 'laptop', country: 'IN' },
+    { fingerprint: 'phone', country: 'IN' },
+  ];
+  const attempt = { fingerprint: 'laptop', country: 'IN', timezone: 'Asia/Kolkata', accountTimezone: 'Asia/Kolkata' };
+
+  it('should accept a known device from a known country', () => {
+    expect(detectLoginAnomalies(history, attempt)).toEqual([]);
+  });
+
+  it('should flag a new device and a new country', () => {
+    expect(detectLoginAnomalies(history, { ...attempt, fingerprint: 'tablet', country: 'BR' }))
+      .toEqual(['new_device', 'new_country']);
+  });
+
+  it('should not flag the first login as a new device', () => {
+    expect(detectLoginAnomalies([], { ...attempt, fingerprint: 'tablet', country: 'BR' })).toEqual([]);
+  });
+
+  it('should compare timezones by offset, not name', () => {
+    expect(detectLoginAnomalies(history, { ...attempt, timezone: 'Asia/Calcutta' })).toEqual([]);
+    expect(detectLoginAnomalies(history, { ...attempt, timezone: 'America/New_York' })).toEqual(['timezone_mismatch']);
+  });
+});
+
+describe('AccountSecurityService', () => {
+  const user = { id: 'user-1', email: 'alice@example.com', username: 'alice', timezone: 'UTC' };
+  const context = { userAgent: 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0', ipAddress: '10.0.0.1' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.securityEvent.findMany as any).mockResolvedValue([]);
+  });
+
+  describe('assertNotLocked', () => {
+    it('should throw while the lock is in the future', () => {
+      expect(() => AccountSecurityService.assertNotLocked({ lockedUntil: new Date(Date.now() + 60000) }))
+        .toThrow(AccountLockedError);
+      expect(() => AccountSecurityService.assertNotLocked({ lockedUntil: new Date(Date.now() - 1000) }))
+        .not.toThrow();
+    });
+  });
+
+  describe('recordFailedLogin', () => {
+    it('should only log failures below the threshold', async () => {
+      (prisma.user.update as any).mockResolvedValue({ failedLoginAttempts: 2 });
+
+      await AccountSecurityService.recordFailedLogin(user, context);
+
+      expect(prisma.user.update).toHaveBeenCalledTimes(1);
+      expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'login_failed', details: { failedAttempts: 2 } }),
+      });
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+
+    it('should lock the account and email the owner at the threshold', async () => {
+      (prisma.user.update as any).mockResolvedValueOnce({ failedLoginAttempts: 5 });
+
+      await AccountSecurityService.recordFailedLogin(user, context);
+
+      expect(prisma.user.update).toHaveBeenLastCalledWith({
+        where: { id: 'user-1' },
+        data: { lockedUntil: expect.any(Date) },
+      });
+      expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'account_locked' }),
+      });
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'alice@example.com' }));
+    });
+
+    it('should not email again for longer locks in the same run', async () => {
+      (prisma.user.update as any).mockResolvedValueOnce({ failedLoginAttempts: 6 });
+
+      await AccountSecurityService.recordFailedLogin(user, context);
+
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordLogin', () => {
+    it('should email the owner about a new device', async () => {
+      (prisma.securityEvent.findMany as any).mockResolvedValue([{ fingerprint: 'other-device', country: null }]);
+
+      const anomalies = await AccountSecurityService.recordLogin(user, context);
+
+      expect(anomalies).toEqual(['new_device']);
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+        subject: 'New sign-in to your SkillSync account',
+        text: expect.stringContaining('Firefox on Linux'),
+      }));
+    });
+
+    it('should stay quiet for a known device', async () => {
+      const fingerprint = getDeviceFingerprint(context.userAgent);
+      (prisma.securityEvent.findMany as any).mockResolvedValue([{ fingerprint, country: null }]);
+
+      await AccountSecurityService.recordLogin(user, context);
+
+      expect(prisma.securityEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'login_succeeded', fingerprint }),
+      });
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+
+    it('should not treat a known device on a new network as a new device', async () => {
+      (prisma.securityEvent.findMany as any).mockResolvedValue([{ fingerprint: getDeviceFingerprint(context.userAgent), country: 'IN' }]);
+
+      const anomalies = await AccountSecurityService.recordLogin(user, { ...context, ipAddress: '198.51.100.7', country: 'IN' });
+
+      expect(anomalies).toEqual([]);
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the login when the log is unavailable', async () => {
+      (prisma.securityEvent.findMany as any).mockRejectedValue(new Error('database down'));
+
+      await expect(AccountSecurityService.recordLogin(user, context)).resolves.toEqual([]);
+    });
+  });
+});
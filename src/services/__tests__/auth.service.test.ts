@@ -0,0 +1,342 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AuthService } from '../auth.service';
+import { generateAccessToken, generateEmailVerificationToken, generateTwoFactorChallengeToken, hashPassword } from '@/lib/auth';
+import { EmailVerificationError } from '@/lib/email-verification';
+import { sendMail } from '@/lib/mailer';
+import { RefreshTokenService } from '../refresh-token.service';
+import { TwoFactorService } from '../two-factor.service';
+import { AccountSecurityService } from '../account-security.service';
+import { AccountLockedError, getLockoutDuration } from '@/lib/account-security';
+import { TwoFactorError } from '@/lib/two-factor';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/mailer', () => ({
+  sendMail: vi.fn(),
+}));
+
+vi.mock('../refresh-token.service', () => ({
+  RefreshTokenService: {
+    issue: vi.fn().mockResolvedValue({ refreshToken: 'refresh-token', id: 'token-1', familyId: 'family-1' }),
+    revokeAllForUser: vi.fn(),
+  },
+}));
+
+vi.mock('../account-security.service', async () => {
+  const { isLocked, AccountLockedError } = await vi.importActual<typeof import('@/lib/account-security')>('@/lib/account-security');
+  return {
+    AccountSecurityService: {
+      assertNotLocked: vi.fn((user: { lockedUntil?: Date | null }) => {
+        if (isLocked(user.lockedUntil)) throw new AccountLockedError(user.lockedUntil);
+      }),
+      recordFailedLogin: vi.fn(),
+      resetFailedLogins: vi.fn(),
+      recordLogin: vi.fn().mockResolvedValue([]),
+      logEvent: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../two-factor.service', () => ({
+  TwoFactorService: {
+    isEnabled: vi.fn().mockResolvedValue(false),
+    verifyLoginCode: vi.fn(),
+  },
+}));
+
+describe('AuthService', () => {
+  const user = {
+    id: 'user-1',
+    email: 'alice@example.com',
+    username: 'alice',
+    isVerified: false,
+    isActive: true,
+    avatarUrl: null,
+    timezone: 'UTC',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.user.findUnique as any).mockResolvedValue(user);
+  });
+
+  describe('register', () => {
+    it('should email a verification link to new users', async () => {
+      (prisma.user.findFirst as any).mockResolvedValue(null);
+      (prisma.user.create as any).mockResolvedValue(user);
+
+      await AuthService.register({
+        email: user.email,
+        username: user.username,
+        password: 'Secret123!',
+        timezone: 'UTC',
+      });
+
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'alice@example.com',
+        text: expect.stringContaining('/verify-email?token='),
+      }));
+    });
+
+    it('should still register the user when the mail transport fails', async () => {
+      (prisma.user.findFirst as any).mockResolvedValue(null);
+      (prisma.user.create as any).mockResolvedValue(user);
+      (sendMail as any).mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+      const result = await AuthService.register({
+        email: user.email,
+        username: user.username,
+        password: 'Secret123!',
+        timezone: 'UTC',
+      });
+
+      expect(result.user.isVerified).toBe(false);
+    });
+  });
+
+  describe('login', () => {
+    beforeEach(async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({
+        ...user,
+        passwordHash: await hashPassword('Secret123!'),
+      });
+    });
+
+    it('should start a session when two-factor is off', async () => {
+      const result = await AuthService.login({ email: user.email, password: 'Secret123!' });
+
+      expect(result).toMatchObject({ refreshToken: 'refresh-token', user: { id: 'user-1' } });
+      expect(result).not.toHaveProperty('user.passwordHash');
+    });
+
+    it('should return a challenge instead of tokens when two-factor is on', async () => {
+      (TwoFactorService.isEnabled as any).mockResolvedValueOnce(true);
+
+      const result = await AuthService.login({ email: user.email, password: 'Secret123!' });
+
+      expect(result).toEqual({ requiresTwoFactor: true, challengeToken: expect.any(String) });
+      expect(RefreshTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should not reveal two-factor status for a wrong password', async () => {
+      await expect(AuthService.login({ email: user.email, password: 'Wrong123!' }))
+        .rejects.toThrow('Invalid email or password');
+      expect(TwoFactorService.isEnabled).not.toHaveBeenCalled();
+    });
+
+    it('should count a wrong password against the account', async () => {
+      await expect(AuthService.login({ email: user.email, password: 'Wrong123!' }, { ipAddress: '10.0.0.1' }))
+        .rejects.toThrow();
+
+      expect(AccountSecurityService.recordFailedLogin).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'user-1' }),
+        { ipAddress: '10.0.0.1' }
+      );
+    });
+
+    it('should refuse a locked account even with the right password', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({
+        ...user,
+        passwordHash: await hashPassword('Secret123!'),
+        lockedUntil: new Date(Date.now() + 60000),
+      });
+
+      await expect(AuthService.login({ email: user.email, password: 'Secret123!' }))
+        .rejects.toBeInstanceOf(AccountLockedError);
+      expect(RefreshTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should log the new session for suspicious login detection', async () => {
+      await AuthService.login({ email: user.email, password: 'Secret123!' }, { country: 'IN', timezone: 'UTC' });
+
+      expect(AccountSecurityService.resetFailedLogins).toHaveBeenCalled();
+      expect(AccountSecurityService.recordLogin).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'user-1', timezone: 'UTC' }),
+        { country: 'IN', timezone: 'UTC' }
+      );
+    });
+  });
+
+  describe('completeTwoFactorLogin', () => {
+    it('should issue tokens once the code checks out', async () => {
+      const challengeToken = generateTwoFactorChallengeToken('user-1');
+
+      const result = await AuthService.completeTwoFactorLogin({ challengeToken, code: '123456' }, { userAgent: 'Firefox' });
+
+      expect(TwoFactorService.verifyLoginCode).toHaveBeenCalledWith('user-1', '123456');
+      expect(RefreshTokenService.issue).toHaveBeenCalledWith('user-1', { userAgent: 'Firefox' });
+      expect(result.refreshToken).toBe('refresh-token');
+    });
+
+    it('should not issue tokens for a wrong code, and count it as a failed login', async () => {
+      (TwoFactorService.verifyLoginCode as any).mockRejectedValueOnce(new TwoFactorError('Invalid verification code', 401));
+      const challengeToken = generateTwoFactorChallengeToken('user-1');
+
+      await expect(AuthService.completeTwoFactorLogin({ challengeToken, code: '000000' })).rejects.toThrow();
+      expect(RefreshTokenService.issue).not.toHaveBeenCalled();
+      expect(AccountSecurityService.recordFailedLogin).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'user-1' }),
+        {},
+        'two_factor_failed'
+      );
+    });
+
+    it('should not clear failed codes when the password is entered again', async () => {
+      const stored = { ...user, passwordHash: await hashPassword('Secret123!'), failedLoginAttempts: 0, lockedUntil: null as Date | null };
+      (prisma.user.findUnique as any).mockImplementation(async () => ({ ...stored }));
+      (AccountSecurityService.recordFailedLogin as any).mockImplementation(async () => {
+        stored.failedLoginAttempts++;
+        const lockoutMs = getLockoutDuration(stored.failedLoginAttempts);
+        if (lockoutMs > 0) stored.lockedUntil = new Date(Date.now() + lockoutMs);
+      });
+      (AccountSecurityService.resetFailedLogins as any).mockImplementation(async () => {
+        stored.failedLoginAttempts = 0;
+        stored.lockedUntil = null;
+      });
+      (TwoFactorService.isEnabled as any).mockResolvedValue(true);
+      (TwoFactorService.verifyLoginCode as any).mockRejectedValue(new TwoFactorError('Invalid verification code', 401));
+
+      const guessCodes = async (count: number) => {
+        const result = await AuthService.login({ email: user.email, password: 'Secret123!' });
+        const challengeToken = 'challengeToken' in result ? result.challengeToken : '';
+        for (let i = 0; i < count; i++) {
+          await expect(AuthService.completeTwoFactorLogin({ challengeToken, code: '000000' })).rejects.toThrow(TwoFactorError);
+        }
+      };
+
+      await guessCodes(4);
+      await guessCodes(1);
+
+      expect(stored.failedLoginAttempts).toBe(5);
+      await expect(AuthService.login({ email: user.email, password: 'Secret123!' })).rejects.toThrow(AccountLockedError);
+      expect(AccountSecurityService.resetFailedLogins).not.toHaveBeenCalled();
+
+      (TwoFactorService.isEnabled as any).mockResolvedValue(false);
+      (TwoFactorService.verifyLoginCode as any).mockReset();
+      (AccountSecurityService.recordFailedLogin as any).mockReset();
+      (AccountSecurityService.resetFailedLogins as any).mockReset();
+    });
+
+    it('should reject tokens that are not challenge tokens', async () => {
+      const verificationToken = generateEmailVerificationToken('user-1', user.email);
+
+      await expect(AuthService.completeTwoFactorLogin({ challengeToken: verificationToken, code: '123456' }))
+        .rejects.toMatchObject({ statusCode: 401 });
+      expect(TwoFactorService.verifyLoginCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the user as verified', async () => {
+      const token = generateEmailVerificationToken(user.id, user.email);
+
+      await AuthService.verifyEmail(token);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { isVerified: true },
+      });
+    });
+
+    it('should reject links sent to a previous email address', async () => {
+      const token = generateEmailVerificationToken(user.id, 'old@example.com');
+
+      await expect(AuthService.verifyEmail(token)).rejects.toThrow(EmailVerificationError);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should not update users who are already verified', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({ ...user, isVerified: true });
+      const token = generateEmailVerificationToken(user.id, user.email);
+
+      const result = await AuthService.verifyEmail(token);
+
+      expect(result.message).toMatch(/already verified/);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should refuse to resend once the email is verified', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({ ...user, isVerified: true });
+
+      await expect(AuthService.resendVerificationEmail('user-1')).rejects.toMatchObject({ statusCode: 409 });
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should sign out every session and issue a new token for the current device', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({
+        ...user,
+        passwordHash: await hashPassword('OldSecret123!'),
+      });
+
+      const result = await AuthService.changePassword('user-1', 'OldSecret123!', 'NewSecret123!', { userAgent: 'Firefox' });
+
+      expect(RefreshTokenService.revokeAllForUser).toHaveBeenCalledWith('user-1', 'password_changed');
+      expect(RefreshTokenService.issue).toHaveBeenCalledWith('user-1', { userAgent: 'Firefox' });
+      expect(result.refreshToken).toBe('refresh-token');
+    });
+  });
+
+  describe('getUserById', () => {
+    it('should return active users with their roles', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({ ...user, roles: ['member'] });
+
+      await expect(AuthService.getUserById('user-1')).resolves.toMatchObject({ id: 'user-1', roles: ['member'] });
+    });
+
+    it('should not return suspended users, so their access tokens stop working', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({ ...user, isActive: false, roles: ['member'] });
+
+      await expect(AuthService.getUserById('user-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('authenticateAccessToken', () => {
+    const accessToken = () => generateAccessToken({ ...user, roles: ['member'] });
+
+    it('should accept a valid token for an active account', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({ isActive: true });
+
+      await expect(AuthService.authenticateAccessToken(accessToken())).resolves.toMatchObject({ userId: 'user-1' });
+    });
+
+    it('should refuse a still-valid token once the account is suspended or deleted', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({ isActive: false });
+      await expect(AuthService.authenticateAccessToken(accessToken())).resolves.toBeNull();
+
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+      await expect(AuthService.authenticateAccessToken(accessToken())).resolves.toBeNull();
+    });
+
+    it('should not look up the account for an invalid token', async () => {
+      await expect(AuthService.authenticateAccessToken('not-a-token')).resolves.toBeNull();
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireVerifiedEmail', () => {
+    it('should block unverified users from matching', async () => {
+      await expect(AuthService.requireVerifiedEmail('user-1')).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should allow verified users', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({ isVerified: true });
+
+      await expect(AuthService.requireVerifiedEmail('user-1')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { AvatarService } from '../avatar.service';
+import { LocalStorageAdapter, setStorageAdapter } from '@/lib/storage';
+import { parseAvatarUrl, selectAvatarUrl } from '@/lib/avatars';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+const USER_ID = '64b000000000000000000001';
+
+// Landscape JPEG carrying camera EXIF data
+async function createPhoto(): Promise<Buffer> {
+  return sharp({ create: { width: 400, height: 300, channels: 3, background: '#3366cc' } })
+    .jpeg()
+    .withExif({ IFD0: { Make: 'TestCam', Model: 'Secret Location 1' } })
+    .toBuffer();
+}
+
+describe('avatar URLs', () => {
+  it('should pick the smallest size covering the display size', () => {
+    const url = `/api/avatars/${USER_ID}/abc123/256.webp`;
+
+    expect(selectAvatarUrl(url, 40)).toBe(`/api/avatars/${USER_ID}/abc123/64.webp`);
+    expect(selectAvatarUrl(url, 80)).toBe(`/api/avatars/${USER_ID}/abc123/128.webp`);
+    expect(selectAvatarUrl(url, 600)).toBe(`/api/avatars/${USER_ID}/abc123/256.webp`);
+  });
+
+  it('should leave external avatar URLs alone', () => {
+    expect(selectAvatarUrl('https://example.com/me.png', 40)).toBe('https://example.com/me.png');
+    expect(parseAvatarUrl(`/api/avatars/${USER_ID}/abc123/100.webp`)).toBeNull();
+  });
+});
+
+describe('AvatarService', () => {
+  let storageDir: string;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'skillsync-avatars-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setStorageAdapter(new LocalStorageAdapter(storageDir));
+    (prisma.user.findUnique as any).mockResolvedValue({ avatarUrl: null });
+  });
+
+  it('should store square WebP images without metadata in every size', async () => {
+    const photo = await createPhoto();
+    expect((await sharp(photo).metadata()).exif).toBeDefined();
+
+    const avatarUrl = await AvatarService.updateAvatar(USER_ID, {
+      name: 'me.jpg',
+      type: 'image/jpeg',
+      size: photo.length,
+      buffer: photo,
+    });
+
+    const location = parseAvatarUrl(avatarUrl);
+    expect(location).toMatchObject({ userId: USER_ID, size: 256 });
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: USER_ID },
+      data: { avatarUrl, updatedAt: expect.any(Date) },
+    });
+
+    for (const size of [64, 128, 256] as const) {
+      const image = await AvatarService.getAvatarImage(USER_ID, location!.version, size);
+      const metadata = await sharp(image!).metadata();
+      expect(metadata).toMatchObject({ format: 'webp', width: size, height: size });
+      expect(metadata.exif).toBeUndefined();
+    }
+  });
+
+  it('should give every upload a new URL and delete the previous images', async () => {
+    const photo = await createPhoto();
+    const file = { name: 'me.jpg', type: 'image/jpeg', size: photo.length, buffer: photo };
+
+    const first = await AvatarService.updateAvatar(USER_ID, file);
+    (prisma.user.findUnique as any).mockResolvedValue({ avatarUrl: first });
+    const second = await AvatarService.updateAvatar(USER_ID, file);
+
+    expect(second).not.toBe(first);
+    expect(await AvatarService.getAvatarImage(USER_ID, parseAvatarUrl(first)!.version, 64)).toBeNull();
+    expect(await AvatarService.getAvatarImage(USER_ID, parseAvatarUrl(second)!.version, 64)).not.toBeNull();
+  });
+
+  it('should reject files that are not images', async () => {
+    const pdf = Buffer.from('%PDF-1.4 not an avatar');
+
+    await expect(AvatarService.updateAvatar(USER_ID, {
+      name: 'me.pdf',
+      type: 'application/pdf',
+      size: pdf.length,
+      buffer: pdf,
+    })).rejects.toMatchObject({ statusCode: 400 });
+
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('should reject images that cannot be decoded', async () => {
+    const broken = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff]), Buffer.from('truncated')]);
+
+    await expect(AvatarService.updateAvatar(USER_ID, {
+      name: 'me.jpg',
+      type: 'image/jpeg',
+      size: broken.length,
+      buffer: broken,
+    })).rejects.toThrow('File is not a valid image');
+  });
+
+  it('should clear the avatar and delete uploaded images on removal', async () => {
+    const photo = await createPhoto();
+    const avatarUrl = await AvatarService.updateAvatar(USER_ID, {
+      name: 'me.jpg',
+      type: 'image/jpeg',
+      size: photo.length,
+      buffer: photo,
+    });
+    (prisma.user.findUnique as any).mockResolvedValue({ avatarUrl });
+
+    await AvatarService.removeAvatar(USER_ID);
+
+    expect(prisma.user.update).toHaveBeenLastCalledWith({
+      where: { id: USER_ID },
+      data: { avatarUrl: null, updatedAt: expect.any(Date) },
+    });
+    expect(await AvatarService.getAvatarImage(USER_ID, parseAvatarUrl(avatarUrl)!.version, 256)).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BlockService } from '../block.service';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: { findUnique: vi.fn() },
+    userBlock: {
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+  },
+}));
+
+const USER_ID = '64b000000000000000000001';
+const OTHER_ID = '64b000000000000000000002';
+const THIRD_ID = '64b000000000000000000003';
+
+describe('BlockService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.user.findUnique as any).mockResolvedValue({ id: OTHER_ID });
+  });
+
+  describe('blockUser', () => {
+    it('should record the block once', async () => {
+      await BlockService.blockUser(USER_ID, OTHER_ID);
+
+      expect(prisma.userBlock.upsert).toHaveBeenCalledWith({
+        where: { blockerId_blockedId: { blockerId: USER_ID, blockedId: OTHER_ID } },
+        create: { blockerId: USER_ID, blockedId: OTHER_ID },
+        update: {},
+      });
+    });
+
+    it('should refuse to block yourself or unknown users', async () => {
+      await expect(BlockService.blockUser(USER_ID, USER_ID)).rejects.toMatchObject({ statusCode: 400 });
+
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+      await expect(BlockService.blockUser(USER_ID, OTHER_ID)).rejects.toMatchObject({ statusCode: 404 });
+      expect(prisma.userBlock.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBlockedUserIds', () => {
+    it('should include blocks in both directions', async () => {
+      (prisma.userBlock.findMany as any).mockResolvedValue([
+        { blockerId: USER_ID, blockedId: OTHER_ID },
+        { blockerId: THIRD_ID, blockedId: USER_ID },
+      ]);
+
+      const blocked = await BlockService.getBlockedUserIds(USER_ID);
+
+      expect([...blocked].sort()).toEqual([OTHER_ID, THIRD_ID]);
+    });
+  });
+
+  describe('isBlockedBetween', () => {
+    it('should check both directions', async () => {
+      (prisma.userBlock.findFirst as any).mockResolvedValue({ id: 'block-1' });
+
+      expect(await BlockService.isBlockedBetween(USER_ID, OTHER_ID)).toBe(true);
+      expect(prisma.userBlock.findFirst).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { blockerId: USER_ID, blockedId: OTHER_ID },
+            { blockerId: OTHER_ID, blockedId: USER_ID },
+          ],
+        },
+        select: { id: true },
+      });
+    });
+  });
+});
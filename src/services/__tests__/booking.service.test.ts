@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BookingService } from '../booking.service';
+import { BookingError, zonedTimeToUtc } from '@/lib/booking';
+import prisma from '@/lib/prisma';
+import redis from '@/lib/redis';
+import { broadcastToUser } from '@/lib/socket-server';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: {
+      findMany: vi.fn(),
+    },
+    session: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/redis', () => ({
+  default: {
+    set: vi.fn(),
+    eval: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/socket-server', () => ({
+  broadcastToUser: vi.fn(),
+}));
+
+const emptyWeek = {
+  monday: [],
+  tuesday: [],
+  wednesday: [],
+  thursday: [],
+  friday: [],
+  saturday: [],
+  sunday: [],
+};
+
+describe('BookingService', () => {
+  // New York is UTC-5 and London is UTC+0 on Monday 3 March 2025
+  const users = [
+    {
+      id: 'user-1',
+      username: 'alice',
+      timezone: 'America/New_York',
+      userPreferences: {
+        maxSessionDuration: 90,
+        availabilitySchedule: { ...emptyWeek, monday: [{ start: '09:00', end: '12:00' }] },
+      },
+    },
+    {
+      id: 'user-2',
+      username: 'bob',
+      timezone: 'Europe/London',
+      userPreferences: {
+        maxSessionDuration: 120,
+        availabilitySchedule: { ...emptyWeek, monday: [{ start: '15:00', end: '18:00' }] },
+      },
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-03T00:00:00Z'));
+
+    (prisma.user.findMany as any).mockResolvedValue(users);
+    (prisma.session.findMany as any).mockResolvedValue([]);
+    (redis.set as any).mockResolvedValue('OK');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('timezone conversion', () => {
+    it('should convert wall-clock time across a DST change', () => {
+      // New York moves to UTC-4 on 9 March 2025
+      expect(zonedTimeToUtc(2025, 3, 7, 9 * 60, 'America/New_York').toISOString())
+        .toBe('2025-03-07T14:00:00.000Z');
+      expect(zonedTimeToUtc(2025, 3, 10, 9 * 60, 'America/New_York').toISOString())
+        .toBe('2025-03-10T13:00:00.000Z');
+    });
+  });
+
+  describe('getMutualSlots', () => {
+    it('should return slots where both schedules overlap in UTC', async () => {
+      const result = await BookingService.getMutualSlots('user-1', 'user-2', { days: 1 });
+
+      expect(result.durationMinutes).toBe(60);
+      expect(result.slots.map(slot => slot.startTime)).toEqual([
+        '2025-03-03T15:00:00.000Z',
+        '2025-03-03T15:30:00.000Z',
+        '2025-03-03T16:00:00.000Z',
+      ]);
+    });
+
+    it('should leave out time taken by open sessions', async () => {
+      (prisma.session.findMany as any).mockResolvedValue([
+        {
+          id: 'session-1',
+          startTime: new Date('2025-03-03T15:30:00Z'),
+          scheduledEndTime: new Date('2025-03-03T16:00:00Z'),
+        },
+      ]);
+
+      const result = await BookingService.getMutualSlots('user-1', 'user-2', { days: 1 });
+
+      expect(result.slots).toEqual([
+        { startTime: '2025-03-03T16:00:00.000Z', endTime: '2025-03-03T17:00:00.000Z' },
+      ]);
+    });
+  });
+
+  describe('bookSession', () => {
+    const request = {
+      partnerId: 'user-2',
+      startTime: new Date('2025-03-03T15:00:00Z'),
+      durationMinutes: 60,
+      sessionType: 'learning' as const,
+      topics: ['react'],
+    };
+
+    it('should create a scheduled session and notify the partner', async () => {
+      (prisma.session.create as any).mockResolvedValue({
+        id: 'session-new',
+        sessionType: 'learning',
+        topics: ['react'],
+      });
+
+      const session = await BookingService.bookSession('user-1', request);
+
+      expect(session.id).toBe('session-new');
+      expect(prisma.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          initiatorId: 'user-1',
+          partnerId: 'user-2',
+          status: 'scheduled',
+          startTime: new Date('2025-03-03T15:00:00Z'),
+          scheduledEndTime: new Date('2025-03-03T16:00:00Z'),
+        }),
+      });
+      expect(broadcastToUser).toHaveBeenCalledWith('user-2', 'session_booked', expect.objectContaining({
+        sessionId: 'session-new',
+      }));
+      expect(redis.eval).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject a slot that overlaps an existing session', async () => {
+      (prisma.session.findMany as any).mockResolvedValue([
+        {
+          id: 'session-1',
+          startTime: new Date('2025-03-03T14:30:00Z'),
+          scheduledEndTime: new Date('2025-03-03T15:30:00Z'),
+        },
+      ]);
+
+      await expect(BookingService.bookSession('user-1', request))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a slot outside mutual availability', async () => {
+      await expect(BookingService.bookSession('user-1', {
+        ...request,
+        startTime: new Date('2025-03-03T16:30:00Z'),
+      })).rejects.toThrow(BookingError);
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should not book while another booking holds the lock', async () => {
+      (redis.set as any).mockResolvedValue(null);
+
+      await expect(BookingService.bookSession('user-1', request))
+        .rejects.toThrow('Another booking is in progress');
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rescheduleSession', () => {
+    const scheduledSession = {
+      id: 'session-1',
+      initiatorId: 'user-1',
+      partnerId: 'user-2',
+      status: 'scheduled',
+      startTime: new Date('2025-03-03T15:00:00Z'),
+      scheduledEndTime: new Date('2025-03-03T16:00:00Z'),
+    };
+
+    it('should move the session and notify the other participant', async () => {
+      (prisma.session.findUnique as any)
+        .mockResolvedValueOnce(scheduledSession)
+        .mockResolvedValueOnce({ ...scheduledSession, startTime: new Date('2025-03-03T16:00:00Z') });
+      (prisma.session.updateMany as any).mockResolvedValue({ count: 1 });
+
+      await BookingService.rescheduleSession('session-1', 'user-2', {
+        startTime: new Date('2025-03-03T16:00:00Z'),
+      });
+
+      expect(prisma.session.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: { not: 'session-1' } }),
+      }));
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', status: 'scheduled' },
+        data: expect.objectContaining({
+          startTime: new Date('2025-03-03T16:00:00Z'),
+          scheduledEndTime: new Date('2025-03-03T17:00:00Z'),
+        }),
+      });
+      expect(broadcastToUser).toHaveBeenCalledWith('user-1', 'session_rescheduled', expect.objectContaining({
+        sessionId: 'session-1',
+        previousStartTime: '2025-03-03T15:00:00.000Z',
+      }));
+    });
+
+    it('should reject rescheduling a session that already started', async () => {
+      (prisma.session.findUnique as any).mockResolvedValue({ ...scheduledSession, status: 'active' });
+
+      await expect(BookingService.rescheduleSession('session-1', 'user-1', {
+        startTime: new Date('2025-03-03T16:00:00Z'),
+      })).rejects.toMatchObject({ statusCode: 409 });
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
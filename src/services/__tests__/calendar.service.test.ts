@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CalendarService } from '../calendar.service';
+import { escapeText, foldLine } from '@/lib/icalendar';
+import { DataEncryption } from '@/lib/security';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    calendarFeed: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+    },
+    session: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+describe('CalendarService', () => {
+  const session = {
+    id: 'session-1',
+    initiatorId: 'user-1',
+    partnerId: 'user-2',
+    startTime: new Date('2025-03-03T15:00:00Z'),
+    scheduledEndTime: new Date('2025-03-03T16:00:00Z'),
+    endTime: null,
+    durationMinutes: null,
+    sessionType: 'learning',
+    topics: ['react', 'state; hooks'],
+    status: 'scheduled',
+    createdAt: new Date('2025-03-01T10:00:00Z'),
+    rescheduledAt: null,
+    cancelledAt: null,
+    initiator: { id: 'user-1', username: 'alice' },
+    partner: { id: 'user-2', username: 'bob' },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('iCalendar formatting', () => {
+    it('should escape special characters in text values', () => {
+      expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+    });
+
+    it('should fold long lines to 75 octets', () => {
+      const folded = foldLine(`DESCRIPTION:${'é'.repeat(80)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line => {
+        expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      });
+      expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+    });
+  });
+
+  describe('renderSession', () => {
+    it('should render the session from the viewer\'s perspective', async () => {
+      (prisma.session.findUnique as any).mockResolvedValue(session);
+
+      const calendar = await CalendarService.renderSession('session-1', 'user-2', 'https://skillsync.app');
+
+      expect(calendar).toContain('BEGIN:VCALENDAR\r\n');
+      expect(calendar).toContain('UID:session-1@skillsync-platform');
+      expect(calendar).toContain('DTSTART:20250303T150000Z');
+      expect(calendar).toContain('DTEND:20250303T160000Z');
+      expect(calendar).toContain('SUMMARY:SkillSync: Learning with alice');
+      expect(calendar).toContain('CATEGORIES:react,state\\; hooks');
+      expect(calendar).toContain('URL:https://skillsync.app/call/session-1');
+      expect(calendar).toContain('STATUS:CONFIRMED');
+    });
+
+    it('should show no-show sessions as cancelled', async () => {
+      (prisma.session.findUnique as any).mockResolvedValue({ ...session, status: 'no_show' });
+
+      const calendar = await CalendarService.renderSession('session-1', 'user-2', 'https://skillsync.app');
+
+      expect(calendar).toContain('STATUS:CANCELLED');
+    });
+
+    it('should not render sessions the user is not part of', async () => {
+      (prisma.session.findUnique as any).mockResolvedValue(session);
+
+      const calendar = await CalendarService.renderSession('session-1', 'user-3', 'https://skillsync.app');
+
+      expect(calendar).toBeNull();
+    });
+  });
+
+  describe('feed tokens', () => {
+    it('should store only the hash of a new token', async () => {
+      const token = await CalendarService.rotateFeedToken('user-1');
+
+      expect(prisma.calendarFeed.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { userId: 'user-1' },
+        create: { userId: 'user-1', tokenHash: DataEncryption.hash(token) },
+      }));
+    });
+
+    it('should render the feed for a known token', async () => {
+      (prisma.calendarFeed.findUnique as any).mockResolvedValue({
+        id: 'feed-1',
+        userId: 'user-1',
+        user: { id: 'user-1', username: 'alice', isActive: true },
+      });
+      (prisma.session.findMany as any).mockResolvedValue([
+        session,
+        { ...session, id: 'session-2', status: 'cancelled', cancelledAt: new Date('2025-03-02T10:00:00Z') },
+      ]);
+
+      const calendar = await CalendarService.renderFeed('secret', 'https://skillsync.app');
+
+      expect(prisma.calendarFeed.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenHash: DataEncryption.hash('secret') },
+      }));
+      expect(calendar?.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(calendar).toContain('STATUS:CANCELLED');
+      expect(calendar).toContain('SUMMARY:SkillSync: Learning with bob');
+    });
+
+    it('should take the newest sessions first so upcoming ones always fit', async () => {
+      (prisma.calendarFeed.findUnique as any).mockResolvedValue({
+        id: 'feed-1',
+        userId: 'user-1',
+        user: { id: 'user-1', username: 'alice', isActive: true },
+      });
+      (prisma.session.findMany as any).mockResolvedValue([
+        { ...session, id: 'session-later', startTime: new Date('2025-03-10T15:00:00Z') },
+        session,
+      ]);
+
+      const calendar = await CalendarService.renderFeed('secret', 'https://skillsync.app');
+
+      expect(prisma.session.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        orderBy: { startTime: 'desc' },
+      }));
+      expect(calendar!.indexOf('UID:session-1@')).toBeLessThan(calendar!.indexOf('UID:session-later@'));
+    });
+
+    it('should return null for an unknown token', async () => {
+      (prisma.calendarFeed.findUnique as any).mockResolvedValue(null);
+
+      const calendar = await CalendarService.renderFeed('unknown', 'https://skillsync.app');
+
+      expect(calendar).toBeNull();
+      expect(prisma.session.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
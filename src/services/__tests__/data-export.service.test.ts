@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { strFromU8, unzipSync } from 'fflate';
+import { DataExportService } from '../data-export.service';
+import { LocalStorageAdapter, setStorageAdapter } from '@/lib/storage';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: { findUnique: vi.fn() },
+    dataExport: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    userSkill: { findMany: vi.fn() },
+    skillProgressEvent: { findMany: vi.fn() },
+    skillVerificationRequest: { findMany: vi.fn() },
+    skillEndorsement: { findMany: vi.fn() },
+    learningGoal: { findMany: vi.fn() },
+    userPreference: { findUnique: vi.fn() },
+    session: { findMany: vi.fn() },
+    sessionFeedback: { findMany: vi.fn() },
+    userAchievement: { findMany: vi.fn() },
+    userStats: { findUnique: vi.fn() },
+    matchingQueue: { findMany: vi.fn() },
+    upload: { findMany: vi.fn() },
+    oidcIdentity: { findMany: vi.fn() },
+    securityEvent: { findMany: vi.fn() },
+    userBlock: { findMany: vi.fn() },
+    userReport: { findMany: vi.fn() },
+    matchProposal: { findMany: vi.fn() },
+  },
+}));
+
+const USER_ID = '64b000000000000000000001';
+const PARTNER_ID = '64b000000000000000000002';
+const EXPORT_ID = '64b0000000000000000000e1';
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+const mockUser = {
+  id: USER_ID,
+  email: 'learner@example.com',
+  username: 'learner',
+  timezone: 'Europe/Berlin',
+  roles: ['member'],
+};
+
+function mockUserData() {
+  (prisma.user.findUnique as any).mockResolvedValue(mockUser);
+  (prisma.userSkill.findMany as any).mockResolvedValue([{ proficiencyLevel: 3, skill: { name: 'TypeScript', category: 'Programming' } }]);
+  (prisma.skillProgressEvent.findMany as any).mockResolvedValue([]);
+  (prisma.skillVerificationRequest.findMany as any).mockResolvedValue([]);
+  (prisma.skillEndorsement.findMany as any).mockResolvedValue([]);
+  (prisma.learningGoal.findMany as any).mockResolvedValue([{ title: 'Learn Rust' }]);
+  (prisma.userPreference.findUnique as any).mockResolvedValue({ communicationStyle: 'balanced' });
+  (prisma.session.findMany as any).mockResolvedValue([{
+    id: 'session-1',
+    initiatorId: PARTNER_ID,
+    partnerId: USER_ID,
+    sessionType: 'learning',
+    initiator: { username: 'mentor' },
+    partner: { username: 'learner' },
+  }]);
+  (prisma.sessionFeedback.findMany as any).mockResolvedValue([{ sessionId: 'session-1', userId: USER_ID, rating: 5 }]);
+  (prisma.userAchievement.findMany as any).mockResolvedValue([]);
+  (prisma.userStats.findUnique as any).mockResolvedValue({ totalSessions: 1 });
+  (prisma.matchingQueue.findMany as any).mockResolvedValue([{ sessionType: 'learning', status: 'matched' }]);
+  (prisma.upload.findMany as any).mockResolvedValue([]);
+  (prisma.oidcIdentity.findMany as any).mockResolvedValue([]);
+  (prisma.securityEvent.findMany as any).mockResolvedValue([]);
+  (prisma.userBlock.findMany as any).mockResolvedValue([{ createdAt: NOW, blocked: { username: 'spammer' } }]);
+  (prisma.userReport.findMany as any).mockResolvedValue([{
+    category: 'spam',
+    description: 'Kept posting links',
+    status: 'open',
+    reportedUser: { username: 'spammer' },
+  }]);
+  (prisma.matchProposal.findMany as any).mockResolvedValue([{
+    userId1: PARTNER_ID,
+    userId2: USER_ID,
+    user1: { username: 'mentor' },
+    user2: { username: 'learner' },
+    user1Response: 'accept',
+    user2Response: 'decline',
+    sessionType: 'learning',
+    topics: ['TypeScript'],
+    compatibilityScore: 82,
+    status: 'declined',
+    sessionId: null,
+    createdAt: NOW,
+    resolvedAt: NOW,
+  }]);
+}
+
+describe('DataExportService', () => {
+  let storageDir: string;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'skillsync-exports-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setStorageAdapter(new LocalStorageAdapter(storageDir));
+    mockUserData();
+  });
+
+  describe('requestExport', () => {
+    it('should queue a new export', async () => {
+      (prisma.dataExport.findFirst as any).mockResolvedValue(null);
+      (prisma.dataExport.create as any).mockResolvedValue({
+        id: EXPORT_ID, userId: USER_ID, format: 'zip', status: 'pending', size: null, createdAt: NOW, completedAt: null, expiresAt: null,
+      });
+
+      const dataExport = await DataExportService.requestExport(USER_ID, 'zip', NOW);
+
+      expect(dataExport).toMatchObject({ id: EXPORT_ID, status: 'pending' });
+      expect(prisma.dataExport.create).toHaveBeenCalledWith({
+        data: { userId: USER_ID, format: 'zip', status: 'pending' },
+      });
+    });
+
+    it('should not queue a second export while one is being prepared', async () => {
+      (prisma.dataExport.findFirst as any).mockResolvedValue({ status: 'processing', createdAt: NOW });
+
+      await expect(DataExportService.requestExport(USER_ID, 'json', NOW)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should allow one export per day', async () => {
+      (prisma.dataExport.findFirst as any).mockResolvedValue({
+        status: 'ready',
+        createdAt: new Date(NOW.getTime() - 2 * 60 * 60 * 1000),
+      });
+
+      await expect(DataExportService.requestExport(USER_ID, 'json', NOW)).rejects.toMatchObject({ statusCode: 429 });
+    });
+  });
+
+  describe('collectUserData', () => {
+    it('should gather every section and leave out secrets', async () => {
+      const data = await DataExportService.collectUserData(USER_ID);
+
+      expect(Object.keys(data)).toEqual(expect.arrayContaining([
+        'profile', 'skills', 'learningGoals', 'preferences', 'sessions', 'achievements', 'stats', 'queueHistory',
+      ]));
+      expect(prisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        select: expect.not.objectContaining({ passwordHash: true }),
+      }));
+    });
+
+    it('should include the user feedback and partner with each session', async () => {
+      const data = await DataExportService.collectUserData(USER_ID);
+
+      expect(data.sessions).toEqual([expect.objectContaining({
+        id: 'session-1',
+        role: 'partner',
+        partnerUsername: 'mentor',
+        yourFeedback: expect.objectContaining({ rating: 5 }),
+      })]);
+    });
+
+    it('should include blocks, reports filed and match proposals', async () => {
+      const data = await DataExportService.collectUserData(USER_ID);
+
+      expect(data.blocks).toEqual([{ username: 'spammer', createdAt: NOW }]);
+      expect(prisma.userReport.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { reporterId: USER_ID },
+      }));
+      expect(data.reportsFiled).toEqual([expect.objectContaining({ description: 'Kept posting links' })]);
+      expect(data.matchProposals).toEqual([expect.objectContaining({
+        partnerUsername: 'mentor',
+        yourResponse: 'decline',
+        status: 'declined',
+      })]);
+    });
+  });
+
+  describe('processExport', () => {
+    it('should build a ZIP with a file per section and mark the export ready', async () => {
+      (prisma.dataExport.updateMany as any).mockResolvedValue({ count: 1 });
+      (prisma.dataExport.findUnique as any).mockResolvedValue({ id: EXPORT_ID, userId: USER_ID, format: 'zip' });
+
+      await DataExportService.processExport(EXPORT_ID, NOW);
+
+      const storageKey = `exports/${USER_ID}/${EXPORT_ID}.zip`;
+      expect(prisma.dataExport.update).toHaveBeenCalledWith({
+        where: { id: EXPORT_ID },
+        data: expect.objectContaining({
+          status: 'ready',
+          storageKey,
+          expiresAt: new Date('2025-03-04T12:00:00Z'),
+        }),
+      });
+
+      const files = unzipSync(await fs.readFile(path.join(storageDir, storageKey)));
+      expect(Object.keys(files)).toEqual(expect.arrayContaining(['README.txt', 'profile.json', 'sessions.json', 'queueHistory.json']));
+      expect(JSON.parse(strFromU8(files['profile.json']!))).toMatchObject({ email: 'learner@example.com' });
+    });
+
+    it('should skip exports another worker has claimed', async () => {
+      (prisma.dataExport.updateMany as any).mockResolvedValue({ count: 0 });
+
+      await DataExportService.processExport(EXPORT_ID, NOW);
+
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+      expect(prisma.dataExport.update).not.toHaveBeenCalled();
+    });
+
+    it('should mark the export failed when gathering data fails', async () => {
+      (prisma.dataExport.updateMany as any).mockResolvedValue({ count: 1 });
+      (prisma.dataExport.findUnique as any).mockResolvedValue({ id: EXPORT_ID, userId: USER_ID, format: 'json' });
+      (prisma.session.findMany as any).mockRejectedValue(new Error('database down'));
+
+      await DataExportService.processExport(EXPORT_ID, NOW);
+
+      expect(prisma.dataExport.update).toHaveBeenCalledWith({
+        where: { id: EXPORT_ID },
+        data: expect.objectContaining({ status: 'failed', error: 'database down' }),
+      });
+    });
+  });
+
+  describe('getDownload', () => {
+    it('should only serve exports to their owner', async () => {
+      (prisma.dataExport.findUnique as any).mockResolvedValue({ id: EXPORT_ID, userId: PARTNER_ID, status: 'ready' });
+
+      await expect(DataExportService.getDownload(USER_ID, EXPORT_ID, NOW)).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should refuse expired exports', async () => {
+      (prisma.dataExport.findUnique as any).mockResolvedValue({
+        id: EXPORT_ID,
+        userId: USER_ID,
+        status: 'ready',
+        storageKey: `exports/${USER_ID}/${EXPORT_ID}.json`,
+        expiresAt: new Date(NOW.getTime() - 1000),
+      });
+
+      await expect(DataExportService.getDownload(USER_ID, EXPORT_ID, NOW)).rejects.toMatchObject({ statusCode: 410 });
+    });
+
+    it('should return the stored JSON archive', async () => {
+      const storageKey = `exports/${USER_ID}/${EXPORT_ID}.json`;
+      await new LocalStorageAdapter(storageDir).put(storageKey, Buffer.from('{"profile":{}}'));
+      (prisma.dataExport.findUnique as any).mockResolvedValue({
+        id: EXPORT_ID,
+        userId: USER_ID,
+        format: 'json',
+        status: 'ready',
+        storageKey,
+        createdAt: NOW,
+        expiresAt: new Date(NOW.getTime() + 1000),
+      });
+
+      const download = await DataExportService.getDownload(USER_ID, EXPORT_ID, NOW);
+
+      expect(download).toMatchObject({ filename: 'skillsync-data-2025-03-01.json', contentType: 'application/json' });
+      expect(download.content.toString()).toBe('{"profile":{}}');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EndorsementService } from '../endorsement.service';
+import { EndorsementError } from '@/lib/endorsements';
+import { broadcastToUser } from '@/lib/socket-server';
+import { SkillVerificationService } from '../skill-verification.service';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    session: {
+      findUnique: vi.fn(),
+    },
+    userSkill: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    skillEndorsement: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/socket-server', () => ({
+  broadcastToUser: vi.fn(),
+}));
+
+vi.mock('../skill-verification.service', () => ({
+  SkillVerificationService: {
+    evaluateSkill: vi.fn(),
+  },
+}));
+
+describe('EndorsementService', () => {
+  const session = {
+    id: 'session-1',
+    initiatorId: 'user-1',
+    partnerId: 'user-2',
+    status: 'completed',
+    initiator: { id: 'user-1', username: 'alice' },
+    partner: { id: 'user-2', username: 'bob' },
+  };
+
+  const partnerSkills = [
+    { skillId: 'skill-react', proficiencyLevel: 4, skill: { name: 'React', category: 'Frontend' } },
+    { skillId: 'skill-python', proficiencyLevel: 3, skill: { name: 'Python', category: 'Programming' } },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.session.findUnique as any).mockResolvedValue(session);
+  });
+
+  describe('endorseSkills', () => {
+    it('should endorse the partner\'s skills and update their endorsement counts', async () => {
+      (prisma.userSkill.findMany as any).mockResolvedValue(partnerSkills);
+      (prisma.skillEndorsement.findMany as any).mockResolvedValue([]);
+      (prisma.skillEndorsement.create as any).mockImplementation(({ data }: any) => Promise.resolve({
+        id: `endorsement-${data.skillId}`,
+        ...data,
+        endorser: { id: 'user-1', username: 'alice', avatarUrl: null },
+        createdAt: new Date('2025-01-10T12:00:00Z'),
+      }));
+
+      const result = await EndorsementService.endorseSkills('session-1', 'user-1', ['skill-react', 'skill-python']);
+
+      expect(result.endorsements).toHaveLength(2);
+      expect(prisma.skillEndorsement.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: { endorserId: 'user-1', endorseeId: 'user-2', skillId: 'skill-react', sessionId: 'session-1' },
+      }));
+      expect(prisma.userSkill.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-2', skillId: 'skill-react' },
+        data: { endorsements: { increment: 1 } },
+      });
+      expect(broadcastToUser).toHaveBeenCalledWith('user-2', 'skills_endorsed', expect.objectContaining({
+        skills: ['React', 'Python'],
+      }));
+      expect(SkillVerificationService.evaluateSkill).toHaveBeenCalledWith('user-2', 'skill-react');
+    });
+
+    it('should skip skills the user already endorsed for this partner', async () => {
+      (prisma.userSkill.findMany as any).mockResolvedValue(partnerSkills);
+      (prisma.skillEndorsement.findMany as any).mockResolvedValue([{ skillId: 'skill-react' }]);
+      (prisma.skillEndorsement.create as any).mockResolvedValue({
+        id: 'endorsement-1',
+        skillId: 'skill-python',
+        sessionId: 'session-1',
+        endorser: { id: 'user-1', username: 'alice', avatarUrl: null },
+        createdAt: new Date(),
+      });
+
+      const result = await EndorsementService.endorseSkills('session-1', 'user-1', ['skill-react', 'skill-python']);
+
+      expect(prisma.skillEndorsement.create).toHaveBeenCalledTimes(1);
+      expect(result.alreadyEndorsed).toEqual(['skill-react']);
+    });
+
+    it('should report a skill endorsed by a concurrent request as already endorsed', async () => {
+      (prisma.userSkill.findMany as any).mockResolvedValue(partnerSkills);
+      (prisma.skillEndorsement.findMany as any).mockResolvedValue([]);
+      (prisma.skillEndorsement.create as any)
+        .mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }))
+        .mockResolvedValueOnce({
+          id: 'endorsement-1',
+          skillId: 'skill-python',
+          sessionId: 'session-1',
+          endorser: { id: 'user-1', username: 'alice', avatarUrl: null },
+          createdAt: new Date(),
+        });
+
+      const result = await EndorsementService.endorseSkills('session-1', 'user-1', ['skill-react', 'skill-python']);
+
+      expect(result.endorsements.map(endorsement => endorsement.skillId)).toEqual(['skill-python']);
+      expect(result.alreadyEndorsed).toEqual(['skill-react']);
+      expect(prisma.userSkill.updateMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject when every skill was already endorsed', async () => {
+      (prisma.userSkill.findMany as any).mockResolvedValue([partnerSkills[0]]);
+      (prisma.skillEndorsement.findMany as any).mockResolvedValue([{ skillId: 'skill-react' }]);
+
+      await expect(EndorsementService.endorseSkills('session-1', 'user-1', ['skill-react']))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should reject skills that are not on the partner\'s profile', async () => {
+      (prisma.userSkill.findMany as any).mockResolvedValue([partnerSkills[0]]);
+
+      await expect(EndorsementService.endorseSkills('session-1', 'user-1', ['skill-react', 'skill-go']))
+        .rejects.toThrow(EndorsementError);
+      expect(prisma.skillEndorsement.create).not.toHaveBeenCalled();
+    });
+
+    it('should only allow endorsing after a completed session', async () => {
+      (prisma.session.findUnique as any).mockResolvedValue({ ...session, status: 'active' });
+
+      await expect(EndorsementService.endorseSkills('session-1', 'user-1', ['skill-react']))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should reject users who were not in the session', async () => {
+      await expect(EndorsementService.endorseSkills('session-1', 'user-3', ['skill-react']))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('revokeEndorsement', () => {
+    it('should delete the endorsement and decrement the count', async () => {
+      (prisma.skillEndorsement.findUnique as any).mockResolvedValue({ id: 'endorsement-1' });
+
+      await EndorsementService.revokeEndorsement('session-1', 'user-2', 'skill-go');
+
+      const where = { endorserId_endorseeId_skillId: { endorserId: 'user-2', endorseeId: 'user-1', skillId: 'skill-go' } };
+      expect(prisma.skillEndorsement.delete).toHaveBeenCalledWith({ where });
+      expect(prisma.userSkill.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', skillId: 'skill-go', endorsements: { gt: 0 } },
+        data: { endorsements: { decrement: 1 } },
+      });
+    });
+
+    it('should return 404 when there is nothing to revoke', async () => {
+      (prisma.skillEndorsement.findUnique as any).mockResolvedValue(null);
+
+      await expect(EndorsementService.revokeEndorsement('session-1', 'user-1', 'skill-react'))
+        .rejects.toMatchObject({ statusCode: 404 });
+      expect(prisma.skillEndorsement.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LoginSessionService } from '../login-session.service';
+import { RefreshTokenService } from '../refresh-token.service';
+import { describeDevice, maskIpAddress } from '@/lib/login-sessions';
+import { SessionSecurity } from '@/lib/security';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    refreshToken: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../refresh-token.service', () => ({
+  RefreshTokenService: {
+    getFamilyId: vi.fn(),
+  },
+}));
+
+const CHROME_MAC = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+
+describe('LoginSessionService', () => {
+  const laptop = {
+    familyId: 'family-laptop',
+    userAgent: CHROME_MAC,
+    ipAddress: '203.0.113.24',
+    fingerprint: SessionSecurity.createSessionFingerprint(CHROME_MAC, '203.0.113.24'),
+    createdAt: new Date('2025-03-02T09:00:00Z'),
+    expiresAt: new Date('2025-03-09T09:00:00Z'),
+  };
+  const phone = {
+    familyId: 'family-phone',
+    userAgent: SAFARI_IPHONE,
+    ipAddress: '198.51.100.7',
+    fingerprint: SessionSecurity.createSessionFingerprint(SAFARI_IPHONE, '198.51.100.7'),
+    createdAt: new Date('2025-03-01T18:00:00Z'),
+    expiresAt: new Date('2025-03-08T18:00:00Z'),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.refreshToken.findMany as any)
+      .mockResolvedValueOnce([laptop, phone])
+      .mockResolvedValueOnce([
+        { familyId: 'family-phone', createdAt: new Date('2025-02-20T08:00:00Z') },
+        { familyId: 'family-laptop', createdAt: new Date('2025-02-28T10:00:00Z') },
+        { familyId: 'family-laptop', createdAt: new Date('2025-03-02T09:00:00Z') },
+      ]);
+  });
+
+  describe('listSessions', () => {
+    it('should describe each signed-in device and flag the current one', async () => {
+      (RefreshTokenService.getFamilyId as any).mockResolvedValue('family-laptop');
+
+      const sessions = await LoginSessionService.listSessions('user-1', { refreshToken: 'cookie-token' });
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions[0]).toMatchObject({
+        id: 'family-laptop',
+        browser: 'Chrome',
+        os: 'macOS',
+        deviceType: 'desktop',
+        ipAddress: '203.0.113.x',
+        signedInAt: new Date('2025-02-28T10:00:00Z'),
+        lastSeenAt: new Date('2025-03-02T09:00:00Z'),
+        isCurrent: true,
+      });
+      expect(sessions[1]).toMatchObject({ os: 'iOS', deviceType: 'mobile', isCurrent: false });
+    });
+
+    it('should fall back to the fingerprint without a refresh token cookie', async () => {
+      const sessions = await LoginSessionService.listSessions('user-1', {
+        userAgent: SAFARI_IPHONE,
+        ipAddress: '198.51.100.7',
+      });
+
+      expect(sessions.find(session => session.isCurrent)?.id).toBe('family-phone');
+    });
+  });
+
+  describe('revokeOtherSessions', () => {
+    it('should revoke every family except the current one', async () => {
+      (RefreshTokenService.getFamilyId as any).mockResolvedValue('family-laptop');
+      (prisma.refreshToken.updateMany as any).mockResolvedValue({ count: 1 });
+
+      const revoked = await LoginSessionService.revokeOtherSessions('user-1', { refreshToken: 'cookie-token' });
+
+      expect(revoked).toBe(1);
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', familyId: { not: 'family-laptop' }, revokedAt: null },
+        data: expect.objectContaining({ revokedReason: 'signed_out_remotely' }),
+      });
+    });
+
+    it('should refuse when the current session is unknown', async () => {
+      (RefreshTokenService.getFamilyId as any).mockResolvedValue(null);
+
+      await expect(LoginSessionService.revokeOtherSessions('user-1', { refreshToken: 'revoked-token' }))
+        .rejects.toMatchObject({ statusCode: 400 });
+      expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should return 404 for sessions of other users', async () => {
+      (prisma.refreshToken.updateMany as any).mockResolvedValue({ count: 0 });
+
+      await expect(LoginSessionService.revokeSession('user-1', 'family-of-someone-else'))
+        .rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('device description', () => {
+    it('should mask the host part of IP addresses', () => {
+      expect(maskIpAddress('203.0.113.24')).toBe('203.0.113.x');
+      expect(maskIpAddress('::ffff:10.1.2.3')).toBe('10.1.2.x');
+      expect(maskIpAddress('2001:db8:85a3:0:0:8a2e:370:7334')).toBe('2001:db8:85a3::');
+      expect(maskIpAddress('unknown')).toBeNull();
+    });
+
+    it('should handle a missing user agent', () => {
+      expect(describeDevice(null)).toEqual({ browser: 'Unknown', browserVersion: null, os: 'Unknown', deviceType: 'unknown' });
+    });
+  });
+});
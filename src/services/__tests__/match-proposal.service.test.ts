@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MatchProposalService } from '../match-proposal.service';
+import { QueueManagerService } from '../queue-manager.service';
+import { SessionService } from '../session.service';
+import { MatchProposalError } from '@/lib/match-proposal';
+import prisma from '@/lib/prisma';
+
+const tx = {
+  matchingQueue: {
+    updateMany: vi.fn(),
+  },
+  matchProposal: {
+    create: vi.fn(),
+  },
+};
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    matchProposal: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+  withTransaction: vi.fn((callback: (client: typeof tx) => Promise<unknown>) => callback(tx)),
+}));
+
+vi.mock('../queue-manager.service', () => ({
+  QueueManagerService: {
+    holdForProposal: vi.fn(),
+    requeueHeld: vi.fn(),
+    releaseHeld: vi.fn(),
+    publishProposalUpdate: vi.fn(),
+  },
+}));
+
+vi.mock('../session.service', () => ({
+  SessionService: { createMatchedSession: vi.fn() },
+}));
+
+const NOW = new Date('2026-03-02T10:00:00Z');
+
+function proposal(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'proposal-1',
+    userId1: 'learner',
+    userId2: 'mentor',
+    sessionType: 'learning',
+    topics: ['TypeScript'],
+    compatibilityScore: 0.8,
+    status: 'pending',
+    user1Response: null,
+    user2Response: null,
+    declinedBy: null,
+    sessionId: null,
+    expiresAt: new Date(NOW.getTime() + 30000),
+    createdAt: NOW,
+    resolvedAt: null,
+    ...overrides,
+  };
+}
+
+describe('MatchProposalService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.matchProposal.updateMany as any).mockResolvedValue({ count: 1 });
+    (QueueManagerService.requeueHeld as any).mockResolvedValue(true);
+  });
+
+  describe('createProposal', () => {
+    const request = {
+      userId: 'learner',
+      preferredSkills: ['TypeScript'],
+      sessionType: 'learning' as const,
+      maxDuration: 60,
+      urgency: 'medium' as const,
+    };
+    const match = {
+      partnerId: 'mentor',
+      compatibilityScore: 0.8,
+      scoreBreakdown: {
+        skillCompatibility: 0.8,
+        timezoneCompatibility: 0.8,
+        availabilityCompatibility: 0.8,
+        communicationCompatibility: 0.8,
+        sessionHistoryCompatibility: 0.8,
+        totalScore: 0.8,
+      },
+    };
+
+    it('should claim both queue entries, hold them and notify both users', async () => {
+      tx.matchingQueue.updateMany.mockResolvedValue({ count: 2 });
+      tx.matchProposal.create.mockResolvedValue(proposal());
+
+      const view = await MatchProposalService.createProposal(request, match, NOW);
+
+      expect(tx.matchingQueue.updateMany).toHaveBeenCalledWith({
+        where: { userId: { in: ['learner', 'mentor'] }, status: 'waiting' },
+        data: { status: 'proposed' },
+      });
+      expect(tx.matchProposal.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId1: 'learner', userId2: 'mentor', expiresAt: new Date(NOW.getTime() + 30000) }),
+      });
+      expect(QueueManagerService.holdForProposal).toHaveBeenCalledWith(['learner', 'mentor'], 30000);
+      expect(QueueManagerService.publishProposalUpdate).toHaveBeenCalledWith('match_proposed', expect.objectContaining({
+        proposalId: 'proposal-1',
+        userId1: 'learner',
+        userId2: 'mentor',
+      }));
+      expect(view).toEqual(expect.objectContaining({ id: 'proposal-1', partnerId: 'mentor', status: 'pending' }));
+    });
+
+    it('should not propose when either user is no longer waiting', async () => {
+      tx.matchingQueue.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(MatchProposalService.createProposal(request, match, NOW))
+        .rejects.toThrow('no longer available');
+
+      expect(tx.matchProposal.create).not.toHaveBeenCalled();
+      expect(QueueManagerService.holdForProposal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('respond', () => {
+    it('should wait for the partner after the first accept', async () => {
+      (prisma.matchProposal.findUnique as any).mockResolvedValue(proposal());
+      (prisma.matchProposal.updateMany as any)
+        .mockResolvedValueOnce({ count: 1 }) // answer recorded
+        .mockResolvedValueOnce({ count: 0 }); // partner hasn't accepted yet
+
+      const view = await MatchProposalService.respond('learner', 'proposal-1', 'accept', NOW);
+
+      expect(view).toEqual(expect.objectContaining({ status: 'pending', response: 'accept', partnerAccepted: false }));
+      expect(SessionService.createMatchedSession).not.toHaveBeenCalled();
+      expect(QueueManagerService.publishProposalUpdate).toHaveBeenCalledWith('match_proposal_accepted', {
+        proposalId: 'proposal-1',
+        userId: 'learner',
+        partnerId: 'mentor',
+      });
+    });
+
+    it('should create the session when the second user accepts', async () => {
+      (prisma.matchProposal.findUnique as any).mockResolvedValue(proposal({ user1Response: 'accept' }));
+      (SessionService.createMatchedSession as any).mockResolvedValue({ id: 'session-1' });
+
+      const view = await MatchProposalService.respond('mentor', 'proposal-1', 'accept', NOW);
+
+      expect(prisma.matchProposal.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'proposal-1', status: 'pending', user1Response: 'accept', user2Response: 'accept' },
+        data: { status: 'accepted', resolvedAt: NOW },
+      });
+      expect(SessionService.createMatchedSession).toHaveBeenCalledWith(
+        { userId: 'learner', sessionType: 'learning', preferredSkills: ['TypeScript'] },
+        { partnerId: 'mentor', compatibilityScore: 0.8 }
+      );
+      expect(prisma.matchProposal.update).toHaveBeenCalledWith({
+        where: { id: 'proposal-1' },
+        data: { sessionId: 'session-1' },
+      });
+      expect(view).toEqual(expect.objectContaining({ status: 'accepted', sessionId: 'session-1', partnerId: 'learner' }));
+    });
+
+    it('should put the other user back in the queue and drop the one who declined', async () => {
+      (prisma.matchProposal.findUnique as any)
+        .mockResolvedValueOnce(proposal({ user1Response: 'accept' }))
+        .mockResolvedValueOnce(proposal({ status: 'declined', user1Response: 'accept', user2Response: 'decline', declinedBy: 'mentor' }));
+
+      const view = await MatchProposalService.respond('mentor', 'proposal-1', 'decline', NOW);
+
+      expect(view.status).toBe('declined');
+      expect(prisma.matchProposal.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'proposal-1', status: 'pending' },
+        data: { status: 'declined', resolvedAt: NOW, declinedBy: 'mentor' },
+      });
+      expect(QueueManagerService.requeueHeld).toHaveBeenCalledWith('learner');
+      expect(QueueManagerService.releaseHeld).toHaveBeenCalledWith('mentor');
+      expect(QueueManagerService.publishProposalUpdate).toHaveBeenCalledWith('match_proposal_closed', {
+        proposalId: 'proposal-1',
+        status: 'declined',
+        users: [
+          { userId: 'learner', requeued: true },
+          { userId: 'mentor', requeued: false },
+        ],
+      });
+      expect(SessionService.createMatchedSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject answers from anyone outside the proposal', async () => {
+      (prisma.matchProposal.findUnique as any).mockResolvedValue(proposal());
+
+      await expect(MatchProposalService.respond('stranger', 'proposal-1', 'accept', NOW))
+        .rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it('should reject a second answer from the same user', async () => {
+      (prisma.matchProposal.findUnique as any).mockResolvedValue(proposal({ user1Response: 'accept' }));
+      (prisma.matchProposal.updateMany as any).mockResolvedValueOnce({ count: 0 });
+
+      await expect(MatchProposalService.respond('learner', 'proposal-1', 'decline', NOW))
+        .rejects.toThrow(MatchProposalError);
+    });
+
+    it('should expire a proposal answered after its window', async () => {
+      (prisma.matchProposal.findUnique as any).mockResolvedValue(proposal({ expiresAt: new Date(NOW.getTime() - 1000) }));
+
+      await expect(MatchProposalService.respond('learner', 'proposal-1', 'accept', NOW))
+        .rejects.toMatchObject({ statusCode: 410 });
+
+      expect(prisma.matchProposal.updateMany).toHaveBeenCalledWith({
+        where: { id: 'proposal-1', status: 'pending' },
+        data: { status: 'expired', resolvedAt: NOW },
+      });
+    });
+  });
+
+  describe('expireStale', () => {
+    it('should requeue users who accepted and drop users who never answered', async () => {
+      const stale = proposal({ user1Response: 'accept', expiresAt: new Date(NOW.getTime() - 1000) });
+      (prisma.matchProposal.findMany as any).mockResolvedValue([stale]);
+      (prisma.matchProposal.findUnique as any).mockResolvedValue({ ...stale, status: 'expired' });
+
+      const expired = await MatchProposalService.expireStale(NOW);
+
+      expect(expired).toBe(1);
+      expect(QueueManagerService.requeueHeld).toHaveBeenCalledWith('learner');
+      expect(QueueManagerService.releaseHeld).toHaveBeenCalledWith('mentor');
+    });
+
+    it('should leave proposals another worker already settled', async () => {
+      (prisma.matchProposal.findMany as any).mockResolvedValue([proposal({ expiresAt: new Date(NOW.getTime() - 1000) })]);
+      (prisma.matchProposal.updateMany as any).mockResolvedValue({ count: 0 });
+
+      const expired = await MatchProposalService.expireStale(NOW);
+
+      expect(expired).toBe(0);
+      expect(QueueManagerService.requeueHeld).not.toHaveBeenCalled();
+      expect(QueueManagerService.publishProposalUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withdrawUser', () => {
+    it('should decline pending proposals for the user and requeue their partners', async () => {
+      (prisma.matchProposal.findMany as any).mockResolvedValue([proposal()]);
+      (prisma.matchProposal.findUnique as any).mockResolvedValue(proposal({ status: 'declined', declinedBy: 'mentor' }));
+
+      const withdrawn = await MatchProposalService.withdrawUser('mentor', NOW);
+
+      expect(withdrawn).toBe(1);
+      expect(prisma.matchProposal.updateMany).toHaveBeenCalledWith({
+        where: { id: 'proposal-1', status: 'pending' },
+        data: { status: 'declined', resolvedAt: NOW, declinedBy: 'mentor' },
+      });
+      expect(QueueManagerService.requeueHeld).toHaveBeenCalledWith('learner');
+      expect(QueueManagerService.releaseHeld).toHaveBeenCalledWith('mentor');
+    });
+  });
+
+  describe('getRecentlyDeclinedIds', () => {
+    it('should return the other user of each recent decline', async () => {
+      (prisma.matchProposal.findMany as any).mockResolvedValue([
+        { userId1: 'learner', userId2: 'mentor' },
+        { userId1: 'peer', userId2: 'learner' },
+      ]);
+
+      const declined = await MatchProposalService.getRecentlyDeclinedIds('learner', NOW);
+
+      expect(declined).toEqual(new Set(['mentor', 'peer']));
+      expect(prisma.matchProposal.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          status: 'declined',
+          resolvedAt: { gte: new Date(NOW.getTime() - 24 * 60 * 60 * 1000) },
+        }),
+      }));
+    });
+  });
+});
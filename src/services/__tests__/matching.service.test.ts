@@ -1,6 +1,14 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { MatchingService } from '../matching.service';
 import { UserProfile, UserSkill, AvailabilitySchedule } from '../../types';
+import {
+  MATCHING_WEIGHTS,
+  SKILL_VERIFICATION_BONUS,
+  resolveMatchingWeights,
+  validateWeights,
+} from '../../lib/matching-config';
+import { explainMatch } from '../../lib/match-explanation';
+import prisma from '../../lib/prisma';
 
 // Mock Prisma
 vi.mock('../../lib/prisma', () => ({
@@ -144,6 +152,27 @@ describe('MatchingService', () => {
 
       expect(score).toBeGreaterThan(scoreWithoutPreference);
     });
+
+    it('should give a bonus when the candidate\'s skill is verified', () => {
+      const requesterSkills = [createSkill('JavaScript', 3)];
+      const unverified = [createSkill('JavaScript', 3)];
+      const verified = [{ ...createSkill('JavaScript', 3), verified: true }];
+
+      const unverifiedScore = (MatchingService as any).calculateSkillCompatibility(
+        requesterSkills,
+        unverified,
+        ['JavaScript'],
+        'learning'
+      );
+      const verifiedScore = (MatchingService as any).calculateSkillCompatibility(
+        requesterSkills,
+        verified,
+        ['JavaScript'],
+        'learning'
+      );
+
+      expect(verifiedScore).toBeCloseTo(unverifiedScore + SKILL_VERIFICATION_BONUS, 5);
+    });
   });
 
   describe('Timezone Compatibility Calculation', () => {
@@ -389,4 +418,260 @@ describe('MatchingService', () => {
       expect(score).toBe(0.5); // Default fallback
     });
   });
-});
\ No newline at end of file
+
+  // Profiles for tests that score whole users rather than single factors
+  const schedule = (monday: Array<{ start: string; end: string }>, wednesday: Array<{ start: string; end: string }> = []) => ({
+    monday, tuesday: [], wednesday, thursday: [], friday: [], saturday: [], sunday: [],
+  }) as AvailabilitySchedule;
+
+  const profile = (
+    id: string,
+    overrides: {
+      timezone?: string;
+      skills?: Array<[string, number, boolean?]>;
+      availability?: AvailabilitySchedule;
+      languages?: string[];
+      stats?: { totalSessions: number; averageRating: number | null };
+      prefs?: Record<string, unknown>;
+    } = {}
+  ) => ({
+    id,
+    timezone: overrides.timezone ?? 'UTC',
+    skills: (overrides.skills ?? []).map(([name, level, verified]) => ({
+      id: `${id}-${name}`,
+      skillId: name,
+      skill: { id: name, name, category: 'Programming', createdAt: new Date() },
+      proficiencyLevel: level,
+      verified: verified ?? false,
+      endorsements: 0,
+      createdAt: new Date(),
+    })),
+    preferences: {
+      id: `${id}-prefs`,
+      preferredSessionTypes: ['learning'],
+      maxSessionDuration: 60,
+      communicationStyle: 'balanced',
+      availabilitySchedule: overrides.availability ?? schedule([{ start: '09:00', end: '12:00' }]),
+      languagePreferences: overrides.languages ?? ['English'],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides.prefs,
+    },
+    stats: overrides.stats ?? { totalSessions: 10, averageRating: 4.2, currentStreak: 2 },
+  }) as unknown as UserProfile;
+
+  describe('Match Explanation', () => {
+    const breakdown = {
+      skillCompatibility: 0.9,
+      timezoneCompatibility: 0.5,
+      availabilityCompatibility: 0.8,
+      communicationCompatibility: 0.7,
+      sessionHistoryCompatibility: 0.6,
+      totalScore: 0.75,
+    };
+
+    it('should explain complementary skills, shared windows, languages and past ratings', () => {
+      const explanation = explainMatch({
+        requester: profile('learner', {
+          skills: [['TypeScript', 2]],
+          availability: schedule([{ start: '09:00', end: '12:00' }], [{ start: '18:00', end: '20:00' }]),
+          languages: ['English', 'Spanish'],
+        }),
+        candidate: profile('mentor', {
+          skills: [['TypeScript', 4, true]],
+          availability: schedule([{ start: '10:00', end: '14:00' }], [{ start: '19:00', end: '21:00' }]),
+          languages: ['Spanish'],
+        }),
+        sessionType: 'learning',
+        preferredSkills: ['TypeScript'],
+        scoreBreakdown: breakdown,
+        sharedSessions: { count: 2, averageRating: 4.5 },
+      });
+
+      expect(explanation.reasons).toEqual([
+        'Knows TypeScript (verified) two levels above you',
+        'You\'ve had 2 sessions together, rated 4.5/5 on average',
+        'You\'re both free Monday 10:00-12:00 and Wednesday 19:00-20:00',
+        'Speaks Spanish',
+        'Prefers a balanced style like you',
+      ]);
+      expect(explanation.caveats).toEqual([]);
+    });
+
+    it('should read each schedule in its owner\'s timezone', () => {
+      const explain = (candidateMonday: Array<{ start: string; end: string }>) => explainMatch({
+        requester: profile('learner', { skills: [['TypeScript', 2]], availability: schedule([{ start: '09:00', end: '12:00' }]) }),
+        candidate: profile('mentor', {
+          skills: [['TypeScript', 4]],
+          timezone: 'America/New_York',
+          availability: schedule(candidateMonday),
+        }),
+        sessionType: 'learning',
+        preferredSkills: ['TypeScript'],
+        scoreBreakdown: breakdown,
+        sharedSessions: { count: 0, averageRating: null },
+        now: new Date('2026-01-05T00:00:00Z'), // a Monday, New York on UTC-5
+      });
+
+      // The same wall-clock hours are five hours apart
+      expect(explain([{ start: '09:00', end: '12:00' }]).caveats).toContain('Your weekly availability doesn\'t overlap');
+      expect(explain([{ start: '05:00', end: '08:00' }]).reasons).toContain('You\'re both free Monday 10:00-12:00 your time');
+    });
+
+    it('should raise caveats for missing skills, distant timezones and no overlap', () => {
+      const explanation = explainMatch({
+        requester: profile('learner', { skills: [['TypeScript', 3]], timezone: 'America/New_York' }),
+        candidate: profile('peer', {
+          skills: [['TypeScript', 3]],
+          timezone: 'Asia/Tokyo',
+          availability: schedule([{ start: '14:00', end: '17:00' }]),
+          stats: { totalSessions: 0, averageRating: null },
+        }),
+        sessionType: 'learning',
+        preferredSkills: ['TypeScript', 'Rust'],
+        scoreBreakdown: { ...breakdown, skillCompatibility: 0.3, timezoneCompatibility: 0.1, availabilityCompatibility: 0.1 },
+        sharedSessions: { count: 0, averageRating: null },
+        now: new Date('2026-03-02T10:00:00Z'),
+      });
+
+      expect(explanation.caveats).toEqual([
+        'Is 14 hours from your timezone',
+        'Your weekly availability doesn\'t overlap',
+        'Isn\'t ahead of you in TypeScript',
+      ]);
+      expect(explanation.reasons.some(reason => reason.includes('free'))).toBe(false);
+    });
+
+    it('should keep only the reasons from the strongest factors', () => {
+      const explanation = explainMatch({
+        requester: profile('a', { skills: [['React', 3]] }),
+        candidate: profile('b', { skills: [['React', 3]] }),
+        sessionType: 'collaboration',
+        preferredSkills: ['React'],
+        scoreBreakdown: { ...breakdown, skillCompatibility: 0.2, timezoneCompatibility: 1 },
+        sharedSessions: { count: 0, averageRating: null },
+      });
+
+      expect(explanation.reasons).toHaveLength(5);
+      expect(explanation.reasons[0]).toBe('Lives in your timezone');
+      expect(explanation.reasons).toContain('Rated 4.2/5 across 10 sessions');
+      expect(explanation.reasons).not.toContain('Knows React at the same level as you');
+    });
+
+    it('should summarize the ratings of completed sessions between two users', async () => {
+      (prisma.session.findMany as any).mockResolvedValue([
+        { ratingInitiator: 5, ratingPartner: 4 },
+        { ratingInitiator: null, ratingPartner: 3 },
+      ]);
+
+      const summary = await (MatchingService as any).getSharedSessionSummary('a', 'b');
+
+      expect(summary).toEqual({ count: 2, averageRating: 4 });
+    });
+  });
+
+  describe('Per-user Matching Preferences', () => {
+    const request = {
+      userId: 'learner',
+      preferredSkills: ['TypeScript'],
+      sessionType: 'learning' as const,
+      maxDuration: 60,
+      urgency: 'medium' as const,
+    };
+
+    beforeEach(() => {
+      (prisma.session.findMany as any).mockResolvedValue([]);
+    });
+
+    it('should keep the default weights without importance levels', () => {
+      expect(resolveMatchingWeights(null)).toEqual(MATCHING_WEIGHTS);
+      expect(resolveMatchingWeights({ skill: 3, timezone: 3 })).toEqual(MATCHING_WEIGHTS);
+    });
+
+    it('should shift weight toward important factors and still total 100%', () => {
+      const weights = resolveMatchingWeights({ timezone: 5, sessionHistory: 1 });
+
+      expect(validateWeights(weights)).toBe(true);
+      expect(weights.TIMEZONE_COMPATIBILITY).toBeGreaterThan(MATCHING_WEIGHTS.TIMEZONE_COMPATIBILITY);
+      expect(weights.SESSION_HISTORY_COMPATIBILITY).toBeLessThan(MATCHING_WEIGHTS.SESSION_HISTORY_COMPATIBILITY);
+      expect(weights.SESSION_HISTORY_COMPATIBILITY).toBeGreaterThan(0); // turned down, never ignored
+    });
+
+    it('should score with the requester\'s own weights', async () => {
+      const candidate = profile('mentor', { skills: [['TypeScript', 4]], timezone: 'Asia/Tokyo' });
+      const byDefault = await (MatchingService as any).calculateCompatibilityScore(
+        profile('learner', { skills: [['TypeScript', 2]] }),
+        candidate,
+        request
+      );
+      const caresAboutTimezone = await (MatchingService as any).calculateCompatibilityScore(
+        profile('learner', { skills: [['TypeScript', 2]], prefs: { matchingImportance: { timezone: 5 } } }),
+        candidate,
+        request
+      );
+
+      expect(caresAboutTimezone.scoreBreakdown.timezoneCompatibility).toBe(byDefault.scoreBreakdown.timezoneCompatibility);
+      expect(caresAboutTimezone.compatibilityScore).toBeLessThan(byDefault.compatibilityScore);
+    });
+
+    it('should filter out candidates that fail a hard filter', async () => {
+      const requester = profile('learner', {
+        skills: [['TypeScript', 2]],
+        timezone: 'Europe/London',
+        prefs: { sameLanguageOnly: true, maxTimezoneGapHours: 3, verifiedSkillsOnly: true },
+      });
+
+      const check = async (candidate: UserProfile) => {
+        const scored = await (MatchingService as any).calculateCompatibilityScore(requester, candidate, request);
+        return { filteredBy: scored.filteredBy, qualifies: (MatchingService as any).meetsThresholds(scored) };
+      };
+
+      expect(await check(profile('a', { skills: [['TypeScript', 4, true]], timezone: 'Europe/Berlin' })))
+        .toEqual({ filteredBy: undefined, qualifies: true });
+      expect(await check(profile('b', { skills: [['TypeScript', 4, true]], languages: ['Japanese'] })))
+        .toEqual({ filteredBy: 'sameLanguageOnly', qualifies: false });
+      expect(await check(profile('c', { skills: [['TypeScript', 4, true]], timezone: 'Asia/Tokyo' })))
+        .toEqual({ filteredBy: 'maxTimezoneGapHours', qualifies: false });
+      expect(await check(profile('d', { skills: [['TypeScript', 4]] })))
+        .toEqual({ filteredBy: 'verifiedSkillsOnly', qualifies: false });
+    });
+
+    it('should honor the candidate\'s filters when the requester looks for a match', () => {
+      const candidate = profile('mentor', { skills: [['TypeScript', 4]], prefs: { verifiedSkillsOnly: true } });
+
+      expect((MatchingService as any).getFilterViolation(candidate, profile('learner', { skills: [['TypeScript', 2]] }), []))
+        .toBe('verifiedSkillsOnly');
+      expect((MatchingService as any).getFilterViolation(candidate, profile('learner', { skills: [['TypeScript', 2, true]] }), []))
+        .toBeNull();
+    });
+  });
+
+  describe('Session History', () => {
+    it('should group completed sessions by pair whichever side started them', async () => {
+      const session = (initiatorId: string, partnerId: string, rating: number) => ({
+        initiatorId, partnerId, ratingInitiator: rating, ratingPartner: rating, sessionType: 'learning', createdAt: new Date(),
+      });
+      (prisma.session.findMany as any).mockResolvedValue([
+        session('alice', 'bob', 5),
+        session('bob', 'alice', 4),
+        session('carol', 'alice', 3),
+      ]);
+
+      const history = await (MatchingService as any).getSessionHistoryBetween(['alice', 'bob', 'carol']);
+
+      expect(prisma.session.findMany).toHaveBeenCalledTimes(1);
+      expect(history.get('alice:bob')).toHaveLength(2);
+      expect(history.get('alice:carol')).toHaveLength(1);
+      expect(history.has('bob:carol')).toBe(false);
+    });
+
+    it('should score from sessions already loaded without querying again', async () => {
+      const score = await (MatchingService as any).calculateSessionHistoryCompatibility('alice', 'bob', null, null, [
+        { initiatorId: 'alice', partnerId: 'bob', ratingInitiator: 5, ratingPartner: 5, sessionType: 'learning', createdAt: new Date() },
+      ]);
+
+      expect(score).toBe(1);
+      expect(prisma.session.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
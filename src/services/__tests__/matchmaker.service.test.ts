@@ -0,0 +1,386 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MatchmakerService } from '../matchmaker.service';
+import { MatchingService, MatchingRequest } from '../matching.service';
+import { QueueEntry, QueueManagerService } from '../queue-manager.service';
+import { MatchProposalService } from '../match-proposal.service';
+import { BlockService } from '../block.service';
+import { MATCHMAKER_CONFIG, selectGreedyPairs, selectMutualBestPairs, selectOptimalPairs, summarizePairing } from '@/lib/matchmaker';
+import { maxWeightMatching } from '@/lib/max-weight-matching';
+import { MatchingAnalytics } from '@/lib/matching-analytics';
+import redis from '@/lib/redis';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {},
+}));
+
+vi.mock('@/lib/redis', () => ({
+  default: {
+    set: vi.fn(),
+    eval: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/matching-analytics', () => ({
+  MatchingAnalytics: { recordMatchingAttempt: vi.fn(), recordBatchComparison: vi.fn() },
+}));
+
+vi.mock('../queue-manager.service', () => ({
+  QueueManagerService: { getWaitingEntries: vi.fn() },
+}));
+
+vi.mock('../match-proposal.service', () => ({
+  MatchProposalService: {
+    createProposal: vi.fn(),
+    expireStale: vi.fn(),
+    getRecentlyDeclinedIds: vi.fn(),
+  },
+}));
+
+vi.mock('../block.service', () => ({
+  BlockService: { getBlockedUserIds: vi.fn() },
+}));
+
+const NOW = Date.now();
+
+function entry(userId: string, sessionType: QueueEntry['sessionType']): QueueEntry {
+  return {
+    id: `${userId}_${NOW}`,
+    userId,
+    preferredSkills: ['TypeScript'],
+    sessionType,
+    maxDuration: 60,
+    urgency: 'medium',
+    joinedAt: NOW,
+    expiresAt: NOW + 30 * 60 * 1000,
+    priority: 500,
+  };
+}
+
+const breakdown = {
+  skillCompatibility: 0.8,
+  timezoneCompatibility: 0.8,
+  availabilityCompatibility: 0.8,
+  communicationCompatibility: 0.8,
+  sessionHistoryCompatibility: 0.8,
+  totalScore: 0.8,
+};
+
+describe('selectMutualBestPairs', () => {
+  it('should pair users who are each other\'s best option, then move on to the rest', () => {
+    const pairs = [
+      { userId1: 'a', userId2: 'b', compatibilityScore: 0.9 },
+      { userId1: 'b', userId2: 'c', compatibilityScore: 0.95 },
+      { userId1: 'a', userId2: 'd', compatibilityScore: 0.6 },
+      { userId1: 'c', userId2: 'd', compatibilityScore: 0.5 },
+    ];
+
+    expect(selectMutualBestPairs(pairs)).toEqual([pairs[1], pairs[2]]);
+  });
+
+  it('should never use a user twice', () => {
+    const pairs = [
+      { userId1: 'a', userId2: 'b', compatibilityScore: 0.7 },
+      { userId1: 'a', userId2: 'c', compatibilityScore: 0.7 },
+    ];
+
+    expect(selectMutualBestPairs(pairs)).toEqual([pairs[0]]);
+  });
+});
+
+describe('maxWeightMatching', () => {
+  it('should give up the heaviest edge when two lighter ones weigh more together', () => {
+    // a-b 5, b-c 6, c-d 5: taking b-c leaves a and d unmatched
+    expect(maxWeightMatching([[0, 1, 5], [1, 2, 6], [2, 3, 5]])).toEqual([1, 0, 3, 2]);
+  });
+
+  it('should handle odd cycles', () => {
+    const mate = maxWeightMatching([[0, 1, 8], [1, 2, 9], [0, 2, 10], [2, 3, 7]]);
+
+    expect(mate).toEqual([1, 0, 3, 2]);
+  });
+
+  it('should only prefer more pairs over weight when asked to', () => {
+    const edges: [number, number, number][] = [[0, 1, 2], [1, 2, 10], [2, 3, 2]];
+
+    expect(maxWeightMatching(edges)).toEqual([-1, 2, 1, -1]);
+    expect(maxWeightMatching(edges, true)).toEqual([1, 0, 3, 2]);
+  });
+});
+
+describe('batch pairing', () => {
+  const pairs = [
+    { userId1: 'a', userId2: 'b', compatibilityScore: 0.7 },
+    { userId1: 'b', userId2: 'c', compatibilityScore: 0.9 },
+    { userId1: 'c', userId2: 'd', compatibilityScore: 0.7 },
+  ];
+  const joinedAt = new Map(['a', 'b', 'c', 'd'].map(userId => [userId, NOW] as [string, number]));
+
+  it('should match more users than greedy when that scores higher overall', () => {
+    const optimal = selectOptimalPairs(pairs, joinedAt, NOW);
+    const greedy = selectGreedyPairs(pairs, ['b', 'a', 'c', 'd']);
+
+    expect(optimal).toEqual([pairs[0], pairs[2]]);
+    expect(greedy).toEqual([pairs[1]]);
+    expect(summarizePairing(optimal, joinedAt, NOW).totalScore).toBe(1.4);
+    expect(summarizePairing(greedy, joinedAt, NOW).totalScore).toBe(0.9);
+  });
+
+  it('should boost a user who has been waiting a long time', () => {
+    const triangle = [
+      { userId1: 'a', userId2: 'b', compatibilityScore: 0.9 },
+      { userId1: 'a', userId2: 'c', compatibilityScore: 0.8 },
+    ];
+    const waited = new Map([['a', NOW], ['b', NOW], ['c', NOW - 20 * 60 * 1000]] as [string, number][]);
+
+    expect(selectOptimalPairs(triangle, joinedAt, NOW)).toEqual([triangle[0]]);
+    expect(selectOptimalPairs(triangle, waited, NOW)).toEqual([triangle[1]]);
+  });
+
+  it('should report the longest wait left unmatched', () => {
+    const waited = new Map([['a', NOW - 60000], ['b', NOW - 30000], ['c', NOW - 90000]] as [string, number][]);
+
+    expect(summarizePairing([pairs[0]], waited, NOW)).toEqual({
+      pairs: 1,
+      matchedUsers: 2,
+      totalScore: 0.7,
+      averageScore: 0.7,
+      averageMatchedWaitMs: 45000,
+      longestUnmatchedWaitMs: 90000,
+    });
+  });
+});
+
+describe('MatchmakerService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (redis.set as any).mockResolvedValue('OK');
+    (MatchProposalService.expireStale as any).mockResolvedValue(0);
+    (MatchProposalService.createProposal as any).mockResolvedValue({ id: 'proposal-1' });
+    (QueueManagerService.getWaitingEntries as any).mockResolvedValue([
+      entry('learner', 'learning'),
+      entry('mentor', 'teaching'),
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('runOnce', () => {
+    it('should propose the batch pairs and release the locks', async () => {
+      vi.spyOn(MatchingService, 'scoreQueuedPairs').mockResolvedValue([
+        { userId1: 'learner', userId2: 'mentor', compatibilityScore: 0.8, scoreBreakdown: breakdown },
+      ]);
+
+      const result = await MatchmakerService.runOnce();
+
+      expect(result).toEqual({ scanned: 2, proposed: 1, skipped: 0, expired: 0 });
+      expect(MatchProposalService.createProposal).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'learner', sessionType: 'learning' }),
+        { partnerId: 'mentor', compatibilityScore: 0.8, scoreBreakdown: breakdown }
+      );
+      expect(redis.set).toHaveBeenCalledWith('matchmaker:lock:learner', expect.any(String), 'PX', 15000, 'NX');
+      expect(redis.set).toHaveBeenCalledWith('matchmaker:lock:mentor', expect.any(String), 'PX', 15000, 'NX');
+      expect(redis.eval).toHaveBeenCalledTimes(2);
+    });
+
+    it('should record the batch pairing next to greedy matching', async () => {
+      vi.spyOn(MatchingService, 'scoreQueuedPairs').mockResolvedValue([
+        { userId1: 'learner', userId2: 'mentor', compatibilityScore: 0.8, scoreBreakdown: breakdown },
+      ]);
+
+      await MatchmakerService.runOnce();
+
+      expect(MatchingAnalytics.recordBatchComparison).toHaveBeenCalledWith(expect.objectContaining({
+        waitingUsers: 2,
+        strategy: 'optimal',
+        batch: expect.objectContaining({ pairs: 1, totalScore: 0.8 }),
+        greedy: expect.objectContaining({ pairs: 1, totalScore: 0.8 }),
+      }));
+    });
+
+    it('should do nothing with fewer than two users waiting', async () => {
+      (QueueManagerService.getWaitingEntries as any).mockResolvedValue([entry('learner', 'learning')]);
+      const scoreSpy = vi.spyOn(MatchingService, 'scoreQueuedPairs');
+
+      const result = await MatchmakerService.runOnce();
+
+      expect(result).toEqual({ scanned: 1, proposed: 0, skipped: 0, expired: 0 });
+      expect(scoreSpy).not.toHaveBeenCalled();
+    });
+
+    it('should expire stale proposals before reading the queue', async () => {
+      (QueueManagerService.getWaitingEntries as any).mockResolvedValue([]);
+      (MatchProposalService.expireStale as any).mockResolvedValue(2);
+
+      const result = await MatchmakerService.runOnce();
+
+      expect(result.expired).toBe(2);
+      expect((MatchProposalService.expireStale as any).mock.invocationCallOrder[0])
+        .toBeLessThan((QueueManagerService.getWaitingEntries as any).mock.invocationCallOrder[0]);
+    });
+
+    it('should skip a pair while another worker holds one of the users', async () => {
+      vi.spyOn(MatchingService, 'scoreQueuedPairs').mockResolvedValue([
+        { userId1: 'learner', userId2: 'mentor', compatibilityScore: 0.8, scoreBreakdown: breakdown },
+      ]);
+      (redis.set as any).mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+
+      const result = await MatchmakerService.runOnce();
+
+      expect(result).toEqual({ scanned: 2, proposed: 0, skipped: 1, expired: 0 });
+      expect(MatchProposalService.createProposal).not.toHaveBeenCalled();
+      expect(redis.eval).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip a pair when one user was matched since the queue was read', async () => {
+      vi.spyOn(MatchingService, 'scoreQueuedPairs').mockResolvedValue([
+        { userId1: 'learner', userId2: 'mentor', compatibilityScore: 0.8, scoreBreakdown: breakdown },
+      ]);
+      (MatchProposalService.createProposal as any).mockRejectedValue(new Error('Match partner is no longer available'));
+
+      const result = await MatchmakerService.runOnce();
+
+      expect(result).toEqual({ scanned: 2, proposed: 0, skipped: 1, expired: 0 });
+      expect(redis.eval).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('stop', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should wait for the run underway before resolving', async () => {
+      vi.useFakeTimers();
+      let finishRun: () => void = () => {};
+      vi.spyOn(MatchmakerService, 'runOnce').mockImplementation(() => new Promise(resolve => {
+        finishRun = () => resolve({ scanned: 0, proposed: 0, skipped: 0, expired: 0 });
+      }));
+
+      MatchmakerService.start();
+      await vi.advanceTimersByTimeAsync(MATCHMAKER_CONFIG.INTERVAL_MS);
+      expect(MatchmakerService.runOnce).toHaveBeenCalledTimes(1);
+
+      let stopped = false;
+      const stopping = MatchmakerService.stop().then(() => {
+        stopped = true;
+      });
+      await vi.advanceTimersByTimeAsync(MATCHMAKER_CONFIG.INTERVAL_MS);
+      expect(stopped).toBe(false);
+      expect(MatchmakerService.runOnce).toHaveBeenCalledTimes(1);
+
+      finishRun();
+      await stopping;
+      expect(stopped).toBe(true);
+    });
+  });
+
+  describe('MatchingService.scoreQueuedPairs', () => {
+    const request = (userId: string, sessionType: MatchingRequest['sessionType']): MatchingRequest => ({
+      userId,
+      preferredSkills: ['TypeScript'],
+      sessionType,
+      maxDuration: 60,
+      urgency: 'medium',
+    });
+
+    beforeEach(() => {
+      vi.spyOn(MatchingService as any, 'getUserProfilesForMatching')
+        .mockImplementation(async (userIds: any) =>
+          new Map(userIds.map((userId: string) => [userId, { id: userId, isActive: true }])));
+      vi.spyOn(MatchingService as any, 'getSessionHistoryBetween').mockResolvedValue(new Map());
+      (BlockService.getBlockedUserIds as any).mockResolvedValue(new Set());
+      (MatchProposalService.getRecentlyDeclinedIds as any).mockResolvedValue(new Set());
+    });
+
+    it('should average both views and leave out incompatible session types', async () => {
+      vi.spyOn(MatchingService as any, 'calculateCompatibilityScore')
+        .mockImplementation(async (requester: any, candidate: any) => ({
+          user: candidate,
+          compatibilityScore: requester.id === 'learner' ? 0.9 : 0.7,
+          scoreBreakdown: { ...breakdown, totalScore: requester.id === 'learner' ? 0.9 : 0.7 },
+        }));
+
+      const pairs = await MatchingService.scoreQueuedPairs([
+        request('learner', 'learning'),
+        request('mentor', 'teaching'),
+        request('other-learner', 'learning'),
+      ]);
+
+      expect(pairs).toEqual([
+        expect.objectContaining({ userId1: 'learner', userId2: 'mentor', compatibilityScore: 0.8 }),
+        expect.objectContaining({ userId1: 'mentor', userId2: 'other-learner', compatibilityScore: 0.7 }),
+      ]);
+    });
+
+    it('should leave out blocked pairs and pairs only one side would accept', async () => {
+      (BlockService.getBlockedUserIds as any).mockImplementation(async (userId: string) =>
+        new Set(userId === 'learner' ? ['mentor'] : userId === 'mentor' ? ['learner'] : []));
+      vi.spyOn(MatchingService as any, 'calculateCompatibilityScore')
+        .mockImplementation(async (requester: any, candidate: any) => ({
+          user: candidate,
+          compatibilityScore: requester.id === 'peer' ? 0.1 : 0.9,
+          scoreBreakdown: { ...breakdown, totalScore: requester.id === 'peer' ? 0.1 : 0.9 },
+        }));
+
+      const pairs = await MatchingService.scoreQueuedPairs([
+        request('learner', 'learning'),
+        request('mentor', 'teaching'),
+        request('peer', 'collaboration'),
+      ]);
+
+      expect(pairs).toEqual([]);
+    });
+
+    it('should not pair users who recently declined each other', async () => {
+      (MatchProposalService.getRecentlyDeclinedIds as any).mockImplementation(async (userId: string) =>
+        new Set(userId === 'mentor' ? ['learner'] : []));
+      vi.spyOn(MatchingService as any, 'calculateCompatibilityScore')
+        .mockImplementation(async (_requester: any, candidate: any) => ({
+          user: candidate,
+          compatibilityScore: 0.9,
+          scoreBreakdown: { ...breakdown, totalScore: 0.9 },
+        }));
+
+      const pairs = await MatchingService.scoreQueuedPairs([
+        request('mentor', 'teaching'),
+        request('learner', 'learning'),
+        request('peer', 'collaboration'),
+      ]);
+
+      expect(pairs.map(pair => [pair.userId1, pair.userId2])).toEqual([
+        ['mentor', 'peer'],
+        ['learner', 'peer'],
+      ]);
+    });
+
+    it('should load profiles and session history once for the whole queue', async () => {
+      const previous = [{ initiatorId: 'mentor', partnerId: 'learner', ratingInitiator: 5, ratingPartner: 4 }];
+      (MatchingService as any).getSessionHistoryBetween.mockResolvedValue(new Map([['learner:mentor', previous]]));
+      const scoreSpy = vi.spyOn(MatchingService as any, 'calculateCompatibilityScore')
+        .mockImplementation(async (_requester: any, candidate: any) => ({
+          user: candidate,
+          compatibilityScore: 0.9,
+          scoreBreakdown: { ...breakdown, totalScore: 0.9 },
+        }));
+
+      await MatchingService.scoreQueuedPairs([
+        request('learner', 'learning'),
+        request('mentor', 'teaching'),
+        request('peer', 'collaboration'),
+      ]);
+
+      expect((MatchingService as any).getUserProfilesForMatching).toHaveBeenCalledTimes(1);
+      expect((MatchingService as any).getSessionHistoryBetween).toHaveBeenCalledTimes(1);
+      expect((MatchingService as any).getSessionHistoryBetween).toHaveBeenCalledWith(['learner', 'mentor', 'peer']);
+      expect(scoreSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'learner' }), expect.objectContaining({ id: 'mentor' }), expect.anything(), previous
+      );
+      expect(scoreSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'learner' }), expect.objectContaining({ id: 'peer' }), expect.anything(), []
+      );
+    });
+  });
+});
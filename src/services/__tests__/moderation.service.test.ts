@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ModerationService } from '../moderation.service';
+import { AccountSecurityService } from '../account-security.service';
+import { BlockService } from '../block.service';
+import { RefreshTokenService } from '../refresh-token.service';
+import { MatchProposalService } from '../match-proposal.service';
+import { QueueManagerService } from '../queue-manager.service';
+import { sendMail } from '@/lib/mailer';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: { findUnique: vi.fn(), update: vi.fn() },
+    session: { findUnique: vi.fn() },
+    userReport: {
+      count: vi.fn(),
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    matchingQueue: { updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/mailer', () => ({
+  sendMail: vi.fn(),
+}));
+
+vi.mock('../account-security.service', () => ({
+  AccountSecurityService: { logEvent: vi.fn() },
+}));
+
+vi.mock('../block.service', () => ({
+  BlockService: { blockUser: vi.fn() },
+}));
+
+vi.mock('../refresh-token.service', () => ({
+  RefreshTokenService: { revokeAllForUser: vi.fn() },
+}));
+
+vi.mock('../match-proposal.service', () => ({
+  MatchProposalService: { withdrawUser: vi.fn() },
+}));
+
+vi.mock('../queue-manager.service', () => ({
+  QueueManagerService: { publishAccountDeactivated: vi.fn() },
+}));
+
+const REPORTER_ID = '64b000000000000000000001';
+const REPORTED_ID = '64b000000000000000000002';
+const MODERATOR_ID = '64b000000000000000000003';
+const SESSION_ID = '64b0000000000000000000s1';
+const REPORT_ID = '64b0000000000000000000r1';
+const NOW = new Date('2025-03-01T12:00:00Z');
+
+function mockReport(overrides: Record<string, unknown> = {}) {
+  (prisma.userReport.findUnique as any).mockResolvedValue({
+    id: REPORT_ID,
+    reporterId: REPORTER_ID,
+    reportedUserId: REPORTED_ID,
+    sessionId: null,
+    category: 'harassment',
+    description: 'Kept sending insults in the chat',
+    chatExcerpt: null,
+    status: 'open',
+    action: null,
+    moderatorId: null,
+    moderatorNote: null,
+    createdAt: NOW,
+    resolvedAt: null,
+    reporter: { id: REPORTER_ID, username: 'reporter' },
+    reportedUser: { id: REPORTED_ID, username: 'reported', isActive: true },
+    ...overrides,
+  });
+}
+
+describe('ModerationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.user.findUnique as any).mockResolvedValue({
+      id: REPORTED_ID,
+      email: 'reported@example.com',
+      username: 'reported',
+      roles: ['member'],
+    });
+    (prisma.userReport.count as any).mockResolvedValue(0);
+    (prisma.userReport.create as any).mockResolvedValue({ id: REPORT_ID, status: 'open' });
+  });
+
+  describe('submitReport', () => {
+    it('should file a report with the session and chat excerpt and block when asked', async () => {
+      (prisma.session.findUnique as any).mockResolvedValue({ initiatorId: REPORTER_ID, partnerId: REPORTED_ID });
+      const chatExcerpt = [{ userId: REPORTED_ID, message: 'something rude' }];
+
+      const report = await ModerationService.submitReport(REPORTER_ID, {
+        reportedUserId: REPORTED_ID,
+        category: 'harassment',
+        description: 'Kept sending insults in the chat',
+        sessionId: SESSION_ID,
+        chatExcerpt,
+        block: true,
+      }, NOW);
+
+      expect(report).toEqual({ id: REPORT_ID, status: 'open' });
+      expect(prisma.userReport.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          reporterId: REPORTER_ID,
+          reportedUserId: REPORTED_ID,
+          sessionId: SESSION_ID,
+          chatExcerpt,
+          status: 'open',
+        }),
+      });
+      expect(BlockService.blockUser).toHaveBeenCalledWith(REPORTER_ID, REPORTED_ID);
+    });
+
+    it('should refuse self reports', async () => {
+      await expect(ModerationService.submitReport(REPORTER_ID, {
+        reportedUserId: REPORTER_ID,
+        category: 'spam',
+        description: 'Reporting myself',
+      }, NOW)).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should only accept reports about sessions the reporter took part in', async () => {
+      (prisma.session.findUnique as any).mockResolvedValue({ initiatorId: MODERATOR_ID, partnerId: REPORTED_ID });
+
+      await expect(ModerationService.submitReport(REPORTER_ID, {
+        reportedUserId: REPORTED_ID,
+        category: 'no_show',
+        description: 'Never joined the session',
+        sessionId: SESSION_ID,
+      }, NOW)).rejects.toMatchObject({ statusCode: 403 });
+      expect(prisma.userReport.create).not.toHaveBeenCalled();
+    });
+
+    it('should limit how many reports a user can file per day', async () => {
+      (prisma.userReport.count as any).mockResolvedValue(10);
+
+      await expect(ModerationService.submitReport(REPORTER_ID, {
+        reportedUserId: REPORTED_ID,
+        category: 'spam',
+        description: 'Advertising in every session',
+      }, NOW)).rejects.toMatchObject({ statusCode: 429 });
+    });
+  });
+
+  describe('claimReport', () => {
+    it('should refuse reports that are no longer open', async () => {
+      (prisma.userReport.updateMany as any).mockResolvedValue({ count: 0 });
+      mockReport({ status: 'in_review' });
+
+      await expect(ModerationService.claimReport(MODERATOR_ID, REPORT_ID)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('resolveReport', () => {
+    beforeEach(() => {
+      (prisma.userReport.updateMany as any).mockResolvedValue({ count: 1 });
+    });
+
+    it('should warn the reported user by email and in their security activity', async () => {
+      mockReport();
+
+      await ModerationService.resolveReport(MODERATOR_ID, REPORT_ID, 'warn', 'Please keep it civil', {}, NOW);
+
+      expect(AccountSecurityService.logEvent).toHaveBeenCalledWith(REPORTED_ID, 'account_warned', {}, {
+        reportId: REPORT_ID,
+        category: 'harassment',
+      });
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'reported@example.com' }));
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(prisma.userReport.updateMany).toHaveBeenCalledWith({
+        where: { id: REPORT_ID, status: { in: ['open', 'in_review'] } },
+        data: {
+          status: 'actioned',
+          action: 'warn',
+          moderatorId: MODERATOR_ID,
+          moderatorNote: 'Please keep it civil',
+          resolvedAt: NOW,
+        },
+      });
+    });
+
+    it('should suspend the account, sign it out and take it out of the queue and its proposals', async () => {
+      mockReport();
+
+      await ModerationService.resolveReport(MODERATOR_ID, REPORT_ID, 'suspend', null, {}, NOW);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: REPORTED_ID },
+        data: { isActive: false },
+      });
+      expect(RefreshTokenService.revokeAllForUser).toHaveBeenCalledWith(REPORTED_ID, 'account_inactive');
+      expect(prisma.matchingQueue.updateMany).toHaveBeenCalledWith({
+        where: { userId: REPORTED_ID, status: 'waiting' },
+        data: { status: 'cancelled' },
+      });
+      expect(MatchProposalService.withdrawUser).toHaveBeenCalledWith(REPORTED_ID, NOW);
+      expect(QueueManagerService.publishAccountDeactivated).toHaveBeenCalledWith(REPORTED_ID);
+      expect(AccountSecurityService.logEvent).toHaveBeenCalledWith(REPORTED_ID, 'account_suspended', {}, expect.any(Object));
+    });
+
+    it('should not suspend admins', async () => {
+      mockReport();
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: REPORTED_ID, email: 'admin@example.com', username: 'admin', roles: ['admin'],
+      });
+
+      await expect(ModerationService.resolveReport(MODERATOR_ID, REPORT_ID, 'suspend', null, {}, NOW))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(prisma.userReport.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should dismiss without touching the reported user', async () => {
+      mockReport({ status: 'in_review' });
+
+      await ModerationService.resolveReport(MODERATOR_ID, REPORT_ID, 'dismiss', null, {}, NOW);
+
+      expect(sendMail).not.toHaveBeenCalled();
+      expect(AccountSecurityService.logEvent).not.toHaveBeenCalled();
+      expect(prisma.userReport.updateMany).toHaveBeenCalledWith({
+        where: { id: REPORT_ID, status: { in: ['open', 'in_review'] } },
+        data: expect.objectContaining({ status: 'dismissed', action: 'dismiss' }),
+      });
+    });
+
+    it('should not resolve a report twice', async () => {
+      mockReport({ status: 'actioned' });
+
+      await expect(ModerationService.resolveReport(MODERATOR_ID, REPORT_ID, 'warn', null, {}, NOW))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should act only once when another moderator resolves the report first', async () => {
+      mockReport();
+      (prisma.userReport.updateMany as any).mockResolvedValue({ count: 0 });
+
+      await expect(ModerationService.resolveReport(MODERATOR_ID, REPORT_ID, 'suspend', null, {}, NOW))
+        .rejects.toMatchObject({ statusCode: 409 });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(RefreshTokenService.revokeAllForUser).not.toHaveBeenCalled();
+      expect(MatchProposalService.withdrawUser).not.toHaveBeenCalled();
+      expect(sendMail).not.toHaveBeenCalled();
+    });
+  });
+});
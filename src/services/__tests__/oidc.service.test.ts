@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { OidcService } from '../oidc.service';
+import { AuthService } from '../auth.service';
+import { MockOidcProvider, startMockOidcProvider } from '@/lib/oidc-mock-provider';
+import { createCodeChallenge, deriveUsername, getOidcProvider } from '@/lib/oidc';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    oidcIdentity: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../auth.service', () => ({
+  AuthService: {
+    loginWithExternalIdentity: vi.fn(),
+  },
+}));
+
+vi.mock('../account-security.service', () => ({
+  AccountSecurityService: {
+    logEvent: vi.fn(),
+  },
+}));
+
+describe('OIDC helpers', () => {
+  it('should compute the RFC 7636 S256 challenge', () => {
+    expect(createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'))
+      .toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+
+  it('should derive a username the registration rules accept', () => {
+    expect(deriveUsername({ sub: '1', preferred_username: 'jane.doe' })).toBe('janedoe');
+    expect(deriveUsername({ sub: '1', email: 'x@example.com' })).toBe('userx');
+  });
+});
+
+describe('OidcService', () => {
+  let provider: MockOidcProvider;
+  const session = { user: { id: 'user-1' }, accessToken: 'access', refreshToken: 'refresh' };
+
+  // Drive the browser leg: follow the authorization URL to the callback query
+  const authorize = async (loginHint?: string) => {
+    const { authorizationUrl, stateToken } = await OidcService.startLogin('mock');
+    const url = new URL(authorizationUrl);
+    if (loginHint) {
+      url.searchParams.set('login_hint', loginHint);
+    }
+
+    const response = await fetch(url, { redirect: 'manual' });
+    const callback = new URL(response.headers.get('location')!);
+
+    return {
+      stateToken,
+      params: { code: callback.searchParams.get('code')!, state: callback.searchParams.get('state')! },
+    };
+  };
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider({
+      users: [
+        { sub: 'sub-alice', email: 'alice@example.com', preferred_username: 'alice' },
+        { sub: 'sub-bob', email: 'bob@example.com', email_verified: false },
+      ],
+    });
+    process.env.OIDC_PROVIDERS = JSON.stringify([
+      { id: 'mock', name: 'Mock', issuer: provider.issuer, clientId: provider.clientId },
+    ]);
+  });
+
+  afterAll(async () => {
+    delete process.env.OIDC_PROVIDERS;
+    await provider.stop();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (AuthService.loginWithExternalIdentity as any).mockResolvedValue(session);
+    (prisma.oidcIdentity.findUnique as any).mockResolvedValue(null);
+    (prisma.user.findUnique as any).mockResolvedValue(null);
+    (prisma.user.create as any).mockResolvedValue({ id: 'new-user' });
+  });
+
+  it('should send PKCE, state and nonce to the provider', async () => {
+    const { authorizationUrl } = await OidcService.startLogin('mock');
+    const params = new URL(authorizationUrl).searchParams;
+
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('redirect_uri')).toBe('http://localhost:3000/api/auth/oidc/mock/callback');
+    expect(params.get('state')).toBeTruthy();
+    expect(params.get('nonce')).toBeTruthy();
+  });
+
+  it('should sign in a linked identity', async () => {
+    (prisma.oidcIdentity.findUnique as any).mockResolvedValue({ id: 'identity-1', userId: 'user-1' });
+    const { stateToken, params } = await authorize();
+
+    const result = await OidcService.completeLogin('mock', params, stateToken);
+
+    expect(result).toBe(session);
+    expect(AuthService.loginWithExternalIdentity).toHaveBeenCalledWith('user-1', expect.any(Object));
+    expect(prisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it('should link a verified account with the same email', async () => {
+    (prisma.user.findUnique as any).mockResolvedValue({ id: 'user-1', isVerified: true });
+    const { stateToken, params } = await authorize();
+
+    await OidcService.completeLogin('mock', params, stateToken);
+
+    expect(prisma.oidcIdentity.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', provider: 'mock', subject: 'sub-alice' }),
+    });
+    expect(prisma.user.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to link an account whose email was never verified', async () => {
+    (prisma.user.findUnique as any).mockResolvedValue({ id: 'user-1', isVerified: false });
+    const { stateToken, params } = await authorize();
+
+    await expect(OidcService.completeLogin('mock', params, stateToken)).rejects.toMatchObject({ statusCode: 409 });
+    expect(prisma.oidcIdentity.create).not.toHaveBeenCalled();
+  });
+
+  it('should create a verified user for a new identity', async () => {
+    const { stateToken, params } = await authorize();
+
+    await OidcService.completeLogin('mock', params, stateToken);
+
+    expect(prisma.user.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ email: 'alice@example.com', username: 'alice', isVerified: true }),
+    }));
+    expect(AuthService.loginWithExternalIdentity).toHaveBeenCalledWith('new-user', expect.any(Object));
+  });
+
+  it('should require a verified email from the provider', async () => {
+    const { stateToken, params } = await authorize('bob@example.com');
+
+    await expect(OidcService.completeLogin('mock', params, stateToken)).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('should reject a callback whose state does not match the cookie', async () => {
+    const { stateToken, params } = await authorize();
+
+    await expect(OidcService.completeLogin('mock', { ...params, state: 'forged' }, stateToken))
+      .rejects.toMatchObject({ statusCode: 401 });
+    await expect(OidcService.completeLogin('mock', params, undefined))
+      .rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('should not accept the same code twice', async () => {
+    (prisma.oidcIdentity.findUnique as any).mockResolvedValue({ id: 'identity-1', userId: 'user-1' });
+    const { stateToken, params } = await authorize();
+
+    await OidcService.completeLogin('mock', params, stateToken);
+    await expect(OidcService.completeLogin('mock', params, stateToken)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('should 404 for providers that are not configured', () => {
+    expect(() => getOidcProvider('nope')).toThrow('Unknown sign-in provider');
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach, vi, beforeAll, afterAll }
 import { QueueManagerService } from '../queue-manager.service';
 import { QueueCleanupService } from '../queue-cleanup.service';
 import redis from '@/lib/redis';
+import prisma from '@/lib/prisma';
 
 // Mock Redis
 vi.mock('@/lib/redis', () => ({
@@ -42,6 +43,7 @@ vi.mock('@/lib/prisma', () => ({
   default: {
     matchingQueue: {
       upsert: vi.fn(),
+      updateMany: vi.fn(),
       deleteMany: vi.fn(),
     },
   },
@@ -342,6 +344,60 @@ describe('QueueManagerService', () => {
       expect(mockPipeline.zadd).toHaveBeenCalled();
     });
   });
+
+  describe('requeueHeld', () => {
+    it('should put a held entry back with its original join time and the held time added to its expiry', async () => {
+      const now = Date.now();
+      const queueEntry = {
+        id: 'user123_1',
+        userId: 'user123',
+        preferredSkills: ['javascript'],
+        sessionType: 'learning',
+        maxDuration: 60,
+        urgency: 'medium',
+        joinedAt: now - 600000, // 10 minutes ago
+        expiresAt: now + 600000,
+        priority: 560,
+      };
+
+      (redis.get as any).mockImplementation(async (key: string) =>
+        key === 'queue:held:user123' ? JSON.stringify({ queueEntry, heldAt: now - 20000 }) : JSON.stringify(queueEntry));
+      (prisma.matchingQueue.updateMany as any).mockResolvedValue({ count: 1 });
+      (redis.zrevrank as any).mockResolvedValue(0);
+      (redis.zcard as any).mockResolvedValue(1);
+
+      const mockPipeline = {
+        zadd: vi.fn(),
+        lpush: vi.fn(),
+        setex: vi.fn(),
+        sadd: vi.fn(),
+        del: vi.fn(),
+        exec: vi.fn(() => Promise.resolve([])),
+      };
+      (redis.pipeline as any).mockReturnValue(mockPipeline);
+
+      const requeued = await QueueManagerService.requeueHeld('user123');
+
+      expect(requeued).toBe(true);
+      const [, priority, data] = mockPipeline.zadd.mock.calls[0];
+      const restored = JSON.parse(data);
+      expect(restored.joinedAt).toBe(queueEntry.joinedAt);
+      expect(restored.expiresAt).toBeGreaterThanOrEqual(queueEntry.expiresAt + 20000);
+      expect(priority).toBeGreaterThanOrEqual(queueEntry.priority);
+      expect(prisma.matchingQueue.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user123', status: 'proposed' },
+        data: { status: 'waiting', expiresAt: new Date(restored.expiresAt) },
+      });
+      expect(mockPipeline.del).toHaveBeenCalledWith('queue:held:user123');
+    });
+
+    it('should do nothing when no entry is held', async () => {
+      (redis.get as any).mockResolvedValue(null);
+
+      await expect(QueueManagerService.requeueHeld('user123')).resolves.toBe(false);
+      expect(prisma.matchingQueue.updateMany).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe('QueueCleanupService', () => {
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RefreshTokenService } from '../refresh-token.service';
+import { RefreshTokenError } from '@/lib/refresh-tokens';
+import { generateRefreshToken } from '@/lib/auth';
+import { DataEncryption } from '@/lib/security';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    refreshToken: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+describe('RefreshTokenService', () => {
+  const storedToken = {
+    id: 'token-1',
+    userId: 'user-1',
+    familyId: 'family-1',
+    userAgent: 'Firefox',
+    ipAddress: '10.0.0.1',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    revokedAt: null,
+    revokedReason: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.refreshToken.create as any).mockImplementation(({ data }: any) => Promise.resolve({ id: 'token-2', ...data }));
+    (prisma.refreshToken.updateMany as any).mockResolvedValue({ count: 1 });
+  });
+
+  describe('issue', () => {
+    it('should store only a hash of the token', async () => {
+      const { refreshToken } = await RefreshTokenService.issue('user-1', { userAgent: 'Firefox', ipAddress: '10.0.0.1' });
+
+      const { data } = (prisma.refreshToken.create as any).mock.calls[0][0];
+      expect(data.tokenHash).toBe(DataEncryption.hash(refreshToken));
+      expect(data.tokenHash).not.toBe(refreshToken);
+      expect(data.userAgent).toBe('Firefox');
+      expect(data.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('rotate', () => {
+    it('should revoke the presented token and issue one in the same family', async () => {
+      const token = generateRefreshToken('user-1');
+      (prisma.refreshToken.findUnique as any).mockResolvedValue(storedToken);
+
+      const result = await RefreshTokenService.rotate(token);
+
+      expect(result.refreshToken).not.toBe(token);
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', revokedAt: null },
+        data: expect.objectContaining({ revokedReason: 'rotated' }),
+      });
+      expect(prisma.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ familyId: 'family-1', userAgent: 'Firefox' }),
+      });
+      expect(prisma.refreshToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { replacedById: 'token-2' },
+      });
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const token = generateRefreshToken('user-1');
+      (prisma.refreshToken.findUnique as any).mockResolvedValue({
+        ...storedToken,
+        revokedAt: new Date(),
+        revokedReason: 'rotated',
+      });
+
+      await expect(RefreshTokenService.rotate(token)).rejects.toThrow(RefreshTokenError);
+
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { familyId: 'family-1', revokedAt: null },
+        data: expect.objectContaining({ revokedReason: 'reuse_detected' }),
+      });
+      expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens revoked by logout without flagging reuse', async () => {
+      const token = generateRefreshToken('user-1');
+      (prisma.refreshToken.findUnique as any).mockResolvedValue({
+        ...storedToken,
+        revokedAt: new Date(),
+        revokedReason: 'logout',
+      });
+
+      await expect(RefreshTokenService.rotate(token)).rejects.toMatchObject({ statusCode: 401 });
+      expect(prisma.refreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should treat losing a concurrent rotation as reuse', async () => {
+      const token = generateRefreshToken('user-1');
+      (prisma.refreshToken.findUnique as any).mockResolvedValue(storedToken);
+      (prisma.refreshToken.updateMany as any)
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 2 });
+
+      await expect(RefreshTokenService.rotate(token)).rejects.toThrow(RefreshTokenError);
+      expect(prisma.refreshToken.updateMany).toHaveBeenLastCalledWith({
+        where: { familyId: 'family-1', revokedAt: null },
+        data: expect.objectContaining({ revokedReason: 'reuse_detected' }),
+      });
+    });
+
+    it('should reject tokens that were never stored', async () => {
+      (prisma.refreshToken.findUnique as any).mockResolvedValue(null);
+
+      await expect(RefreshTokenService.rotate(generateRefreshToken('user-1'))).rejects.toThrow('Invalid refresh token');
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should revoke every active token of the user', async () => {
+      (prisma.refreshToken.updateMany as any).mockResolvedValue({ count: 3 });
+
+      const revoked = await RefreshTokenService.revokeAllForUser('user-1', 'password_changed');
+
+      expect(revoked).toBe(3);
+      expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', revokedAt: null },
+        data: expect.objectContaining({ revokedReason: 'password_changed' }),
+      });
+    });
+  });
+});
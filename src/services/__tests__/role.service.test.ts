@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RoleService } from '../role.service';
+import { AccountSecurityService } from '../account-security.service';
+import { hasPermission, normalizeRoles } from '@/lib/permissions';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../account-security.service', () => ({
+  AccountSecurityService: {
+    logEvent: vi.fn(),
+  },
+}));
+
+describe('permissions', () => {
+  it('should treat accounts without roles as members', () => {
+    expect(normalizeRoles(undefined)).toEqual(['member']);
+    expect(normalizeRoles(['moderator', 'superuser'])).toEqual(['member', 'moderator']);
+  });
+
+  it('should grant permissions through any of the roles', () => {
+    expect(hasPermission(['member', 'mentor'], 'skills:review')).toBe(false);
+    expect(hasPermission(['member', 'moderator'], 'skills:review')).toBe(true);
+    expect(hasPermission(['member', 'moderator'], 'monitoring:view')).toBe(false);
+    expect(hasPermission(['admin'], 'queue:manage')).toBe(true);
+  });
+});
+
+describe('RoleService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.user.findUnique as any).mockResolvedValue({ roles: ['member'] });
+  });
+
+  it('should replace the roles and log the change on the account', async () => {
+    const roles = await RoleService.setRoles('admin-1', 'user-1', ['moderator']);
+
+    expect(roles).toEqual(['member', 'moderator']);
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { roles: ['member', 'moderator'] },
+    });
+    expect(AccountSecurityService.logEvent).toHaveBeenCalledWith('user-1', 'roles_changed', {}, {
+      previousRoles: ['member'],
+      roles: ['member', 'moderator'],
+      changedBy: 'admin-1',
+    });
+  });
+
+  it('should not let admins remove their own admin role', async () => {
+    await expect(RoleService.setRoles('admin-1', 'admin-1', ['member']))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it('should 404 for unknown users', async () => {
+    (prisma.user.findUnique as any).mockResolvedValue(null);
+
+    await expect(RoleService.setRoles('admin-1', 'missing', ['mentor']))
+      .rejects.toMatchObject({ statusCode: 404 });
+  });
+});
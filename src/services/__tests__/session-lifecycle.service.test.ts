@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionLifecycleService } from '../session-lifecycle.service';
+import {
+  SessionTransitionError,
+  calculateActiveMinutes,
+  canTransition,
+} from '@/lib/session-lifecycle';
+import prisma from '@/lib/prisma';
+import { broadcastToSession, broadcastToUser } from '@/lib/socket-server';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    session: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/socket-server', () => ({
+  broadcastToSession: vi.fn(),
+  broadcastToUser: vi.fn(),
+}));
+
+describe('SessionLifecycleService', () => {
+  const baseSession = {
+    id: 'session-1',
+    initiatorId: 'user-1',
+    partnerId: 'user-2',
+    startTime: new Date(Date.now() - 60 * 60 * 1000),
+    startedAt: null,
+    pausedAt: null,
+    pausedMinutes: 0,
+    status: 'scheduled',
+    statusReason: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('transition table', () => {
+    it('should only allow documented transitions', () => {
+      expect(canTransition('scheduled', 'start')).toBe(true);
+      expect(canTransition('active', 'pause')).toBe(true);
+      expect(canTransition('paused', 'end')).toBe(true);
+      expect(canTransition('cancelled', 'end')).toBe(false);
+      expect(canTransition('completed', 'start')).toBe(false);
+      expect(canTransition('active', 'cancel')).toBe(false);
+    });
+
+    it('should exclude paused time from active minutes', () => {
+      const startedAt = new Date('2025-01-01T10:00:00Z');
+      const minutes = calculateActiveMinutes(
+        {
+          startTime: startedAt,
+          startedAt,
+          pausedAt: new Date('2025-01-01T10:40:00Z'),
+          pausedMinutes: 10,
+          status: 'paused',
+        },
+        new Date('2025-01-01T10:50:00Z')
+      );
+
+      // 50 minutes elapsed, 10 minutes of earlier pauses and 10 minutes in the open pause
+      expect(minutes).toBe(30);
+    });
+  });
+
+  describe('transition', () => {
+    it('should start a scheduled session and notify both participants', async () => {
+      (prisma.session.findUnique as any)
+        .mockResolvedValueOnce(baseSession)
+        .mockResolvedValueOnce({ ...baseSession, status: 'active', startedAt: new Date() });
+      (prisma.session.updateMany as any).mockResolvedValue({ count: 1 });
+
+      const result = await SessionLifecycleService.transition('session-1', 'user-1', 'start');
+
+      expect(result.applied).toBe(true);
+      expect(result.session.status).toBe('active');
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', status: { in: ['scheduled'] } },
+        data: expect.objectContaining({ status: 'active', startedAt: expect.any(Date) }),
+      });
+      expect(broadcastToSession).toHaveBeenCalledWith('session-1', 'session_started', expect.any(Object));
+      expect(broadcastToUser).toHaveBeenCalledWith('user-1', 'session_status_changed', expect.any(Object));
+      expect(broadcastToUser).toHaveBeenCalledWith('user-2', 'session_status_changed', expect.any(Object));
+    });
+
+    it('should treat completing an already completed session as a no-op', async () => {
+      (prisma.session.findUnique as any).mockResolvedValue({ ...baseSession, status: 'completed' });
+
+      const result = await SessionLifecycleService.transition('session-1', 'user-2', 'end');
+
+      expect(result.applied).toBe(false);
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+      expect(broadcastToSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject ending a cancelled session', async () => {
+      (prisma.session.findUnique as any).mockResolvedValue({ ...baseSession, status: 'cancelled' });
+
+      await expect(SessionLifecycleService.transition('session-1', 'user-1', 'end'))
+        .rejects.toThrow(SessionTransitionError);
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject users outside the session', async () => {
+      (prisma.session.findUnique as any).mockResolvedValue(baseSession);
+
+      await expect(SessionLifecycleService.transition('session-1', 'user-3', 'cancel'))
+        .rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('should not apply a transition another request won', async () => {
+      (prisma.session.findUnique as any)
+        .mockResolvedValueOnce({ ...baseSession, status: 'active' })
+        .mockResolvedValueOnce({ ...baseSession, status: 'completed' });
+      (prisma.session.updateMany as any).mockResolvedValue({ count: 0 });
+
+      const result = await SessionLifecycleService.transition('session-1', 'user-1', 'end');
+
+      expect(result.applied).toBe(false);
+      expect(broadcastToUser).not.toHaveBeenCalled();
+    });
+  });
+});
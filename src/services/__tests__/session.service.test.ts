@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionService } from '../session.service';
+import { QueueManagerService } from '../queue-manager.service';
+import { broadcastToUser } from '@/lib/socket-server';
+
+const tx = {
+  matchingQueue: {
+    updateMany: vi.fn(),
+  },
+  session: {
+    create: vi.fn(),
+  },
+};
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    session: {
+      findUnique: vi.fn(),
+    },
+  },
+  withTransaction: vi.fn((callback: (client: typeof tx) => Promise<unknown>) => callback(tx)),
+}));
+
+vi.mock('@/lib/socket-server', () => ({
+  broadcastToUser: vi.fn(),
+}));
+
+vi.mock('../queue-manager.service', () => ({
+  QueueManagerService: {
+    markAsMatched: vi.fn(),
+  },
+}));
+
+vi.mock('../achievement.service', () => ({
+  AchievementService: {
+    checkAndAwardAchievements: vi.fn(() => Promise.resolve([])),
+  },
+}));
+
+vi.mock('../achievement-notification.service', () => ({
+  achievementNotificationService: {
+    addAchievements: vi.fn(),
+  },
+}));
+
+describe('SessionService', () => {
+  const request = {
+    userId: 'user-1',
+    preferredSkills: ['react', 'typescript'],
+    sessionType: 'learning' as const,
+    maxDuration: 60,
+    urgency: 'medium' as const,
+  };
+
+  const match = {
+    partnerId: 'user-2',
+    compatibilityScore: 0.82,
+    scoreBreakdown: {
+      skillCompatibility: 0.9,
+      timezoneCompatibility: 0.8,
+      availabilityCompatibility: 0.7,
+      communicationCompatibility: 0.8,
+      sessionHistoryCompatibility: 0.5,
+      totalScore: 0.82,
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createMatchedSession', () => {
+    it('should create a scheduled session and mark both users as matched', async () => {
+      tx.matchingQueue.updateMany.mockResolvedValue({ count: 1 });
+      tx.session.create.mockResolvedValue({
+        id: 'session-abc',
+        sessionType: 'learning',
+        topics: ['react', 'typescript'],
+        status: 'scheduled',
+      });
+
+      const session = await SessionService.createMatchedSession(request, match);
+
+      expect(session.id).toBe('session-abc');
+      expect(tx.matchingQueue.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-2', status: 'proposed' },
+        data: { status: 'matched' },
+      });
+      expect(tx.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          initiatorId: 'user-1',
+          partnerId: 'user-2',
+          sessionType: 'learning',
+          topics: ['react', 'typescript'],
+          status: 'scheduled',
+        }),
+      });
+      expect(QueueManagerService.markAsMatched).toHaveBeenCalledWith({
+        userId1: 'user-1',
+        userId2: 'user-2',
+        sessionId: 'session-abc',
+        compatibilityScore: 0.82,
+      });
+      expect(broadcastToUser).toHaveBeenCalledWith('user-1', 'match_found', expect.objectContaining({
+        sessionId: 'session-abc',
+        partnerId: 'user-2',
+      }));
+      expect(broadcastToUser).toHaveBeenCalledWith('user-2', 'match_found', expect.objectContaining({
+        sessionId: 'session-abc',
+        partnerId: 'user-1',
+      }));
+    });
+
+    it('should not create a session when the partner was already claimed', async () => {
+      tx.matchingQueue.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(SessionService.createMatchedSession(request, match))
+        .rejects.toThrow('no longer available');
+
+      expect(tx.session.create).not.toHaveBeenCalled();
+      expect(QueueManagerService.markAsMatched).not.toHaveBeenCalled();
+      expect(broadcastToUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SkillProgressService } from '../skill-progress.service';
+import { SkillProgressEventRecord, buildSkillProgression } from '@/lib/skill-progression';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    session: {
+      findUnique: vi.fn(),
+    },
+    skill: {
+      findMany: vi.fn(),
+    },
+    userSkill: {
+      findMany: vi.fn(),
+    },
+    skillProgressEvent: {
+      create: vi.fn(),
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+describe('SkillProgressService', () => {
+  const react = { id: 'skill-react', name: 'React', category: 'Frontend' };
+  const python = { id: 'skill-python', name: 'Python', category: 'Programming' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('recordLevelChange', () => {
+    it('should record the initial level when a skill is added', async () => {
+      await SkillProgressService.recordLevelChange('user-1', 'skill-react', null, 2);
+
+      expect(prisma.skillProgressEvent.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          skillId: 'skill-react',
+          eventType: 'level_set',
+          previousLevel: null,
+          level: 2,
+        },
+      });
+    });
+
+    it('should ignore updates that keep the same level', async () => {
+      await SkillProgressService.recordLevelChange('user-1', 'skill-react', 3, 3);
+
+      expect(prisma.skillProgressEvent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordSessionSkills', () => {
+    it('should match feedback skills by name and replace earlier events for the session', async () => {
+      const endTime = new Date('2025-01-10T11:00:00Z');
+      (prisma.session.findUnique as any).mockResolvedValue({
+        durationMinutes: 45,
+        startTime: new Date('2025-01-10T10:15:00Z'),
+        endTime,
+      });
+      (prisma.skill.findMany as any).mockResolvedValue([react, python]);
+      (prisma.userSkill.findMany as any).mockResolvedValue([{ skillId: 'skill-react', proficiencyLevel: 3 }]);
+
+      await SkillProgressService.recordSessionSkills('session-1', 'user-1', ['react'], ['Python', 'Unknown skill']);
+
+      expect(prisma.skillProgressEvent.deleteMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', userId: 'user-1' },
+      });
+      expect(prisma.skillProgressEvent.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            skillId: 'skill-react',
+            eventType: 'session_learned',
+            level: 3,
+            minutes: 45,
+            createdAt: endTime,
+          }),
+          expect.objectContaining({
+            skillId: 'skill-python',
+            eventType: 'session_taught',
+            level: null,
+          }),
+        ],
+      });
+    });
+  });
+
+  describe('buildSkillProgression', () => {
+    const fromDate = new Date('2025-01-01T00:00:00Z');
+
+    const event = (
+      overrides: Partial<SkillProgressEventRecord> & Pick<SkillProgressEventRecord, 'eventType' | 'createdAt'>
+    ): SkillProgressEventRecord => ({
+      skillId: 'skill-react',
+      previousLevel: null,
+      level: null,
+      sessionId: null,
+      minutes: null,
+      skill: react,
+      ...overrides,
+    });
+
+    it('should compute levels, hours and milestones for the timeframe', () => {
+      const progression = buildSkillProgression(
+        [{ skillId: 'skill-react', proficiencyLevel: 4, createdAt: new Date('2024-11-01'), skill: react }],
+        [
+          event({ eventType: 'level_set', level: 2, createdAt: new Date('2024-11-01') }),
+          event({ eventType: 'session_learned', sessionId: 's1', minutes: 60, createdAt: new Date('2025-01-05') }),
+          event({ eventType: 'session_taught', sessionId: 's1', minutes: 60, createdAt: new Date('2025-01-05') }),
+          event({ eventType: 'session_learned', sessionId: 's2', minutes: 30, createdAt: new Date('2025-01-12') }),
+          event({ eventType: 'level_changed', previousLevel: 2, level: 4, createdAt: new Date('2025-01-13') }),
+        ],
+        fromDate
+      );
+
+      expect(progression).toHaveLength(1);
+      expect(progression[0]).toMatchObject({
+        skillName: 'React',
+        initialLevel: 2,
+        currentLevel: 4,
+        progressPercentage: 80,
+        sessionsCount: 2,
+        hoursSpent: 1.5,
+        trend: 'improving',
+        lastPracticed: new Date('2025-01-12'),
+      });
+      expect(progression[0].milestones).toEqual([
+        { date: new Date('2025-01-13'), level: 4, achievement: 'Reached level 4', sessionId: 's2' },
+      ]);
+    });
+
+    it('should include skills practiced in sessions but not in the profile', () => {
+      const progression = buildSkillProgression(
+        [],
+        [
+          event({
+            skillId: 'skill-python',
+            skill: python,
+            eventType: 'session_learned',
+            sessionId: 's3',
+            minutes: 90,
+            createdAt: new Date('2025-01-20'),
+          }),
+        ],
+        fromDate
+      );
+
+      expect(progression[0]).toMatchObject({
+        skillName: 'Python',
+        currentLevel: 0,
+        sessionsCount: 1,
+        hoursSpent: 1.5,
+        trend: 'stable',
+      });
+    });
+  });
+});
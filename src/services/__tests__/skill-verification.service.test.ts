@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SkillVerificationService } from '../skill-verification.service';
+import { SKILL_VERIFICATION_CONFIG, getQualifyingEndorserLevel } from '@/lib/skill-verification';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: {
+      findUnique: vi.fn(),
+    },
+    session: {
+      findMany: vi.fn(),
+    },
+    userSkill: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    skillEndorsement: {
+      findMany: vi.fn(),
+    },
+    skillProgressEvent: {
+      findMany: vi.fn(),
+    },
+    skillVerificationRequest: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    skillVerificationEvent: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/socket-server', () => ({
+  broadcastToUser: vi.fn(),
+}));
+
+describe('SkillVerificationService', () => {
+  const userSkill = {
+    userId: 'user-1',
+    skillId: 'skill-react',
+    proficiencyLevel: 3,
+    verified: false,
+    verifiedAt: null,
+    verificationMethod: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.userSkill.findUnique as any).mockResolvedValue(userSkill);
+    (prisma.skillEndorsement.findMany as any).mockResolvedValue([]);
+    (prisma.skillProgressEvent.findMany as any).mockResolvedValue([]);
+    (prisma.userSkill.count as any).mockResolvedValue(0);
+    (prisma.session.findMany as any).mockResolvedValue([]);
+  });
+
+  describe('evaluateSkill', () => {
+    it('should verify a skill endorsed by enough partners at a higher level', async () => {
+      (prisma.skillEndorsement.findMany as any).mockResolvedValue([
+        { endorserId: 'user-2' }, { endorserId: 'user-3' }, { endorserId: 'user-4' },
+      ]);
+      (prisma.userSkill.count as any).mockResolvedValue(SKILL_VERIFICATION_CONFIG.MIN_ENDORSEMENTS);
+
+      const verified = await SkillVerificationService.evaluateSkill('user-1', 'skill-react');
+
+      expect(verified).toBe(true);
+      expect(prisma.userSkill.count).toHaveBeenCalledWith({
+        where: {
+          userId: { in: ['user-2', 'user-3', 'user-4'] },
+          skillId: 'skill-react',
+          proficiencyLevel: { gte: 4 },
+        },
+      });
+      expect(prisma.userSkill.update).toHaveBeenCalledWith({
+        where: { userId_skillId: { userId: 'user-1', skillId: 'skill-react' } },
+        data: expect.objectContaining({ verified: true, verificationMethod: 'endorsements' }),
+      });
+      expect(prisma.skillVerificationEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'verified', method: 'endorsements' }),
+      });
+    });
+
+    it('should count only teaching sessions the learner rated highly', async () => {
+      (prisma.skillProgressEvent.findMany as any).mockResolvedValue([
+        { sessionId: 's1' }, { sessionId: 's2' }, { sessionId: 's3' }, { sessionId: 's4' },
+      ]);
+      (prisma.session.findMany as any).mockResolvedValue([
+        { initiatorId: 'user-1', ratingInitiator: 2, ratingPartner: 5 },
+        { initiatorId: 'user-2', ratingInitiator: 4, ratingPartner: 1 },
+        { initiatorId: 'user-1', ratingInitiator: 5, ratingPartner: 4 },
+        { initiatorId: 'user-1', ratingInitiator: 5, ratingPartner: 2 },
+      ]);
+
+      const status = await SkillVerificationService.getVerificationStatus('user-1', 'skill-react');
+
+      expect(status.evidence).toEqual({ endorsements: 0, teachingSessions: 3 });
+    });
+
+    it('should revoke an automatic verification when the evidence is gone', async () => {
+      (prisma.userSkill.findUnique as any).mockResolvedValue({
+        ...userSkill,
+        verified: true,
+        verificationMethod: 'endorsements',
+      });
+
+      const verified = await SkillVerificationService.evaluateSkill('user-1', 'skill-react');
+
+      expect(verified).toBe(false);
+      expect(prisma.userSkill.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { verified: false, verifiedAt: null, verificationMethod: null },
+      }));
+      expect(prisma.skillVerificationEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'revoked' }),
+      });
+    });
+
+    it('should keep reviewer approvals regardless of automatic evidence', async () => {
+      (prisma.userSkill.findUnique as any).mockResolvedValue({
+        ...userSkill,
+        verified: true,
+        verificationMethod: 'reviewer',
+      });
+
+      const verified = await SkillVerificationService.evaluateSkill('user-1', 'skill-react');
+
+      expect(verified).toBe(true);
+      expect(prisma.userSkill.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reviewRequest', () => {
+    const pendingRequest = { id: 'request-1', userId: 'user-1', skillId: 'skill-react', status: 'pending' };
+
+    beforeEach(() => {
+      (prisma.user.findUnique as any).mockImplementation(({ where }: { where: { id: string } }) =>
+        Promise.resolve({ roles: where.id === 'reviewer-1' ? ['member', 'moderator'] : ['member', 'mentor'] })
+      );
+    });
+
+    it('should verify the skill when a reviewer approves', async () => {
+      (prisma.skillVerificationRequest.findUnique as any).mockResolvedValue(pendingRequest);
+      (prisma.skillVerificationRequest.updateMany as any).mockResolvedValue({ count: 1 });
+
+      await SkillVerificationService.reviewRequest('request-1', 'reviewer-1', { approve: true, note: 'Portfolio checks out' });
+
+      expect(prisma.skillVerificationRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request-1', status: 'pending' },
+        data: expect.objectContaining({ status: 'approved', reviewerId: 'reviewer-1' }),
+      });
+      expect(prisma.userSkill.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ verified: true, verificationMethod: 'reviewer' }),
+      }));
+      expect(prisma.skillVerificationEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'verified',
+          method: 'reviewer',
+          actorId: 'reviewer-1',
+          reason: 'Portfolio checks out',
+        }),
+      });
+    });
+
+    it('should reject users who are not reviewers', async () => {
+      await expect(SkillVerificationService.reviewRequest('request-1', 'user-2', { approve: true }))
+        .rejects.toMatchObject({ statusCode: 403 });
+      expect(prisma.skillVerificationRequest.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not review a request twice', async () => {
+      (prisma.skillVerificationRequest.findUnique as any).mockResolvedValue({ ...pendingRequest, status: 'approved' });
+
+      await expect(SkillVerificationService.reviewRequest('request-1', 'reviewer-1', { approve: false }))
+        .rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('getQualifyingEndorserLevel', () => {
+    it('should require a higher level, capped at expert', () => {
+      expect(getQualifyingEndorserLevel(2)).toBe(3);
+      expect(getQualifyingEndorserLevel(5)).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TwoFactorService } from '../two-factor.service';
+import { hashPassword } from '@/lib/auth';
+import { DataEncryption } from '@/lib/security';
+import { base32Encode, generateTotpCode, getTimeStep, verifyTotpCode } from '@/lib/totp';
+import { normalizeRecoveryCode } from '@/lib/two-factor';
+import prisma from '@/lib/prisma';
+
+// Mock Prisma
+vi.mock('@/lib/prisma', () => ({
+  default: {
+    user: {
+      findUnique: vi.fn(),
+    },
+    twoFactorCredential: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../account-security.service', () => ({
+  AccountSecurityService: {
+    logEvent: vi.fn(),
+  },
+}));
+
+process.env.ENCRYPTION_KEY = 'test-encryption-key-32-characters-long';
+
+describe('TOTP', () => {
+  // RFC 6238 appendix B, SHA-1 seed
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(generateTotpCode(rfcSecret, getTimeStep(59 * 1000))).toBe('287082');
+    expect(generateTotpCode(rfcSecret, getTimeStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotpCode(rfcSecret, getTimeStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('should accept codes from one step either side for clock drift', () => {
+    const now = 1111111109 * 1000;
+    const previous = generateTotpCode(rfcSecret, getTimeStep(now) - 1);
+    const tooOld = generateTotpCode(rfcSecret, getTimeStep(now) - 2);
+
+    expect(verifyTotpCode(rfcSecret, previous, 1, now)).toBe(getTimeStep(now) - 1);
+    expect(verifyTotpCode(rfcSecret, tooOld, 1, now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotpCode(rfcSecret, '12345')).toBeNull();
+    expect(verifyTotpCode(rfcSecret, 'abcdef')).toBeNull();
+  });
+});
+
+describe('TwoFactorService', () => {
+  const secret = 'JBSWY3DPEHPK3PXP';
+  const recoveryCode = 'abcde-12345';
+
+  const enabledCredential = () => ({
+    id: 'cred-1',
+    userId: 'user-1',
+    secret: DataEncryption.encrypt(secret),
+    enabledAt: new Date(),
+    lastUsedStep: getTimeStep() - 5,
+    recoveryCodes: [DataEncryption.hash(normalizeRecoveryCode(recoveryCode))],
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.twoFactorCredential.updateMany as any).mockResolvedValue({ count: 1 });
+    (prisma.twoFactorCredential.deleteMany as any).mockResolvedValue({ count: 1 });
+  });
+
+  describe('beginEnrollment', () => {
+    it('should store the secret encrypted and return a QR code', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({ email: 'alice@example.com', twoFactor: null });
+
+      const enrollment = await TwoFactorService.beginEnrollment('user-1');
+
+      const stored = (prisma.twoFactorCredential.upsert as any).mock.calls[0][0].create.secret;
+      expect(stored).not.toContain(enrollment.secret);
+      expect(DataEncryption.decrypt(stored)).toBe(enrollment.secret);
+      expect(enrollment.otpauthUri).toContain(`secret=${enrollment.secret}`);
+      expect(enrollment.qrCodeDataUrl).toMatch(/^data:image\/png;base64,/);
+    });
+
+    it('should refuse when two-factor is already on', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({ email: 'alice@example.com', twoFactor: { enabledAt: new Date() } });
+
+      await expect(TwoFactorService.beginEnrollment('user-1')).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('confirmEnrollment', () => {
+    it('should enable two-factor and keep only hashes of the recovery codes', async () => {
+      (prisma.twoFactorCredential.findUnique as any).mockResolvedValue({
+        ...enabledCredential(),
+        enabledAt: null,
+        lastUsedStep: null,
+        recoveryCodes: [],
+      });
+
+      const { recoveryCodes } = await TwoFactorService.confirmEnrollment('user-1', generateTotpCode(secret));
+
+      const data = (prisma.twoFactorCredential.update as any).mock.calls[0][0].data;
+      expect(recoveryCodes).toHaveLength(10);
+      expect(data.enabledAt).toBeInstanceOf(Date);
+      expect(data.recoveryCodes).not.toContain(recoveryCodes[0]);
+      expect(data.recoveryCodes).toContain(DataEncryption.hash(normalizeRecoveryCode(recoveryCodes[0])));
+    });
+
+    it('should reject a wrong code', async () => {
+      (prisma.twoFactorCredential.findUnique as any).mockResolvedValue({ ...enabledCredential(), enabledAt: null });
+
+      await expect(TwoFactorService.confirmEnrollment('user-1', '000000')).rejects.toThrow('Invalid verification code');
+      expect(prisma.twoFactorCredential.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyLoginCode', () => {
+    it('should accept a current code from the app', async () => {
+      (prisma.twoFactorCredential.findUnique as any).mockResolvedValue(enabledCredential());
+
+      await expect(TwoFactorService.verifyLoginCode('user-1', generateTotpCode(secret)))
+        .resolves.toEqual({ method: 'totp' });
+    });
+
+    it('should reject a code that was already used', async () => {
+      (prisma.twoFactorCredential.findUnique as any).mockResolvedValue(enabledCredential());
+      (prisma.twoFactorCredential.updateMany as any).mockResolvedValue({ count: 0 });
+
+      await expect(TwoFactorService.verifyLoginCode('user-1', generateTotpCode(secret)))
+        .rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should spend a recovery code', async () => {
+      (prisma.twoFactorCredential.findUnique as any).mockResolvedValue(enabledCredential());
+
+      await expect(TwoFactorService.verifyLoginCode('user-1', 'ABCDE-12345'))
+        .resolves.toEqual({ method: 'recovery_code' });
+      expect(prisma.twoFactorCredential.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: { recoveryCodes: [] },
+      }));
+    });
+
+    it('should not write back a recovery code another login spent from the same read', async () => {
+      const otherCode = 'fedcb-67890';
+      const hashOf = (value: string) => DataEncryption.hash(normalizeRecoveryCode(value));
+      const staleRead = { ...enabledCredential(), recoveryCodes: [hashOf(recoveryCode), hashOf(otherCode)] };
+      let stored = [...staleRead.recoveryCodes];
+
+      // Both logins read the credential before either one writes
+      (prisma.twoFactorCredential.findUnique as any).mockImplementation(async ({ where }: any) =>
+        where.userId ? staleRead : { recoveryCodes: stored }
+      );
+      (prisma.twoFactorCredential.updateMany as any).mockImplementation(async ({ where, data }: any) => {
+        if (JSON.stringify(where.recoveryCodes.equals) !== JSON.stringify(stored)) {
+          return { count: 0 };
+        }
+        stored = data.recoveryCodes;
+        return { count: 1 };
+      });
+
+      await TwoFactorService.verifyLoginCode('user-1', recoveryCode);
+      await TwoFactorService.verifyLoginCode('user-1', otherCode);
+
+      expect(stored).toEqual([]);
+      await expect(TwoFactorService.verifyLoginCode('user-1', recoveryCode))
+        .rejects.toThrow('Invalid recovery code');
+    });
+
+    it('should reject unknown recovery codes', async () => {
+      (prisma.twoFactorCredential.findUnique as any).mockResolvedValue(enabledCredential());
+
+      await expect(TwoFactorService.verifyLoginCode('user-1', 'fffff-fffff'))
+        .rejects.toThrow('Invalid recovery code');
+    });
+  });
+
+  describe('disable', () => {
+    it('should require the current password', async () => {
+      (prisma.user.findUnique as any).mockResolvedValue({ passwordHash: await hashPassword('Secret123!') });
+
+      await expect(TwoFactorService.disable('user-1', 'Wrong123!')).rejects.toMatchObject({ statusCode: 403 });
+      expect(prisma.twoFactorCredential.deleteMany).not.toHaveBeenCalled();
+
+      await TwoFactorService.disable('user-1', 'Secret123!');
+      expect(prisma.twoFactorCredential.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { randomBytes } from 'crypto';
+import prisma from '@/lib/prisma';
+import { hashPassword, verifyPassword } from '@/lib/auth';
+import { sendMail } from '@/lib/mailer';
+import { getStorageAdapter } from '@/lib/storage';
+import { LoginContext } from '@/lib/account-security';
+import { buildDeletionScheduledEmail } from '@/lib/email-templates';
+import { AccountDataError, getAnonymizedIdentity, getDeletionDate } from '@/lib/account-data';
+import { AccountSecurityService } from './account-security.service';
+import { AvatarService } from './avatar.service';
+import { DataExportService } from './data-export.service';
+import { MatchProposalService } from './match-proposal.service';
+
+export interface DeletionStatus {
+  scheduledFor: Date | null;
+}
+
+export class AccountDeletionService {
+  static async getStatus(userId: string): Promise<DeletionStatus> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { deletionScheduledAt: true },
+    });
+
+    return { scheduledFor: user?.deletionScheduledAt ?? null };
+  }
+
+  /**
+   * Schedule the account for deletion after the grace period. Signing in and
+   * cancelling keeps the account.
+   */
+  static async scheduleDeletion(
+    userId: string,
+    password: string,
+    context: LoginContext = {},
+    now: Date = new Date()
+  ): Promise<DeletionStatus> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, username: true, passwordHash: true, isActive: true, deletionScheduledAt: true },
+    });
+
+    if (!user || !user.isActive) {
+      throw new AccountDataError('User not found', 404);
+    }
+    if (!(await verifyPassword(password, user.passwordHash))) {
+      throw new AccountDataError('Password is incorrect', 403);
+    }
+    if (user.deletionScheduledAt) {
+      return { scheduledFor: user.deletionScheduledAt };
+    }
+
+    const scheduledFor = getDeletionDate(now);
+    await prisma.user.update({
+      where: { id: userId },
+      data: { deletionScheduledAt: scheduledFor },
+    });
+
+    // Nobody should be matched with an account that is going away
+    await prisma.matchingQueue.updateMany({
+      where: { userId, status: 'waiting' },
+      data: { status: 'cancelled' },
+    });
+    await MatchProposalService.withdrawUser(userId, now);
+
+    await AccountSecurityService.logEvent(userId, 'deletion_scheduled', context, { scheduledFor: scheduledFor.toISOString() });
+
+    try {
+      await sendMail(buildDeletionScheduledEmail(user.email, user.username, scheduledFor));
+    } catch (error) {
+      console.error('Failed to send account deletion email:', error);
+    }
+
+    return { scheduledFor };
+  }
+
+  static async cancelDeletion(userId: string, context: LoginContext = {}): Promise<void> {
+    const result = await prisma.user.updateMany({
+      where: { id: userId, deletionScheduledAt: { not: null }, deletedAt: null },
+      data: { deletionScheduledAt: null },
+    });
+
+    if (result.count === 0) {
+      throw new AccountDataError('No account deletion is scheduled', 409);
+    }
+
+    await AccountSecurityService.logEvent(userId, 'deletion_cancelled', context);
+  }
+
+  /**
+   * Anonymize every account whose grace period is over
+   */
+  static async processDueDeletions(now: Date = new Date()): Promise<number> {
+    const due: Array<{ id: string }> = await prisma.user.findMany({
+      where: { deletionScheduledAt: { lte: now }, deletedAt: null },
+      select: { id: true },
+    });
+
+    let processed = 0;
+    for (const { id } of due) {
+      try {
+        await this.anonymizeUser(id, now);
+        processed++;
+      } catch (error) {
+        // Left for the next run
+        console.error(`Failed to delete account ${id}:`, error);
+      }
+    }
+    return processed;
+  }
+
+  /**
+   * Remove the user's personal data. Sessions, the feedback left on them and
+   * endorsements given stay, so partners' history and stats are unchanged,
+   * but now point at an account with no name, email or password. Reports
+   * filed about the user stay as the moderation record; reports the user
+   * filed go, along with their free-text descriptions and chat excerpts.
+   */
+  static async anonymizeUser(userId: string, now: Date = new Date()): Promise<void> {
+    await AvatarService.removeAvatar(userId);
+    await DataExportService.deleteAllForUser(userId);
+
+    const uploads: Array<{ storageKey: string }> = await prisma.upload.findMany({
+      where: { ownerId: userId },
+      select: { storageKey: true },
+    });
+    const storage = getStorageAdapter();
+    for (const { storageKey } of uploads) {
+      await storage.delete(storageKey);
+    }
+
+    await prisma.upload.deleteMany({ where: { ownerId: userId } });
+    await prisma.userSkill.deleteMany({ where: { userId } });
+    await prisma.skillProgressEvent.deleteMany({ where: { userId } });
+    await prisma.skillVerificationRequest.deleteMany({ where: { userId } });
+    await prisma.skillVerificationEvent.deleteMany({ where: { userId } });
+    await prisma.skillEndorsement.deleteMany({ where: { endorseeId: userId } });
+    await prisma.learningGoal.deleteMany({ where: { userId } });
+    await prisma.userPreference.deleteMany({ where: { userId } });
+    await prisma.userAchievement.deleteMany({ where: { userId } });
+    await prisma.userStats.deleteMany({ where: { userId } });
+    await prisma.matchingQueue.deleteMany({ where: { userId } });
+    await prisma.calendarFeed.deleteMany({ where: { userId } });
+    await prisma.refreshToken.deleteMany({ where: { userId } });
+    await prisma.twoFactorCredential.deleteMany({ where: { userId } });
+    await prisma.oidcIdentity.deleteMany({ where: { userId } });
+    await prisma.securityEvent.deleteMany({ where: { userId } });
+    await prisma.userBlock.deleteMany({ where: { OR: [{ blockerId: userId }, { blockedId: userId }] } });
+    await prisma.userReport.deleteMany({ where: { reporterId: userId } });
+    // Decline what is still pending first, so the partner goes back to the queue
+    await MatchProposalService.withdrawUser(userId, now);
+    await prisma.matchProposal.deleteMany({ where: { OR: [{ userId1: userId }, { userId2: userId }] } });
+
+    const identity = getAnonymizedIdentity(userId);
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: identity.email,
+        username: identity.username,
+        // Random and never shown, so nobody can sign in
+        passwordHash: await hashPassword(randomBytes(32).toString('hex')),
+        avatarUrl: null,
+        timezone: 'UTC',
+        roles: [],
+        isVerified: false,
+        isActive: false,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        deletedAt: now,
+      },
+    });
+  }
+}
@@ -0,0 +1,208 @@
+import prisma from '@/lib/prisma';
+import { MailMessage, sendMail } from '@/lib/mailer';
+import { buildAccountLockedEmail, buildNewLoginEmail } from '@/lib/email-templates';
+import { describeDevice, maskIpAddress } from '@/lib/login-sessions';
+import {
+  ACCOUNT_LOCKOUT_CONFIG,
+  AccountLockedError,
+  LoginAnomaly,
+  LoginContext,
+  LoginHistoryEntry,
+  SecurityEventType,
+  detectLoginAnomalies,
+  getDeviceFingerprint,
+  getLockoutDuration,
+  isLocked,
+  shouldNotifyOfLogin,
+} from '@/lib/account-security';
+
+interface AccountOwner {
+  id: string;
+  email: string;
+  username: string;
+}
+
+export interface SecurityEventInfo {
+  id: string;
+  type: SecurityEventType;
+  browser: string;
+  os: string;
+  ipAddress: string | null;
+  country: string | null;
+  details: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+export class AccountSecurityService {
+  /**
+   * Refuse to check credentials while the account is locked
+   */
+  static assertNotLocked(user: { lockedUntil?: Date | null }): void {
+    if (isLocked(user.lockedUntil)) {
+      throw new AccountLockedError(user.lockedUntil);
+    }
+  }
+
+  /**
+   * Count a wrong password (or a wrong 2FA code after a right one). Locks the
+   * account once the threshold is reached, doubling the lock each time.
+   */
+  static async recordFailedLogin(
+    user: AccountOwner,
+    context: LoginContext = {},
+    type: 'login_failed' | 'two_factor_failed' = 'login_failed'
+  ): Promise<void> {
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: { increment: 1 } },
+      select: { failedLoginAttempts: true },
+    });
+
+    await this.logEvent(user.id, type, context, { failedAttempts: updated.failedLoginAttempts });
+
+    const lockoutMs = getLockoutDuration(updated.failedLoginAttempts);
+    if (lockoutMs === 0) {
+      return;
+    }
+
+    const lockedUntil = new Date(Date.now() + lockoutMs);
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lockedUntil },
+    });
+    await this.logEvent(user.id, 'account_locked', context, {
+      failedAttempts: updated.failedLoginAttempts,
+      lockedUntil: lockedUntil.toISOString(),
+    });
+
+    // Once per run of failures, later locks in the same run are just longer
+    if (updated.failedLoginAttempts === ACCOUNT_LOCKOUT_CONFIG.MAX_FAILED_ATTEMPTS) {
+      await this.notify(buildAccountLockedEmail(user.email, user.username, lockedUntil));
+    }
+  }
+
+  /**
+   * A correct password ends the run of failures
+   */
+  static async resetFailedLogins(user: { id: string; failedLoginAttempts?: number; lockedUntil?: Date | null }): Promise<void> {
+    if (!user.failedLoginAttempts && !user.lockedUntil) {
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    });
+  }
+
+  /**
+   * Log a new session and tell the user if it came from somewhere unfamiliar
+   */
+  static async recordLogin(
+    user: AccountOwner & { timezone: string },
+    context: LoginContext = {}
+  ): Promise<LoginAnomaly[]> {
+    try {
+      const history: LoginHistoryEntry[] = await prisma.securityEvent.findMany({
+        where: { userId: user.id, type: 'login_succeeded' },
+        orderBy: { createdAt: 'desc' },
+        take: ACCOUNT_LOCKOUT_CONFIG.LOGIN_HISTORY_SIZE,
+        select: { fingerprint: true, country: true },
+      });
+
+      const anomalies = detectLoginAnomalies(history, {
+        fingerprint: getDeviceFingerprint(context.userAgent),
+        country: context.country ?? null,
+        timezone: context.timezone ?? null,
+        accountTimezone: user.timezone,
+      });
+
+      await this.logEvent(user.id, 'login_succeeded', context, anomalies.length > 0 ? { anomalies } : undefined);
+
+      if (shouldNotifyOfLogin(anomalies)) {
+        const device = describeDevice(context.userAgent ?? null);
+        await this.notify(buildNewLoginEmail(user.email, user.username, {
+          device: `${device.browser} on ${device.os}`,
+          ipAddress: maskIpAddress(context.ipAddress ?? null),
+          country: context.country ?? null,
+          at: new Date(),
+          anomalies,
+        }));
+      }
+
+      return anomalies;
+    } catch (error) {
+      // The session is already issued, losing its log entry is the lesser evil
+      console.error('Failed to record login:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Append to the user's security log. Never fails the action being logged.
+   */
+  static async logEvent(
+    userId: string,
+    type: SecurityEventType,
+    context: LoginContext = {},
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await prisma.securityEvent.create({
+        data: {
+          userId,
+          type,
+          ipAddress: context.ipAddress ?? null,
+          userAgent: context.userAgent ?? null,
+          fingerprint: getDeviceFingerprint(context.userAgent),
+          country: context.country ?? null,
+          ...(details && { details }),
+        },
+      });
+    } catch (error) {
+      console.error('Failed to record security event:', error);
+    }
+  }
+
+  /**
+   * Recent security events for the owner, newest first
+   */
+  static async listEvents(userId: string, limit: number = 50): Promise<SecurityEventInfo[]> {
+    const events: Array<{
+      id: string;
+      type: SecurityEventType;
+      userAgent: string | null;
+      ipAddress: string | null;
+      country: string | null;
+      details: Record<string, unknown> | null;
+      createdAt: Date;
+    }> = await prisma.securityEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return events.map(event => {
+      const device = describeDevice(event.userAgent);
+      return {
+        id: event.id,
+        type: event.type,
+        browser: device.browser,
+        os: device.os,
+        ipAddress: maskIpAddress(event.ipAddress),
+        country: event.country,
+        details: event.details,
+        createdAt: event.createdAt,
+      };
+    });
+  }
+
+  // Notifications are best effort, a mail outage mustn't block sign-in
+  private static async notify(message: MailMessage): Promise<void> {
+    try {
+      await sendMail(message);
+    } catch (error) {
+      console.error('Failed to send security notification:', error);
+    }
+  }
+}
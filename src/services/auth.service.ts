@@ -3,16 +3,32 @@ import {
   hashPassword,
   verifyPassword,
   generateAccessToken,
-  generateRefreshToken,
   generatePasswordResetToken,
   verifyPasswordResetToken,
-  verifyRefreshToken
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+  verifyAccessToken
 } from '@/lib/auth';
+import { sendMail } from '@/lib/mailer';
+import { buildVerificationEmail } from '@/lib/email-templates';
+import { EMAIL_VERIFICATION_CONFIG, EmailVerificationError } from '@/lib/email-verification';
+import { RefreshTokenContext, RefreshTokenError } from '@/lib/refresh-tokens';
+import { TwoFactorError } from '@/lib/two-factor';
+import { LoginContext } from '@/lib/account-security';
+import { normalizeRoles } from '@/lib/permissions';
+import { RefreshTokenService } from './refresh-token.service';
+import { TwoFactorService } from './two-factor.service';
+import { AccountSecurityService } from './account-security.service';
 import {
   LoginRequest,
   RegisterRequest,
   AuthResponse,
   AuthUser,
+  JWTPayload,
+  LoginResponse,
+  TwoFactorLoginRequest,
   PasswordResetRequest,
   PasswordResetConfirm
 } from '@/types';
@@ -21,7 +37,7 @@ export class AuthService {
   /**
    * Register a new user
    */
-  static async register(data: RegisterRequest): Promise<AuthResponse> {
+  static async register(data: RegisterRequest, context: LoginContext = {}): Promise<AuthResponse> {
     // Check if user already exists
     const existingUser = await prisma.user.findFirst({
       where: {
@@ -61,6 +77,7 @@ export class AuthService {
         isVerified: true,
         avatarUrl: true,
         timezone: true,
+        roles: true,
       }
     });
 
@@ -72,11 +89,20 @@ export class AuthService {
       isVerified: user.isVerified,
       avatarUrl: user.avatarUrl,
       timezone: user.timezone,
+      roles: normalizeRoles(user.roles),
     };
     const accessToken = generateAccessToken(authUser);
-    const refreshToken = generateRefreshToken(user.id);
+    const { refreshToken } = await RefreshTokenService.issue(user.id, context);
 
-    // TODO: Send verification email (implement in future task)
+    // The first device becomes the baseline for new-device alerts
+    await AccountSecurityService.recordLogin(authUser, context);
+
+    // A mail outage shouldn't fail the signup, the user can ask for a resend
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error) {
+      console.error('Failed to send verification email:', error);
+    }
 
     return {
       user: authUser,
@@ -86,9 +112,10 @@ export class AuthService {
   }
 
   /**
-   * Login user
+   * Login user. Accounts with 2FA get a challenge token instead of a session,
+   * to be exchanged for tokens in completeTwoFactorLogin.
    */
-  static async login(data: LoginRequest): Promise<AuthResponse> {
+  static async login(data: LoginRequest, context: LoginContext = {}): Promise<LoginResponse> {
     // Find user by email
     const user = await prisma.user.findUnique({
       where: { email: data.email },
@@ -101,6 +128,9 @@ export class AuthService {
         isActive: true,
         avatarUrl: true,
         timezone: true,
+        roles: true,
+        failedLoginAttempts: true,
+        lockedUntil: true,
       }
     });
 
@@ -112,12 +142,126 @@ export class AuthService {
       throw new Error('Account has been deactivated');
     }
 
+    // Per account, so spreading guesses over many IPs doesn't help
+    AccountSecurityService.assertNotLocked(user);
+
     // Verify password
     const isPasswordValid = await verifyPassword(data.password, user.passwordHash);
     if (!isPasswordValid) {
+      await AccountSecurityService.recordFailedLogin(user, context);
       throw new Error('Invalid email or password');
     }
 
+    // The failure count is only cleared once a session is issued, so a wrong
+    // second factor can't be wiped by entering the password again
+    if (await TwoFactorService.isEnabled(user.id)) {
+      return {
+        requiresTwoFactor: true,
+        challengeToken: generateTwoFactorChallengeToken(user.id),
+      };
+    }
+
+    return this.startSession(user, context);
+  }
+
+  /**
+   * Second login step: exchange the challenge token and an authenticator or
+   * recovery code for a session
+   */
+  static async completeTwoFactorLogin(
+    data: TwoFactorLoginRequest,
+    context: LoginContext = {}
+  ): Promise<AuthResponse> {
+    const decoded = verifyTwoFactorChallengeToken(data.challengeToken);
+    if (!decoded) {
+      throw new TwoFactorError('Login attempt expired, please sign in again', 401);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.userId },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        isVerified: true,
+        isActive: true,
+        avatarUrl: true,
+        timezone: true,
+        roles: true,
+        failedLoginAttempts: true,
+        lockedUntil: true,
+      }
+    });
+
+    if (!user || !user.isActive) {
+      throw new TwoFactorError('Login attempt expired, please sign in again', 401);
+    }
+
+    AccountSecurityService.assertNotLocked(user);
+
+    try {
+      await TwoFactorService.verifyLoginCode(user.id, data.code);
+    } catch (error) {
+      // Whoever is guessing codes already has the password
+      if (error instanceof TwoFactorError && error.statusCode === 401) {
+        await AccountSecurityService.recordFailedLogin(user, context, 'two_factor_failed');
+      }
+      throw error;
+    }
+
+    return this.startSession(user, context);
+  }
+
+  /**
+   * Sign in a user already identified by an external provider (OIDC).
+   * Two-factor still applies, so this may return a challenge like login.
+   */
+  static async loginWithExternalIdentity(
+    userId: string,
+    context: LoginContext = {}
+  ): Promise<LoginResponse> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        isVerified: true,
+        isActive: true,
+        avatarUrl: true,
+        timezone: true,
+        roles: true,
+        failedLoginAttempts: true,
+        lockedUntil: true,
+      }
+    });
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!user.isActive) {
+      throw new Error('Account has been deactivated');
+    }
+
+    AccountSecurityService.assertNotLocked(user);
+
+    if (await TwoFactorService.isEnabled(user.id)) {
+      return {
+        requiresTwoFactor: true,
+        challengeToken: generateTwoFactorChallengeToken(user.id),
+      };
+    }
+
+    return this.startSession(user, context);
+  }
+
+  private static async startSession(
+    user: AuthUser & { failedLoginAttempts?: number; lockedUntil?: Date | null },
+    context: LoginContext
+  ): Promise<AuthResponse> {
+    await AccountSecurityService.resetFailedLogins(user);
+
     // Update last active timestamp
     await prisma.user.update({
       where: { id: user.id },
@@ -130,11 +274,14 @@ export class AuthService {
       email: user.email,
       username: user.username,
       isVerified: user.isVerified,
-      avatarUrl: user.avatarUrl,
+      avatarUrl: user.avatarUrl ?? null,
       timezone: user.timezone,
+      roles: normalizeRoles(user.roles),
     };
     const accessToken = generateAccessToken(authUser);
-    const refreshToken = generateRefreshToken(user.id);
+    const { refreshToken } = await RefreshTokenService.issue(user.id, context);
+
+    await AccountSecurityService.recordLogin(authUser, context);
 
     return {
       user: authUser,
@@ -144,17 +291,17 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token
+   * Refresh access token, rotating the refresh token
    */
-  static async refreshToken(refreshToken: string): Promise<{ accessToken: string; refreshToken: string }> {
-    const decoded = verifyRefreshToken(refreshToken);
-    if (!decoded) {
-      throw new Error('Invalid refresh token');
-    }
+  static async refreshToken(
+    refreshToken: string,
+    context: RefreshTokenContext = {}
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    const rotated = await RefreshTokenService.rotate(refreshToken, context);
 
     // Find user
     const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
+      where: { id: rotated.userId },
       select: {
         id: true,
         email: true,
@@ -163,14 +310,16 @@ export class AuthService {
         isActive: true,
         avatarUrl: true,
         timezone: true,
+        roles: true,
       }
     });
 
     if (!user || !user.isActive) {
-      throw new Error('User not found or inactive');
+      await RefreshTokenService.revokeFamily(rotated.familyId, 'account_inactive');
+      throw new RefreshTokenError('User not found or inactive');
     }
 
-    // Generate new tokens
+    // Generate new access token
     const authUser: AuthUser = {
       id: user.id,
       email: user.email,
@@ -178,16 +327,40 @@ export class AuthService {
       isVerified: user.isVerified,
       avatarUrl: user.avatarUrl,
       timezone: user.timezone,
+      roles: normalizeRoles(user.roles),
     };
     const newAccessToken = generateAccessToken(authUser);
-    const newRefreshToken = generateRefreshToken(user.id);
 
     return {
       accessToken: newAccessToken,
-      refreshToken: newRefreshToken,
+      refreshToken: rotated.refreshToken,
     };
   }
 
+  /**
+   * Logout: revoke the session the refresh token belongs to
+   */
+  static async logout(refreshToken: string): Promise<void> {
+    await RefreshTokenService.revoke(refreshToken, 'logout');
+  }
+
+  /**
+   * Verify an access token and that its account is still active. API routes
+   * authorize with this rather than the stateless signature check alone, so
+   * suspended and deleted accounts are refused before their token expires.
+   */
+  static async authenticateAccessToken(token: string): Promise<JWTPayload | null> {
+    const decoded = verifyAccessToken(token);
+    if (!decoded) return null;
+
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.userId },
+      select: { isActive: true },
+    });
+
+    return user?.isActive ? decoded : null;
+  }
+
   /**
    * Get user by ID
    */
@@ -201,10 +374,13 @@ export class AuthService {
         isVerified: true,
         avatarUrl: true,
         timezone: true,
+        roles: true,
+        isActive: true,
       }
     });
 
-    if (!user) return null;
+    // Suspended and deleted accounts lose access as soon as their access token is checked
+    if (!user || !user.isActive) return null;
 
     return {
       id: user.id,
@@ -213,6 +389,7 @@ export class AuthService {
       isVerified: user.isVerified,
       avatarUrl: user.avatarUrl,
       timezone: user.timezone,
+      roles: normalizeRoles(user.roles),
     };
   }
 
@@ -271,27 +448,116 @@ export class AuthService {
     // Hash new password
     const passwordHash = await hashPassword(data.newPassword);
 
-    // Update password
+    // Update password; proving access to the inbox also lifts a lockout
     await prisma.user.update({
       where: { id: user.id },
-      data: { passwordHash }
+      data: { passwordHash, failedLoginAttempts: 0, lockedUntil: null }
     });
 
+    // Whoever had the old password may still hold a session
+    await RefreshTokenService.revokeAllForUser(user.id, 'password_reset');
+    await AccountSecurityService.logEvent(user.id, 'password_reset');
+
     return { message: 'Password has been reset successfully' };
   }
 
   /**
-   * Verify user email (for future implementation)
+   * Verify user email from the link sent at signup
+   */
+  static async verifyEmail(token: string): Promise<{ message: string }> {
+    const decoded = verifyEmailVerificationToken(token);
+    if (!decoded) {
+      throw new EmailVerificationError('Invalid or expired verification token');
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: decoded.userId },
+      select: {
+        id: true,
+        email: true,
+        isVerified: true,
+        isActive: true,
+      }
+    });
+
+    // Links sent to a previous address stop working once the email changes
+    if (!user || !user.isActive || user.email !== decoded.email) {
+      throw new EmailVerificationError('Invalid or expired verification token');
+    }
+
+    if (user.isVerified) {
+      return { message: 'Email address is already verified' };
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { isVerified: true }
+    });
+
+    return { message: 'Email address verified successfully' };
+  }
+
+  /**
+   * Send a fresh verification link to a signed-in user
    */
-  static async verifyEmail(_token: string): Promise<{ message: string }> {
-    // TODO: Implement email verification logic
-    throw new Error('Email verification not implemented yet');
+  static async resendVerificationEmail(userId: string): Promise<{ message: string }> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        isVerified: true,
+        isActive: true,
+      }
+    });
+
+    if (!user || !user.isActive) {
+      throw new EmailVerificationError('User not found or inactive', 404);
+    }
+
+    if (user.isVerified) {
+      throw new EmailVerificationError('Email address is already verified', 409);
+    }
+
+    await this.sendVerificationEmail(user);
+
+    return { message: 'Verification email sent' };
   }
 
   /**
-   * Change password (for authenticated users)
+   * Reject users who haven't verified their email yet, when matching requires it
    */
-  static async changePassword(userId: string, currentPassword: string, newPassword: string): Promise<{ message: string }> {
+  static async requireVerifiedEmail(userId: string): Promise<void> {
+    if (!EMAIL_VERIFICATION_CONFIG.REQUIRED_FOR_MATCHING) {
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { isVerified: true }
+    });
+
+    if (!user?.isVerified) {
+      throw new EmailVerificationError('Please verify your email address before matching', 403);
+    }
+  }
+
+  private static async sendVerificationEmail(user: { id: string; email: string; username: string }): Promise<void> {
+    const token = generateEmailVerificationToken(user.id, user.email);
+    await sendMail(buildVerificationEmail(user.email, user.username, token));
+  }
+
+  /**
+   * Change password (for authenticated users). Every other session is signed
+   * out; the caller gets a fresh refresh token for the current device.
+   */
+  static async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    context: RefreshTokenContext = {}
+  ): Promise<{ message: string; refreshToken: string }> {
     const user = await prisma.user.findUnique({
       where: { id: userId },
       select: {
@@ -320,6 +586,10 @@ export class AuthService {
       data: { passwordHash }
     });
 
-    return { message: 'Password changed successfully' };
+    await RefreshTokenService.revokeAllForUser(user.id, 'password_changed');
+    const { refreshToken } = await RefreshTokenService.issue(user.id, context);
+    await AccountSecurityService.logEvent(user.id, 'password_changed', context);
+
+    return { message: 'Password changed successfully', refreshToken };
   }
 }
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { randomBytes } from 'crypto';
+import sharp from 'sharp';
+import prisma from '@/lib/prisma';
+import { FileUploadSecurity } from '@/lib/middleware';
+import { getStorageAdapter } from '@/lib/storage';
+import { UploadError } from '@/lib/uploads';
+import {
+  AVATAR_CONFIG,
+  AvatarSize,
+  avatarStorageKey,
+  buildAvatarUrl,
+  parseAvatarUrl,
+} from '@/lib/avatars';
+import { IncomingFile } from './upload.service';
+
+export class AvatarService {
+  /**
+   * Validate an uploaded image, store it in every avatar size and point the
+   * user's avatarUrl at the new version
+   */
+  static async updateAvatar(userId: string, file: IncomingFile): Promise<string> {
+    if (!AVATAR_CONFIG.MIME_TYPES.includes(file.type)) {
+      throw new UploadError('Avatar must be a JPEG, PNG, GIF or WebP image');
+    }
+    if (file.size > AVATAR_CONFIG.MAX_FILE_SIZE) {
+      throw new UploadError('Avatar must be 5MB or smaller');
+    }
+
+    const validation = FileUploadSecurity.validateUploadedFile(file);
+    if (!validation.isValid) {
+      throw new UploadError(validation.securityViolation || validation.errors?.join(', ') || 'Invalid file');
+    }
+
+    const scan = await FileUploadSecurity.scanFileForMalware(file.buffer);
+    if (!scan.isSafe) {
+      console.warn(`Malware detected in avatar upload from user ${userId}:`, scan.threats);
+      throw new UploadError('File contains potentially malicious content');
+    }
+
+    const variants = await this.processImage(file.buffer);
+    const version = randomBytes(6).toString('hex');
+    const storage = getStorageAdapter();
+
+    for (const [size, image] of variants) {
+      await storage.put(avatarStorageKey({ userId, version, size }), image, { contentType: 'image/webp' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { avatarUrl: true },
+    });
+
+    const avatarUrl = buildAvatarUrl({ userId, version, size: AVATAR_CONFIG.DEFAULT_SIZE });
+    await prisma.user.update({
+      where: { id: userId },
+      data: { avatarUrl, updatedAt: new Date() },
+    });
+
+    await this.deleteVariants(userId, user?.avatarUrl);
+
+    return avatarUrl;
+  }
+
+  /**
+   * Clear the avatar, deleting the stored images if it was uploaded here
+   */
+  static async removeAvatar(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { avatarUrl: true },
+    });
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { avatarUrl: null, updatedAt: new Date() },
+    });
+
+    await this.deleteVariants(userId, user?.avatarUrl);
+  }
+
+  static async getAvatarImage(userId: string, version: string, size: AvatarSize): Promise<Buffer | null> {
+    return getStorageAdapter().get(avatarStorageKey({ userId, version, size }));
+  }
+
+  /**
+   * Square WebP images in each size. Orientation from EXIF is applied first;
+   * sharp drops EXIF and other metadata from its output.
+   */
+  private static async processImage(buffer: Buffer): Promise<Map<AvatarSize, Buffer>> {
+    const options = { limitInputPixels: AVATAR_CONFIG.MAX_INPUT_PIXELS };
+
+    try {
+      const metadata = await sharp(buffer, options).metadata();
+      if (!metadata.format || !['jpeg', 'png', 'gif', 'webp'].includes(metadata.format)) {
+        throw new UploadError('File is not a supported image');
+      }
+
+      const variants = new Map<AvatarSize, Buffer>();
+      for (const size of AVATAR_CONFIG.SIZES) {
+        const image = await sharp(buffer, options)
+          .rotate()
+          .resize(size, size, { fit: 'cover', position: 'attention' })
+          .webp({ quality: AVATAR_CONFIG.WEBP_QUALITY })
+          .toBuffer();
+        variants.set(size, image);
+      }
+      return variants;
+    } catch (error) {
+      if (error instanceof UploadError) {
+        throw error;
+      }
+      throw new UploadError('File is not a valid image');
+    }
+  }
+
+  private static async deleteVariants(userId: string, avatarUrl: string | null | undefined): Promise<void> {
+    const previous = parseAvatarUrl(avatarUrl);
+    // Only images this user uploaded, never someone else's from a copied URL
+    if (!previous || previous.userId !== userId) {
+      return;
+    }
+
+    const storage = getStorageAdapter();
+    await Promise.all(AVATAR_CONFIG.SIZES.map(size =>
+      storage.delete(avatarStorageKey({ ...previous, size })).catch(error => {
+        console.error('Failed to delete old avatar image:', error);
+      })
+    ));
+  }
+}
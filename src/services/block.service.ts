@@ -0,0 +1,83 @@
+import prisma from '@/lib/prisma';
+import { BlockedUserInfo, SafetyError } from '@/lib/safety';
+
+export class BlockService {
+  /**
+   * Block a user. Blocking twice is a no-op.
+   */
+  static async blockUser(blockerId: string, blockedId: string): Promise<void> {
+    if (blockerId === blockedId) {
+      throw new SafetyError('You cannot block yourself');
+    }
+
+    const blocked = await prisma.user.findUnique({
+      where: { id: blockedId },
+      select: { id: true },
+    });
+    if (!blocked) {
+      throw new SafetyError('User not found', 404);
+    }
+
+    await prisma.userBlock.upsert({
+      where: { blockerId_blockedId: { blockerId, blockedId } },
+      create: { blockerId, blockedId },
+      update: {},
+    });
+  }
+
+  static async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    await prisma.userBlock.deleteMany({
+      where: { blockerId, blockedId },
+    });
+  }
+
+  /**
+   * Users this user has blocked, newest first. Blocks by others are not shown.
+   */
+  static async listBlockedUsers(userId: string): Promise<BlockedUserInfo[]> {
+    const blocks: Array<{
+      blockedId: string;
+      createdAt: Date;
+      blocked: { username: string; avatarUrl: string | null };
+    }> = await prisma.userBlock.findMany({
+      where: { blockerId: userId },
+      include: {
+        blocked: { select: { username: true, avatarUrl: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return blocks.map(block => ({
+      userId: block.blockedId,
+      username: block.blocked.username,
+      avatarUrl: block.blocked.avatarUrl,
+      blockedAt: block.createdAt,
+    }));
+  }
+
+  /**
+   * Everyone the user must not be paired with: blocked by them or blocking them
+   */
+  static async getBlockedUserIds(userId: string): Promise<Set<string>> {
+    const blocks: Array<{ blockerId: string; blockedId: string }> = await prisma.userBlock.findMany({
+      where: { OR: [{ blockerId: userId }, { blockedId: userId }] },
+      select: { blockerId: true, blockedId: true },
+    });
+
+    return new Set(blocks.map(block => (block.blockerId === userId ? block.blockedId : block.blockerId)));
+  }
+
+  static async isBlockedBetween(userId: string, otherUserId: string): Promise<boolean> {
+    const block = await prisma.userBlock.findFirst({
+      where: {
+        OR: [
+          { blockerId: userId, blockedId: otherUserId },
+          { blockerId: otherUserId, blockedId: userId },
+        ],
+      },
+      select: { id: true },
+    });
+
+    return block !== null;
+  }
+}
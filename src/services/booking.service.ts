@@ -0,0 +1,373 @@
+import prisma from '@/lib/prisma';
+import { withRedisLocks } from '@/lib/redis-lock';
+import { broadcastToUser } from '@/lib/socket-server';
+import { OPEN_SESSION_STATUSES } from '@/lib/session-lifecycle';
+import {
+  BOOKING_CONFIG,
+  BookableSlot,
+  BookingError,
+  TimeInterval,
+  buildSlots,
+  expandAvailability,
+  getSessionInterval,
+  intersectIntervals,
+  intervalsOverlap,
+  isValidTimezone,
+  isWithinIntervals,
+  subtractIntervals,
+} from '@/lib/booking';
+import type { AvailabilitySchedule } from '@/types';
+
+export interface SlotSearchOptions {
+  from?: Date;
+  days?: number;
+  durationMinutes?: number;
+}
+
+export interface MutualSlotsResult {
+  slots: BookableSlot[];
+  durationMinutes: number;
+  windowStart: string;
+  windowEnd: string;
+  timezones: Record<string, string>;
+}
+
+export interface BookSessionRequest {
+  partnerId: string;
+  startTime: Date;
+  durationMinutes: number;
+  sessionType: 'learning' | 'teaching' | 'collaboration';
+  topics: string[];
+}
+
+export interface RescheduleSessionRequest {
+  startTime: Date;
+  durationMinutes?: number;
+  reason?: string;
+}
+
+interface BookingParticipant {
+  id: string;
+  username: string;
+  timezone: string;
+  maxSessionDuration: number;
+  availabilitySchedule: AvailabilitySchedule | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class BookingService {
+  /**
+   * List slots where both users are available and neither has a session booked
+   */
+  static async getMutualSlots(
+    userId: string,
+    partnerId: string,
+    options: SlotSearchOptions = {}
+  ): Promise<MutualSlotsResult> {
+    const [user, partner] = await this.getParticipants(userId, partnerId);
+
+    const durationMinutes = options.durationMinutes
+      ?? Math.min(BOOKING_CONFIG.DEFAULT_DURATION_MINUTES, user.maxSessionDuration, partner.maxSessionDuration);
+    this.assertDuration(durationMinutes, user, partner);
+
+    const days = Math.min(options.days ?? BOOKING_CONFIG.DEFAULT_SEARCH_DAYS, BOOKING_CONFIG.MAX_SEARCH_DAYS);
+    const earliest = new Date(Date.now() + BOOKING_CONFIG.MIN_LEAD_TIME_MINUTES * MINUTE_MS);
+    const windowStart = options.from && options.from > earliest ? options.from : earliest;
+    const windowEnd = new Date(Math.min(
+      windowStart.getTime() + days * 24 * 60 * MINUTE_MS,
+      Date.now() + BOOKING_CONFIG.MAX_DAYS_AHEAD * 24 * 60 * MINUTE_MS
+    ));
+
+    const free = await this.getMutualFreeIntervals(user, partner, windowStart, windowEnd);
+
+    return {
+      slots: buildSlots(free, durationMinutes),
+      durationMinutes,
+      windowStart: windowStart.toISOString(),
+      windowEnd: windowEnd.toISOString(),
+      timezones: {
+        [user.id]: user.timezone,
+        [partner.id]: partner.timezone,
+      },
+    };
+  }
+
+  /**
+   * Book a scheduled session with a partner for a mutually free slot
+   */
+  static async bookSession(userId: string, request: BookSessionRequest) {
+    const [user, partner] = await this.getParticipants(userId, request.partnerId);
+    this.assertDuration(request.durationMinutes, user, partner);
+
+    const slot = this.toInterval(request.startTime, request.durationMinutes);
+    this.assertBookingWindow(slot);
+
+    const session = await this.withBookingLocks([user.id, partner.id], async () => {
+      await this.assertSlotAvailable(user, partner, slot);
+
+      return prisma.session.create({
+        data: {
+          initiatorId: user.id,
+          partnerId: partner.id,
+          sessionType: request.sessionType,
+          topics: request.topics,
+          status: 'scheduled',
+          startTime: slot.start,
+          scheduledEndTime: slot.end,
+        },
+      });
+    });
+
+    broadcastToUser(partner.id, 'session_booked', {
+      sessionId: session.id,
+      bookedBy: { id: user.id, username: user.username },
+      sessionType: session.sessionType,
+      topics: session.topics,
+      startTime: slot.start.toISOString(),
+      endTime: slot.end.toISOString(),
+      timestamp: new Date().toISOString(),
+    });
+
+    return session;
+  }
+
+  /**
+   * Move a scheduled session to a new slot and notify the other participant
+   */
+  static async rescheduleSession(sessionId: string, userId: string, request: RescheduleSessionRequest) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      throw new BookingError('Session not found', 404);
+    }
+
+    if (session.initiatorId !== userId && session.partnerId !== userId) {
+      throw new BookingError('You are not a participant of this session', 403);
+    }
+
+    if (session.status !== 'scheduled') {
+      throw new BookingError(`Cannot reschedule a session that is ${session.status}`, 409);
+    }
+
+    const otherUserId = session.initiatorId === userId ? session.partnerId : session.initiatorId;
+    const [user, partner] = await this.getParticipants(userId, otherUserId);
+
+    const currentInterval = getSessionInterval(session);
+    const durationMinutes = request.durationMinutes
+      ?? Math.round((currentInterval.end.getTime() - currentInterval.start.getTime()) / MINUTE_MS);
+    this.assertDuration(durationMinutes, user, partner);
+
+    const slot = this.toInterval(request.startTime, durationMinutes);
+    this.assertBookingWindow(slot);
+
+    const updatedSession = await this.withBookingLocks([user.id, partner.id], async () => {
+      await this.assertSlotAvailable(user, partner, slot, sessionId);
+
+      // Conditional update so a session started or cancelled meanwhile is not moved
+      const { count } = await prisma.session.updateMany({
+        where: { id: sessionId, status: 'scheduled' },
+        data: {
+          startTime: slot.start,
+          scheduledEndTime: slot.end,
+          rescheduledAt: new Date(),
+          statusChangedBy: userId,
+          statusReason: request.reason ?? null,
+        },
+      });
+
+      if (count === 0) {
+        throw new BookingError('Session status changed concurrently, please retry', 409);
+      }
+
+      return prisma.session.findUnique({
+        where: { id: sessionId },
+      });
+    });
+
+    broadcastToUser(partner.id, 'session_rescheduled', {
+      sessionId,
+      rescheduledBy: { id: user.id, username: user.username },
+      previousStartTime: currentInterval.start.toISOString(),
+      startTime: slot.start.toISOString(),
+      endTime: slot.end.toISOString(),
+      reason: request.reason ?? null,
+      timestamp: new Date().toISOString(),
+    });
+
+    return updatedSession;
+  }
+
+  /**
+   * Load both users with the data needed for booking
+   */
+  private static async getParticipants(
+    userId: string,
+    partnerId: string
+  ): Promise<[BookingParticipant, BookingParticipant]> {
+    if (userId === partnerId) {
+      throw new BookingError('You cannot book a session with yourself');
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        id: { in: [userId, partnerId] },
+        isActive: true,
+      },
+      include: {
+        userPreferences: true,
+      },
+    });
+
+    const toParticipant = (user: any): BookingParticipant => ({
+      id: user.id,
+      username: user.username,
+      timezone: user.timezone && isValidTimezone(user.timezone) ? user.timezone : 'UTC',
+      maxSessionDuration: user.userPreferences?.maxSessionDuration ?? BOOKING_CONFIG.MAX_DURATION_MINUTES,
+      availabilitySchedule: (user.userPreferences?.availabilitySchedule as AvailabilitySchedule) ?? null,
+    });
+
+    const user = users.find((u: any) => u.id === userId);
+    const partner = users.find((u: any) => u.id === partnerId);
+
+    if (!user) {
+      throw new BookingError('User not found', 404);
+    }
+    if (!partner) {
+      throw new BookingError('Partner not found', 404);
+    }
+
+    return [toParticipant(user), toParticipant(partner)];
+  }
+
+  /**
+   * Mutual availability of two users with their open sessions removed
+   */
+  private static async getMutualFreeIntervals(
+    user: BookingParticipant,
+    partner: BookingParticipant,
+    windowStart: Date,
+    windowEnd: Date,
+    excludeSessionId?: string
+  ): Promise<TimeInterval[]> {
+    const mutual = intersectIntervals(
+      expandAvailability(user.availabilitySchedule, user.timezone, windowStart, windowEnd),
+      expandAvailability(partner.availabilitySchedule, partner.timezone, windowStart, windowEnd)
+    );
+
+    if (mutual.length === 0) return [];
+
+    const busy = await this.getBusyIntervals([user.id, partner.id], windowStart, windowEnd, excludeSessionId);
+    return subtractIntervals(mutual, busy);
+  }
+
+  /**
+   * Time ranges of upcoming or running sessions for any of the users
+   */
+  private static async getBusyIntervals(
+    userIds: string[],
+    windowStart: Date,
+    windowEnd: Date,
+    excludeSessionId?: string
+  ): Promise<TimeInterval[]> {
+    const sessions = await prisma.session.findMany({
+      where: {
+        OR: [
+          { initiatorId: { in: userIds } },
+          { partnerId: { in: userIds } },
+        ],
+        status: { in: [...OPEN_SESSION_STATUSES] },
+        startTime: {
+          gte: new Date(windowStart.getTime() - BOOKING_CONFIG.MAX_DURATION_MINUTES * MINUTE_MS),
+          lt: windowEnd,
+        },
+        ...(excludeSessionId && { id: { not: excludeSessionId } }),
+      },
+      select: {
+        id: true,
+        startTime: true,
+        scheduledEndTime: true,
+      },
+    });
+
+    return sessions.map((session: any) => getSessionInterval(session));
+  }
+
+  /**
+   * Reject a slot outside mutual availability or overlapping an existing session
+   */
+  private static async assertSlotAvailable(
+    user: BookingParticipant,
+    partner: BookingParticipant,
+    slot: TimeInterval,
+    excludeSessionId?: string
+  ): Promise<void> {
+    const mutual = intersectIntervals(
+      expandAvailability(user.availabilitySchedule, user.timezone, slot.start, slot.end),
+      expandAvailability(partner.availabilitySchedule, partner.timezone, slot.start, slot.end)
+    );
+
+    if (!isWithinIntervals(slot, mutual)) {
+      throw new BookingError('Selected time is outside both users\' availability', 422);
+    }
+
+    const busy = await this.getBusyIntervals([user.id, partner.id], slot.start, slot.end, excludeSessionId);
+    if (busy.some(interval => intervalsOverlap(interval, slot))) {
+      throw new BookingError('Selected time conflicts with an existing session', 409);
+    }
+  }
+
+  private static assertDuration(
+    durationMinutes: number,
+    user: BookingParticipant,
+    partner: BookingParticipant
+  ): void {
+    if (
+      !Number.isInteger(durationMinutes)
+      || durationMinutes < BOOKING_CONFIG.MIN_DURATION_MINUTES
+      || durationMinutes > BOOKING_CONFIG.MAX_DURATION_MINUTES
+    ) {
+      throw new BookingError(
+        `Duration must be between ${BOOKING_CONFIG.MIN_DURATION_MINUTES} and ${BOOKING_CONFIG.MAX_DURATION_MINUTES} minutes`
+      );
+    }
+
+    const maxDuration = Math.min(user.maxSessionDuration, partner.maxSessionDuration);
+    if (durationMinutes > maxDuration) {
+      throw new BookingError(`Duration exceeds the maximum session length of ${maxDuration} minutes`);
+    }
+  }
+
+  private static assertBookingWindow(slot: TimeInterval): void {
+    const now = Date.now();
+
+    if (slot.start.getTime() < now + BOOKING_CONFIG.MIN_LEAD_TIME_MINUTES * MINUTE_MS) {
+      throw new BookingError(
+        `Sessions must be booked at least ${BOOKING_CONFIG.MIN_LEAD_TIME_MINUTES} minutes in advance`
+      );
+    }
+
+    if (slot.start.getTime() > now + BOOKING_CONFIG.MAX_DAYS_AHEAD * 24 * 60 * MINUTE_MS) {
+      throw new BookingError(`Sessions can be booked at most ${BOOKING_CONFIG.MAX_DAYS_AHEAD} days ahead`);
+    }
+  }
+
+  private static toInterval(startTime: Date, durationMinutes: number): TimeInterval {
+    return {
+      start: startTime,
+      end: new Date(startTime.getTime() + durationMinutes * MINUTE_MS),
+    };
+  }
+
+  /**
+   * Serialize bookings per user so two concurrent requests cannot both take the same slot
+   */
+  private static withBookingLocks<T>(userIds: string[], callback: () => Promise<T>): Promise<T> {
+    return withRedisLocks(userIds.map(id => `booking:lock:${id}`), {
+      ttlMs: BOOKING_CONFIG.LOCK_TTL_MS,
+      onBusy: () => new BookingError('Another booking is in progress for this user, please retry', 409),
+    }, callback);
+  }
+}
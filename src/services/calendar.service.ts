@@ -0,0 +1,130 @@
+import prisma from '@/lib/prisma';
+import { DataEncryption } from '@/lib/security';
+import { CalendarSession, buildCalendar } from '@/lib/icalendar';
+
+// How far back the subscribable feed reaches
+const FEED_HISTORY_DAYS = 90;
+const FEED_MAX_SESSIONS = 500;
+
+const participantSelect = {
+  select: {
+    id: true,
+    username: true,
+  },
+};
+
+export interface CalendarFeedStatus {
+  enabled: boolean;
+  createdAt: Date | null;
+  lastAccessedAt: Date | null;
+}
+
+export class CalendarService {
+  /**
+   * Whether the user has a feed token, without revealing it
+   */
+  static async getFeedStatus(userId: string): Promise<CalendarFeedStatus> {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { userId },
+    });
+
+    return {
+      enabled: !!feed,
+      createdAt: feed?.createdAt ?? null,
+      lastAccessedAt: feed?.lastAccessedAt ?? null,
+    };
+  }
+
+  /**
+   * Create or replace the user's feed token; the previous feed URL stops working
+   */
+  static async rotateFeedToken(userId: string): Promise<string> {
+    const token = DataEncryption.generateSecureToken(24);
+    const tokenHash = DataEncryption.hash(token);
+
+    await prisma.calendarFeed.upsert({
+      where: { userId },
+      create: { userId, tokenHash },
+      update: { tokenHash, createdAt: new Date(), lastAccessedAt: null },
+    });
+
+    return token;
+  }
+
+  /**
+   * Disable the user's feed
+   */
+  static async revokeFeedToken(userId: string): Promise<void> {
+    await prisma.calendarFeed.deleteMany({
+      where: { userId },
+    });
+  }
+
+  /**
+   * Render the feed belonging to a token, or null for an unknown token
+   */
+  static async renderFeed(token: string, baseUrl: string): Promise<string | null> {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { tokenHash: DataEncryption.hash(token) },
+      include: {
+        user: {
+          select: { id: true, username: true, isActive: true },
+        },
+      },
+    });
+
+    if (!feed || !feed.user.isActive) {
+      return null;
+    }
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        OR: [
+          { initiatorId: feed.userId },
+          { partnerId: feed.userId },
+        ],
+        startTime: {
+          gte: new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000),
+        },
+      },
+      include: {
+        initiator: participantSelect,
+        partner: participantSelect,
+      },
+      // Newest first, so a long history can't crowd upcoming sessions out of the cap
+      orderBy: { startTime: 'desc' },
+      take: FEED_MAX_SESSIONS,
+    });
+
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: new Date() },
+    });
+
+    return buildCalendar(
+      (sessions as CalendarSession[]).reverse(),
+      feed.userId,
+      baseUrl,
+      `SkillSync - ${feed.user.username}`
+    );
+  }
+
+  /**
+   * Render a single session for a participant, or null if the user cannot see it
+   */
+  static async renderSession(sessionId: string, userId: string, baseUrl: string): Promise<string | null> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        initiator: participantSelect,
+        partner: participantSelect,
+      },
+    });
+
+    if (!session || (session.initiatorId !== userId && session.partnerId !== userId)) {
+      return null;
+    }
+
+    return buildCalendar([session as CalendarSession], userId, baseUrl);
+  }
+}
@@ -0,0 +1,442 @@
+import prisma from '@/lib/prisma';
+import { getStorageAdapter } from '@/lib/storage';
+import {
+  ACCOUNT_DATA_CONFIG,
+  AccountDataError,
+  DataExportInfo,
+  DataExportStatus,
+  EXPORT_CONTENT_TYPES,
+  ExportFormat,
+  PersonalDataSections,
+  buildExportArchive,
+  getExportFilename,
+} from '@/lib/account-data';
+
+interface DataExportRecord {
+  id: string;
+  userId: string;
+  format: ExportFormat;
+  status: DataExportStatus;
+  storageKey: string | null;
+  size: number | null;
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+}
+
+function toDataExportInfo(record: DataExportRecord): DataExportInfo {
+  return {
+    id: record.id,
+    format: record.format,
+    status: record.status,
+    size: record.size,
+    createdAt: record.createdAt,
+    completedAt: record.completedAt,
+    expiresAt: record.expiresAt,
+  };
+}
+
+export class DataExportService {
+  /**
+   * Queue an export of everything tied to the user. The archive is built by
+   * processExport, called right away by the API and again by the job runner
+   * for anything left pending.
+   */
+  static async requestExport(userId: string, format: ExportFormat, now: Date = new Date()): Promise<DataExportInfo> {
+    const latest: DataExportRecord | null = await prisma.dataExport.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (latest && (latest.status === 'pending' || latest.status === 'processing')) {
+      throw new AccountDataError('An export is already being prepared', 409);
+    }
+
+    const cooldownMs = ACCOUNT_DATA_CONFIG.EXPORT_COOLDOWN_HOURS * 60 * 60 * 1000;
+    if (latest && latest.status === 'ready' && now.getTime() - latest.createdAt.getTime() < cooldownMs) {
+      throw new AccountDataError('You can request one export per day. Download your latest export instead.', 429);
+    }
+
+    const record = await prisma.dataExport.create({
+      data: { userId, format, status: 'pending' },
+    });
+
+    return toDataExportInfo(record);
+  }
+
+  static async listExports(userId: string): Promise<DataExportInfo[]> {
+    const records: DataExportRecord[] = await prisma.dataExport.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+    });
+
+    return records.map(toDataExportInfo);
+  }
+
+  /**
+   * Build and store the archive. Does nothing if another worker got to the
+   * export first.
+   */
+  static async processExport(exportId: string, now: Date = new Date()): Promise<void> {
+    const claimed = await prisma.dataExport.updateMany({
+      where: { id: exportId, status: 'pending' },
+      data: { status: 'processing' },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const record: DataExportRecord = await prisma.dataExport.findUnique({ where: { id: exportId } });
+
+    try {
+      const sections = await this.collectUserData(record.userId);
+      const archive = buildExportArchive(sections, record.format, now);
+      const storageKey = `exports/${record.userId}/${record.id}.${record.format}`;
+
+      await getStorageAdapter().put(storageKey, archive, { contentType: EXPORT_CONTENT_TYPES[record.format] });
+
+      await prisma.dataExport.update({
+        where: { id: record.id },
+        data: {
+          status: 'ready',
+          storageKey,
+          size: archive.length,
+          completedAt: now,
+          expiresAt: new Date(now.getTime() + ACCOUNT_DATA_CONFIG.EXPORT_TTL_HOURS * 60 * 60 * 1000),
+        },
+      });
+    } catch (error) {
+      console.error(`Data export ${exportId} failed:`, error);
+      await prisma.dataExport.update({
+        where: { id: record.id },
+        data: { status: 'failed', error: error instanceof Error ? error.message : 'Export failed', completedAt: now },
+      });
+    }
+  }
+
+  /**
+   * The archive of a finished export, for its owner only
+   */
+  static async getDownload(
+    userId: string,
+    exportId: string,
+    now: Date = new Date()
+  ): Promise<{ filename: string; contentType: string; content: Buffer }> {
+    const record: DataExportRecord | null = await prisma.dataExport.findUnique({ where: { id: exportId } });
+
+    if (!record || record.userId !== userId) {
+      throw new AccountDataError('Export not found', 404);
+    }
+    if (record.status !== 'ready') {
+      throw new AccountDataError('This export is not ready yet', 409);
+    }
+    if (!record.storageKey || (record.expiresAt && record.expiresAt < now)) {
+      throw new AccountDataError('This export has expired. Please request a new one.', 410);
+    }
+
+    const content = await getStorageAdapter().get(record.storageKey);
+    if (!content) {
+      throw new AccountDataError('Export not found', 404);
+    }
+
+    return {
+      filename: getExportFilename(record.format, record.createdAt),
+      contentType: EXPORT_CONTENT_TYPES[record.format],
+      content,
+    };
+  }
+
+  /**
+   * Everything stored about the user, by section. Secrets such as password
+   * and token hashes are left out.
+   */
+  static async collectUserData(userId: string): Promise<PersonalDataSections> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        avatarUrl: true,
+        timezone: true,
+        roles: true,
+        isVerified: true,
+        createdAt: true,
+        updatedAt: true,
+        lastActive: true,
+        deletionScheduledAt: true,
+      },
+    });
+
+    if (!user) {
+      throw new AccountDataError('User not found', 404);
+    }
+
+    const [
+      skills,
+      skillProgress,
+      verificationRequests,
+      endorsementsGiven,
+      endorsementsReceived,
+      learningGoals,
+      preferences,
+      sessions,
+      feedback,
+      achievements,
+      stats,
+      queueHistory,
+      uploads,
+      signInProviders,
+      securityEvents,
+      blocks,
+      reportsFiled,
+      matchProposals,
+    ] = await Promise.all([
+      prisma.userSkill.findMany({
+        where: { userId },
+        select: {
+          proficiencyLevel: true,
+          verified: true,
+          verifiedAt: true,
+          verificationMethod: true,
+          endorsements: true,
+          createdAt: true,
+          skill: { select: { name: true, category: true } },
+        },
+      }),
+      prisma.skillProgressEvent.findMany({
+        where: { userId },
+        select: {
+          eventType: true,
+          previousLevel: true,
+          level: true,
+          sessionId: true,
+          minutes: true,
+          createdAt: true,
+          skill: { select: { name: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.skillVerificationRequest.findMany({
+        where: { userId },
+        select: {
+          status: true,
+          evidenceUrl: true,
+          note: true,
+          reviewNote: true,
+          createdAt: true,
+          reviewedAt: true,
+          skill: { select: { name: true } },
+        },
+      }),
+      prisma.skillEndorsement.findMany({
+        where: { endorserId: userId },
+        select: {
+          sessionId: true,
+          createdAt: true,
+          skill: { select: { name: true } },
+          endorsee: { select: { username: true } },
+        },
+      }),
+      prisma.skillEndorsement.findMany({
+        where: { endorseeId: userId },
+        select: {
+          sessionId: true,
+          createdAt: true,
+          skill: { select: { name: true } },
+          endorser: { select: { username: true } },
+        },
+      }),
+      prisma.learningGoal.findMany({ where: { userId } }),
+      prisma.userPreference.findUnique({ where: { userId } }),
+      prisma.session.findMany({
+        where: { OR: [{ initiatorId: userId }, { partnerId: userId }] },
+        include: {
+          initiator: { select: { username: true } },
+          partner: { select: { username: true } },
+        },
+        orderBy: { startTime: 'asc' },
+      }),
+      prisma.sessionFeedback.findMany({ where: { userId } }),
+      prisma.userAchievement.findMany({
+        where: { userId },
+        select: {
+          earnedAt: true,
+          progress: true,
+          achievement: { select: { name: true, description: true, category: true, points: true } },
+        },
+      }),
+      prisma.userStats.findUnique({ where: { userId } }),
+      prisma.matchingQueue.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+      prisma.upload.findMany({
+        where: { ownerId: userId },
+        select: { id: true, sessionId: true, originalName: true, mimeType: true, size: true, sha256: true, createdAt: true },
+      }),
+      prisma.oidcIdentity.findMany({
+        where: { userId },
+        select: { provider: true, email: true, createdAt: true, lastLoginAt: true },
+      }),
+      prisma.securityEvent.findMany({
+        where: { userId },
+        select: { type: true, ipAddress: true, userAgent: true, country: true, details: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.userBlock.findMany({
+        where: { blockerId: userId },
+        select: { createdAt: true, blocked: { select: { username: true } } },
+      }),
+      prisma.userReport.findMany({
+        where: { reporterId: userId },
+        select: {
+          sessionId: true,
+          category: true,
+          description: true,
+          chatExcerpt: true,
+          status: true,
+          action: true,
+          createdAt: true,
+          resolvedAt: true,
+          reportedUser: { select: { username: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.matchProposal.findMany({
+        where: { OR: [{ userId1: userId }, { userId2: userId }] },
+        include: {
+          user1: { select: { username: true } },
+          user2: { select: { username: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const feedbackBySession = new Map(feedback.map((entry: { sessionId: string }) => [entry.sessionId, entry]));
+
+    return {
+      profile: user,
+      skills,
+      skillProgress,
+      skillVerificationRequests: verificationRequests,
+      endorsements: { given: endorsementsGiven, received: endorsementsReceived },
+      learningGoals,
+      preferences,
+      sessions: sessions.map((session: {
+        id: string;
+        initiatorId: string;
+        initiator: { username: string };
+        partner: { username: string };
+      }) => {
+        const { initiator, partner, ...rest } = session;
+        const isInitiator = session.initiatorId === userId;
+        return {
+          ...rest,
+          role: isInitiator ? 'initiator' : 'partner',
+          partnerUsername: isInitiator ? partner.username : initiator.username,
+          yourFeedback: feedbackBySession.get(session.id) ?? null,
+        };
+      }),
+      achievements,
+      stats,
+      queueHistory,
+      uploads,
+      signInProviders,
+      securityEvents,
+      blocks: blocks.map((block: { createdAt: Date; blocked: { username: string } }) => ({
+        username: block.blocked.username,
+        createdAt: block.createdAt,
+      })),
+      reportsFiled,
+      matchProposals: matchProposals.map((proposal: {
+        userId1: string;
+        user1Response: string | null;
+        user2Response: string | null;
+        user1: { username: string };
+        user2: { username: string };
+        sessionType: string;
+        topics: string[];
+        compatibilityScore: number;
+        status: string;
+        sessionId: string | null;
+        createdAt: Date;
+        resolvedAt: Date | null;
+      }) => {
+        const isFirst = proposal.userId1 === userId;
+        return {
+          partnerUsername: isFirst ? proposal.user2.username : proposal.user1.username,
+          sessionType: proposal.sessionType,
+          topics: proposal.topics,
+          compatibilityScore: proposal.compatibilityScore,
+          status: proposal.status,
+          yourResponse: isFirst ? proposal.user1Response : proposal.user2Response,
+          sessionId: proposal.sessionId,
+          createdAt: proposal.createdAt,
+          resolvedAt: proposal.resolvedAt,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Build exports that are still pending, e.g. after a restart
+   */
+  static async processPendingExports(now: Date = new Date()): Promise<number> {
+    // Exports stuck in processing belonged to a worker that died
+    await prisma.dataExport.updateMany({
+      where: {
+        status: 'processing',
+        createdAt: { lt: new Date(now.getTime() - ACCOUNT_DATA_CONFIG.EXPORT_PROCESSING_TIMEOUT_MS) },
+      },
+      data: { status: 'pending' },
+    });
+
+    const pending: Array<{ id: string }> = await prisma.dataExport.findMany({
+      where: { status: 'pending' },
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const { id } of pending) {
+      await this.processExport(id, now);
+    }
+    return pending.length;
+  }
+
+  /**
+   * Delete archives past their expiry. The records stay as history.
+   */
+  static async deleteExpiredExports(now: Date = new Date()): Promise<number> {
+    const expired: Array<{ id: string; storageKey: string }> = await prisma.dataExport.findMany({
+      where: { status: 'ready', expiresAt: { lt: now }, storageKey: { not: null } },
+      select: { id: true, storageKey: true },
+    });
+
+    const storage = getStorageAdapter();
+    for (const record of expired) {
+      await storage.delete(record.storageKey);
+      await prisma.dataExport.update({
+        where: { id: record.id },
+        data: { storageKey: null },
+      });
+    }
+    return expired.length;
+  }
+
+  /**
+   * Remove every export and archive of the user
+   */
+  static async deleteAllForUser(userId: string): Promise<void> {
+    const records: Array<{ storageKey: string | null }> = await prisma.dataExport.findMany({
+      where: { userId },
+      select: { storageKey: true },
+    });
+
+    const storage = getStorageAdapter();
+    for (const { storageKey } of records) {
+      if (storageKey) {
+        await storage.delete(storageKey);
+      }
+    }
+    await prisma.dataExport.deleteMany({ where: { userId } });
+  }
+}
@@ -0,0 +1,265 @@
+import prisma from '@/lib/prisma';
+import { broadcastToUser } from '@/lib/socket-server';
+import { ENDORSABLE_SESSION_STATUSES, EndorsementError } from '@/lib/endorsements';
+import type { SkillEndorsement } from '@/types';
+import { SkillVerificationService } from './skill-verification.service';
+
+export interface EndorsableSkill {
+  skillId: string;
+  name: string;
+  category: string;
+  proficiencyLevel: number;
+  endorsed: boolean;
+}
+
+export interface EndorseSkillsResult {
+  endorsements: SkillEndorsement[];
+  alreadyEndorsed: string[];
+}
+
+interface EndorsementSession {
+  id: string;
+  status: string;
+  endorser: { id: string; username: string };
+  endorsee: { id: string; username: string };
+}
+
+interface SkillEndorsementRecord {
+  id: string;
+  skillId: string;
+  sessionId: string;
+  createdAt: Date;
+  endorser: { id: string; username: string; avatarUrl: string | null };
+}
+
+interface PartnerSkillRecord {
+  skillId: string;
+  proficiencyLevel: number;
+  skill: { name: string; category: string };
+}
+
+const endorserSelect = {
+  select: {
+    id: true,
+    username: true,
+    avatarUrl: true,
+  },
+};
+
+export class EndorsementService {
+  /**
+   * Skills on the session partner's profile, flagged with whether the user already endorsed them
+   */
+  static async getEndorsableSkills(
+    sessionId: string,
+    userId: string
+  ): Promise<{ partner: { id: string; username: string }; skills: EndorsableSkill[] }> {
+    const session = await this.getEndorsementSession(sessionId, userId);
+
+    const [partnerSkills, existing]: [PartnerSkillRecord[], Array<{ skillId: string }>] = await Promise.all([
+      prisma.userSkill.findMany({
+        where: { userId: session.endorsee.id },
+        include: { skill: true },
+        orderBy: { proficiencyLevel: 'desc' },
+      }),
+      prisma.skillEndorsement.findMany({
+        where: { endorserId: userId, endorseeId: session.endorsee.id },
+        select: { skillId: true },
+      }),
+    ]);
+
+    const endorsedIds = new Set<string>(existing.map(endorsement => endorsement.skillId));
+
+    return {
+      partner: session.endorsee,
+      skills: partnerSkills.map(userSkill => ({
+        skillId: userSkill.skillId,
+        name: userSkill.skill.name,
+        category: userSkill.skill.category,
+        proficiencyLevel: userSkill.proficiencyLevel,
+        endorsed: endorsedIds.has(userSkill.skillId),
+      })),
+    };
+  }
+
+  /**
+   * Endorse skills the session partner demonstrated. Skills the user already endorsed
+   * for this partner are reported back instead of being endorsed twice.
+   */
+  static async endorseSkills(sessionId: string, userId: string, skillIds: string[]): Promise<EndorseSkillsResult> {
+    const session = await this.getEndorsementSession(sessionId, userId);
+    if (!ENDORSABLE_SESSION_STATUSES.includes(session.status)) {
+      throw new EndorsementError('Skills can only be endorsed after the session is completed', 409);
+    }
+
+    const requestedIds = Array.from(new Set(skillIds));
+    const partnerSkills: PartnerSkillRecord[] = await prisma.userSkill.findMany({
+      where: { userId: session.endorsee.id, skillId: { in: requestedIds } },
+      include: { skill: true },
+    });
+
+    if (partnerSkills.length !== requestedIds.length) {
+      throw new EndorsementError('Only skills on your partner\'s profile can be endorsed');
+    }
+
+    const existing: Array<{ skillId: string }> = await prisma.skillEndorsement.findMany({
+      where: {
+        endorserId: userId,
+        endorseeId: session.endorsee.id,
+        skillId: { in: requestedIds },
+      },
+      select: { skillId: true },
+    });
+    const alreadyEndorsed = new Set<string>(existing.map(endorsement => endorsement.skillId));
+
+    const endorsements: SkillEndorsement[] = [];
+    for (const skillId of requestedIds.filter(id => !alreadyEndorsed.has(id))) {
+      try {
+        const endorsement: SkillEndorsementRecord = await prisma.skillEndorsement.create({
+          data: {
+            endorserId: userId,
+            endorseeId: session.endorsee.id,
+            skillId,
+            sessionId,
+          },
+          include: { endorser: endorserSelect },
+        });
+
+        await prisma.userSkill.updateMany({
+          where: { userId: session.endorsee.id, skillId },
+          data: { endorsements: { increment: 1 } },
+        });
+
+        endorsements.push(this.formatEndorsement(endorsement));
+      } catch (error) {
+        // Unique (endorser, endorsee, skill) index lost a race with a concurrent request
+        if (error instanceof Error && 'code' in error && error.code === 'P2002') {
+          alreadyEndorsed.add(skillId);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    if (endorsements.length === 0) {
+      throw new EndorsementError('These skills have already been endorsed', 409);
+    }
+
+    const endorsedNames = partnerSkills
+      .filter(userSkill => endorsements.some(endorsement => endorsement.skillId === userSkill.skillId))
+      .map(userSkill => userSkill.skill.name);
+
+    await this.reevaluateVerification(session.endorsee.id, endorsements.map(endorsement => endorsement.skillId));
+
+    broadcastToUser(session.endorsee.id, 'skills_endorsed', {
+      sessionId,
+      endorsedBy: session.endorser,
+      skills: endorsedNames,
+    });
+
+    return {
+      endorsements,
+      alreadyEndorsed: Array.from(alreadyEndorsed),
+    };
+  }
+
+  /**
+   * Withdraw an endorsement the user gave their session partner
+   */
+  static async revokeEndorsement(sessionId: string, userId: string, skillId: string): Promise<void> {
+    const session = await this.getEndorsementSession(sessionId, userId);
+
+    const where = {
+      endorserId_endorseeId_skillId: {
+        endorserId: userId,
+        endorseeId: session.endorsee.id,
+        skillId,
+      },
+    };
+
+    const endorsement = await prisma.skillEndorsement.findUnique({ where });
+    if (!endorsement) {
+      throw new EndorsementError('Endorsement not found', 404);
+    }
+
+    await prisma.skillEndorsement.delete({ where });
+
+    // The skill may have been removed from the profile since, so update rather than fail
+    await prisma.userSkill.updateMany({
+      where: { userId: session.endorsee.id, skillId, endorsements: { gt: 0 } },
+      data: { endorsements: { decrement: 1 } },
+    });
+
+    await this.reevaluateVerification(session.endorsee.id, [skillId]);
+  }
+
+  /**
+   * Endorsements a user has received, grouped by skill
+   */
+  static async getReceivedEndorsements(userId: string): Promise<Map<string, SkillEndorsement[]>> {
+    const received: SkillEndorsementRecord[] = await prisma.skillEndorsement.findMany({
+      where: { endorseeId: userId },
+      include: { endorser: endorserSelect },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const bySkill = new Map<string, SkillEndorsement[]>();
+    received.forEach(endorsement => {
+      const list = bySkill.get(endorsement.skillId) || [];
+      list.push(this.formatEndorsement(endorsement));
+      bySkill.set(endorsement.skillId, list);
+    });
+
+    return bySkill;
+  }
+
+  private static async getEndorsementSession(sessionId: string, userId: string): Promise<EndorsementSession> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        initiator: { select: { id: true, username: true } },
+        partner: { select: { id: true, username: true } },
+      },
+    });
+
+    if (!session) {
+      throw new EndorsementError('Session not found', 404);
+    }
+
+    if (session.initiatorId !== userId && session.partnerId !== userId) {
+      throw new EndorsementError('You are not a participant in this session', 403);
+    }
+
+    const isInitiator = session.initiatorId === userId;
+
+    return {
+      id: session.id,
+      status: session.status,
+      endorser: isInitiator ? session.initiator : session.partner,
+      endorsee: isInitiator ? session.partner : session.initiator,
+    };
+  }
+
+  /**
+   * Endorsements count towards skill verification; the endorsement itself is already saved
+   */
+  private static async reevaluateVerification(userId: string, skillIds: string[]): Promise<void> {
+    try {
+      for (const skillId of skillIds) {
+        await SkillVerificationService.evaluateSkill(userId, skillId);
+      }
+    } catch (error) {
+      console.error('Error re-evaluating skill verification:', error);
+    }
+  }
+
+  private static formatEndorsement(endorsement: SkillEndorsementRecord): SkillEndorsement {
+    return {
+      id: endorsement.id,
+      skillId: endorsement.skillId,
+      sessionId: endorsement.sessionId,
+      endorser: endorsement.endorser,
+      createdAt: endorsement.createdAt,
+    };
+  }
+}
@@ -0,0 +1,136 @@
+import prisma from '@/lib/prisma';
+import { SessionSecurity } from '@/lib/security';
+import { DeviceDescription, LoginSessionError, describeDevice, maskIpAddress } from '@/lib/login-sessions';
+import { RefreshTokenService } from './refresh-token.service';
+
+/**
+ * A signed-in device. Login sessions are refresh token families, so the id is
+ * the family id and "last seen" is the last token rotation.
+ */
+export interface LoginSessionInfo extends DeviceDescription {
+  id: string;
+  ipAddress: string | null; // masked, see maskIpAddress
+  signedInAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  isCurrent: boolean;
+}
+
+// What the request tells us about the device making it
+export interface CurrentDeviceContext {
+  refreshToken?: string | null;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+interface ActiveToken {
+  familyId: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  fingerprint: string | null;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export class LoginSessionService {
+  /**
+   * Every device currently signed in to the account, most recently active first
+   */
+  static async listSessions(userId: string, current: CurrentDeviceContext = {}): Promise<LoginSessionInfo[]> {
+    const activeTokens = await this.getActiveTokens(userId);
+    if (activeTokens.length === 0) {
+      return [];
+    }
+
+    // The first token of each family was issued at sign-in
+    const familyTokens: Array<{ familyId: string; createdAt: Date }> = await prisma.refreshToken.findMany({
+      where: { familyId: { in: activeTokens.map(token => token.familyId) } },
+      select: { familyId: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const signedInAt = new Map<string, Date>();
+    for (const token of familyTokens) {
+      if (!signedInAt.has(token.familyId)) {
+        signedInAt.set(token.familyId, token.createdAt);
+      }
+    }
+
+    const currentSessionId = await this.resolveCurrentSessionId(userId, current, activeTokens);
+
+    return activeTokens.map(token => ({
+      id: token.familyId,
+      ...describeDevice(token.userAgent),
+      ipAddress: maskIpAddress(token.ipAddress),
+      signedInAt: signedInAt.get(token.familyId) ?? token.createdAt,
+      lastSeenAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      isCurrent: token.familyId === currentSessionId,
+    }));
+  }
+
+  /**
+   * Sign out one device
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const result = await prisma.refreshToken.updateMany({
+      where: { userId, familyId: sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'signed_out_remotely' },
+    });
+
+    if (result.count === 0) {
+      throw new LoginSessionError('Session not found', 404);
+    }
+  }
+
+  /**
+   * Sign out every device except the one making the request
+   */
+  static async revokeOtherSessions(userId: string, current: CurrentDeviceContext): Promise<number> {
+    const currentSessionId = await this.resolveCurrentSessionId(userId, current);
+    if (!currentSessionId) {
+      throw new LoginSessionError('Could not identify the current session, please sign in again');
+    }
+
+    const result = await prisma.refreshToken.updateMany({
+      where: { userId, familyId: { not: currentSessionId }, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'signed_out_remotely' },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * The refresh token cookie identifies the session exactly. Clients that keep
+   * the token elsewhere fall back to the newest session with the same
+   * user agent and IP fingerprint.
+   */
+  static async resolveCurrentSessionId(
+    userId: string,
+    current: CurrentDeviceContext,
+    activeTokens?: ActiveToken[]
+  ): Promise<string | null> {
+    const tokens = activeTokens ?? await this.getActiveTokens(userId);
+
+    if (current.refreshToken) {
+      const familyId = await RefreshTokenService.getFamilyId(current.refreshToken);
+      if (familyId && tokens.some(token => token.familyId === familyId)) {
+        return familyId;
+      }
+    }
+
+    if (current.userAgent && current.ipAddress) {
+      const fingerprint = SessionSecurity.createSessionFingerprint(current.userAgent, current.ipAddress);
+      return tokens.find(token => token.fingerprint === fingerprint)?.familyId ?? null;
+    }
+
+    return null;
+  }
+
+  private static async getActiveTokens(userId: string): Promise<ActiveToken[]> {
+    return prisma.refreshToken.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+}
@@ -0,0 +1,304 @@
+import prisma, { withTransaction } from '@/lib/prisma';
+import {
+  MATCH_PROPOSAL_CONFIG,
+  MatchProposalError,
+  MatchProposalView,
+  ProposalResponse,
+  ProposalStatus,
+} from '@/lib/match-proposal';
+import type { MatchingRequest, MatchResult } from './matching.service';
+import { QueueManagerService } from './queue-manager.service';
+import { SessionService } from './session.service';
+
+interface MatchProposalRecord {
+  id: string;
+  userId1: string;
+  userId2: string;
+  sessionType: MatchingRequest['sessionType'];
+  topics: string[];
+  compatibilityScore: number;
+  status: ProposalStatus;
+  user1Response: ProposalResponse | null;
+  user2Response: ProposalResponse | null;
+  declinedBy: string | null;
+  sessionId: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+  resolvedAt: Date | null;
+}
+
+const UNAVAILABLE_MESSAGE = 'Match partner is no longer available';
+
+export class MatchProposalService {
+  /**
+   * Offer a match to both users. Their queue entries are claimed so no one else
+   * is proposed to them, and set aside until both have answered.
+   */
+  static async createProposal(
+    request: MatchingRequest,
+    match: MatchResult,
+    now: Date = new Date()
+  ): Promise<MatchProposalView> {
+    const expiresAt = new Date(now.getTime() + MATCH_PROPOSAL_CONFIG.ACCEPT_WINDOW_MS);
+
+    const proposal: MatchProposalRecord = await withTransaction(async (tx) => {
+      const claimed = await tx.matchingQueue.updateMany({
+        where: { userId: { in: [request.userId, match.partnerId] }, status: 'waiting' },
+        data: { status: 'proposed' },
+      });
+
+      if (claimed.count < 2) {
+        throw new Error(UNAVAILABLE_MESSAGE);
+      }
+
+      return tx.matchProposal.create({
+        data: {
+          userId1: request.userId,
+          userId2: match.partnerId,
+          sessionType: request.sessionType,
+          topics: request.preferredSkills,
+          compatibilityScore: match.compatibilityScore,
+          scoreBreakdown: match.scoreBreakdown,
+          expiresAt,
+        },
+      });
+    });
+
+    await QueueManagerService.holdForProposal(
+      [proposal.userId1, proposal.userId2],
+      MATCH_PROPOSAL_CONFIG.ACCEPT_WINDOW_MS
+    );
+
+    await QueueManagerService.publishProposalUpdate('match_proposed', {
+      proposalId: proposal.id,
+      userId1: proposal.userId1,
+      userId2: proposal.userId2,
+      sessionType: proposal.sessionType,
+      topics: proposal.topics,
+      compatibilityScore: proposal.compatibilityScore,
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    return this.toView(proposal, request.userId);
+  }
+
+  /**
+   * Accept or decline a proposal. The session is created by whichever answer
+   * completes a double accept; a decline puts the other user back in the queue.
+   */
+  static async respond(
+    userId: string,
+    proposalId: string,
+    response: ProposalResponse,
+    now: Date = new Date()
+  ): Promise<MatchProposalView> {
+    const proposal: MatchProposalRecord | null = await prisma.matchProposal.findUnique({
+      where: { id: proposalId },
+    });
+
+    if (!proposal || (proposal.userId1 !== userId && proposal.userId2 !== userId)) {
+      throw new MatchProposalError('Match proposal not found', 404);
+    }
+
+    if (proposal.status !== 'pending') {
+      throw new MatchProposalError('This match proposal is already closed', 409);
+    }
+
+    if (proposal.expiresAt <= now) {
+      await this.close(proposal, 'expired', now);
+      throw new MatchProposalError('This match proposal has expired', 410);
+    }
+
+    const field = proposal.userId1 === userId ? 'user1Response' : 'user2Response';
+    const recorded = await prisma.matchProposal.updateMany({
+      where: { id: proposalId, status: 'pending', [field]: null },
+      data: { [field]: response },
+    });
+
+    if (recorded.count === 0) {
+      throw new MatchProposalError('This match proposal can no longer be answered', 409);
+    }
+
+    const answered: MatchProposalRecord = { ...proposal, [field]: response };
+
+    if (response === 'decline') {
+      await this.close(answered, 'declined', now, userId);
+      return this.toView({ ...answered, status: 'declined', declinedBy: userId }, userId);
+    }
+
+    // Only succeeds once both answers are in, so exactly one caller creates the session
+    const accepted = await prisma.matchProposal.updateMany({
+      where: { id: proposalId, status: 'pending', user1Response: 'accept', user2Response: 'accept' },
+      data: { status: 'accepted', resolvedAt: now },
+    });
+
+    if (accepted.count === 0) {
+      await QueueManagerService.publishProposalUpdate('match_proposal_accepted', {
+        proposalId,
+        userId,
+        partnerId: userId === proposal.userId1 ? proposal.userId2 : proposal.userId1,
+      });
+      return this.toView(answered, userId);
+    }
+
+    try {
+      const session = await SessionService.createMatchedSession(
+        { userId: proposal.userId1, sessionType: proposal.sessionType, preferredSkills: proposal.topics },
+        { partnerId: proposal.userId2, compatibilityScore: proposal.compatibilityScore }
+      );
+
+      await prisma.matchProposal.update({
+        where: { id: proposalId },
+        data: { sessionId: session.id },
+      });
+
+      return this.toView({ ...answered, status: 'accepted', sessionId: session.id }, userId);
+    } catch (error) {
+      // One of them left the queue after accepting; the other keeps their place
+      await this.close({ ...answered, status: 'accepted' }, 'expired', now, undefined, 'accepted');
+
+      if (error instanceof Error && error.message === UNAVAILABLE_MESSAGE) {
+        throw new MatchProposalError('Your match is no longer available', 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Close pending proposals whose accept window has passed. Returns how many were closed.
+   */
+  static async expireStale(now: Date = new Date()): Promise<number> {
+    const stale: MatchProposalRecord[] = await prisma.matchProposal.findMany({
+      where: { status: 'pending', expiresAt: { lte: now } },
+    });
+
+    let expired = 0;
+    for (const proposal of stale) {
+      if (await this.close(proposal, 'expired', now)) {
+        expired++;
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Close every pending proposal a user is in as if they declined it, so their
+   * partners go back in the queue. Used when the account is suspended or deleted.
+   */
+  static async withdrawUser(userId: string, now: Date = new Date()): Promise<number> {
+    const pending: MatchProposalRecord[] = await prisma.matchProposal.findMany({
+      where: {
+        status: 'pending',
+        OR: [{ userId1: userId }, { userId2: userId }],
+      },
+    });
+
+    let withdrawn = 0;
+    for (const proposal of pending) {
+      if (await this.close(proposal, 'declined', now, userId)) {
+        withdrawn++;
+      }
+    }
+
+    return withdrawn;
+  }
+
+  /**
+   * The proposal a user still has to answer, if any
+   */
+  static async getPendingProposal(userId: string, now: Date = new Date()): Promise<MatchProposalView | null> {
+    const proposal: MatchProposalRecord | null = await prisma.matchProposal.findFirst({
+      where: {
+        status: 'pending',
+        expiresAt: { gt: now },
+        OR: [{ userId1: userId }, { userId2: userId }],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return proposal ? this.toView(proposal, userId) : null;
+  }
+
+  /**
+   * Users this user declined, or was declined by, within the cooldown. Matching
+   * leaves them out so the same pair isn't proposed again straight away.
+   */
+  static async getRecentlyDeclinedIds(userId: string, now: Date = new Date()): Promise<Set<string>> {
+    const declined: Array<{ userId1: string; userId2: string }> = await prisma.matchProposal.findMany({
+      where: {
+        status: 'declined',
+        resolvedAt: { gte: new Date(now.getTime() - MATCH_PROPOSAL_CONFIG.DECLINE_COOLDOWN_MS) },
+        OR: [{ userId1: userId }, { userId2: userId }],
+      },
+      select: { userId1: true, userId2: true },
+    });
+
+    return new Set(declined.map(proposal => (proposal.userId1 === userId ? proposal.userId2 : proposal.userId1)));
+  }
+
+  /**
+   * Settle a proposal without a session. On a decline the other user goes back
+   * in the queue; on expiry everyone who accepted does and anyone who never
+   * answered is taken out. Returns false if someone else settled it first.
+   */
+  private static async close(
+    proposal: MatchProposalRecord,
+    status: 'declined' | 'expired',
+    now: Date,
+    declinedBy?: string,
+    fromStatus: ProposalStatus = 'pending'
+  ): Promise<boolean> {
+    const closed = await prisma.matchProposal.updateMany({
+      where: { id: proposal.id, status: fromStatus },
+      data: { status, resolvedAt: now, ...(declinedBy && { declinedBy }) },
+    });
+
+    if (closed.count === 0) {
+      return false;
+    }
+
+    // Answers can't change once the proposal is closed, so this read is final
+    const current: MatchProposalRecord = (await prisma.matchProposal.findUnique({ where: { id: proposal.id } })) ?? proposal;
+
+    const users: Array<{ userId: string; requeued: boolean }> = [];
+    for (const [userId, response] of [
+      [current.userId1, current.user1Response],
+      [current.userId2, current.user2Response],
+    ] as const) {
+      const keepPlace = status === 'declined' ? userId !== declinedBy : response === 'accept';
+
+      if (keepPlace) {
+        users.push({ userId, requeued: await QueueManagerService.requeueHeld(userId) });
+      } else {
+        await QueueManagerService.releaseHeld(userId);
+        users.push({ userId, requeued: false });
+      }
+    }
+
+    await QueueManagerService.publishProposalUpdate('match_proposal_closed', {
+      proposalId: proposal.id,
+      status,
+      users,
+    });
+
+    return true;
+  }
+
+  private static toView(proposal: MatchProposalRecord, userId: string): MatchProposalView {
+    const isFirst = proposal.userId1 === userId;
+
+    return {
+      id: proposal.id,
+      partnerId: isFirst ? proposal.userId2 : proposal.userId1,
+      sessionType: proposal.sessionType,
+      topics: proposal.topics,
+      compatibilityScore: proposal.compatibilityScore,
+      status: proposal.status,
+      response: isFirst ? proposal.user1Response : proposal.user2Response,
+      partnerAccepted: (isFirst ? proposal.user2Response : proposal.user1Response) === 'accept',
+      sessionId: proposal.sessionId,
+      expiresAt: proposal.expiresAt,
+    };
+  }
+}
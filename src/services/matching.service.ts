@@ -1,10 +1,24 @@
 import prisma from '../lib/prisma';
-import { MATCHING_WEIGHTS, MATCHING_THRESHOLDS, SESSION_COMPATIBILITY, QUEUE_EXPIRATION } from '../lib/matching-config';
+import { MATCHING_THRESHOLDS, SESSION_COMPATIBILITY, QUEUE_EXPIRATION, SKILL_VERIFICATION_BONUS, resolveMatchingWeights } from '../lib/matching-config';
+import { getTimezoneGapHours } from '../lib/booking';
 import { MatchingAnalytics } from '../lib/matching-analytics';
+import {
+  CandidatePair,
+  PairingStrategy,
+  selectGreedyPairs,
+  selectMutualBestPairs,
+  selectOptimalPairs,
+  summarizePairing,
+} from '../lib/matchmaker';
+import { explainMatch, MatchExplanation, SharedSessionSummary } from '../lib/match-explanation';
+import { BlockService } from './block.service';
+import { MatchProposalService } from './match-proposal.service';
+import type { QueueEntry } from './queue-manager.service';
 import {
   UserProfile,
   UserSkill,
   AvailabilitySchedule,
+  MatchingImportance,
   TimeSlot,
 } from '../types';
 
@@ -21,6 +35,7 @@ export interface MatchResult {
   partnerId: string;
   compatibilityScore: number;
   scoreBreakdown: CompatibilityScoreBreakdown;
+  explanation?: MatchExplanation;
   estimatedWaitTime?: number;
 }
 
@@ -33,14 +48,71 @@ export interface CompatibilityScoreBreakdown {
   totalScore: number;
 }
 
+// Hard filters a user can set on their preferences
+export type MatchingFilter = 'sameLanguageOnly' | 'maxTimezoneGapHours' | 'verifiedSkillsOnly';
+
 export interface MatchingCandidate {
   user: UserProfile;
   compatibilityScore: number;
   scoreBreakdown: CompatibilityScoreBreakdown;
+  filteredBy?: MatchingFilter; // the requester's hard filter this candidate fails
+}
+
+// Two waiting users the background matchmaker could pair
+export interface ScoredPair extends CandidatePair {
+  scoreBreakdown: CompatibilityScoreBreakdown; // as seen by userId1
+}
+
+// A completed session between two users, as session history scoring reads it
+interface PreviousSession {
+  initiatorId: string;
+  partnerId: string;
+  ratingInitiator: number | null;
+  ratingPartner: number | null;
+  sessionType: string;
+  createdAt: Date;
 }
 
 // Matching weights are now imported from configuration
 
+// Everything a matching profile is built from
+const MATCHING_PROFILE_INCLUDE = {
+  userSkills: {
+    include: {
+      skill: true,
+    },
+  },
+  learningGoals: true,
+  userPreferences: true,
+  userAchievements: {
+    include: {
+      achievement: true,
+    },
+  },
+  initiatedSessions: {
+    where: {
+      status: 'completed',
+    },
+    select: {
+      ratingPartner: true,
+      sessionType: true,
+      durationMinutes: true,
+      createdAt: true,
+    },
+  },
+  partnerSessions: {
+    where: {
+      status: 'completed',
+    },
+    select: {
+      ratingInitiator: true,
+      sessionType: true,
+      durationMinutes: true,
+      createdAt: true,
+    },
+  },
+};
+
 export class MatchingService {
   /**
    * Find the best match for a user based on AI-powered compatibility scoring
@@ -76,11 +148,7 @@ export class MatchingService {
     scoredCandidates.sort((a, b) => b.compatibilityScore - a.compatibilityScore);
 
     // Filter candidates that meet minimum thresholds
-    const qualifiedCandidates = scoredCandidates.filter(candidate =>
-      candidate.compatibilityScore >= MATCHING_THRESHOLDS.MINIMUM_TOTAL_SCORE &&
-      candidate.scoreBreakdown.skillCompatibility >= MATCHING_THRESHOLDS.MINIMUM_SKILL_SCORE &&
-      candidate.scoreBreakdown.availabilityCompatibility >= MATCHING_THRESHOLDS.MINIMUM_AVAILABILITY_SCORE
-    );
+    const qualifiedCandidates = scoredCandidates.filter(candidate => this.meetsThresholds(candidate));
 
     if (qualifiedCandidates.length === 0) {
       // Record analytics for failed match
@@ -111,56 +179,140 @@ export class MatchingService {
       queuePosition: candidates.length,
     });
 
+    const explanation = explainMatch({
+      requester: requesterProfile,
+      candidate: bestMatch.user,
+      sessionType: request.sessionType,
+      preferredSkills: request.preferredSkills,
+      scoreBreakdown: bestMatch.scoreBreakdown,
+      sharedSessions: await this.getSharedSessionSummary(request.userId, bestMatch.user.id),
+    });
+
     return {
       partnerId: bestMatch.user.id,
       compatibilityScore: bestMatch.compatibilityScore,
       scoreBreakdown: bestMatch.scoreBreakdown,
+      explanation,
       estimatedWaitTime: processingTime,
     };
   }
 
+  /**
+   * Score every pair of waiting users for the background matchmaker. Each side
+   * is scored against its own request and both must qualify; the pair's score
+   * is the mean of the two.
+   */
+  static async scoreQueuedPairs(requests: MatchingRequest[]): Promise<ScoredPair[]> {
+    const userIds = [...new Set(requests.map(request => request.userId))];
+    const [loaded, history] = await Promise.all([
+      this.getUserProfilesForMatching(userIds),
+      this.getSessionHistoryBetween(userIds),
+    ]);
+
+    const profiles = new Map<string, UserProfile>();
+    const excluded = new Map<string, Set<string>>();
+
+    for (const userId of userIds) {
+      const profile = loaded.get(userId);
+      if (profile && profile.isActive) {
+        profiles.set(userId, profile);
+        excluded.set(userId, await this.getExcludedPartnerIds(userId));
+      }
+    }
+
+    const eligible = requests.filter(request => profiles.has(request.userId));
+    const pairs: ScoredPair[] = [];
+
+    for (let i = 0; i < eligible.length; i++) {
+      for (let j = i + 1; j < eligible.length; j++) {
+        const first = eligible[i];
+        const second = eligible[j];
+
+        if (first.userId === second.userId ||
+            excluded.get(first.userId)!.has(second.userId) ||
+            !this.getCompatibleSessionTypes(first.sessionType).includes(second.sessionType)) {
+          continue;
+        }
+
+        const firstProfile = profiles.get(first.userId)!;
+        const secondProfile = profiles.get(second.userId)!;
+        const previousSessions = history.get(this.getPairKey(first.userId, second.userId)) ?? [];
+        const [firstView, secondView] = await Promise.all([
+          this.calculateCompatibilityScore(firstProfile, secondProfile, first, previousSessions),
+          this.calculateCompatibilityScore(secondProfile, firstProfile, second, previousSessions),
+        ]);
+
+        if (!this.meetsThresholds(firstView) || !this.meetsThresholds(secondView)) {
+          continue;
+        }
+
+        pairs.push({
+          userId1: first.userId,
+          userId2: second.userId,
+          compatibilityScore: Math.round(((firstView.compatibilityScore + secondView.compatibilityScore) / 2) * 100) / 100,
+          scoreBreakdown: firstView.scoreBreakdown,
+        });
+      }
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Batch matching over the whole waiting queue. Pairs are chosen by the given
+   * strategy (maximum total weight with wait-time boosting by default), and each
+   * run is recorded next to what greedy matching would have picked.
+   */
+  static async findBatchMatches(
+    entries: QueueEntry[],
+    strategy: PairingStrategy = 'optimal',
+    now: number = Date.now()
+  ): Promise<ScoredPair[]> {
+    const pairs = await this.scoreQueuedPairs(entries.map(entry => ({
+      userId: entry.userId,
+      preferredSkills: entry.preferredSkills,
+      sessionType: entry.sessionType,
+      maxDuration: entry.maxDuration,
+      urgency: entry.urgency,
+    })));
+
+    if (pairs.length === 0) {
+      return [];
+    }
+
+    const joinedAt = new Map(entries.map(entry => [entry.userId, entry.joinedAt]));
+    const selected = strategy === 'mutual_best'
+      ? selectMutualBestPairs(pairs)
+      : selectOptimalPairs(pairs, joinedAt, now);
+
+    // Entries arrive highest priority first, the order greedy matching serves them in
+    const greedy = selectGreedyPairs(pairs, entries.map(entry => entry.userId));
+
+    await MatchingAnalytics.recordBatchComparison({
+      timestamp: new Date(now),
+      waitingUsers: entries.length,
+      strategy,
+      batch: summarizePairing(selected, joinedAt, now),
+      greedy: summarizePairing(greedy, joinedAt, now),
+    });
+
+    return selected;
+  }
+
+  private static meetsThresholds(candidate: MatchingCandidate): boolean {
+    return !candidate.filteredBy &&
+      candidate.compatibilityScore >= MATCHING_THRESHOLDS.MINIMUM_TOTAL_SCORE &&
+      candidate.scoreBreakdown.skillCompatibility >= MATCHING_THRESHOLDS.MINIMUM_SKILL_SCORE &&
+      candidate.scoreBreakdown.availabilityCompatibility >= MATCHING_THRESHOLDS.MINIMUM_AVAILABILITY_SCORE;
+  }
+
   /**
    * Get user profile optimized for matching calculations
    */
   private static async getUserProfileForMatching(userId: string): Promise<UserProfile | null> {
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      include: {
-        userSkills: {
-          include: {
-            skill: true,
-          },
-        },
-        learningGoals: true,
-        userPreferences: true,
-        userAchievements: {
-          include: {
-            achievement: true,
-          },
-        },
-        initiatedSessions: {
-          where: {
-            status: 'completed',
-          },
-          select: {
-            ratingPartner: true,
-            sessionType: true,
-            durationMinutes: true,
-            createdAt: true,
-          },
-        },
-        partnerSessions: {
-          where: {
-            status: 'completed',
-          },
-          select: {
-            ratingInitiator: true,
-            sessionType: true,
-            durationMinutes: true,
-            createdAt: true,
-          },
-        },
-      },
+      include: MATCHING_PROFILE_INCLUDE,
     });
 
     if (!user) return null;
@@ -170,7 +322,69 @@ export class MatchingService {
       where: { userId: user.id },
     });
 
-    // Transform to UserProfile format (simplified for matching)
+    return this.toMatchingProfile(user, userStats);
+  }
+
+  /**
+   * Matching profiles for many users at once, keyed by user id
+   */
+  private static async getUserProfilesForMatching(userIds: string[]): Promise<Map<string, UserProfile>> {
+    const [users, stats] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: userIds } },
+        include: MATCHING_PROFILE_INCLUDE,
+      }),
+      prisma.userStats.findMany({
+        where: { userId: { in: userIds } },
+      }),
+    ]);
+
+    const statsByUser = new Map(stats.map((entry: { userId: string }) => [entry.userId, entry]));
+    return new Map(users.map((user: { id: string }) =>
+      [user.id, this.toMatchingProfile(user, statsByUser.get(user.id) ?? null)]
+    ));
+  }
+
+  /**
+   * Completed sessions among the given users, keyed by pair, so scoring a
+   * whole queue takes one query instead of one per pair
+   */
+  private static async getSessionHistoryBetween(userIds: string[]): Promise<Map<string, PreviousSession[]>> {
+    const sessions: PreviousSession[] = await prisma.session.findMany({
+      where: {
+        initiatorId: { in: userIds },
+        partnerId: { in: userIds },
+        status: 'completed',
+      },
+      select: {
+        initiatorId: true,
+        partnerId: true,
+        ratingInitiator: true,
+        ratingPartner: true,
+        sessionType: true,
+        createdAt: true,
+      },
+    });
+
+    const history = new Map<string, PreviousSession[]>();
+    for (const session of sessions) {
+      const key = this.getPairKey(session.initiatorId, session.partnerId);
+      history.set(key, [...(history.get(key) ?? []), session]);
+    }
+    return history;
+  }
+
+  /**
+   * The same key for a pair whichever way round it is given
+   */
+  private static getPairKey(userId1: string, userId2: string): string {
+    return userId1 < userId2 ? `${userId1}:${userId2}` : `${userId2}:${userId1}`;
+  }
+
+  /**
+   * Transform a user row and its stats to the UserProfile format (simplified for matching)
+   */
+  private static toMatchingProfile(user: any, userStats: any): UserProfile {
     return {
       id: user.id,
       email: user.email,
@@ -214,6 +428,10 @@ export class MatchingService {
         communicationStyle: user.userPreferences.communicationStyle as 'formal' | 'casual' | 'balanced',
         availabilitySchedule: user.userPreferences.availabilitySchedule as AvailabilitySchedule,
         languagePreferences: user.userPreferences.languagePreferences,
+        matchingImportance: user.userPreferences.matchingImportance as MatchingImportance | null,
+        sameLanguageOnly: user.userPreferences.sameLanguageOnly,
+        maxTimezoneGapHours: user.userPreferences.maxTimezoneGapHours,
+        verifiedSkillsOnly: user.userPreferences.verifiedSkillsOnly,
         createdAt: user.userPreferences.createdAt,
         updatedAt: user.userPreferences.updatedAt,
       } : null,
@@ -267,13 +485,22 @@ export class MatchingService {
       20 // Get up to 20 candidates for matching
     );
 
+    const excludedUserIds = queueEntries.length > 0
+      ? await this.getExcludedPartnerIds(request.userId)
+      : new Set<string>();
+
     const candidates: UserProfile[] = [];
 
     for (const entry of queueEntries) {
+      if (excludedUserIds.has(entry.userId)) {
+        continue;
+      }
+
       // Get full user profile for matching
       const candidate = await this.getUserProfileForMatching(entry.userId);
 
-      if (candidate && candidate.isActive) {
+      // The candidate's own hard filters have to accept the requester too
+      if (candidate && candidate.isActive && !this.getFilterViolation(candidate, requesterProfile, entry.preferredSkills)) {
         candidates.push(candidate);
       }
     }
@@ -281,6 +508,18 @@ export class MatchingService {
     return candidates;
   }
 
+  /**
+   * Users never to pair with: blocked either way, or a recently declined proposal
+   */
+  private static async getExcludedPartnerIds(userId: string): Promise<Set<string>> {
+    const [blocked, declined] = await Promise.all([
+      BlockService.getBlockedUserIds(userId),
+      MatchProposalService.getRecentlyDeclinedIds(userId),
+    ]);
+
+    return new Set([...blocked, ...declined]);
+  }
+
   /**
    * Get compatible session types for matching
    */
@@ -294,7 +533,8 @@ export class MatchingService {
   private static async calculateCompatibilityScore(
     requester: UserProfile,
     candidate: UserProfile,
-    request: MatchingRequest
+    request: MatchingRequest,
+    previousSessions?: PreviousSession[]
   ): Promise<MatchingCandidate> {
     // Calculate individual compatibility scores
     const skillScore = this.calculateSkillCompatibility(
@@ -323,16 +563,18 @@ export class MatchingService {
       requester.id,
       candidate.id,
       requester.stats,
-      candidate.stats
+      candidate.stats,
+      previousSessions
     );
 
-    // Calculate weighted total score
+    // Calculate weighted total score, using the requester's own factor importance
+    const weights = resolveMatchingWeights(requester.preferences?.matchingImportance);
     const totalScore =
-      (skillScore * MATCHING_WEIGHTS.SKILL_COMPATIBILITY) +
-      (timezoneScore * MATCHING_WEIGHTS.TIMEZONE_COMPATIBILITY) +
-      (availabilityScore * MATCHING_WEIGHTS.AVAILABILITY_COMPATIBILITY) +
-      (communicationScore * MATCHING_WEIGHTS.COMMUNICATION_COMPATIBILITY) +
-      (sessionHistoryScore * MATCHING_WEIGHTS.SESSION_HISTORY_COMPATIBILITY);
+      (skillScore * weights.SKILL_COMPATIBILITY) +
+      (timezoneScore * weights.TIMEZONE_COMPATIBILITY) +
+      (availabilityScore * weights.AVAILABILITY_COMPATIBILITY) +
+      (communicationScore * weights.COMMUNICATION_COMPATIBILITY) +
+      (sessionHistoryScore * weights.SESSION_HISTORY_COMPATIBILITY);
 
     const scoreBreakdown: CompatibilityScoreBreakdown = {
       skillCompatibility: skillScore,
@@ -343,12 +585,60 @@ export class MatchingService {
       totalScore: Math.round(totalScore * 100) / 100, // Round to 2 decimal places
     };
 
+    const filteredBy = this.getFilterViolation(requester, candidate, request.preferredSkills);
+
     return {
       user: candidate,
       compatibilityScore: scoreBreakdown.totalScore,
       scoreBreakdown,
+      ...(filteredBy && { filteredBy }),
     };
   }
+
+  /**
+   * First of the owner's hard filters the other user fails, if any. Verified
+   * skills are checked against the skills the owner asked for, or every skill
+   * the owner lists when they didn't ask for any.
+   */
+  private static getFilterViolation(
+    owner: UserProfile,
+    other: UserProfile,
+    skillNames: string[],
+    now: Date = new Date()
+  ): MatchingFilter | null {
+    const prefs = owner.preferences;
+    if (!prefs) {
+      return null;
+    }
+
+    if (prefs.sameLanguageOnly) {
+      const otherLanguages = other.preferences?.languagePreferences || [];
+      if (!prefs.languagePreferences.some(lang => otherLanguages.includes(lang))) {
+        return 'sameLanguageOnly';
+      }
+    }
+
+    if (prefs.maxTimezoneGapHours !== null && prefs.maxTimezoneGapHours !== undefined) {
+      try {
+        if (getTimezoneGapHours(now, owner.timezone, other.timezone) > prefs.maxTimezoneGapHours) {
+          return 'maxTimezoneGapHours';
+        }
+      } catch {
+        return 'maxTimezoneGapHours'; // Can't tell the gap, so don't risk it
+      }
+    }
+
+    if (prefs.verifiedSkillsOnly) {
+      const wanted = new Set(
+        (skillNames.length > 0 ? skillNames : owner.skills.map(s => s.skill.name)).map(name => name.toLowerCase())
+      );
+      if (!other.skills.some(s => s.verified && wanted.has(s.skill.name.toLowerCase()))) {
+        return 'verifiedSkillsOnly';
+      }
+    }
+
+    return null;
+  }
   /**
    *
  Calculate skill compatibility score based on skill levels and complementarity
@@ -380,10 +670,13 @@ export class MatchingService {
       const candidateSkill = candidateSkillMap.get(preferredSkill.toLowerCase());
 
       if (requesterSkill && candidateSkill) {
-        const complementarityScore = this.calculateSkillComplementarity(
-          requesterSkill.proficiencyLevel,
-          candidateSkill.proficiencyLevel,
-          sessionType
+        const complementarityScore = this.applyVerificationBonus(
+          this.calculateSkillComplementarity(
+            requesterSkill.proficiencyLevel,
+            candidateSkill.proficiencyLevel,
+            sessionType
+          ),
+          candidateSkill
         );
         totalScore += complementarityScore * 2; // Double weight for preferred skills
         matchedSkills += 2;
@@ -398,10 +691,13 @@ export class MatchingService {
 
       const candidateSkill = candidateSkillMap.get(skillName);
       if (candidateSkill) {
-        const complementarityScore = this.calculateSkillComplementarity(
-          requesterSkill.proficiencyLevel,
-          candidateSkill.proficiencyLevel,
-          sessionType
+        const complementarityScore = this.applyVerificationBonus(
+          this.calculateSkillComplementarity(
+            requesterSkill.proficiencyLevel,
+            candidateSkill.proficiencyLevel,
+            sessionType
+          ),
+          candidateSkill
         );
         totalScore += complementarityScore;
         matchedSkills += 1;
@@ -420,6 +716,13 @@ export class MatchingService {
     return Math.min(averageScore + matchBonus, 1.0);
   }
 
+  /**
+   * Verified skills are trusted more than self-reported proficiency levels
+   */
+  private static applyVerificationBonus(score: number, candidateSkill: UserSkill): number {
+    return candidateSkill.verified ? Math.min(score + SKILL_VERIFICATION_BONUS, 1.0) : score;
+  }
+
   /**
    * Calculate skill complementarity based on proficiency levels and session type
    */
@@ -654,16 +957,46 @@ export class MatchingService {
   }
 
   /**
-   * Calculate session history and rating-based compatibility
+   * Completed sessions two users had together and how they rated them
+   */
+  private static async getSharedSessionSummary(userId: string, partnerId: string): Promise<SharedSessionSummary> {
+    const sessions: { ratingInitiator: number | null; ratingPartner: number | null }[] = await prisma.session.findMany({
+      where: {
+        OR: [
+          { initiatorId: userId, partnerId },
+          { initiatorId: partnerId, partnerId: userId },
+        ],
+        status: 'completed',
+      },
+      select: {
+        ratingInitiator: true,
+        ratingPartner: true,
+      },
+    });
+
+    const ratings = sessions.flatMap(session =>
+      [session.ratingInitiator, session.ratingPartner].filter((r): r is number => r !== null)
+    );
+
+    return {
+      count: sessions.length,
+      averageRating: ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null,
+    };
+  }
+
+  /**
+   * Calculate session history and rating-based compatibility. Sessions the
+   * caller already loaded for the pair are used instead of querying again.
    */
   private static async calculateSessionHistoryCompatibility(
     requesterId: string,
     candidateId: string,
     requesterStats: UserProfile['stats'],
-    candidateStats: UserProfile['stats']
+    candidateStats: UserProfile['stats'],
+    loadedSessions?: PreviousSession[]
   ): number {
     // Check if users have had sessions together before
-    const previousSessions = await prisma.session.findMany({
+    const previousSessions = loadedSessions ?? await prisma.session.findMany({
       where: {
         OR: [
           { initiatorId: requesterId, partnerId: candidateId },
@@ -0,0 +1,140 @@
+import { MATCHMAKER_CONFIG } from '@/lib/matchmaker';
+import { withRedisLocks } from '@/lib/redis-lock';
+import { MatchProposalView } from '@/lib/match-proposal';
+import { MatchingAnalytics } from '@/lib/matching-analytics';
+import { MatchingRequest, MatchingService, MatchResult } from './matching.service';
+import { QueueEntry, QueueManagerService } from './queue-manager.service';
+import { MatchProposalService } from './match-proposal.service';
+
+export interface MatchmakerRunResult {
+  scanned: number;
+  proposed: number;
+  skipped: number; // pairs another worker or request got to first
+  expired: number; // proposals nobody answered in time
+}
+
+const UNAVAILABLE_MESSAGE = 'Match partner is no longer available';
+
+export class MatchmakerService {
+  private static timer: NodeJS.Timeout | null = null;
+  private static running: Promise<void> | null = null; // the run underway, if any
+
+  /**
+   * One pass over the waiting queue: settle expired proposals, which may put
+   * users back in the queue, then pair everyone in one batch and propose the pairs
+   */
+  static async runOnce(): Promise<MatchmakerRunResult> {
+    const startTime = Date.now();
+    const expired = await MatchProposalService.expireStale();
+    const entries = await QueueManagerService.getWaitingEntries(MATCHMAKER_CONFIG.MAX_ENTRIES_PER_RUN);
+    const result: MatchmakerRunResult = { scanned: entries.length, proposed: 0, skipped: 0, expired };
+
+    if (entries.length < 2) {
+      return result;
+    }
+
+    const requests = new Map(entries.map(entry => [entry.userId, this.toMatchingRequest(entry)]));
+    const pairs = await MatchingService.findBatchMatches(entries, MATCHMAKER_CONFIG.STRATEGY);
+
+    for (const pair of pairs) {
+      try {
+        await this.proposeMatch(requests.get(pair.userId1)!, {
+          partnerId: pair.userId2,
+          compatibilityScore: pair.compatibilityScore,
+          scoreBreakdown: pair.scoreBreakdown,
+        });
+        result.proposed++;
+
+        await MatchingAnalytics.recordMatchingAttempt({
+          timestamp: new Date(),
+          userId: pair.userId1,
+          matchFound: true,
+          compatibilityScore: pair.compatibilityScore,
+          matchTimeMs: Date.now() - startTime,
+          queuePosition: entries.length,
+        });
+      } catch (error) {
+        result.skipped++;
+        if (!(error instanceof Error && error.message === UNAVAILABLE_MESSAGE)) {
+          console.error(`Matchmaker failed to propose ${pair.userId1} and ${pair.userId2}:`, error);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Propose a match while holding both users' locks, so two workers (or a
+   * worker and /api/match/find) never claim the same user. The proposal fails
+   * unless both users are still waiting in the queue.
+   */
+  static async proposeMatch(request: MatchingRequest, match: MatchResult): Promise<MatchProposalView> {
+    return this.withMatchLocks([request.userId, match.partnerId], () =>
+      MatchProposalService.createProposal(request, match)
+    );
+  }
+
+  /**
+   * Run the matchmaker every MATCHMAKER_CONFIG.INTERVAL_MS until stopped.
+   * A pass that runs long delays the next one instead of overlapping it.
+   */
+  static start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (this.running) {
+        return;
+      }
+
+      this.running = this.runAndLog().finally(() => {
+        this.running = null;
+      });
+    }, MATCHMAKER_CONFIG.INTERVAL_MS);
+  }
+
+  /**
+   * Stop scheduling runs. Resolves once a run already underway has finished,
+   * so callers can close connections it is still using.
+   */
+  static async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  private static async runAndLog(): Promise<void> {
+    try {
+      const result = await this.runOnce();
+      if (result.proposed > 0 || result.skipped > 0 || result.expired > 0) {
+        console.log(
+          `Matchmaker: ${result.proposed} proposed, ${result.skipped} skipped out of ${result.scanned} waiting, ` +
+          `${result.expired} proposals expired`
+        );
+      }
+    } catch (error) {
+      console.error('Matchmaker run failed:', error);
+    }
+  }
+
+  private static toMatchingRequest(entry: QueueEntry): MatchingRequest {
+    return {
+      userId: entry.userId,
+      preferredSkills: entry.preferredSkills,
+      sessionType: entry.sessionType,
+      maxDuration: entry.maxDuration,
+      urgency: entry.urgency,
+    };
+  }
+
+  private static withMatchLocks<T>(userIds: string[], callback: () => Promise<T>): Promise<T> {
+    return withRedisLocks(userIds.map(id => `matchmaker:lock:${id}`), {
+      ttlMs: MATCHMAKER_CONFIG.LOCK_TTL_MS,
+      onBusy: () => new Error(UNAVAILABLE_MESSAGE),
+    }, callback);
+  }
+}
@@ -0,0 +1,260 @@
+import prisma from '@/lib/prisma';
+import { sendMail, MailMessage } from '@/lib/mailer';
+import { hasPermission } from '@/lib/permissions';
+import { LoginContext } from '@/lib/account-security';
+import { buildAccountSuspendedEmail, buildAccountWarningEmail } from '@/lib/email-templates';
+import {
+  ACTION_STATUS,
+  ChatExcerptMessage,
+  ModerationAction,
+  REPORT_CATEGORY_LABELS,
+  ReportCategory,
+  ReportStatus,
+  SAFETY_CONFIG,
+  SafetyError,
+  SubmitReportRequest,
+  UserReportInfo,
+} from '@/lib/safety';
+import { AccountSecurityService } from './account-security.service';
+import { BlockService } from './block.service';
+import { MatchProposalService } from './match-proposal.service';
+import { QueueManagerService } from './queue-manager.service';
+import { RefreshTokenService } from './refresh-token.service';
+
+interface UserReportRecord {
+  id: string;
+  reporterId: string;
+  reportedUserId: string;
+  sessionId: string | null;
+  category: ReportCategory;
+  description: string;
+  chatExcerpt: ChatExcerptMessage[] | null;
+  status: ReportStatus;
+  action: ModerationAction | null;
+  moderatorId: string | null;
+  moderatorNote: string | null;
+  createdAt: Date;
+  resolvedAt: Date | null;
+  reporter: { id: string; username: string };
+  reportedUser: { id: string; username: string; isActive: boolean };
+}
+
+const REPORT_INCLUDE = {
+  reporter: { select: { id: true, username: true } },
+  reportedUser: { select: { id: true, username: true, isActive: true } },
+};
+
+export class ModerationService {
+  /**
+   * File a report about another user for the moderation queue, optionally
+   * blocking them at the same time
+   */
+  static async submitReport(
+    reporterId: string,
+    request: SubmitReportRequest,
+    now: Date = new Date()
+  ): Promise<{ id: string; status: ReportStatus }> {
+    if (request.reportedUserId === reporterId) {
+      throw new SafetyError('You cannot report yourself');
+    }
+
+    const reportedUser = await prisma.user.findUnique({
+      where: { id: request.reportedUserId },
+      select: { id: true },
+    });
+    if (!reportedUser) {
+      throw new SafetyError('User not found', 404);
+    }
+
+    const recentReports = await prisma.userReport.count({
+      where: { reporterId, createdAt: { gte: new Date(now.getTime() - 24 * 60 * 60 * 1000) } },
+    });
+    if (recentReports >= SAFETY_CONFIG.MAX_REPORTS_PER_DAY) {
+      throw new SafetyError('You have sent too many reports today. Please try again tomorrow.', 429);
+    }
+
+    if (request.sessionId) {
+      const session = await prisma.session.findUnique({
+        where: { id: request.sessionId },
+        select: { initiatorId: true, partnerId: true },
+      });
+      const participants = session ? [session.initiatorId, session.partnerId] : [];
+
+      if (!participants.includes(reporterId)) {
+        throw new SafetyError('You can only report sessions you took part in', 403);
+      }
+      if (!participants.includes(request.reportedUserId)) {
+        throw new SafetyError('The reported user was not part of this session');
+      }
+    }
+
+    const report = await prisma.userReport.create({
+      data: {
+        reporterId,
+        reportedUserId: request.reportedUserId,
+        sessionId: request.sessionId ?? null,
+        category: request.category,
+        description: request.description,
+        ...(request.chatExcerpt && request.chatExcerpt.length > 0 && { chatExcerpt: request.chatExcerpt }),
+        status: 'open',
+      },
+    });
+
+    if (request.block) {
+      await BlockService.blockUser(reporterId, request.reportedUserId);
+    }
+
+    return { id: report.id, status: report.status };
+  }
+
+  /**
+   * The moderation queue, oldest first so nothing waits forever
+   */
+  static async listReports(
+    options: { status?: ReportStatus; limit?: number } = {}
+  ): Promise<UserReportInfo[]> {
+    const reports: UserReportRecord[] = await prisma.userReport.findMany({
+      where: options.status ? { status: options.status } : { status: { in: ['open', 'in_review'] } },
+      include: REPORT_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+      take: options.limit ?? 50,
+    });
+
+    const reportedUserIds = [...new Set(reports.map(report => report.reportedUserId))];
+    const counts = new Map<string, number>(await Promise.all(reportedUserIds.map(async userId => [
+      userId,
+      await prisma.userReport.count({ where: { reportedUserId: userId } }),
+    ] as [string, number])));
+
+    return reports.map(report => this.toReportInfo(report, (counts.get(report.reportedUserId) ?? 1) - 1));
+  }
+
+  static async getReport(reportId: string): Promise<UserReportInfo> {
+    const report: UserReportRecord | null = await prisma.userReport.findUnique({
+      where: { id: reportId },
+      include: REPORT_INCLUDE,
+    });
+    if (!report) {
+      throw new SafetyError('Report not found', 404);
+    }
+
+    const total = await prisma.userReport.count({ where: { reportedUserId: report.reportedUserId } });
+    return this.toReportInfo(report, total - 1);
+  }
+
+  /**
+   * Mark an open report as being looked at, so moderators don't work the same one
+   */
+  static async claimReport(moderatorId: string, reportId: string): Promise<void> {
+    const result = await prisma.userReport.updateMany({
+      where: { id: reportId, status: 'open' },
+      data: { status: 'in_review', moderatorId },
+    });
+
+    if (result.count === 0) {
+      await this.getReport(reportId); // 404 if it doesn't exist
+      throw new SafetyError('This report is already being reviewed or has been resolved', 409);
+    }
+  }
+
+  /**
+   * Close a report with a warning, a suspension or a dismissal
+   */
+  static async resolveReport(
+    moderatorId: string,
+    reportId: string,
+    action: ModerationAction,
+    note: string | null = null,
+    context: LoginContext = {},
+    now: Date = new Date()
+  ): Promise<UserReportInfo> {
+    const report = await this.getReport(reportId);
+
+    if (report.status === 'actioned' || report.status === 'dismissed') {
+      throw new SafetyError('This report has already been resolved', 409);
+    }
+    if (report.reportedUser.id === moderatorId) {
+      throw new SafetyError('You cannot moderate reports about yourself', 403);
+    }
+
+    const target = await prisma.user.findUnique({
+      where: { id: report.reportedUser.id },
+      select: { id: true, email: true, username: true, roles: true },
+    });
+    if (!target) {
+      throw new SafetyError('User not found', 404);
+    }
+
+    if (action === 'suspend' && hasPermission(target.roles, 'users:manage_roles')) {
+      throw new SafetyError('Admins cannot be suspended through reports', 403);
+    }
+
+    // Claim the report before acting, so two moderators can't both apply an action
+    const claimed = await prisma.userReport.updateMany({
+      where: { id: reportId, status: { in: ['open', 'in_review'] } },
+      data: {
+        status: ACTION_STATUS[action],
+        action,
+        moderatorId,
+        moderatorNote: note,
+        resolvedAt: now,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new SafetyError('This report has already been resolved', 409);
+    }
+
+    const reason = REPORT_CATEGORY_LABELS[report.category];
+
+    if (action === 'warn') {
+      await AccountSecurityService.logEvent(target.id, 'account_warned', context, { reportId, category: report.category });
+      await this.notify(buildAccountWarningEmail(target.email, target.username, reason, note));
+    }
+
+    if (action === 'suspend') {
+      await prisma.user.update({
+        where: { id: target.id },
+        data: { isActive: false },
+      });
+      await RefreshTokenService.revokeAllForUser(target.id, 'account_inactive');
+      await prisma.matchingQueue.updateMany({
+        where: { userId: target.id, status: 'waiting' },
+        data: { status: 'cancelled' },
+      });
+      await MatchProposalService.withdrawUser(target.id, now);
+      await QueueManagerService.publishAccountDeactivated(target.id);
+      await AccountSecurityService.logEvent(target.id, 'account_suspended', context, { reportId, category: report.category });
+      await this.notify(buildAccountSuspendedEmail(target.email, target.username, reason, note));
+    }
+
+    return this.getReport(reportId);
+  }
+
+  private static toReportInfo(report: UserReportRecord, previousReports: number): UserReportInfo {
+    return {
+      id: report.id,
+      reporter: report.reporter,
+      reportedUser: report.reportedUser,
+      sessionId: report.sessionId,
+      category: report.category,
+      description: report.description,
+      chatExcerpt: report.chatExcerpt,
+      status: report.status,
+      action: report.action,
+      moderatorId: report.moderatorId,
+      moderatorNote: report.moderatorNote,
+      createdAt: report.createdAt,
+      resolvedAt: report.resolvedAt,
+      previousReports,
+    };
+  }
+
+  // The decision stands even if the email can't be sent
+  private static async notify(message: MailMessage): Promise<void> {
+    try {
+      await sendMail(message);
+    } catch (error) {
+      console.error('Failed to send moderation email:', error);
+    }
+  }
+}
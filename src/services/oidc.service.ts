@@ -0,0 +1,310 @@
+import jwt from 'jsonwebtoken';
+import { createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import prisma from '@/lib/prisma';
+import { generateOidcStateToken, hashPassword, verifyOidcStateToken } from '@/lib/auth';
+import { getAppBaseUrl } from '@/lib/email-templates';
+import { LoginContext } from '@/lib/account-security';
+import {
+  OIDC_CONFIG,
+  OidcClaims,
+  OidcDiscoveryDocument,
+  OidcError,
+  OidcProviderConfig,
+  createCodeChallenge,
+  deriveUsername,
+  generateOidcRandom,
+  getOidcProvider,
+  isEmailVerified,
+} from '@/lib/oidc';
+import { LoginResponse } from '@/types';
+import { AuthService } from './auth.service';
+import { AccountSecurityService } from './account-security.service';
+
+export interface OidcAuthorization {
+  authorizationUrl: string;
+  stateToken: string; // goes in the state cookie
+}
+
+export interface OidcCallbackParams {
+  code: string;
+  state: string;
+}
+
+const discoveryCache = new Map<string, { document: OidcDiscoveryDocument; expiresAt: number }>();
+const jwksCache = new Map<string, Array<JsonWebKey & { kid?: string }>>();
+
+export class OidcService {
+  static getRedirectUri(providerId: string): string {
+    return `${getAppBaseUrl()}/api/auth/oidc/${encodeURIComponent(providerId)}/callback`;
+  }
+
+  /**
+   * Build the provider redirect. state, nonce and the PKCE verifier travel
+   * in a signed token that the callback gets back from the cookie.
+   */
+  static async startLogin(providerId: string, options: { timezone?: string } = {}): Promise<OidcAuthorization> {
+    const provider = getOidcProvider(providerId);
+    const discovery = await this.discover(provider);
+
+    const state = generateOidcRandom();
+    const nonce = generateOidcRandom();
+    const codeVerifier = generateOidcRandom();
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: this.getRedirectUri(provider.id),
+      scope: provider.scopes || OIDC_CONFIG.DEFAULT_SCOPES,
+      state,
+      nonce,
+      code_challenge: createCodeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return {
+      authorizationUrl: url.toString(),
+      stateToken: generateOidcStateToken({
+        providerId: provider.id,
+        state,
+        nonce,
+        codeVerifier,
+        ...(options.timezone && { timezone: options.timezone }),
+      }),
+    };
+  }
+
+  /**
+   * Handle the provider callback: check state, redeem the code, verify the
+   * ID token, then sign in the linked user the same way a password login does
+   */
+  static async completeLogin(
+    providerId: string,
+    params: OidcCallbackParams,
+    stateToken: string | null | undefined,
+    context: LoginContext = {}
+  ): Promise<LoginResponse> {
+    const pending = stateToken ? verifyOidcStateToken(stateToken) : null;
+    if (!pending || pending.providerId !== providerId || pending.state !== params.state) {
+      throw new OidcError('Sign-in session expired or was tampered with, please try again', 401);
+    }
+
+    const provider = getOidcProvider(providerId);
+    const discovery = await this.discover(provider);
+    const idToken = await this.exchangeCode(provider, discovery, params.code, pending.codeVerifier);
+    const claims = await this.verifyIdToken(idToken, provider, discovery, pending.nonce);
+
+    const userId = await this.resolveUser(provider, claims, context, pending.timezone);
+
+    return AuthService.loginWithExternalIdentity(userId, {
+      ...context,
+      timezone: context.timezone ?? pending.timezone ?? null,
+    });
+  }
+
+  /**
+   * The user an identity signs in as: the one already linked, else an
+   * account with the same verified email, else a new account
+   */
+  static async resolveUser(
+    provider: OidcProviderConfig,
+    claims: OidcClaims,
+    context: LoginContext = {},
+    timezone?: string
+  ): Promise<string> {
+    const identity = await prisma.oidcIdentity.findUnique({
+      where: { provider_subject: { provider: provider.id, subject: claims.sub } },
+      select: { id: true, userId: true },
+    });
+
+    if (identity) {
+      await prisma.oidcIdentity.update({
+        where: { id: identity.id },
+        data: { lastLoginAt: new Date() },
+      });
+      return identity.userId;
+    }
+
+    if (!claims.email || !isEmailVerified(claims)) {
+      throw new OidcError(`${provider.name} did not share a verified email address`, 403);
+    }
+
+    const email = claims.email.toLowerCase();
+    const existingUser = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, isVerified: true },
+    });
+
+    if (existingUser && !existingUser.isVerified) {
+      // Otherwise whoever registered the address first, without proving they
+      // own it, would keep a password into the account being linked
+      throw new OidcError(
+        'An account with this email exists but is not verified. Sign in with your password and verify your email first.',
+        409
+      );
+    }
+
+    const userId = existingUser?.id ?? await this.createUser(claims, email, timezone);
+
+    await prisma.oidcIdentity.create({
+      data: {
+        userId,
+        provider: provider.id,
+        subject: claims.sub,
+        email,
+        lastLoginAt: new Date(),
+      },
+    });
+    await AccountSecurityService.logEvent(userId, 'identity_linked', context, { provider: provider.id });
+
+    return userId;
+  }
+
+  private static async createUser(claims: OidcClaims, email: string, timezone?: string): Promise<string> {
+    const username = await this.findAvailableUsername(deriveUsername(claims));
+
+    // No usable password; the user can set one with a password reset
+    const passwordHash = await hashPassword(randomBytes(32).toString('hex'));
+
+    const user = await prisma.user.create({
+      data: {
+        email,
+        username,
+        passwordHash,
+        timezone: timezone || 'UTC',
+        isVerified: true, // the provider verified the address
+        isActive: true,
+      },
+      select: { id: true },
+    });
+
+    return user.id;
+  }
+
+  private static async findAvailableUsername(base: string): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const candidate = attempt === 0 ? base : `${base}${Math.floor(1000 + Math.random() * 9000)}`;
+      const taken = await prisma.user.findUnique({
+        where: { username: candidate },
+        select: { id: true },
+      });
+      if (!taken) {
+        return candidate;
+      }
+    }
+
+    return `${base}${randomBytes(4).toString('hex')}`;
+  }
+
+  private static async discover(provider: OidcProviderConfig): Promise<OidcDiscoveryDocument> {
+    const cached = discoveryCache.get(provider.issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.document;
+    }
+
+    const response = await fetch(`${provider.issuer}/.well-known/openid-configuration`);
+    if (!response.ok) {
+      throw new OidcError(`Could not reach ${provider.name}`, 502);
+    }
+
+    const document = await response.json() as OidcDiscoveryDocument;
+    if (document.issuer?.replace(/\/$/, '') !== provider.issuer) {
+      throw new OidcError(`${provider.name} reported an unexpected issuer`, 502);
+    }
+
+    discoveryCache.set(provider.issuer, { document, expiresAt: Date.now() + OIDC_CONFIG.DISCOVERY_CACHE_MS });
+    return document;
+  }
+
+  private static async exchangeCode(
+    provider: OidcProviderConfig,
+    discovery: OidcDiscoveryDocument,
+    code: string,
+    codeVerifier: string
+  ): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getRedirectUri(provider.id),
+      client_id: provider.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (provider.clientSecret) {
+      body.set('client_secret', provider.clientSecret);
+    }
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: body.toString(),
+    });
+
+    const tokens = await response.json().catch(() => ({})) as { id_token?: string; error?: string };
+    if (!response.ok || !tokens.id_token) {
+      console.error(`OIDC token exchange with ${provider.id} failed:`, tokens.error || response.status);
+      throw new OidcError(`${provider.name} sign-in failed, please try again`, 401);
+    }
+
+    return tokens.id_token;
+  }
+
+  private static async verifyIdToken(
+    idToken: string,
+    provider: OidcProviderConfig,
+    discovery: OidcDiscoveryDocument,
+    nonce: string
+  ): Promise<OidcClaims> {
+    const header = jwt.decode(idToken, { complete: true })?.header;
+    if (!header) {
+      throw new OidcError(`${provider.name} returned an invalid ID token`, 401);
+    }
+
+    const jwk = await this.findSigningKey(discovery.jwks_uri, header.kid);
+    if (!jwk) {
+      throw new OidcError(`${provider.name} signed the ID token with an unknown key`, 401);
+    }
+
+    let claims: OidcClaims;
+    try {
+      claims = jwt.verify(idToken, createPublicKey({ key: jwk, format: 'jwk' }), {
+        issuer: discovery.issuer,
+        audience: provider.clientId,
+        algorithms: OIDC_CONFIG.ID_TOKEN_ALGORITHMS as jwt.Algorithm[],
+      }) as OidcClaims;
+    } catch (error) {
+      console.error(`OIDC ID token from ${provider.id} rejected:`, error);
+      throw new OidcError(`${provider.name} returned an invalid ID token`, 401);
+    }
+
+    // Binds the token to this browser's login attempt, so it can't be replayed
+    if (claims.nonce !== nonce) {
+      throw new OidcError(`${provider.name} returned an invalid ID token`, 401);
+    }
+
+    return claims;
+  }
+
+  /**
+   * Key from the provider's JWKS, refetched once when the kid is new since
+   * providers rotate keys
+   */
+  private static async findSigningKey(jwksUri: string, kid: string | undefined): Promise<JsonWebKey | null> {
+    const pick = (keys: Array<JsonWebKey & { kid?: string }>) =>
+      keys.find(key => (kid ? key.kid === kid : key.use !== 'enc')) ?? null;
+
+    const cached = jwksCache.get(jwksUri);
+    const fromCache = cached ? pick(cached) : null;
+    if (fromCache) {
+      return fromCache;
+    }
+
+    const response = await fetch(jwksUri);
+    if (!response.ok) {
+      return null;
+    }
+
+    const { keys = [] } = await response.json() as { keys?: Array<JsonWebKey & { kid?: string }> };
+    jwksCache.set(jwksUri, keys);
+    return pick(keys);
+  }
+}
@@ -8,10 +8,14 @@ import {
   CreateLearningGoalRequest,
   UpdateLearningGoalRequest,
   UpdatePreferencesRequest,
+  MatchingImportance,
   ProfileCompletionStatus,
   ProfileCompletionStep,
   Skill,
 } from '@/types';
+import { EndorsementService } from './endorsement.service';
+import { SkillProgressService } from './skill-progress.service';
+import { SkillVerificationService } from './skill-verification.service';
 
 export class ProfileService {
   /**
@@ -59,6 +63,8 @@ export class ProfileService {
       });
     }
 
+    const endorsements = await EndorsementService.getReceivedEndorsements(user.id);
+
     return {
       id: user.id,
       email: user.email,
@@ -83,6 +89,7 @@ export class ProfileService {
         proficiencyLevel: us.proficiencyLevel as 1 | 2 | 3 | 4 | 5,
         verified: us.verified,
         endorsements: us.endorsements,
+        endorsedBy: endorsements.get(us.skillId) || [],
         createdAt: us.createdAt,
       })),
       learningGoals: user.learningGoals.map(lg => ({
@@ -102,6 +109,10 @@ export class ProfileService {
         communicationStyle: user.userPreferences.communicationStyle as 'formal' | 'casual' | 'balanced',
         availabilitySchedule: user.userPreferences.availabilitySchedule as any,
         languagePreferences: user.userPreferences.languagePreferences,
+        matchingImportance: user.userPreferences.matchingImportance as MatchingImportance | null,
+        sameLanguageOnly: user.userPreferences.sameLanguageOnly,
+        maxTimezoneGapHours: user.userPreferences.maxTimezoneGapHours,
+        verifiedSkillsOnly: user.userPreferences.verifiedSkillsOnly,
         createdAt: user.userPreferences.createdAt,
         updatedAt: user.userPreferences.updatedAt,
       } : null,
@@ -232,6 +243,8 @@ export class ProfileService {
         proficiencyLevel: data.proficiencyLevel,
       },
     });
+
+    await SkillProgressService.recordLevelChange(userId, data.skillId, null, data.proficiencyLevel);
   }
 
   /**
@@ -262,6 +275,9 @@ export class ProfileService {
         proficiencyLevel: data.proficiencyLevel,
       },
     });
+
+    await SkillProgressService.recordLevelChange(userId, skillId, userSkill.proficiencyLevel, data.proficiencyLevel);
+    await SkillVerificationService.handleLevelChange(userId, skillId, userSkill.proficiencyLevel, data.proficiencyLevel);
   }
 
   /**
@@ -375,6 +391,11 @@ export class ProfileService {
           ...(data.communicationStyle && { communicationStyle: data.communicationStyle }),
           ...(data.availabilitySchedule && { availabilitySchedule: data.availabilitySchedule as any }),
           ...(data.languagePreferences && { languagePreferences: data.languagePreferences }),
+          // Clearing the importance stores an empty object, which resolves to the default weights
+          ...(data.matchingImportance !== undefined && { matchingImportance: (data.matchingImportance || {}) as any }),
+          ...(data.sameLanguageOnly !== undefined && { sameLanguageOnly: data.sameLanguageOnly }),
+          ...(data.maxTimezoneGapHours !== undefined && { maxTimezoneGapHours: data.maxTimezoneGapHours }),
+          ...(data.verifiedSkillsOnly !== undefined && { verifiedSkillsOnly: data.verifiedSkillsOnly }),
           updatedAt: new Date(),
         },
       });
@@ -396,6 +417,10 @@ export class ProfileService {
             sunday: [],
           }) as any,
           languagePreferences: data.languagePreferences || ['en'],
+          ...(data.matchingImportance && { matchingImportance: data.matchingImportance as any }),
+          sameLanguageOnly: data.sameLanguageOnly ?? false,
+          maxTimezoneGapHours: data.maxTimezoneGapHours ?? null,
+          verifiedSkillsOnly: data.verifiedSkillsOnly ?? false,
         },
       });
     }
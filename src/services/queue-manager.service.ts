@@ -41,6 +41,7 @@ const REDIS_KEYS = {
   QUEUE_METRICS: 'queue:metrics',
   ACTIVE_USERS: 'queue:active_users',
   MATCH_HISTORY: 'queue:match_history',
+  HELD_ENTRY: (userId: string) => `queue:held:${userId}`,
 } as const;
 
 // Pub/Sub channels
@@ -170,6 +171,164 @@ export class QueueManagerService {
     await this.updateQueueMetrics();
   }
 
+  /**
+   * Take both users of a committed match out of the live queue and announce the match
+   */
+  static async markAsMatched(match: {
+    userId1: string;
+    userId2: string;
+    sessionId: string;
+    compatibilityScore: number;
+  }): Promise<void> {
+    const pipeline = redis.pipeline();
+
+    for (const userId of [match.userId1, match.userId2]) {
+      // Entries set aside for the proposal are no longer needed
+      pipeline.del(REDIS_KEYS.HELD_ENTRY(userId));
+
+      const userQueueData = await redis.get(REDIS_KEYS.USER_QUEUE_DATA(userId));
+      if (!userQueueData) {
+        continue;
+      }
+
+      const queueEntry: QueueEntry = JSON.parse(userQueueData);
+
+      pipeline.zrem(REDIS_KEYS.QUEUE_MAIN, userQueueData);
+      pipeline.lrem(REDIS_KEYS.QUEUE_PRIORITY(queueEntry.urgency), 0, userQueueData);
+      pipeline.lrem(REDIS_KEYS.QUEUE_BY_TYPE(queueEntry.sessionType), 0, userQueueData);
+      pipeline.del(REDIS_KEYS.USER_QUEUE_DATA(userId));
+      pipeline.srem(REDIS_KEYS.ACTIVE_USERS, userId);
+    }
+
+    // Keep a bounded history of matches for metrics
+    pipeline.lpush(REDIS_KEYS.MATCH_HISTORY, JSON.stringify({ ...match, matchedAt: Date.now() }));
+    pipeline.ltrim(REDIS_KEYS.MATCH_HISTORY, 0, 999);
+
+    await pipeline.exec();
+
+    // Publish match event so queue sockets can notify both users
+    await this.publishQueueUpdate('match_found', match);
+
+    // Update queue metrics
+    await this.updateQueueMetrics();
+  }
+
+  /**
+   * Take users out of the live queue while they decide on a match proposal. The
+   * entries are kept aside so they can be put back where they were.
+   */
+  static async holdForProposal(userIds: string[], holdMs: number): Promise<void> {
+    const now = Date.now();
+    const pipeline = redis.pipeline();
+
+    for (const userId of userIds) {
+      const userQueueData = await redis.get(REDIS_KEYS.USER_QUEUE_DATA(userId));
+      if (!userQueueData) {
+        continue;
+      }
+
+      const queueEntry: QueueEntry = JSON.parse(userQueueData);
+      const ttlSeconds = Math.ceil((Math.max(queueEntry.expiresAt - now, 0) + holdMs) / 1000);
+
+      pipeline.zrem(REDIS_KEYS.QUEUE_MAIN, userQueueData);
+      pipeline.lrem(REDIS_KEYS.QUEUE_PRIORITY(queueEntry.urgency), 0, userQueueData);
+      pipeline.lrem(REDIS_KEYS.QUEUE_BY_TYPE(queueEntry.sessionType), 0, userQueueData);
+      pipeline.del(REDIS_KEYS.USER_QUEUE_DATA(userId));
+      pipeline.srem(REDIS_KEYS.ACTIVE_USERS, userId);
+      pipeline.setex(
+        REDIS_KEYS.HELD_ENTRY(userId),
+        Math.max(ttlSeconds, 1),
+        JSON.stringify({ queueEntry, heldAt: now })
+      );
+    }
+
+    await pipeline.exec();
+    await this.updateQueueMetrics();
+  }
+
+  /**
+   * Put a held user back in the queue. Priority is worked out from the original
+   * join time and the time spent on the proposal is added back to the expiry,
+   * so the user loses neither their place nor their remaining time.
+   * Returns false when there was nothing to put back.
+   */
+  static async requeueHeld(userId: string): Promise<boolean> {
+    const heldData = await redis.get(REDIS_KEYS.HELD_ENTRY(userId));
+    if (!heldData) {
+      return false;
+    }
+
+    const { queueEntry, heldAt }: { queueEntry: QueueEntry; heldAt: number } = JSON.parse(heldData);
+    const now = Date.now();
+    const expiresAt = queueEntry.expiresAt + (now - heldAt);
+
+    // The user may have left the queue while the proposal was open
+    const restored = await prisma.matchingQueue.updateMany({
+      where: { userId, status: 'proposed' },
+      data: { status: 'waiting', expiresAt: new Date(expiresAt) },
+    });
+
+    if (restored.count === 0) {
+      await redis.del(REDIS_KEYS.HELD_ENTRY(userId));
+      return false;
+    }
+
+    const entry: QueueEntry = {
+      ...queueEntry,
+      expiresAt,
+      priority: this.calculatePriority(queueEntry, queueEntry.joinedAt, now),
+    };
+    const data = JSON.stringify(entry);
+    const ttlSeconds = Math.max(Math.ceil((expiresAt - now) / 1000), 1);
+
+    const pipeline = redis.pipeline();
+    pipeline.zadd(REDIS_KEYS.QUEUE_MAIN, entry.priority, data);
+    pipeline.lpush(REDIS_KEYS.QUEUE_PRIORITY(entry.urgency), data);
+    pipeline.lpush(REDIS_KEYS.QUEUE_BY_TYPE(entry.sessionType), data);
+    pipeline.setex(REDIS_KEYS.USER_QUEUE_DATA(userId), ttlSeconds, data);
+    pipeline.sadd(REDIS_KEYS.ACTIVE_USERS, userId);
+    pipeline.del(REDIS_KEYS.HELD_ENTRY(userId));
+    await pipeline.exec();
+
+    const queueStatus = await this.getQueueStatus(userId);
+    await this.publishQueueUpdate('user_joined', {
+      userId,
+      queueEntry: entry,
+      queueStatus,
+    });
+
+    await this.updateQueueMetrics();
+
+    return true;
+  }
+
+  /**
+   * Drop a held user instead of putting them back
+   */
+  static async releaseHeld(userId: string): Promise<void> {
+    await redis.del(REDIS_KEYS.HELD_ENTRY(userId));
+    await prisma.matchingQueue.deleteMany({
+      where: { userId, status: 'proposed' },
+    });
+  }
+
+  /**
+   * Announce a change to a match proposal so queue sockets can notify its users
+   */
+  static async publishProposalUpdate(
+    eventType: 'match_proposed' | 'match_proposal_accepted' | 'match_proposal_closed',
+    data: any
+  ): Promise<void> {
+    await this.publishQueueUpdate(eventType, data);
+  }
+
+  /**
+   * Tell every socket server to drop a deactivated user's connections
+   */
+  static async publishAccountDeactivated(userId: string): Promise<void> {
+    await this.publishQueueUpdate('account_deactivated', { userId });
+  }
+
   /**
    * Get user's position and status in queue
    */
@@ -329,6 +488,34 @@ export class QueueManagerService {
     return candidates;
   }
 
+  /**
+   * Everyone still waiting, highest priority first, for the background matchmaker
+   */
+  static async getWaitingEntries(limit: number = 100): Promise<QueueEntry[]> {
+    const queueData = await redis.zrevrange(REDIS_KEYS.QUEUE_MAIN, 0, limit - 1);
+
+    const entries: QueueEntry[] = [];
+    const now = Date.now();
+
+    for (const data of queueData) {
+      try {
+        const entry: QueueEntry = JSON.parse(data);
+
+        if (entry.expiresAt < now) {
+          await this.removeExpiredEntry(entry);
+          continue;
+        }
+
+        entries.push(entry);
+      } catch (error) {
+        console.error('Error parsing queue entry:', error);
+        await redis.zrem(REDIS_KEYS.QUEUE_MAIN, data);
+      }
+    }
+
+    return entries;
+  }
+
   /**
    * Clean up expired queue entries
    */
@@ -1,6 +1,6 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { QueueManagerService } from './queue-manager.service';
-import { verifyToken } from '@/lib/auth';
+import { AuthService } from './auth.service';
 
 /**
  * Socket.io service for real-time queue updates and notifications
@@ -26,7 +26,7 @@ export class QueueSocketService {
       socket.on('authenticate', async (data) => {
         try {
           const { token } = data;
-          const decoded = verifyToken(token);
+          const decoded = await AuthService.authenticateAccessToken(token);
 
           if (!decoded) {
             socket.emit('auth_error', { message: 'Invalid token' });
@@ -70,6 +70,8 @@ export class QueueSocketService {
         }
 
         try {
+          await AuthService.requireVerifiedEmail(userId);
+
           const matchingRequest = {
             userId,
             preferredSkills: data.preferredSkills || [],
@@ -210,6 +212,51 @@ export class QueueSocketService {
           this.broadcastQueueStats();
           break;
 
+        case 'match_proposed':
+          // Both users get the proposal, each seeing the other as partner
+          for (const [userId, partnerId] of [
+            [message.data.userId1, message.data.userId2],
+            [message.data.userId2, message.data.userId1],
+          ]) {
+            this.notifyUser(userId, 'match_proposal', {
+              proposalId: message.data.proposalId,
+              partnerId,
+              sessionType: message.data.sessionType,
+              topics: message.data.topics,
+              compatibilityScore: message.data.compatibilityScore,
+              expiresAt: message.data.expiresAt,
+            });
+          }
+
+          this.broadcastQueueStats();
+          break;
+
+        case 'match_proposal_accepted':
+          // Let the other user know they're the one being waited on
+          this.notifyUser(message.data.partnerId, 'match_proposal_accepted', {
+            proposalId: message.data.proposalId,
+            partnerId: message.data.userId,
+          });
+          break;
+
+        case 'match_proposal_closed':
+          for (const user of message.data.users) {
+            this.notifyUser(user.userId, 'match_proposal_closed', {
+              proposalId: message.data.proposalId,
+              status: message.data.status,
+              requeued: user.requeued,
+            });
+          }
+
+          this.broadcastQueueStats();
+          break;
+
+        case 'account_deactivated':
+          this.disconnectEverywhere(message.data.userId).catch(error => {
+            console.error('Error disconnecting deactivated user:', error);
+          });
+          break;
+
         case 'queue_rebalanced':
           // Notify all users in queue about position updates
           queueNamespace.emit('queue_rebalanced', {
@@ -293,6 +340,21 @@ export class QueueSocketService {
     return this.userSockets.has(userId);
   }
 
+  /**
+   * Disconnect a user from every namespace, not just the queue
+   */
+  private static async disconnectEverywhere(userId: string): Promise<void> {
+    if (!this.io) return;
+
+    this.disconnectUser(userId);
+    for (const namespace of ['/', '/collaboration', '/matching', '/dashboard']) {
+      const sockets = await this.io.of(namespace).fetchSockets();
+      sockets
+        .filter(socket => socket.data.userId === userId)
+        .forEach(socket => socket.disconnect(true));
+    }
+  }
+
   /**
    * Disconnect user socket
    */
@@ -0,0 +1,151 @@
+import { randomUUID } from 'crypto';
+import prisma from '@/lib/prisma';
+import { DataEncryption, SessionSecurity } from '@/lib/security';
+import { generateRefreshToken, verifyRefreshToken, getTokenExpiry } from '@/lib/auth';
+import {
+  RefreshTokenContext,
+  RefreshTokenError,
+  RefreshTokenRevocationReason,
+  isReuseOfRotatedToken,
+} from '@/lib/refresh-tokens';
+
+export interface RotatedRefreshToken {
+  userId: string;
+  familyId: string;
+  refreshToken: string;
+}
+
+export class RefreshTokenService {
+  /**
+   * Issue a refresh token and remember it. Without a family id this starts a
+   * new login session.
+   */
+  static async issue(
+    userId: string,
+    context: RefreshTokenContext = {},
+    familyId: string = randomUUID()
+  ): Promise<{ refreshToken: string; id: string; familyId: string }> {
+    const refreshToken = generateRefreshToken(userId);
+    const userAgent = context.userAgent ?? null;
+    const ipAddress = context.ipAddress ?? null;
+
+    const record = await prisma.refreshToken.create({
+      data: {
+        userId,
+        tokenHash: DataEncryption.hash(refreshToken),
+        familyId,
+        userAgent,
+        ipAddress,
+        fingerprint: userAgent && ipAddress ? SessionSecurity.createSessionFingerprint(userAgent, ipAddress) : null,
+        expiresAt: getTokenExpiry(refreshToken) ?? new Date(),
+      },
+    });
+
+    return { refreshToken, id: record.id, familyId };
+  }
+
+  /**
+   * Exchange a refresh token for a new one in the same family. The presented
+   * token is revoked; presenting it again revokes the family.
+   */
+  static async rotate(refreshToken: string, context: RefreshTokenContext = {}): Promise<RotatedRefreshToken> {
+    const decoded = verifyRefreshToken(refreshToken);
+    if (!decoded) {
+      throw new RefreshTokenError('Invalid refresh token');
+    }
+
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: DataEncryption.hash(refreshToken) },
+    });
+
+    if (!record || record.userId !== decoded.userId) {
+      throw new RefreshTokenError('Invalid refresh token');
+    }
+
+    if (record.revokedAt) {
+      if (isReuseOfRotatedToken(record.revokedReason)) {
+        await this.revokeFamily(record.familyId, 'reuse_detected');
+        console.warn(`Refresh token reuse detected for user ${record.userId}, family ${record.familyId} revoked`);
+      }
+      throw new RefreshTokenError('Refresh token has been revoked');
+    }
+
+    if (record.expiresAt < new Date()) {
+      throw new RefreshTokenError('Refresh token has expired');
+    }
+
+    // Only one request can rotate a token; a concurrent loser is treated as a replay
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { id: record.id, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'rotated' },
+    });
+
+    if (claimed.count === 0) {
+      await this.revokeFamily(record.familyId, 'reuse_detected');
+      throw new RefreshTokenError('Refresh token has been revoked');
+    }
+
+    const next = await this.issue(record.userId, {
+      userAgent: context.userAgent ?? record.userAgent,
+      ipAddress: context.ipAddress ?? record.ipAddress,
+    }, record.familyId);
+
+    await prisma.refreshToken.update({
+      where: { id: record.id },
+      data: { replacedById: next.id },
+    });
+
+    return {
+      userId: record.userId,
+      familyId: record.familyId,
+      refreshToken: next.refreshToken,
+    };
+  }
+
+  /**
+   * The login session a refresh token belongs to, if it is still active
+   */
+  static async getFamilyId(refreshToken: string): Promise<string | null> {
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: DataEncryption.hash(refreshToken) },
+      select: { familyId: true, revokedAt: true },
+    });
+
+    return record && !record.revokedAt ? record.familyId : null;
+  }
+
+  /**
+   * Revoke a single token's session, e.g. on logout. Unknown tokens are ignored.
+   */
+  static async revoke(refreshToken: string, reason: RefreshTokenRevocationReason = 'logout'): Promise<void> {
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: DataEncryption.hash(refreshToken) },
+      select: { familyId: true },
+    });
+
+    if (record) {
+      await this.revokeFamily(record.familyId, reason);
+    }
+  }
+
+  static async revokeFamily(familyId: string, reason: RefreshTokenRevocationReason): Promise<number> {
+    const result = await prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Sign the user out everywhere
+   */
+  static async revokeAllForUser(userId: string, reason: RefreshTokenRevocationReason): Promise<number> {
+    const result = await prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count;
+  }
+}
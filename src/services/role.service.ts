@@ -0,0 +1,39 @@
+import prisma from '@/lib/prisma';
+import { PermissionError, normalizeRoles } from '@/lib/permissions';
+import { UserRole } from '@/types';
+import { AccountSecurityService } from './account-security.service';
+
+export class RoleService {
+  /**
+   * Replace a user's roles. Callers must hold users:manage_roles; admins
+   * can't drop their own admin role, so the last admin can't lock everyone out.
+   */
+  static async setRoles(actorId: string, userId: string, roles: UserRole[]): Promise<UserRole[]> {
+    const nextRoles = normalizeRoles(roles);
+
+    if (actorId === userId && !nextRoles.includes('admin')) {
+      throw new PermissionError('You cannot remove your own admin role', 409);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { roles: true },
+    });
+    if (!user) {
+      throw new PermissionError('User not found', 404);
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { roles: nextRoles },
+    });
+
+    await AccountSecurityService.logEvent(userId, 'roles_changed', {}, {
+      previousRoles: normalizeRoles(user.roles),
+      roles: nextRoles,
+      changedBy: actorId,
+    });
+
+    return nextRoles;
+  }
+}
@@ -1,4 +1,22 @@
 import prisma from '@/lib/prisma';
+import {
+  FEEDBACK_EDIT_WINDOW_HOURS,
+  FEEDBACK_SESSION_STATUSES,
+  FEEDBACK_SUBMISSION_WINDOW_DAYS,
+  FeedbackError,
+  getEditDeadline,
+  getSubmissionDeadline,
+} from '@/lib/session-feedback';
+import { isValidTimezone } from '@/lib/booking';
+import {
+  InsightContext,
+  buildAchievementInsights,
+  buildRecommendations,
+  detectLearningPatterns,
+} from '@/lib/insight-engine';
+import { AchievementService } from './achievement.service';
+import { SkillProgressService } from './skill-progress.service';
+import { SkillVerificationService } from './skill-verification.service';
 
 export interface DetailedFeedback {
   rating: number;
@@ -70,7 +88,7 @@ export interface SkillMilestone {
   date: Date;
   level: number;
   achievement?: string;
-  sessionId: string;
+  sessionId?: string; // latest session that led to the milestone
 }
 
 export interface VelocityMetrics {
@@ -142,6 +160,8 @@ export interface Recommendation {
   description: string;
   actionable: boolean;
   estimatedImpact: string;
+  confidence: number; // 0-100
+  actionUrl?: string;
   data?: Record<string, any>;
 }
 
@@ -152,8 +172,13 @@ export interface AchievementInsight {
   description: string;
   progress: number; // 0-100
   requirement: string;
+  confidence: number; // 0-100
+  actionUrl?: string;
 }
 
+// How far back session history is mined for learning patterns
+const INSIGHT_HISTORY_DAYS = 180;
+
 export class SessionAnalyticsService {
   /**
    * Get comprehensive user analytics
@@ -327,7 +352,7 @@ export class SessionAnalyticsService {
   }
 
   /**
-   * Submit detailed session feedback
+   * Submit detailed session feedback, once per participant
    */
   static async submitDetailedFeedback(
     sessionId: string,
@@ -335,54 +360,106 @@ export class SessionAnalyticsService {
     feedback: DetailedFeedback
   ): Promise<any> {
     try {
-      // Get the session to determine user role
-      const session = await prisma.session.findUnique({
-        where: { id: sessionId }
+      const session = await this.getFeedbackSession(sessionId, userId);
+
+      if (!FEEDBACK_SESSION_STATUSES.includes(session.status)) {
+        throw new FeedbackError('Feedback can only be submitted for completed sessions', 409);
+      }
+
+      if (new Date() > getSubmissionDeadline(session)) {
+        throw new FeedbackError(
+          `Feedback can only be submitted within ${FEEDBACK_SUBMISSION_WINDOW_DAYS} days of the session`,
+          403
+        );
+      }
+
+      const existing = await prisma.sessionFeedback.findUnique({
+        where: { sessionId_userId: { sessionId, userId } }
       });
 
-      if (!session) {
-        throw new Error('Session not found');
+      if (existing) {
+        throw new FeedbackError('Feedback has already been submitted for this session', 409);
       }
 
-      const isInitiator = session.initiatorId === userId;
+      let detailedFeedback;
+      try {
+        detailedFeedback = await prisma.sessionFeedback.create({
+          data: {
+            sessionId,
+            userId,
+            ...this.toFeedbackData(feedback)
+          }
+        });
+      } catch (error: any) {
+        // Unique (sessionId, userId) index lost a race with a concurrent submission
+        if (error?.code === 'P2002') {
+          throw new FeedbackError('Feedback has already been submitted for this session', 409);
+        }
+        throw error;
+      }
 
-      // Update session with detailed feedback
-      const updatedSession = await prisma.session.update({
-        where: { id: sessionId },
+      const updatedSession = await this.updateSessionRating(session, userId, feedback);
+      await this.recordFeedbackSkills(sessionId, userId, feedback);
+
+      return {
+        session: updatedSession,
+        detailedFeedback
+      };
+    } catch (error) {
+      console.error('Error submitting detailed feedback:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edit a feedback submission within its edit window
+   */
+  static async updateDetailedFeedback(
+    sessionId: string,
+    userId: string,
+    feedback: DetailedFeedback
+  ): Promise<any> {
+    try {
+      const session = await this.getFeedbackSession(sessionId, userId);
+
+      const existing = await prisma.sessionFeedback.findUnique({
+        where: { sessionId_userId: { sessionId, userId } }
+      });
+
+      if (!existing) {
+        throw new FeedbackError('No feedback has been submitted for this session yet', 404);
+      }
+
+      if (new Date() > getEditDeadline(existing.submittedAt)) {
+        throw new FeedbackError(
+          `Feedback can only be edited within ${FEEDBACK_EDIT_WINDOW_HOURS} hours of submitting it`,
+          403
+        );
+      }
+
+      const detailedFeedback = await prisma.sessionFeedback.update({
+        where: { id: existing.id },
         data: {
-          ...(isInitiator ? {
-            ratingInitiator: feedback.rating,
-            feedbackInitiator: feedback.feedback
-          } : {
-            ratingPartner: feedback.rating,
-            feedbackPartner: feedback.feedback
-          })
+          ...this.toFeedbackData(feedback),
+          editCount: { increment: 1 }
         }
       });
 
-      // Store detailed feedback in a separate collection (if using MongoDB)
-      // For now, we'll store it as JSON in the session metadata
-      const detailedFeedbackData = {
-        userId,
-        sessionId,
-        ...feedback,
-        submittedAt: new Date()
-      };
+      const updatedSession = await this.updateSessionRating(session, userId, feedback);
+      await this.recordFeedbackSkills(sessionId, userId, feedback);
 
-      // In a real implementation, you might want to create a separate SessionFeedback model
-      // For now, we'll return the feedback data
       return {
         session: updatedSession,
-        detailedFeedback: detailedFeedbackData
+        detailedFeedback
       };
     } catch (error) {
-      console.error('Error submitting detailed feedback:', error);
+      console.error('Error updating detailed feedback:', error);
       throw error;
     }
   }
 
   /**
-   * Get session feedback
+   * Get session feedback from both participants
    */
   static async getSessionFeedback(sessionId: string, userId: string): Promise<any> {
     try {
@@ -402,7 +479,8 @@ export class SessionAnalyticsService {
               username: true,
               avatarUrl: true
             }
-          }
+          },
+          feedback: true
         }
       });
 
@@ -415,16 +493,24 @@ export class SessionAnalyticsService {
         throw new Error('Unauthorized access to session feedback');
       }
 
+      const { feedback: entries = [], ...sessionData } = session;
+      const isInitiator = session.initiatorId === userId;
+      const partnerId = isInitiator ? session.partnerId : session.initiatorId;
+
       return {
-        session,
-        userFeedback: {
-          rating: session.initiatorId === userId ? session.ratingInitiator : session.ratingPartner,
-          feedback: session.initiatorId === userId ? session.feedbackInitiator : session.feedbackPartner
-        },
-        partnerFeedback: {
-          rating: session.initiatorId === userId ? session.ratingPartner : session.ratingInitiator,
-          feedback: session.initiatorId === userId ? session.feedbackPartner : session.feedbackInitiator
-        }
+        session: sessionData,
+        userFeedback: this.formatFeedback(
+          entries.find((entry: any) => entry.userId === userId),
+          isInitiator ? session.ratingInitiator : session.ratingPartner,
+          isInitiator ? session.feedbackInitiator : session.feedbackPartner,
+          true
+        ),
+        partnerFeedback: this.formatFeedback(
+          entries.find((entry: any) => entry.userId === partnerId),
+          isInitiator ? session.ratingPartner : session.ratingInitiator,
+          isInitiator ? session.feedbackPartner : session.feedbackInitiator,
+          false
+        )
       };
     } catch (error) {
       console.error('Error getting session feedback:', error);
@@ -432,6 +518,123 @@ export class SessionAnalyticsService {
     }
   }
 
+  /**
+   * Load a session and check the user took part in it
+   */
+  private static async getFeedbackSession(sessionId: string, userId: string) {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId }
+    });
+
+    if (!session) {
+      throw new FeedbackError('Session not found', 404);
+    }
+
+    if (session.initiatorId !== userId && session.partnerId !== userId) {
+      throw new FeedbackError('You are not a participant of this session', 403);
+    }
+
+    return session;
+  }
+
+  /**
+   * Keep the quick rating fields on the session in sync with the detailed feedback
+   */
+  private static async updateSessionRating(session: any, userId: string, feedback: DetailedFeedback) {
+    const isInitiator = session.initiatorId === userId;
+
+    return prisma.session.update({
+      where: { id: session.id },
+      data: {
+        ...(isInitiator ? {
+          ratingInitiator: feedback.rating,
+          feedbackInitiator: feedback.feedback
+        } : {
+          ratingPartner: feedback.rating,
+          feedbackPartner: feedback.feedback
+        })
+      }
+    });
+  }
+
+  /**
+   * Add the skills from feedback to the proficiency history; the feedback itself is already saved
+   */
+  private static async recordFeedbackSkills(sessionId: string, userId: string, feedback: DetailedFeedback) {
+    try {
+      await SkillProgressService.recordSessionSkills(
+        sessionId,
+        userId,
+        feedback.skillsLearned,
+        feedback.skillsTaught
+      );
+      // The rating may complete the teaching evidence for either participant
+      await SkillVerificationService.evaluateSessionSkills(sessionId);
+    } catch (error) {
+      console.error('Error recording skill progress from feedback:', error);
+    }
+  }
+
+  private static toFeedbackData(feedback: DetailedFeedback) {
+    return {
+      rating: feedback.rating,
+      feedback: feedback.feedback ?? null,
+      skillsLearned: feedback.skillsLearned,
+      skillsTaught: feedback.skillsTaught,
+      learningOutcomes: feedback.learningOutcomes,
+      difficultyLevel: feedback.difficultyLevel ?? null,
+      paceRating: feedback.paceRating ?? null,
+      communicationRating: feedback.communicationRating ?? null,
+      technicalIssues: feedback.technicalIssues,
+      wouldRecommendPartner: feedback.wouldRecommendPartner ?? null,
+      improvementSuggestions: feedback.improvementSuggestions ?? null,
+      sharedResources: feedback.sharedResources as any
+    };
+  }
+
+  /**
+   * Shape one side's feedback, falling back to the session rating for sessions rated before detailed feedback
+   */
+  private static formatFeedback(
+    entry: any,
+    rating: number | null,
+    feedback: string | null,
+    isOwn: boolean
+  ) {
+    if (!entry) {
+      return {
+        submitted: false,
+        rating,
+        feedback
+      };
+    }
+
+    const editableUntil = getEditDeadline(entry.submittedAt);
+
+    return {
+      submitted: true,
+      rating: entry.rating,
+      feedback: entry.feedback,
+      skillsLearned: entry.skillsLearned,
+      skillsTaught: entry.skillsTaught,
+      learningOutcomes: entry.learningOutcomes,
+      difficultyLevel: entry.difficultyLevel,
+      paceRating: entry.paceRating,
+      communicationRating: entry.communicationRating,
+      technicalIssues: entry.technicalIssues,
+      wouldRecommendPartner: entry.wouldRecommendPartner,
+      improvementSuggestions: entry.improvementSuggestions,
+      sharedResources: entry.sharedResources as SharedResource[],
+      submittedAt: entry.submittedAt,
+      updatedAt: entry.updatedAt,
+      editCount: entry.editCount,
+      ...(isOwn && {
+        editableUntil,
+        canEdit: new Date() <= editableUntil
+      })
+    };
+  }
+
   /**
    * Generate personalized insights
    */
@@ -441,9 +644,11 @@ export class SessionAnalyticsService {
   ): Promise<PersonalizedInsights> {
     try {
       const performance = await this.generatePerformanceInsights(userId);
-      const patterns = await this.generateLearningPatterns(userId);
-      const recommendations = await this.generateRecommendations(userId);
-      const achievements = await this.generateAchievementInsights(userId);
+      const context = await this.getInsightContext(userId);
+      const patterns = detectLearningPatterns(context);
+      const recommendations = buildRecommendations(context, patterns);
+      // Achievement progress is derived from user stats, so there is nothing to report without them
+      const achievements = context.stats ? await this.generateAchievementInsights(userId) : [];
 
       return {
         performance,
@@ -793,9 +998,7 @@ export class SessionAnalyticsService {
   }
 
   private static async getSkillProgression(userId: string, fromDate: Date): Promise<SkillProgressionData[]> {
-    // This would require more sophisticated skill tracking
-    // For now, return empty array
-    return [];
+    return SkillProgressService.getSkillProgression(userId, fromDate);
   }
 
   private static async generatePerformanceInsights(userId: string): Promise<PerformanceInsight[]> {
@@ -837,18 +1040,46 @@ export class SessionAnalyticsService {
     return insights;
   }
 
-  private static async generateLearningPatterns(userId: string): Promise<LearningPattern[]> {
-    // Generate learning patterns based on session data
-    return [];
-  }
+  /**
+   * Completed session history, timezone and streak data shared by the insight rules
+   */
+  private static async getInsightContext(userId: string): Promise<InsightContext> {
+    const now = new Date();
+    const since = new Date(now.getTime() - INSIGHT_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+    const [user, userStats, sessions] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { timezone: true }
+      }),
+      prisma.userStats.findUnique({
+        where: { userId }
+      }),
+      prisma.session.findMany({
+        where: {
+          OR: [{ initiatorId: userId }, { partnerId: userId }],
+          status: 'completed',
+          startTime: { gte: since }
+        },
+        include: {
+          initiator: { select: { id: true, username: true } },
+          partner: { select: { id: true, username: true } }
+        },
+        orderBy: { startTime: 'asc' }
+      })
+    ]);
 
-  private static async generateRecommendations(userId: string): Promise<Recommendation[]> {
-    // Generate personalized recommendations
-    return [];
+    return {
+      userId,
+      timezone: user?.timezone && isValidTimezone(user.timezone) ? user.timezone : 'UTC',
+      sessions,
+      stats: userStats,
+      now
+    };
   }
 
   private static async generateAchievementInsights(userId: string): Promise<AchievementInsight[]> {
-    // Generate achievement-related insights
-    return [];
+    const { inProgress } = await AchievementService.getUserAchievements(userId);
+    return buildAchievementInsights(inProgress);
   }
-}
\ No newline at end of file
+}
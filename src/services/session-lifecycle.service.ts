@@ -0,0 +1,134 @@
+import prisma from '@/lib/prisma';
+import { broadcastToSession, broadcastToUser } from '@/lib/socket-server';
+import {
+  SESSION_TRANSITIONS,
+  NO_SHOW_GRACE_MINUTES,
+  SessionTransition,
+  SessionTransitionError,
+  calculateActiveMinutes,
+  canTransition,
+  isTransitionApplied,
+} from '@/lib/session-lifecycle';
+
+export interface SessionTransitionOptions {
+  reason?: string;
+  durationMinutes?: number;
+  topics?: string[];
+}
+
+export interface SessionTransitionResult {
+  session: any;
+  applied: boolean; // false when the session was already in the target status
+}
+
+export class SessionLifecycleService {
+  /**
+   * Apply a lifecycle transition to a session on behalf of one of its participants
+   */
+  static async transition(
+    sessionId: string,
+    userId: string,
+    transition: SessionTransition,
+    options: SessionTransitionOptions = {}
+  ): Promise<SessionTransitionResult> {
+    const rule = SESSION_TRANSITIONS[transition];
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      throw new SessionTransitionError('Session not found', 404);
+    }
+
+    if (session.initiatorId !== userId && session.partnerId !== userId) {
+      throw new SessionTransitionError('You are not a participant of this session', 403);
+    }
+
+    // Repeating a transition that already happened is a no-op, e.g. both users ending the call
+    if (isTransitionApplied(session.status, transition)) {
+      return { session, applied: false };
+    }
+
+    if (!canTransition(session.status, transition)) {
+      throw new SessionTransitionError(
+        `Cannot ${transition.replace('_', '-')} a session that is ${session.status}`
+      );
+    }
+
+    const now = new Date();
+
+    if (transition === 'no_show') {
+      const graceEndsAt = session.startTime.getTime() + NO_SHOW_GRACE_MINUTES * 60 * 1000;
+      if (now.getTime() < graceEndsAt) {
+        throw new SessionTransitionError(
+          `A no-show can only be reported ${NO_SHOW_GRACE_MINUTES} minutes after the scheduled start`
+        );
+      }
+    }
+
+    const data: Record<string, any> = {
+      status: rule.to,
+      [rule.timestampField]: now,
+      statusChangedBy: userId,
+      statusReason: options.reason ?? null,
+    };
+
+    if (transition === 'resume' && session.pausedAt) {
+      data.pausedMinutes = {
+        increment: Math.round((now.getTime() - session.pausedAt.getTime()) / (1000 * 60)),
+      };
+    }
+
+    if (transition === 'end') {
+      data.durationMinutes = options.durationMinutes ?? calculateActiveMinutes(session, now);
+      if (options.topics && options.topics.length > 0) {
+        data.topics = options.topics;
+      }
+    }
+
+    // Conditional update so two concurrent requests cannot both apply the transition
+    const { count } = await prisma.session.updateMany({
+      where: {
+        id: sessionId,
+        status: { in: [...rule.from] },
+      },
+      data,
+    });
+
+    const updatedSession = await prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (count === 0) {
+      if (updatedSession && isTransitionApplied(updatedSession.status, transition)) {
+        return { session: updatedSession, applied: false };
+      }
+
+      throw new SessionTransitionError('Session status changed concurrently, please retry');
+    }
+
+    this.notifyParticipants(updatedSession, transition, userId);
+
+    return { session: updatedSession, applied: true };
+  }
+
+  /**
+   * Push a transition to both participants so their call UIs stay in sync
+   */
+  private static notifyParticipants(session: any, transition: SessionTransition, byUserId: string): void {
+    const rule = SESSION_TRANSITIONS[transition];
+    const payload = {
+      sessionId: session.id,
+      transition,
+      status: session.status,
+      byUserId,
+      reason: session.statusReason,
+      timestamp: new Date().toISOString(),
+    };
+
+    broadcastToSession(session.id, rule.event, payload);
+    broadcastToUser(session.initiatorId, 'session_status_changed', payload);
+    broadcastToUser(session.partnerId, 'session_status_changed', payload);
+  }
+}
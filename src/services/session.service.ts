@@ -1,16 +1,20 @@
-import prisma from '@/lib/prisma';
+import prisma, { withTransaction } from '@/lib/prisma';
+import { broadcastToUser } from '@/lib/socket-server';
 import { AchievementService } from './achievement.service';
 import { achievementNotificationService } from './achievement-notification.service';
+import { QueueManagerService } from './queue-manager.service';
+import { SessionLifecycleService } from './session-lifecycle.service';
+import type { MatchingRequest, MatchResult } from './matching.service';
 
 export interface SessionCompletionData {
   sessionId: string;
   userId: string;
-  partnerId: string;
-  durationMinutes: number;
+  partnerId?: string; // derived from the session record when omitted
+  durationMinutes?: number; // calculated from lifecycle timestamps when omitted
   rating?: number;
   feedback?: string;
-  topics: string[];
-  sessionType: 'learning' | 'teaching' | 'collaboration';
+  topics?: string[];
+  sessionType?: 'learning' | 'teaching' | 'collaboration';
 }
 
 export interface SessionStats {
@@ -25,24 +29,128 @@ export interface SessionStats {
 }
 
 export class SessionService {
+  /**
+   * Persist a scheduled session for an accepted match proposal and take both
+   * users out of the queue
+   */
+  static async createMatchedSession(
+    request: Pick<MatchingRequest, 'userId' | 'sessionType' | 'preferredSkills'>,
+    match: Pick<MatchResult, 'partnerId' | 'compatibilityScore'>
+  ): Promise<any> {
+    try {
+      const session = await withTransaction(async (tx) => {
+        // Claim the partner's queue entry first; they may have left the queue since accepting
+        const claimedPartner = await tx.matchingQueue.updateMany({
+          where: { userId: match.partnerId, status: 'proposed' },
+          data: { status: 'matched' },
+        });
+
+        if (claimedPartner.count === 0) {
+          throw new Error('Match partner is no longer available');
+        }
+
+        await tx.matchingQueue.updateMany({
+          where: { userId: request.userId, status: 'proposed' },
+          data: { status: 'matched' },
+        });
+
+        return tx.session.create({
+          data: {
+            initiatorId: request.userId,
+            partnerId: match.partnerId,
+            startTime: new Date(),
+            sessionType: request.sessionType,
+            topics: request.preferredSkills,
+            status: 'scheduled',
+          },
+        });
+      });
+
+      await QueueManagerService.markAsMatched({
+        userId1: request.userId,
+        userId2: match.partnerId,
+        sessionId: session.id,
+        compatibilityScore: match.compatibilityScore,
+      });
+
+      // Notify both participants so their clients can open the call page
+      const notification = {
+        sessionId: session.id,
+        sessionType: session.sessionType,
+        topics: session.topics,
+        compatibilityScore: match.compatibilityScore,
+        timestamp: new Date().toISOString(),
+      };
+      broadcastToUser(request.userId, 'match_found', { ...notification, partnerId: match.partnerId });
+      broadcastToUser(match.partnerId, 'match_found', { ...notification, partnerId: request.userId });
+
+      return session;
+    } catch (error) {
+      console.error('Error creating matched session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single session for one of its participants
+   */
+  static async getSessionForParticipant(sessionId: string, userId: string): Promise<any | null> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: {
+        initiator: {
+          select: {
+            id: true,
+            username: true,
+            avatarUrl: true
+          }
+        },
+        partner: {
+          select: {
+            id: true,
+            username: true,
+            avatarUrl: true
+          }
+        }
+      }
+    });
+
+    if (!session || (session.initiatorId !== userId && session.partnerId !== userId)) {
+      return null;
+    }
+
+    return session;
+  }
+
   /**
    * Complete a session and update user stats
+   *
+   * Ending goes through the lifecycle state machine, so stats are only counted the
+   * first time; a repeated completion just records the caller's rating.
    */
   static async completeSession(data: SessionCompletionData): Promise<{
     session: any;
     newAchievements: any[];
     updatedStats: SessionStats;
+    alreadyCompleted: boolean;
   }> {
     try {
-      // Update the session record
-      const session = await prisma.session.update({
-        where: { id: data.sessionId },
-        data: {
-          endTime: new Date(),
-          durationMinutes: data.durationMinutes,
-          status: 'completed',
-          topics: data.topics,
-          ...(data.userId === session?.initiatorId
+      const { session: endedSession, applied } = await SessionLifecycleService.transition(
+        data.sessionId,
+        data.userId,
+        'end',
+        {
+          ...(data.durationMinutes !== undefined && { durationMinutes: data.durationMinutes }),
+          ...(data.topics !== undefined && { topics: data.topics }),
+        }
+      );
+
+      // Record this participant's rating and feedback
+      const isInitiator = data.userId === endedSession.initiatorId;
+      const session = data.rating !== undefined || data.feedback !== undefined
+        ? await prisma.session.update({
+          where: { id: data.sessionId },
+          data: isInitiator
             ? {
               ratingInitiator: data.rating,
               feedbackInitiator: data.feedback
@@ -51,21 +159,36 @@ export class SessionService {
               ratingPartner: data.rating,
               feedbackPartner: data.feedback
             }
-          )
-        }
-      });
+        })
+        : endedSession;
+
+      if (!applied) {
+        return {
+          session,
+          newAchievements: [],
+          updatedStats: await this.getSessionStats(data.userId),
+          alreadyCompleted: true
+        };
+      }
 
-      // Update user stats for both participants
-      const userStats = await this.updateUserStats(data.userId, data);
-      const partnerStats = await this.updateUserStats(data.partnerId, {
+      const partnerId = isInitiator ? session.partnerId : session.initiatorId;
+      const completion: SessionCompletionData = {
         ...data,
-        userId: data.partnerId,
+        partnerId,
+        durationMinutes: session.durationMinutes || 0
+      };
+
+      // Update user stats for both participants
+      const userStats = await this.updateUserStats(data.userId, completion);
+      await this.updateUserStats(partnerId, {
+        ...completion,
+        userId: partnerId,
         partnerId: data.userId
       });
 
       // Check for new achievements for both users
       const userAchievements = await AchievementService.checkAndAwardAchievements(data.userId);
-      const partnerAchievements = await AchievementService.checkAndAwardAchievements(data.partnerId);
+      const partnerAchievements = await AchievementService.checkAndAwardAchievements(partnerId);
 
       // Trigger achievement notifications (these would be sent via WebSocket in a real app)
       if (userAchievements.length > 0) {
@@ -78,7 +201,8 @@ export class SessionService {
       return {
         session,
         newAchievements: [...userAchievements, ...partnerAchievements],
-        updatedStats: userStats
+        updatedStats: userStats,
+        alreadyCompleted: false
       };
     } catch (error) {
       console.error('Error completing session:', error);
@@ -113,7 +237,7 @@ export class SessionService {
 
       // Calculate new stats
       const newTotalSessions = userStats.totalSessions + 1;
-      const newTotalMinutes = userStats.totalMinutesLearned + data.durationMinutes;
+      const newTotalMinutes = userStats.totalMinutesLearned + (data.durationMinutes || 0);
 
       // Calculate average rating
       const sessions = await prisma.session.findMany({
@@ -307,6 +431,26 @@ export class SessionService {
     }
   }
 
+  /**
+   * Get a user's current session stats
+   */
+  private static async getSessionStats(userId: string): Promise<SessionStats> {
+    const userStats = await prisma.userStats.findUnique({
+      where: { userId }
+    });
+
+    return {
+      totalSessions: userStats?.totalSessions || 0,
+      totalMinutesLearned: userStats?.totalMinutesLearned || 0,
+      averageRating: userStats?.averageRating || 0,
+      skillsLearned: userStats?.skillsLearned || 0,
+      skillsTaught: userStats?.skillsTaught || 0,
+      currentStreak: userStats?.currentStreak || 0,
+      longestStreak: userStats?.longestStreak || 0,
+      lastSessionDate: userStats?.lastSessionDate || new Date()
+    };
+  }
+
   /**
    * Get user's session history with achievements context
    */
@@ -347,11 +491,6 @@ export class SessionService {
         take: limit
       });
 
-      // Get user stats
-      const userStats = await prisma.userStats.findUnique({
-        where: { userId }
-      });
-
       // Get recent achievements (last 30 days)
       const recentThreshold = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
       const recentAchievements = await prisma.userAchievement.findMany({
@@ -370,16 +509,7 @@ export class SessionService {
         take: 10
       });
 
-      const stats: SessionStats = {
-        totalSessions: userStats?.totalSessions || 0,
-        totalMinutesLearned: userStats?.totalMinutesLearned || 0,
-        averageRating: userStats?.averageRating || 0,
-        skillsLearned: userStats?.skillsLearned || 0,
-        skillsTaught: userStats?.skillsTaught || 0,
-        currentStreak: userStats?.currentStreak || 0,
-        longestStreak: userStats?.longestStreak || 0,
-        lastSessionDate: userStats?.lastSessionDate || new Date()
-      };
+      const stats = await this.getSessionStats(userId);
 
       return {
         sessions,
@@ -0,0 +1,124 @@
+import prisma from '@/lib/prisma';
+import { buildSkillProgression } from '@/lib/skill-progression';
+import type { SkillProgressionData } from './session-analytics.service';
+
+const skillSelect = {
+  select: {
+    id: true,
+    name: true,
+    category: true,
+  },
+};
+
+export class SkillProgressService {
+  /**
+   * Record a proficiency level being set or changed on the user's profile
+   */
+  static async recordLevelChange(
+    userId: string,
+    skillId: string,
+    previousLevel: number | null,
+    level: number
+  ): Promise<void> {
+    if (previousLevel === level) return;
+
+    await prisma.skillProgressEvent.create({
+      data: {
+        userId,
+        skillId,
+        eventType: previousLevel === null ? 'level_set' : 'level_changed',
+        previousLevel,
+        level,
+      },
+    });
+  }
+
+  /**
+   * Record the skills a participant listed as learned or taught in their session feedback.
+   * Replaces earlier events for the same session so edited feedback is not counted twice.
+   */
+  static async recordSessionSkills(
+    sessionId: string,
+    userId: string,
+    skillsLearned: string[],
+    skillsTaught: string[]
+  ): Promise<void> {
+    const names = [...skillsLearned, ...skillsTaught].map(name => name.trim()).filter(Boolean);
+
+    const [session, skills] = await Promise.all([
+      prisma.session.findUnique({
+        where: { id: sessionId },
+        select: { durationMinutes: true, endTime: true, startTime: true },
+      }),
+      names.length > 0
+        ? prisma.skill.findMany({
+          where: {
+            OR: names.map(name => ({ name: { equals: name, mode: 'insensitive' } })),
+          },
+          select: { id: true, name: true },
+        })
+        : Promise.resolve([]),
+    ]);
+
+    await prisma.skillProgressEvent.deleteMany({
+      where: { sessionId, userId },
+    });
+
+    if (!session || skills.length === 0) return;
+
+    const userSkills = await prisma.userSkill.findMany({
+      where: {
+        userId,
+        skillId: { in: skills.map((skill: any) => skill.id) },
+      },
+      select: { skillId: true, proficiencyLevel: true },
+    });
+
+    const findSkill = (name: string) =>
+      skills.find((skill: any) => skill.name.toLowerCase() === name.trim().toLowerCase());
+    const levelOf = (skillId: string) =>
+      userSkills.find((userSkill: any) => userSkill.skillId === skillId)?.proficiencyLevel ?? null;
+
+    const entries = [
+      ...skillsLearned.map(name => ({ name, eventType: 'session_learned' })),
+      ...skillsTaught.map(name => ({ name, eventType: 'session_taught' })),
+    ];
+
+    const data = entries
+      .map(({ name, eventType }) => ({ skill: findSkill(name), eventType }))
+      .filter(({ skill }) => !!skill)
+      .map(({ skill, eventType }) => ({
+        userId,
+        skillId: skill.id,
+        eventType,
+        level: levelOf(skill.id),
+        sessionId,
+        minutes: session.durationMinutes ?? 0,
+        // Date the event by the session, not by when the feedback was written
+        createdAt: session.endTime || session.startTime,
+      }));
+
+    if (data.length > 0) {
+      await prisma.skillProgressEvent.createMany({ data });
+    }
+  }
+
+  /**
+   * Per-skill timelines, milestones and hours invested since the given date
+   */
+  static async getSkillProgression(userId: string, fromDate: Date): Promise<SkillProgressionData[]> {
+    const [userSkills, events] = await Promise.all([
+      prisma.userSkill.findMany({
+        where: { userId },
+        include: { skill: skillSelect },
+      }),
+      prisma.skillProgressEvent.findMany({
+        where: { userId },
+        include: { skill: skillSelect },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    return buildSkillProgression(userSkills, events, fromDate);
+  }
+}
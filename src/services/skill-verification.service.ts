@@ -0,0 +1,369 @@
+import prisma from '@/lib/prisma';
+import { broadcastToUser } from '@/lib/socket-server';
+import {
+  SKILL_VERIFICATION_CONFIG,
+  SkillVerificationError,
+  VerificationAction,
+  VerificationEvidence,
+  VerificationMethod,
+  evaluateEvidence,
+  getQualifyingEndorserLevel,
+} from '@/lib/skill-verification';
+import { hasPermission } from '@/lib/permissions';
+
+export interface SkillVerificationStatus {
+  skillId: string;
+  verified: boolean;
+  verifiedAt: Date | null;
+  method: VerificationMethod | null;
+  evidence: VerificationEvidence;
+  requirements: {
+    endorsements: number;
+    teachingSessions: number;
+    minTeachingRating: number;
+  };
+  pendingRequest: { id: string; createdAt: Date } | null;
+}
+
+export interface VerificationRequestInput {
+  evidenceUrl?: string;
+  note?: string;
+}
+
+export interface VerificationReviewInput {
+  approve: boolean;
+  note?: string;
+}
+
+export class SkillVerificationService {
+  /**
+   * Verification state of a skill along with the evidence collected so far
+   */
+  static async getVerificationStatus(userId: string, skillId: string): Promise<SkillVerificationStatus> {
+    const userSkill = await this.getUserSkill(userId, skillId);
+
+    const [evidence, pendingRequest] = await Promise.all([
+      this.collectEvidence(userId, skillId, userSkill.proficiencyLevel),
+      prisma.skillVerificationRequest.findFirst({
+        where: { userId, skillId, status: 'pending' },
+        select: { id: true, createdAt: true },
+      }),
+    ]);
+
+    return {
+      skillId,
+      verified: userSkill.verified,
+      verifiedAt: userSkill.verifiedAt ?? null,
+      method: userSkill.verificationMethod ?? null,
+      evidence,
+      requirements: {
+        endorsements: SKILL_VERIFICATION_CONFIG.MIN_ENDORSEMENTS,
+        teachingSessions: SKILL_VERIFICATION_CONFIG.MIN_TEACHING_SESSIONS,
+        minTeachingRating: SKILL_VERIFICATION_CONFIG.MIN_TEACHING_RATING,
+      },
+      pendingRequest: pendingRequest ?? null,
+    };
+  }
+
+  /**
+   * Re-check the automatic evidence for a skill, verifying it when a rule is met and
+   * revoking an automatic verification whose evidence is gone. Reviewer approvals stand.
+   */
+  static async evaluateSkill(userId: string, skillId: string, actorId?: string): Promise<boolean> {
+    const userSkill = await prisma.userSkill.findUnique({
+      where: { userId_skillId: { userId, skillId } },
+    });
+    if (!userSkill) return false;
+
+    const evidence = await this.collectEvidence(userId, skillId, userSkill.proficiencyLevel);
+    const method = evaluateEvidence(evidence);
+
+    if (method && !userSkill.verified) {
+      await this.setVerified(userId, skillId, method, evidence, actorId);
+      return true;
+    }
+
+    if (!method && userSkill.verified && userSkill.verificationMethod !== 'reviewer') {
+      await this.revokeVerification(userId, skillId, 'Verification evidence no longer met', actorId, evidence);
+      return false;
+    }
+
+    return userSkill.verified;
+  }
+
+  /**
+   * Re-check the skills taught in a session once its ratings change
+   */
+  static async evaluateSessionSkills(sessionId: string): Promise<void> {
+    const taught = await prisma.skillProgressEvent.findMany({
+      where: { sessionId, eventType: 'session_taught' },
+      select: { userId: true, skillId: true },
+    });
+
+    for (const { userId, skillId } of taught) {
+      await this.evaluateSkill(userId, skillId);
+    }
+  }
+
+  /**
+   * A higher proficiency claim is not covered by the evidence behind the current verification
+   */
+  static async handleLevelChange(userId: string, skillId: string, previousLevel: number, level: number): Promise<void> {
+    if (level <= previousLevel) return;
+
+    const userSkill = await prisma.userSkill.findUnique({
+      where: { userId_skillId: { userId, skillId } },
+    });
+
+    if (userSkill?.verified) {
+      await this.revokeVerification(userId, skillId, `Proficiency raised from ${previousLevel} to ${level}`, userId);
+    }
+
+    await this.evaluateSkill(userId, skillId, userId);
+  }
+
+  /**
+   * Ask a reviewer to verify a skill
+   */
+  static async requestReview(userId: string, skillId: string, input: VerificationRequestInput) {
+    const userSkill = await this.getUserSkill(userId, skillId);
+    if (userSkill.verified) {
+      throw new SkillVerificationError('This skill is already verified', 409);
+    }
+
+    const pending = await prisma.skillVerificationRequest.findFirst({
+      where: { userId, skillId, status: 'pending' },
+    });
+    if (pending) {
+      throw new SkillVerificationError('A verification request for this skill is already pending', 409);
+    }
+
+    const request = await prisma.skillVerificationRequest.create({
+      data: {
+        userId,
+        skillId,
+        evidenceUrl: input.evidenceUrl ?? null,
+        note: input.note ?? null,
+      },
+    });
+
+    await this.logEvent(userId, skillId, 'review_requested', { actorId: userId });
+
+    return request;
+  }
+
+  /**
+   * Pending verification requests for reviewers, oldest first
+   */
+  static async getPendingRequests(reviewerId: string) {
+    await this.assertReviewer(reviewerId);
+
+    return prisma.skillVerificationRequest.findMany({
+      where: { status: 'pending' },
+      include: {
+        user: { select: { id: true, username: true, avatarUrl: true } },
+        skill: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Approve or reject a pending verification request
+   */
+  static async reviewRequest(requestId: string, reviewerId: string, input: VerificationReviewInput) {
+    await this.assertReviewer(reviewerId);
+
+    const request = await prisma.skillVerificationRequest.findUnique({
+      where: { id: requestId },
+    });
+    if (!request) {
+      throw new SkillVerificationError('Verification request not found', 404);
+    }
+    if (request.status !== 'pending') {
+      throw new SkillVerificationError('Verification request has already been reviewed', 409);
+    }
+    if (request.userId === reviewerId) {
+      throw new SkillVerificationError('You cannot review your own verification request', 403);
+    }
+
+    // Conditional update so two reviewers cannot both decide the same request
+    const { count } = await prisma.skillVerificationRequest.updateMany({
+      where: { id: requestId, status: 'pending' },
+      data: {
+        status: input.approve ? 'approved' : 'rejected',
+        reviewerId,
+        reviewNote: input.note ?? null,
+        reviewedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      throw new SkillVerificationError('Verification request has already been reviewed', 409);
+    }
+
+    if (input.approve) {
+      const userSkill = await prisma.userSkill.findUnique({
+        where: { userId_skillId: { userId: request.userId, skillId: request.skillId } },
+      });
+      if (!userSkill) {
+        throw new SkillVerificationError('Skill is no longer in the user\'s profile', 409);
+      }
+
+      const evidence = await this.collectEvidence(request.userId, request.skillId, userSkill.proficiencyLevel);
+      await this.setVerified(request.userId, request.skillId, 'reviewer', evidence, reviewerId, input.note);
+    } else {
+      await this.logEvent(request.userId, request.skillId, 'review_rejected', {
+        actorId: reviewerId,
+        reason: input.note ?? null,
+      });
+    }
+
+    return prisma.skillVerificationRequest.findUnique({ where: { id: requestId } });
+  }
+
+  /**
+   * Audit trail of verification changes for a skill, newest first
+   */
+  static async getAuditTrail(userId: string, skillId: string) {
+    return prisma.skillVerificationEvent.findMany({
+      where: { userId, skillId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private static async collectEvidence(userId: string, skillId: string, level: number): Promise<VerificationEvidence> {
+    const [endorsements, taughtEvents] = await Promise.all([
+      prisma.skillEndorsement.findMany({
+        where: { endorseeId: userId, skillId },
+        select: { endorserId: true },
+      }),
+      prisma.skillProgressEvent.findMany({
+        where: { userId, skillId, eventType: 'session_taught', sessionId: { not: null } },
+        select: { sessionId: true },
+      }),
+    ]);
+
+    const endorserIds = endorsements.map((endorsement: any) => endorsement.endorserId);
+    const sessionIds = Array.from(new Set<string>(taughtEvents.map((event: any) => event.sessionId)));
+
+    const [qualifiedEndorsers, sessions] = await Promise.all([
+      endorserIds.length > 0
+        ? prisma.userSkill.count({
+          where: {
+            userId: { in: endorserIds },
+            skillId,
+            proficiencyLevel: { gte: getQualifyingEndorserLevel(level) },
+          },
+        })
+        : Promise.resolve(0),
+      sessionIds.length > 0
+        ? prisma.session.findMany({
+          where: { id: { in: sessionIds }, status: 'completed' },
+          select: { initiatorId: true, ratingInitiator: true, ratingPartner: true },
+        })
+        : Promise.resolve([]),
+    ]);
+
+    // The learner's rating is the one given by the other participant
+    const teachingSessions = sessions.filter((session: any) => {
+      const learnerRating = session.initiatorId === userId ? session.ratingPartner : session.ratingInitiator;
+      return (learnerRating ?? 0) >= SKILL_VERIFICATION_CONFIG.MIN_TEACHING_RATING;
+    }).length;
+
+    return { endorsements: qualifiedEndorsers, teachingSessions };
+  }
+
+  private static async setVerified(
+    userId: string,
+    skillId: string,
+    method: VerificationMethod,
+    evidence: VerificationEvidence,
+    actorId?: string,
+    reason?: string
+  ): Promise<void> {
+    await prisma.userSkill.update({
+      where: { userId_skillId: { userId, skillId } },
+      data: {
+        verified: true,
+        verifiedAt: new Date(),
+        verificationMethod: method,
+      },
+    });
+
+    await this.logEvent(userId, skillId, 'verified', {
+      method,
+      evidence,
+      actorId: actorId ?? null,
+      reason: reason ?? null,
+    });
+
+    broadcastToUser(userId, 'skill_verified', { skillId, method });
+  }
+
+  private static async revokeVerification(
+    userId: string,
+    skillId: string,
+    reason: string,
+    actorId?: string,
+    evidence?: VerificationEvidence
+  ): Promise<void> {
+    await prisma.userSkill.update({
+      where: { userId_skillId: { userId, skillId } },
+      data: {
+        verified: false,
+        verifiedAt: null,
+        verificationMethod: null,
+      },
+    });
+
+    await this.logEvent(userId, skillId, 'revoked', {
+      actorId: actorId ?? null,
+      evidence: evidence ?? null,
+      reason,
+    });
+  }
+
+  private static async logEvent(
+    userId: string,
+    skillId: string,
+    action: VerificationAction,
+    details: {
+      method?: VerificationMethod;
+      evidence?: VerificationEvidence | null;
+      actorId?: string | null;
+      reason?: string | null;
+    }
+  ): Promise<void> {
+    await prisma.skillVerificationEvent.create({
+      data: {
+        userId,
+        skillId,
+        action,
+        method: details.method ?? null,
+        evidence: details.evidence ?? undefined,
+        actorId: details.actorId ?? null,
+        reason: details.reason ?? null,
+      },
+    });
+  }
+
+  private static async getUserSkill(userId: string, skillId: string) {
+    const userSkill = await prisma.userSkill.findUnique({
+      where: { userId_skillId: { userId, skillId } },
+    });
+    if (!userSkill) {
+      throw new SkillVerificationError('Skill not found in your profile', 404);
+    }
+    return userSkill;
+  }
+
+  private static async assertReviewer(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { roles: true },
+    });
+    if (!user || !hasPermission(user.roles, 'skills:review')) {
+      throw new SkillVerificationError('Only skill reviewers can review verification requests', 403);
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import QRCode from 'qrcode';
+import prisma from '@/lib/prisma';
+import { DataEncryption } from '@/lib/security';
+import { verifyPassword } from '@/lib/auth';
+import { buildOtpauthUri, generateTotpSecret, verifyTotpCode } from '@/lib/totp';
+import {
+  TWO_FACTOR_CONFIG,
+  TwoFactorError,
+  generateRecoveryCodes,
+  looksLikeRecoveryCode,
+  normalizeRecoveryCode,
+} from '@/lib/two-factor';
+import { AccountSecurityService } from './account-security.service';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;         // for typing into the app by hand
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+export class TwoFactorService {
+  static async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const credential = await prisma.twoFactorCredential.findUnique({
+      where: { userId },
+    });
+
+    return {
+      enabled: !!credential?.enabledAt,
+      enabledAt: credential?.enabledAt ?? null,
+      recoveryCodesRemaining: credential?.enabledAt ? credential.recoveryCodes.length : 0,
+    };
+  }
+
+  static async isEnabled(userId: string): Promise<boolean> {
+    const credential = await prisma.twoFactorCredential.findUnique({
+      where: { userId },
+      select: { enabledAt: true },
+    });
+
+    return !!credential?.enabledAt;
+  }
+
+  /**
+   * Start enrollment with a fresh secret. Nothing changes for logins until
+   * the user confirms a code from their app.
+   */
+  static async beginEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, twoFactor: { select: { enabledAt: true } } },
+    });
+
+    if (!user) {
+      throw new TwoFactorError('User not found', 404);
+    }
+    if (user.twoFactor?.enabledAt) {
+      throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = generateTotpSecret();
+    const encryptedSecret = DataEncryption.encrypt(secret);
+
+    await prisma.twoFactorCredential.upsert({
+      where: { userId },
+      create: { userId, secret: encryptedSecret, recoveryCodes: [] },
+      update: { secret: encryptedSecret, enabledAt: null, lastUsedStep: null, recoveryCodes: [] },
+    });
+
+    const otpauthUri = buildOtpauthUri(secret, user.email, TWO_FACTOR_CONFIG.ISSUER);
+
+    return {
+      secret,
+      otpauthUri,
+      qrCodeDataUrl: await QRCode.toDataURL(otpauthUri),
+    };
+  }
+
+  /**
+   * Turn 2FA on once the user proves their app produces valid codes. The
+   * recovery codes are returned once and only their hashes are kept.
+   */
+  static async confirmEnrollment(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const credential = await prisma.twoFactorCredential.findUnique({
+      where: { userId },
+    });
+
+    if (!credential) {
+      throw new TwoFactorError('Start two-factor setup first', 404);
+    }
+    if (credential.enabledAt) {
+      throw new TwoFactorError('Two-factor authentication is already enabled', 409);
+    }
+
+    const step = verifyTotpCode(
+      DataEncryption.decrypt(credential.secret),
+      code,
+      TWO_FACTOR_CONFIG.CLOCK_DRIFT_WINDOW
+    );
+    if (step === null) {
+      throw new TwoFactorError('Invalid verification code');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await prisma.twoFactorCredential.update({
+      where: { userId },
+      data: {
+        enabledAt: new Date(),
+        lastUsedStep: step,
+        recoveryCodes: recoveryCodes.map(recoveryCode => DataEncryption.hash(normalizeRecoveryCode(recoveryCode))),
+      },
+    });
+    await AccountSecurityService.logEvent(userId, 'two_factor_enabled');
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a login code: a TOTP code from the app or an unused recovery code
+   */
+  static async verifyLoginCode(userId: string, code: string): Promise<{ method: 'totp' | 'recovery_code' }> {
+    const credential = await prisma.twoFactorCredential.findUnique({
+      where: { userId },
+    });
+
+    if (!credential?.enabledAt) {
+      throw new TwoFactorError('Two-factor authentication is not enabled', 409);
+    }
+
+    if (looksLikeRecoveryCode(code)) {
+      await this.consumeRecoveryCode(credential, code);
+      return { method: 'recovery_code' };
+    }
+
+    const step = verifyTotpCode(
+      DataEncryption.decrypt(credential.secret),
+      code,
+      TWO_FACTOR_CONFIG.CLOCK_DRIFT_WINDOW
+    );
+    if (step === null) {
+      throw new TwoFactorError('Invalid verification code', 401);
+    }
+
+    // Record the step so the same code can't be used twice, even concurrently
+    const claimed = await prisma.twoFactorCredential.updateMany({
+      where: {
+        id: credential.id,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+      },
+      data: { lastUsedStep: step },
+    });
+
+    if (claimed.count === 0) {
+      throw new TwoFactorError('This code has already been used, wait for the next one', 401);
+    }
+
+    return { method: 'totp' };
+  }
+
+  static async disable(userId: string, password: string): Promise<void> {
+    await this.requirePassword(userId, password);
+
+    const result = await prisma.twoFactorCredential.deleteMany({
+      where: { userId },
+    });
+
+    if (result.count === 0) {
+      throw new TwoFactorError('Two-factor authentication is not enabled', 409);
+    }
+
+    await AccountSecurityService.logEvent(userId, 'two_factor_disabled');
+  }
+
+  /**
+   * Replace every recovery code; the old ones stop working
+   */
+  static async regenerateRecoveryCodes(userId: string, password: string): Promise<{ recoveryCodes: string[] }> {
+    await this.requirePassword(userId, password);
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    const result = await prisma.twoFactorCredential.updateMany({
+      where: { userId, enabledAt: { not: null } },
+      data: {
+        recoveryCodes: recoveryCodes.map(recoveryCode => DataEncryption.hash(normalizeRecoveryCode(recoveryCode))),
+      },
+    });
+
+    if (result.count === 0) {
+      throw new TwoFactorError('Two-factor authentication is not enabled', 409);
+    }
+
+    await AccountSecurityService.logEvent(userId, 'recovery_codes_regenerated');
+
+    return { recoveryCodes };
+  }
+
+  private static async consumeRecoveryCode(
+    credential: { id: string; recoveryCodes: string[] },
+    code: string
+  ): Promise<void> {
+    const codeHash = DataEncryption.hash(normalizeRecoveryCode(code));
+    let recoveryCodes = credential.recoveryCodes;
+
+    for (let attempt = 0; attempt < TWO_FACTOR_CONFIG.RECOVERY_CODE_WRITE_ATTEMPTS; attempt++) {
+      if (!recoveryCodes.includes(codeHash)) {
+        throw new TwoFactorError('Invalid recovery code', 401);
+      }
+
+      // Conditional on the whole list being what we read, so a concurrent login
+      // spending another code can't have its code written back
+      const result = await prisma.twoFactorCredential.updateMany({
+        where: { id: credential.id, recoveryCodes: { equals: recoveryCodes } },
+        data: { recoveryCodes: recoveryCodes.filter(hash => hash !== codeHash) },
+      });
+
+      if (result.count > 0) {
+        return;
+      }
+
+      const current = await prisma.twoFactorCredential.findUnique({
+        where: { id: credential.id },
+        select: { recoveryCodes: true },
+      });
+      if (!current) {
+        throw new TwoFactorError('Invalid recovery code', 401);
+      }
+      recoveryCodes = current.recoveryCodes;
+    }
+
+    throw new TwoFactorError('Could not use the recovery code, please try again', 409);
+  }
+
+  private static async requirePassword(userId: string, password: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { passwordHash: true },
+    });
+
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      throw new TwoFactorError('Current password is incorrect', 403);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import prisma from '@/lib/prisma';
+import { FileUploadSecurity } from '@/lib/middleware';
+import { DataEncryption } from '@/lib/security';
+import { getStorageAdapter } from '@/lib/storage';
+import {
+  DownloadSignature,
+  UploadError,
+  createSignedDownloadPath,
+  isValidDownloadSignature,
+} from '@/lib/uploads';
+
+export interface IncomingFile {
+  name: string;
+  type: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface UploadOptions {
+  sessionId?: string;   // share with the other participant of this session
+  sensitive?: boolean;  // encrypt at rest
+}
+
+export interface UploadInfo {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  sessionId: string | null;
+  encrypted: boolean;
+  uploadedAt: Date;
+}
+
+interface UploadRecord {
+  id: string;
+  ownerId: string;
+  sessionId: string | null;
+  storageKey: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  encrypted: boolean;
+  createdAt: Date;
+}
+
+function toUploadInfo(upload: UploadRecord): UploadInfo {
+  return {
+    id: upload.id,
+    name: upload.originalName,
+    size: upload.size,
+    type: upload.mimeType,
+    sessionId: upload.sessionId,
+    encrypted: upload.encrypted,
+    uploadedAt: upload.createdAt,
+  };
+}
+
+export class UploadService {
+  /**
+   * Validate, scan and store a file, then record it
+   */
+  static async upload(ownerId: string, file: IncomingFile, options: UploadOptions = {}): Promise<UploadInfo> {
+    const validation = FileUploadSecurity.validateUploadedFile(file);
+    if (!validation.isValid) {
+      throw new UploadError(validation.securityViolation || validation.errors?.join(', ') || 'Invalid file');
+    }
+
+    const scan = await FileUploadSecurity.scanFileForMalware(file.buffer);
+    if (!scan.isSafe) {
+      console.warn(`Malware detected in file upload from user ${ownerId}:`, scan.threats);
+      throw new UploadError('File contains potentially malicious content');
+    }
+
+    if (options.sessionId && !(await this.isSessionParticipant(options.sessionId, ownerId))) {
+      throw new UploadError('You can only share files in your own sessions', 403);
+    }
+
+    const encrypted = options.sensitive === true || file.type === 'text/plain';
+    const content = encrypted
+      ? Buffer.from(DataEncryption.encrypt(file.buffer.toString('base64')))
+      : file.buffer;
+
+    // Random name, so nothing about the original filename reaches the storage backend
+    const extension = path.extname(file.name).toLowerCase();
+    const storageKey = `uploads/${ownerId}/${randomBytes(16).toString('hex')}${extension}`;
+    const storage = getStorageAdapter();
+
+    await storage.put(storageKey, content, {
+      contentType: encrypted ? 'application/octet-stream' : file.type,
+    });
+
+    try {
+      const upload = await prisma.upload.create({
+        data: {
+          ownerId,
+          sessionId: options.sessionId ?? null,
+          storageDriver: storage.name,
+          storageKey,
+          originalName: file.name,
+          mimeType: file.type,
+          size: file.size,
+          sha256: createHash('sha256').update(file.buffer).digest('hex'),
+          encrypted,
+        },
+      });
+
+      return toUploadInfo(upload);
+    } catch (error) {
+      // Don't leave an orphaned object behind
+      await storage.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Short-lived download link for a file the user may see
+   */
+  static async createDownloadUrl(uploadId: string, userId: string): Promise<{ url: string; expiresAt: Date; file: UploadInfo }> {
+    const upload = await this.findAccessibleUpload(uploadId, userId);
+    const { path: url, expiresAt } = createSignedDownloadPath(upload.id, userId);
+
+    return { url, expiresAt, file: toUploadInfo(upload) };
+  }
+
+  /**
+   * Content behind a signed link. Access is checked again, so a link stops
+   * working if the user is no longer part of the session.
+   */
+  static async openSignedDownload(
+    uploadId: string,
+    signature: DownloadSignature
+  ): Promise<{ file: UploadInfo; content: Buffer }> {
+    if (!isValidDownloadSignature(uploadId, signature)) {
+      throw new UploadError('Download link is invalid or has expired', 403);
+    }
+
+    const upload = await this.findAccessibleUpload(uploadId, signature.uid);
+
+    const stored = await getStorageAdapter().get(upload.storageKey);
+    if (!stored) {
+      throw new UploadError('File not found', 404);
+    }
+
+    const content = upload.encrypted
+      ? Buffer.from(DataEncryption.decrypt(stored.toString()), 'base64')
+      : stored;
+
+    return { file: toUploadInfo(upload), content };
+  }
+
+  private static async findAccessibleUpload(uploadId: string, userId: string): Promise<UploadRecord> {
+    const upload = await prisma.upload.findUnique({ where: { id: uploadId } });
+
+    // Same answer for missing and forbidden files, so IDs can't be probed
+    if (!upload || !(await this.canAccess(upload, userId))) {
+      throw new UploadError('File not found', 404);
+    }
+
+    return upload;
+  }
+
+  private static async canAccess(upload: UploadRecord, userId: string): Promise<boolean> {
+    if (upload.ownerId === userId) {
+      return true;
+    }
+    return upload.sessionId ? this.isSessionParticipant(upload.sessionId, userId) : false;
+  }
+
+  private static async isSessionParticipant(sessionId: string, userId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { initiatorId: true, partnerId: true },
+    });
+
+    return !!session && (session.initiatorId === userId || session.partnerId === userId);
+  }
+}
@@ -1,11 +1,14 @@
 // Common types used throughout the application
 
+// Members are everyone; moderators and admins also get the permissions in lib/permissions
+export type UserRole = 'member' | 'mentor' | 'moderator' | 'admin';
+
 export interface User {
   id: string;
   email: string;
   name: string;
   avatar?: string;
-  role: 'student' | 'mentor' | 'admin';
+  roles: UserRole[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -118,6 +121,7 @@ export type LoadingState = 'idle' | 'loading' | 'success' | 'error';
 export interface LoginRequest {
   email: string;
   password: string;
+  timezone?: string; // browser timezone, for suspicious login detection
 }
 
 export interface RegisterRequest {
@@ -128,18 +132,25 @@ export interface RegisterRequest {
 }
 
 export interface AuthResponse {
-  user: {
-    id: string;
-    email: string;
-    username: string;
-    isVerified: boolean;
-    avatarUrl?: string | null;
-    timezone: string;
-  };
+  user: AuthUser;
   accessToken: string;
   refreshToken: string;
 }
 
+// Returned by login instead of tokens when the account has 2FA enabled
+export interface TwoFactorChallengeResponse {
+  requiresTwoFactor: true;
+  challengeToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code: string;
+  timezone?: string;
+}
+
 export interface RefreshTokenRequest {
   refreshToken: string;
 }
@@ -157,6 +168,7 @@ export interface JWTPayload {
   userId: string;
   email: string;
   username: string;
+  roles: UserRole[];
   iat: number;
   exp: number;
 }
@@ -168,6 +180,7 @@ export interface AuthUser {
   isVerified: boolean;
   avatarUrl?: string | null;
   timezone: string;
+  roles: UserRole[];
 }
 
 // User Profile Management Types
@@ -198,6 +211,19 @@ export interface UserSkill {
   proficiencyLevel: 1 | 2 | 3 | 4 | 5;
   verified: boolean;
   endorsements: number;
+  endorsedBy?: SkillEndorsement[];
+  createdAt: Date;
+}
+
+export interface SkillEndorsement {
+  id: string;
+  skillId: string;
+  sessionId: string;
+  endorser: {
+    id: string;
+    username: string;
+    avatarUrl?: string | null;
+  };
   createdAt: Date;
 }
 
@@ -227,10 +253,19 @@ export interface UserPreference {
   communicationStyle: 'formal' | 'casual' | 'balanced';
   availabilitySchedule: AvailabilitySchedule;
   languagePreferences: string[];
+  matchingImportance?: MatchingImportance | null;
+  sameLanguageOnly?: boolean;
+  maxTimezoneGapHours?: number | null;
+  verifiedSkillsOnly?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type MatchingFactor = 'skill' | 'timezone' | 'availability' | 'communication' | 'sessionHistory';
+
+// How much each matching factor matters to the user, 1 (barely) to 5 (most)
+export type MatchingImportance = Partial<Record<MatchingFactor, number>>;
+
 export interface AvailabilitySchedule {
   [key: string]: TimeSlot[];
   monday: TimeSlot[];
@@ -319,6 +354,10 @@ export interface UpdatePreferencesRequest {
   communicationStyle?: 'formal' | 'casual' | 'balanced';
   availabilitySchedule?: AvailabilitySchedule;
   languagePreferences?: string[];
+  matchingImportance?: MatchingImportance | null;
+  sameLanguageOnly?: boolean;
+  maxTimezoneGapHours?: number | null;
+  verifiedSkillsOnly?: boolean;
 }
 
 // Profile Completion Status